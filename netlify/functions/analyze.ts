@@ -0,0 +1,86 @@
+import { Handler } from '@netlify/functions';
+import { authenticate, getLLM, jsonResponse } from '../lib/gateway';
+import {
+  trainPersona,
+  summarizeWebPage,
+  describeAppearance,
+  synthesizePersonaPlan,
+  analyzeContent,
+  describeImage,
+  analyzeEmotion,
+  MAX_EMBED_BATCH
+} from '../../src/lib/contentAnalysis';
+import type { AnalysisRequest } from '../../src/lib/conversationGateway';
+
+// Content and messages past this are cut before they reach the model
+const MAX_CONTENT_CHARS = 20000;
+
+// Page text past this is cut — the browser already trims pages before sending them
+const MAX_PAGE_CHARS = 8000;
+
+// ✅ Model work on uploaded material — memory extraction, embeddings, training, page summaries,
+// visual persona analysis — behind
+// the same session check as the conversation gateway, so the provider key never reaches the client
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, { ok: true });
+  }
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const caller = await authenticate(event);
+  if (!caller) {
+    return jsonResponse(401, { error: 'Not authenticated' });
+  }
+
+  const llm = getLLM();
+  if (!llm) {
+    return jsonResponse(500, { error: 'LLM provider not configured' });
+  }
+
+  let request: AnalysisRequest;
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch {
+    return jsonResponse(400, { error: 'Invalid JSON body' });
+  }
+
+  try {
+    switch (request.task) {
+      case 'persona_training':
+        if (!request.personaId) return jsonResponse(400, { error: 'Missing personaId' });
+        return jsonResponse(200, { ...await trainPersona(caller.db, llm, request.personaId) });
+      case 'summarize_page':
+        if (!request.text) return jsonResponse(400, { error: 'Missing text' });
+        return jsonResponse(200, { text: await summarizeWebPage(llm, request.text.slice(0, MAX_PAGE_CHARS)) });
+      case 'describe_appearance':
+        if (!/^(data:image\/|https:\/\/)/.test(request.image || '')) return jsonResponse(400, { error: 'Missing image' });
+        return jsonResponse(200, { text: await describeAppearance(llm, request.image) });
+      case 'synthesize_persona':
+        if (!request.features) return jsonResponse(400, { error: 'Missing features' });
+        return jsonResponse(200, { text: await synthesizePersonaPlan(llm, request.features) });
+      case 'extract_content':
+        if (!request.text) return jsonResponse(400, { error: 'Missing text' });
+        return jsonResponse(200, { ...await analyzeContent(llm, request.text.slice(0, MAX_CONTENT_CHARS)) });
+      case 'extract_image':
+        if (!/^https?:\/\//.test(request.url || '')) return jsonResponse(400, { error: 'Missing url' });
+        return jsonResponse(200, { ...await analyzeContent(llm, await describeImage(llm, request.url)) });
+      case 'embed': {
+        const texts = Array.isArray(request.texts) ? request.texts : [];
+        if (texts.length === 0 || texts.length > MAX_EMBED_BATCH || texts.some(t => typeof t !== 'string')) {
+          return jsonResponse(400, { error: `Send 1 to ${MAX_EMBED_BATCH} texts` });
+        }
+        return jsonResponse(200, { embeddings: await Promise.all(texts.map(t => llm.embed(t.slice(0, MAX_CONTENT_CHARS)))) });
+      }
+      case 'analyze_emotion':
+        if (!request.text) return jsonResponse(400, { error: 'Missing text' });
+        return jsonResponse(200, { ...await analyzeEmotion(llm, request.text.slice(0, MAX_CONTENT_CHARS)) });
+      default:
+        return jsonResponse(400, { error: 'Unknown task' });
+    }
+  } catch (error) {
+    console.error('Analysis function error:', error);
+    return jsonResponse(500, { error: 'Analysis failed' });
+  }
+};
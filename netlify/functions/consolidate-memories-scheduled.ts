@@ -0,0 +1,41 @@
+import { schedule } from '@netlify/functions';
+import { getLLM, getServiceDb } from '../lib/gateway';
+import { consolidatePersonaMemories } from '../../src/lib/memoryConsolidation';
+
+// Personas per run — scheduled functions have a short time limit, so the backlog is worked
+// through a few at a time, least recently consolidated first
+const BATCH_SIZE = 10;
+
+// ✅ Runs every night at 4am UTC
+export const handler = schedule('0 4 * * *', async () => {
+  const db = getServiceDb();
+  if (!db) {
+    console.error('Memory consolidation skipped: SUPABASE_SERVICE_ROLE_KEY not configured');
+    return { statusCode: 500, body: 'Service role not configured' };
+  }
+  const llm = getLLM();
+
+  const { data: personas, error } = await db
+    .from('personas')
+    .select('id')
+    .order('memories_consolidated_at', { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('Error loading personas for consolidation:', error);
+    return { statusCode: 500, body: 'Could not load personas' };
+  }
+
+  let merged = 0;
+  for (const persona of personas || []) {
+    try {
+      const result = await consolidatePersonaMemories(db, llm, persona.id, { trigger: 'scheduled' });
+      merged += result.memoriesBefore - result.memoriesAfter;
+    } catch (personaError) {
+      console.error(`Error consolidating memories for persona ${persona.id}:`, personaError);
+    }
+  }
+
+  console.log(`Consolidated ${personas?.length || 0} personas, merged ${merged} duplicate memories`);
+  return { statusCode: 200, body: `Merged ${merged} duplicates` };
+});
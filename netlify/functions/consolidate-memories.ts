@@ -0,0 +1,32 @@
+import { Handler } from '@netlify/functions';
+import { authenticate, getLLM, jsonResponse } from '../lib/gateway';
+import { consolidatePersonaMemories } from '../../src/lib/memoryConsolidation';
+
+// ✅ Per-persona memory clean-up, run from the Memory Bank. RLS limits the caller to
+// personas they own, so a foreign persona id simply finds no memories.
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, { ok: true });
+  }
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const caller = await authenticate(event);
+  if (!caller) {
+    return jsonResponse(401, { error: 'Not authenticated' });
+  }
+
+  try {
+    const { personaId } = JSON.parse(event.body || '{}');
+    if (!personaId) {
+      return jsonResponse(400, { error: 'Missing personaId' });
+    }
+
+    const result = await consolidatePersonaMemories(caller.db, getLLM(), personaId, { trigger: 'manual' });
+    return jsonResponse(200, { ...result });
+  } catch (error) {
+    console.error('Memory consolidation error:', error);
+    return jsonResponse(500, { error: 'Memory consolidation failed' });
+  }
+};
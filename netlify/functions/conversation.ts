@@ -0,0 +1,385 @@
+import { stream } from '@netlify/functions';
+import { authenticate, getLLM, jsonResponse, sseResponse, SendEvent, AuthenticatedCaller } from '../lib/gateway';
+import { getSessionEngine, endSessionEngine } from '../lib/sessions';
+import type { LLMProvider, LLMMessage, LLMRequestOptions } from '../../src/lib/llmProvider';
+import { screenMessage, SafetyIntervention } from '../lib/safety';
+import { resolveGriefPhase } from '../../src/lib/griefPhase';
+import { buildHavenSystemPrompt, buildHavenMemoryPrompt } from '../../src/lib/havenPrompt';
+import {
+  formatKeepsakeMemories,
+  buildLegacyLetterPrompt,
+  buildSurpriseMessagePrompt,
+  buildVoiceNotePrompt
+} from '../../src/lib/keepsakePrompts';
+import { buildConversationStarters } from '../../src/lib/conversationStarters';
+import { buildConversationRecap } from '../../src/lib/conversationRecap';
+import type { GatewayRequest, ChatTurn } from '../../src/lib/conversationGateway';
+
+// Conversation ids that don't look like one are ignored rather than rejected — the turn still works
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ✅ Single authenticated entry point for every AI conversation in the app.
+// Prompts are built here from the caller's own data; tokens stream back over SSE.
+export const handler = stream(async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, { ok: true });
+  }
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const caller = await authenticate(event);
+  if (!caller) {
+    return jsonResponse(401, { error: 'Not authenticated' });
+  }
+
+  const llm = getLLM();
+  if (!llm) {
+    return jsonResponse(500, { error: 'LLM provider not configured' });
+  }
+
+  let request: GatewayRequest;
+  try {
+    request = JSON.parse(event.body || '{}');
+  } catch {
+    return jsonResponse(400, { error: 'Invalid JSON body' });
+  }
+
+  switch (request.task) {
+    case 'persona_greeting':
+    case 'persona_reply':
+      return sseResponse((send) => handlePersona(request, caller, llm, send));
+    case 'haven_reply':
+      return sseResponse((send) => handleHavenReply(request, caller, llm, send));
+    case 'haven_memory':
+      return sseResponse((send) => handleHavenMemory(request, caller, llm, send));
+    case 'legacy_letter':
+    case 'surprise_message':
+    case 'voice_note':
+      return sseResponse((send) => handleKeepsake(request, caller, llm, send));
+    case 'safety_check':
+      return sseResponse((send) => handleSafetyCheck(request, caller, llm, send));
+    case 'conversation_starters':
+      return sseResponse((send) => handleConversationStarters(request, caller, llm, send));
+    case 'conversation_recap':
+      return sseResponse((send) => handleConversationRecap(request, caller, llm, send));
+    default:
+      return jsonResponse(400, { error: 'Unknown task' });
+  }
+});
+
+async function streamCompletion(
+  llm: LLMProvider,
+  messages: LLMMessage[],
+  options: LLMRequestOptions,
+  send: SendEvent
+): Promise<string> {
+  let text = '';
+  for await (const delta of llm.stream(messages, options)) {
+    text += delta;
+    send('token', { delta });
+  }
+  return text;
+}
+
+// ✅ Flagged turns never reach the model — the scripted reply goes out as the whole response
+function sendIntervention(intervention: SafetyIntervention, send: SendEvent): void {
+  send('safety', {
+    level: intervention.assessment.level,
+    resources: intervention.resources,
+    trustedContactNotified: intervention.trustedContactNotified
+  });
+  send('done', { text: intervention.response });
+}
+
+async function handlePersona(
+  request: Extract<GatewayRequest, { task: 'persona_greeting' | 'persona_reply' }>,
+  caller: AuthenticatedCaller,
+  llm: LLMProvider,
+  send: SendEvent
+): Promise<void> {
+  const engine = getSessionEngine(caller, llm, {
+    timezoneOffset: request.task === 'persona_reply' ? request.timezoneOffset : undefined,
+    conversationId: UUID_PATTERN.test(request.conversationId || '') ? request.conversationId : null
+  });
+
+  if (request.task === 'persona_greeting') {
+    const { text, citations } = await engine.generateMemoryEnhancedResponse(request.personaId, '__greeting__', []);
+    send('citations', { ...citations });
+    send('done', { text });
+    await engine.settle(request.personaId);
+    return;
+  }
+
+  const intervention = await screenMessage(caller, llm, {
+    message: request.message,
+    surface: request.surface || 'facetime',
+    personaId: request.personaId
+  });
+  if (intervention) {
+    sendIntervention(intervention, send);
+    return;
+  }
+
+  const history = sanitizeHistory(request.history);
+  // Runs alongside the reply; only turns that sound like pushback reach the model
+  const correction = engine.detectCorrection(request.personaId, request.message, history);
+
+  const { text, citations } = await engine.generateStreamingResponse(
+    request.personaId,
+    request.message,
+    history,
+    (sentence) => send('sentence', { sentence }),
+    (delta) => send('token', { delta })
+  );
+
+  if (request.debugRetrieval) {
+    send('retrieval', {
+      memories: engine.lastRetrieval.map(m => ({
+        id: m.id,
+        content: m.content,
+        memoryType: m.memory_type,
+        scores: m.retrieval
+      }))
+    });
+  }
+
+  send('citations', { ...citations });
+
+  const proposal = await correction;
+  if (proposal) send('correction', { ...proposal });
+
+  const usage = engine.lastUsageCheck;
+  if (usage?.windDown) {
+    send('wellbeing', { signals: usage.signals, suggestHaven: usage.suggestHaven });
+  }
+  send('done', { text });
+
+  // ✅ The client resolves on `done`; fact extraction and the summary update finish here
+  // before the stream closes so the function is not frozen mid-write
+  await engine.settle(request.personaId);
+}
+
+async function handleHavenReply(
+  request: Extract<GatewayRequest, { task: 'haven_reply' }>,
+  caller: AuthenticatedCaller,
+  llm: LLMProvider,
+  send: SendEvent
+): Promise<void> {
+  const { db, userId } = caller;
+
+  const intervention = await screenMessage(caller, llm, {
+    message: request.message,
+    surface: 'haven',
+    personaId: request.personaId
+  });
+  if (intervention) {
+    sendIntervention(intervention, send);
+    return;
+  }
+
+  const [{ data: profile }, { data: memoryData }, personaResult] = await Promise.all([
+    db.from('profiles').select('full_name').eq('user_id', userId).maybeSingle(),
+    db.from('haven_memory')
+      .select('content')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    request.personaId
+      ? db.from('personas')
+          .select('name, relationship, date_of_passing, grief_phase')
+          .eq('id', request.personaId)
+          .maybeSingle()
+      : Promise.resolve({ data: null })
+  ]);
+
+  const persona = personaResult.data;
+  const griefContext = persona
+    ? `Persona: ${persona.name} (${persona.relationship})${persona.date_of_passing ? `, passed ${persona.date_of_passing}` : ''}`
+    : '';
+
+  const systemPrompt = buildHavenSystemPrompt(
+    persona?.name || null,
+    griefContext,
+    memoryData?.content || '',
+    profile?.full_name?.split(' ')[0] || 'friend'
+  );
+
+  const text = await streamCompletion(llm, [
+    { role: 'system', content: systemPrompt },
+    ...sanitizeHistory(request.history),
+    { role: 'user', content: request.message }
+  ], { task: 'reply', temperature: 0.75, maxTokens: 200 }, send);
+
+  send('done', { text: text || "I'm here. Take your time." });
+}
+
+async function handleHavenMemory(
+  request: Extract<GatewayRequest, { task: 'haven_memory' }>,
+  caller: AuthenticatedCaller,
+  llm: LLMProvider,
+  send: SendEvent
+): Promise<void> {
+  const { db, userId } = caller;
+
+  const { data: memoryData } = await db
+    .from('haven_memory')
+    .select('content')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const conversation = sanitizeHistory(request.messages)
+    .map(m => `${m.role === 'user' ? 'THEM' : 'HAVEN'}: ${m.content}`)
+    .join('\n');
+
+  const newMemory = await llm.chat(
+    [{ role: 'user', content: buildHavenMemoryPrompt(memoryData?.content || '', conversation) }],
+    { task: 'summarization', maxTokens: 400, temperature: 0.1 }
+  );
+  if (newMemory) {
+    await db
+      .from('haven_memory')
+      .upsert({
+        user_id: userId,
+        content: newMemory,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+  }
+
+  send('done', { text: newMemory });
+}
+
+async function handleKeepsake(
+  request: Extract<GatewayRequest, { task: 'legacy_letter' | 'surprise_message' | 'voice_note' }>,
+  caller: AuthenticatedCaller,
+  llm: LLMProvider,
+  send: SendEvent
+): Promise<void> {
+  const { db, userId } = caller;
+
+  const { data: persona } = await db.from('personas').select('*').eq('id', request.personaId).maybeSingle();
+  if (!persona) throw new Error('Persona not found');
+
+  const { data: memories } = await db
+    .from('persona_memories')
+    .select('content, memory_type, importance')
+    .eq('persona_id', request.personaId)
+    // Keepsakes are sent to family — only memories someone has confirmed
+    .eq('review_status', 'approved')
+    .order('importance', { ascending: false })
+    .limit(request.task === 'voice_note' ? 10 : 15);
+
+  const memoryContext = formatKeepsakeMemories(memories);
+  const messages: LLMMessage[] = [];
+  let maxTokens = 200;
+
+  switch (request.task) {
+    case 'legacy_letter':
+      messages.push({
+        role: 'system',
+        content: buildLegacyLetterPrompt(persona, memoryContext, request.recipientName, request.occasionLabel, request.customContext)
+      });
+      maxTokens = 300;
+      break;
+    case 'surprise_message':
+      messages.push({
+        role: 'system',
+        content: buildSurpriseMessagePrompt(persona, memoryContext, request.recipientName, request.occasionPrompt, request.customContext)
+      });
+      break;
+    case 'voice_note': {
+      const { phase } = await resolveGriefPhase(db, request.personaId, userId, persona.date_of_passing ?? null);
+      messages.push(
+        { role: 'system', content: buildVoiceNotePrompt(persona, memoryContext, phase) },
+        { role: 'user', content: request.moodPrompt }
+      );
+      break;
+    }
+  }
+
+  const text = await streamCompletion(llm, messages, { task: 'reply', temperature: 0.85, maxTokens }, send);
+
+  send('done', { text });
+}
+
+async function handleSafetyCheck(
+  request: Extract<GatewayRequest, { task: 'safety_check' }>,
+  caller: AuthenticatedCaller,
+  llm: LLMProvider,
+  send: SendEvent
+): Promise<void> {
+  const intervention = await screenMessage(caller, llm, {
+    message: request.message,
+    surface: request.surface,
+    personaId: request.personaId
+  });
+  if (intervention) {
+    sendIntervention(intervention, send);
+    return;
+  }
+  send('done', { text: '' });
+}
+
+async function handleConversationStarters(
+  request: Extract<GatewayRequest, { task: 'conversation_starters' }>,
+  caller: AuthenticatedCaller,
+  llm: LLMProvider,
+  send: SendEvent
+): Promise<void> {
+  const { db, userId } = caller;
+
+  const { data: persona } = await db
+    .from('personas')
+    .select('name, date_of_passing')
+    .eq('id', request.personaId)
+    .maybeSingle();
+  if (!persona) throw new Error('Persona not found');
+
+  const starters = await buildConversationStarters(db, llm, {
+    userId,
+    personaId: request.personaId,
+    personaName: persona.name,
+    dateOfPassing: persona.date_of_passing ?? null
+  });
+
+  send('starters', { starters });
+  send('done', { text: '' });
+}
+
+async function handleConversationRecap(
+  request: Extract<GatewayRequest, { task: 'conversation_recap' }>,
+  caller: AuthenticatedCaller,
+  llm: LLMProvider,
+  send: SendEvent
+): Promise<void> {
+  const { db, userId } = caller;
+
+  const { data: persona } = await db
+    .from('personas')
+    .select('name, user_id')
+    .eq('id', request.personaId)
+    .maybeSingle();
+  if (!persona) throw new Error('Persona not found');
+
+  const recap = await buildConversationRecap(db, llm, {
+    conversationId: request.conversationId,
+    userId,
+    personaId: request.personaId,
+    personaName: persona.name,
+    isOwner: persona.user_id === userId
+  });
+
+  endSessionEngine(caller, request.conversationId);
+  if (recap) send('recap', { ...recap });
+  send('done', { text: recap?.summary || '' });
+}
+
+// Clients only get to contribute user/assistant turns — never a system message
+function sanitizeHistory(history: ChatTurn[] | undefined): ChatTurn[] {
+  return (history || [])
+    .filter(m => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+    .slice(-40);
+}
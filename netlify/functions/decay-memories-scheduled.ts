@@ -0,0 +1,16 @@
+import { schedule } from '@netlify/functions';
+import { getServiceDb } from '../lib/gateway';
+import { decayIdleMemories } from '../../src/lib/memoryImportance';
+
+// ✅ Runs every night at 4:30am UTC, after consolidation has merged the night's duplicates
+export const handler = schedule('30 4 * * *', async () => {
+  const db = getServiceDb();
+  if (!db) {
+    console.error('Memory decay skipped: SUPABASE_SERVICE_ROLE_KEY not configured');
+    return { statusCode: 500, body: 'Service role not configured' };
+  }
+
+  const faded = await decayIdleMemories(db);
+  console.log(`Faded ${faded} memories nobody has recalled lately`);
+  return { statusCode: 200, body: `Faded ${faded} memories` };
+});
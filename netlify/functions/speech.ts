@@ -0,0 +1,45 @@
+import { Handler } from '@netlify/functions';
+import { authenticate, getLLM, jsonResponse } from '../lib/gateway';
+
+// The speech endpoints reject longer input
+const MAX_SPEECH_CHARS = 4096;
+
+// ✅ Text-to-speech through the configured provider (LLM_MODEL_SPEECH), behind the same session
+// check as the conversation gateway. Audio comes back base64-encoded MP3.
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, { ok: true });
+  }
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const caller = await authenticate(event);
+  if (!caller) {
+    return jsonResponse(401, { error: 'Not authenticated' });
+  }
+
+  const llm = getLLM();
+  if (!llm) {
+    return jsonResponse(500, { error: 'LLM provider not configured' });
+  }
+
+  try {
+    const { text, voice, speed } = JSON.parse(event.body || '{}');
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return jsonResponse(400, { error: 'Missing text' });
+    }
+
+    const audio = await llm.speak(text.slice(0, MAX_SPEECH_CHARS), {
+      voice: typeof voice === 'string' ? voice : undefined,
+      speed: typeof speed === 'number' ? speed : undefined
+    });
+
+    return jsonResponse(200, { audio: Buffer.from(audio).toString('base64'), mimeType: 'audio/mpeg' });
+
+  } catch (error) {
+    console.error('Speech function error:', error);
+    return jsonResponse(500, { error: 'Speech generation failed' });
+  }
+};
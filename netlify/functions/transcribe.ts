@@ -0,0 +1,43 @@
+import { Handler } from '@netlify/functions';
+import { authenticate, getLLM, jsonResponse } from '../lib/gateway';
+
+// ✅ Transcription behind the same session check as the conversation gateway, through the
+// configured provider (LLM_PROVIDER, LLM_MODEL_TRANSCRIPTION)
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return jsonResponse(200, { ok: true });
+  }
+  if (event.httpMethod !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const caller = await authenticate(event);
+  if (!caller) {
+    return jsonResponse(401, { error: 'Not authenticated' });
+  }
+
+  const llm = getLLM();
+  if (!llm) {
+    return jsonResponse(500, { error: 'LLM provider not configured' });
+  }
+
+  try {
+    const { audio, filename, mimeType, language } = JSON.parse(event.body || '{}');
+
+    if (!audio) {
+      return jsonResponse(400, { error: 'Missing audio' });
+    }
+
+    const text = await llm.transcribe({
+      data: Buffer.from(audio, 'base64'),
+      filename: filename || 'recording.mp4',
+      mimeType: mimeType || 'audio/mp4'
+    }, { language: typeof language === 'string' ? language : undefined });
+
+    return jsonResponse(200, { text });
+
+  } catch (error) {
+    console.error('Transcription function error:', error);
+    return jsonResponse(500, { error: 'Transcription failed' });
+  }
+};
@@ -0,0 +1,120 @@
+import type { HandlerEvent, StreamingResponse } from '@netlify/functions';
+import { PassThrough } from 'node:stream';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createLLMProvider, llmConfigFromEnv, LLMProvider } from '../../src/lib/llmProvider';
+
+// Shared helpers for the server-side AI gateway functions (conversation, transcribe).
+// OPENAI_API_KEY is deliberately not VITE_-prefixed so Vite never inlines it into the client bundle.
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.VITE_SUPABASE_ANON_KEY;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+export interface AuthenticatedCaller {
+  userId: string;
+  // Supabase client that acts as the caller, so every query goes through RLS
+  db: SupabaseClient;
+}
+
+export function jsonResponse(statusCode: number, body: Record<string, unknown>) {
+  return {
+    statusCode,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  };
+}
+
+// Tokens already checked with Supabase Auth, so a conversation's every turn doesn't pay for a
+// getUser round trip. Entries expire with the token, and after a few minutes at most so a
+// signed-out session stops working soon after.
+const VERIFIED_TOKEN_TTL_MS = 1000 * 60 * 5;
+const verifiedTokens = new Map<string, { userId: string; expiresAt: number }>();
+
+function tokenExpiry(token: string): number {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export async function authenticate(event: HandlerEvent): Promise<AuthenticatedCaller | null> {
+  const header = event.headers.authorization || event.headers.Authorization || '';
+  const token = header.replace(/^Bearer\s+/i, '');
+  if (!token || !supabaseUrl || !supabaseKey) return null;
+
+  const db = createClient(supabaseUrl, supabaseKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+
+  const now = Date.now();
+  const cached = verifiedTokens.get(token);
+  if (cached && cached.expiresAt > now) return { userId: cached.userId, db };
+
+  const { data: { user }, error } = await db.auth.getUser(token);
+  if (error || !user) return null;
+
+  for (const [key, entry] of verifiedTokens) {
+    if (entry.expiresAt <= now) verifiedTokens.delete(key);
+  }
+  verifiedTokens.set(token, {
+    userId: user.id,
+    expiresAt: Math.min(tokenExpiry(token), now + VERIFIED_TOKEN_TTL_MS)
+  });
+
+  return { userId: user.id, db };
+}
+
+// Scheduled jobs have no caller to act as, so they use the service role and bypass RLS.
+// Only background functions may call this — never hand this client a user-supplied id unchecked.
+export function getServiceDb(): SupabaseClient | null {
+  if (!supabaseUrl || !serviceRoleKey) return null;
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
+
+// Every model call — chat, embeddings, transcription, speech — goes through the configured
+// provider (LLM_PROVIDER, LLM_MODEL_<TASK>)
+export function getLLM(): LLMProvider | null {
+  const config = llmConfigFromEnv(process.env);
+  return config ? createLLMProvider(config) : null;
+}
+
+export type SendEvent = (event: string, data: Record<string, unknown>) => void;
+
+// Wraps an async producer in an SSE response. The response is returned straight away so
+// headers flush; errors are reported as an `error` event because the 200 is already sent.
+export function sseResponse(producer: (send: SendEvent) => Promise<void>): StreamingResponse {
+  const body = new PassThrough();
+
+  const send: SendEvent = (event, data) => {
+    body.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  producer(send)
+    .catch((error) => {
+      console.error('Gateway stream error:', error);
+      send('error', { error: 'Response generation failed' });
+    })
+    .finally(() => body.end());
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    },
+    body
+  };
+}
@@ -0,0 +1,115 @@
+import type { AuthenticatedCaller } from './gateway';
+import type { LLMProvider } from '../../src/lib/llmProvider';
+import {
+  classifySafety,
+  getCrisisResources,
+  buildSafetyResponse,
+  SafetyAssessment,
+  SafetySurface,
+  CrisisResource
+} from '../../src/lib/safety';
+
+const accountSid = process.env.VITE_TWILIO_ACCOUNT_SID;
+const authToken = process.env.VITE_TWILIO_AUTH_TOKEN;
+const fromNumber = process.env.VITE_TWILIO_PHONE_NUMBER;
+
+// A trusted contact hears from us at most once a day, however many turns get flagged
+const CONTACT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+export interface SafetyIntervention {
+  assessment: SafetyAssessment;
+  resources: CrisisResource[];
+  response: string;
+  trustedContactNotified: boolean;
+}
+
+// Screens one user turn. Returns null when the conversation can carry on normally; otherwise
+// records a safety event, notifies the opted-in trusted contact on crisis, and returns the
+// scripted reply the caller should send instead of generating one.
+export async function screenMessage(
+  caller: AuthenticatedCaller,
+  llm: LLMProvider | null,
+  params: { message: string; surface: SafetySurface; personaId?: string | null }
+): Promise<SafetyIntervention | null> {
+  const assessment = await classifySafety(params.message, llm);
+  if (assessment.level === 'none') return null;
+
+  const { db, userId } = caller;
+  const { data: profile } = await db
+    .from('profiles')
+    .select('full_name, country, trusted_contact_name, trusted_contact_phone, trusted_contact_opt_in')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  let trustedContactNotified = false;
+  if (assessment.level === 'crisis' && profile?.trusted_contact_opt_in && profile.trusted_contact_phone) {
+    const { data: recent } = await db
+      .from('safety_events')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('trusted_contact_notified', true)
+      .gte('created_at', new Date(Date.now() - CONTACT_COOLDOWN_MS).toISOString())
+      .limit(1);
+
+    if (!recent || recent.length === 0) {
+      const firstName = profile.full_name?.split(' ')[0] || 'Someone you care about';
+      trustedContactNotified = await sendSms(
+        profile.trusted_contact_phone,
+        `${firstName} added you as their trusted contact on AlwayZ. They may be going through a very hard moment right now — please reach out to them when you can. If you think they are in immediate danger, call your local emergency number.`
+      );
+    }
+  }
+
+  const { error } = await db.from('safety_events').insert({
+    user_id: userId,
+    persona_id: params.personaId || null,
+    surface: params.surface,
+    risk_level: assessment.level,
+    signals: assessment.signals,
+    detection_source: assessment.source,
+    trusted_contact_notified: trustedContactNotified
+  });
+  if (error) console.error('Error recording safety event:', error);
+
+  const resources = getCrisisResources(profile?.country);
+  return {
+    assessment,
+    resources,
+    trustedContactNotified,
+    response: buildSafetyResponse(assessment.level, resources, {
+      userName: profile?.full_name?.split(' ')[0] || null,
+      surface: params.surface,
+      trustedContactNotified
+    })
+  };
+}
+
+async function sendSms(to: string, body: string): Promise<boolean> {
+  if (!accountSid || !authToken || !fromNumber) {
+    console.error('Trusted contact SMS skipped: Twilio credentials not configured');
+    return false;
+  }
+
+  try {
+    const credentials = Buffer.from(`${accountSid}:${authToken}`).toString('base64');
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({ From: fromNumber, To: to, Body: body }).toString()
+      }
+    );
+    if (!response.ok) {
+      console.error('Trusted contact SMS failed:', await response.text());
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Trusted contact SMS error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,59 @@
+import { MemoryConversationEngine } from '../../src/lib/memoryConversation';
+import { retrievalOptionsFromEnv } from '../../src/lib/memoryRetrieval';
+import { promptBudgetFromEnv } from '../../src/lib/promptBudget';
+import { consistencyModeFromEnv } from '../../src/lib/replyConsistency';
+import type { LLMProvider } from '../../src/lib/llmProvider';
+import type { AuthenticatedCaller } from './gateway';
+
+// Conversation engines kept between turns. A warm function instance serves the next turn of
+// the same call, so its engine already holds the persona context, session facts and summary.
+// A cold start or a different instance simply builds a new engine — nothing depends on a hit.
+// Engines are per call when the client sends its conversation id, so the next call starts a
+// fresh session summary even on the same instance; older clients share one engine per user.
+
+const IDLE_MS = 1000 * 60 * 30;
+const MAX_ENGINES = 200;
+
+const engines = new Map<string, MemoryConversationEngine>();
+
+function evictIdle(now: number): void {
+  for (const [key, engine] of engines) {
+    if (now - engine.lastActiveAt > IDLE_MS) engines.delete(key);
+  }
+  // Map order is insertion order — past the cap, the oldest engines go first
+  while (engines.size >= MAX_ENGINES) {
+    const oldest = engines.keys().next().value;
+    if (oldest === undefined) break;
+    engines.delete(oldest);
+  }
+}
+
+// Engines are per user, never shared — each turn rebinds the caller's own RLS-scoped client
+export function getSessionEngine(
+  caller: AuthenticatedCaller,
+  llm: LLMProvider,
+  options: { timezoneOffset?: number; conversationId?: string | null } = {}
+): MemoryConversationEngine {
+  const key = options.conversationId ? `${caller.userId}:${options.conversationId}` : caller.userId;
+  const cached = engines.get(key);
+  if (cached) {
+    cached.useConnection(caller.db, options);
+    return cached;
+  }
+
+  evictIdle(Date.now());
+  const engine = new MemoryConversationEngine(caller.db, llm, caller.userId, {
+    timezoneOffset: options.timezoneOffset,
+    conversationId: options.conversationId,
+    retrieval: retrievalOptionsFromEnv(process.env),
+    promptBudget: promptBudgetFromEnv(process.env),
+    consistency: consistencyModeFromEnv(process.env)
+  });
+  engines.set(key, engine);
+  return engine;
+}
+
+// The call is over — its summary has been finished, so a later turn must not carry on from here
+export function endSessionEngine(caller: AuthenticatedCaller, conversationId: string): void {
+  engines.delete(`${caller.userId}:${conversationId}`);
+}
@@ -12,7 +12,7 @@ import path from 'path';
 const requiredEnvVars = [
   'VITE_SUPABASE_URL',
   'VITE_SUPABASE_ANON_KEY',
-  'VITE_OPENAI_API_KEY',
+  'OPENAI_API_KEY',
   'VITE_STRIPE_PUBLISHABLE_KEY',
   'VITE_APP_URL'
 ];
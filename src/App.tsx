@@ -7,6 +7,7 @@ import { AuthModal } from './components/AuthModal';
 import { PersonaTraining } from './components/PersonaTraining';
 import { ConversationInterface } from './components/ConversationInterface';
 import { SocialMediaImport } from './components/SocialMediaImport';
+import { WhatsAppImport } from './components/WhatsAppImport';
 import { Analytics } from './components/Analytics';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { SEOHead } from './components/SEOHead';
@@ -22,6 +23,14 @@ import { ClinicalPartnerships } from './components/ClinicalPartnerships';
 import { TermsAndConditions } from './components/TermsAndConditions';
 import { BetaAdmin } from './components/BetaAdmin';
 import { Haven } from './components/Haven';
+import { GriefPhaseSettings } from './components/GriefPhaseSettings';
+import { SunsetSettings } from './components/SunsetSettings';
+import { PersonaBoundaries } from './components/PersonaBoundaries';
+import { PassingReferenceSettings } from './components/PassingReferenceSettings';
+import { FamilyNewsFeed } from './components/FamilyNewsFeed';
+import { LifeTimeline } from './components/LifeTimeline';
+import { PeopleRegistry } from './components/PeopleRegistry';
+import { SunsetFollowUp } from './components/SunsetFollowUp';
 import { initializeMonitoring, setUserContext } from './lib/monitoring';
 import { initializeAnalytics, trackPageView } from './lib/analytics';
 import { Toaster } from 'react-hot-toast';
@@ -85,6 +94,7 @@ function App() {
   const [showGuidedConversation, setShowGuidedConversation] = useState(false);
   const [showRecordYourLegacy, setShowRecordYourLegacy] = useState(false);
   const [showClinicalPartnerships, setShowClinicalPartnerships] = useState(false);
+  const [showSunsetSettings, setShowSunsetSettings] = useState(false);
   const [deleteConfirmPersona, setDeleteConfirmPersona] = useState<any>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [emptyPersonaNudge, setEmptyPersonaNudge] = useState<any>(null);
@@ -92,7 +102,7 @@ function App() {
   // ✅ Haven state
   const [showHaven, setShowHaven] = useState(false);
   const [havenPersona, setHavenPersona] = useState<any>(null);
-  const [havenEntryPoint, setHavenEntryPoint] = useState<'dashboard' | 'post-conversation' | 'nudge'>('dashboard');
+  const [havenEntryPoint, setHavenEntryPoint] = useState<'dashboard' | 'post-conversation' | 'nudge' | 'wind-down'>('dashboard');
 
   const { user, loading: authLoading, signOut, hasAgreedToTerms, checkingAgreement, markAgreedToTerms } = useAuth();
   const { personas, sharedPersonas, loading: personasLoading, refetch, deletePersona } = usePersonas();
@@ -704,6 +714,27 @@ function App() {
                     {isShared && <span className="text-xs bg-blue-100 text-blue-600 px-2 py-0.5 rounded-full font-medium">Shared</span>}
                     {selectedPersona.is_self_recorded && <span className="text-xs bg-amber-100 text-amber-600 px-2 py-0.5 rounded-full font-medium">My Legacy</span>}
                   </div>
+                  {!selectedPersona.is_self_recorded && (
+                    <div className="mt-2 flex items-center gap-4 flex-wrap">
+                      <GriefPhaseSettings
+                        personaId={selectedPersona.id}
+                        personaName={selectedPersona.name}
+                        dateOfPassing={selectedPersona.date_of_passing}
+                      />
+                      <button onClick={() => setShowSunsetSettings(true)}
+                        className="text-sm text-amber-600 hover:text-amber-700 font-medium">
+                        Gentle nudges
+                      </button>
+                      <PersonaBoundaries
+                        personaId={selectedPersona.id}
+                        personaName={selectedPersona.name}
+                        isOwner={!isShared}
+                      />
+                      {!isShared && selectedPersona.date_of_passing && (
+                        <PassingReferenceSettings personaId={selectedPersona.id} personaName={selectedPersona.name} />
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -758,13 +789,26 @@ function App() {
             </div>
           </div>
 
+          <SunsetFollowUp personaId={selectedPersona.id} personaName={selectedPersona.name} />
+
+          {showSunsetSettings && (
+            <SunsetSettings personaName={selectedPersona.name} onClose={() => setShowSunsetSettings(false)} />
+          )}
+
           <div className="grid lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2">
               <ConversationInterface persona={selectedPersona} conversationType={conversationType}
-                onEndCall={() => setConversationType('chat')} onBackToDashboard={handleBackToDashboard} />
+                onEndCall={() => setConversationType('chat')} onBackToDashboard={handleBackToDashboard}
+                onOpenHaven={(entryPoint = 'wind-down') => { setHavenPersona(selectedPersona); setHavenEntryPoint(entryPoint); setShowHaven(true); }} />
             </div>
             <div className="space-y-6">
-              <MemoryViewer personaId={selectedPersona.id} personaName={selectedPersona.name} />
+              <MemoryViewer personaId={selectedPersona.id} personaName={selectedPersona.name} isOwner={!isShared} />
+              <LifeTimeline personaId={selectedPersona.id} personaName={selectedPersona.name}
+                dateOfPassing={selectedPersona.date_of_passing} bornOn={selectedPersona.born_on} />
+              <PeopleRegistry personaId={selectedPersona.id} personaName={selectedPersona.name} isOwner={!isShared}
+                onPersonaUpdated={(fields) => setSelectedPersona({ ...selectedPersona, ...fields })} />
+              <FamilyNewsFeed personaId={selectedPersona.id} personaName={selectedPersona.name} isOwner={!isShared} />
+              <WhatsAppImport personaId={selectedPersona.id} personaName={selectedPersona.name} isOwner={!isShared} />
               <SocialMediaImport personaId={selectedPersona.id} />
             </div>
           </div>
@@ -0,0 +1,174 @@
+import { useState, useEffect, useRef } from 'react';
+import { Heart, Check, Shield, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { conversationGateway } from '../lib/conversationGateway';
+import { saveRecapChoices, ConversationRecap } from '../lib/conversationRecap';
+import toast from 'react-hot-toast';
+
+interface CallRecapProps {
+  personaId: string;
+  personaName: string;
+  conversationId: string;
+  onDone: () => void;
+  onOpenHaven?: () => void;
+}
+
+// ✅ Shown when a call ends — what was talked about, which shared facts to keep, and a way into Haven
+export function CallRecap({ personaId, personaName, conversationId, onDone, onOpenHaven }: CallRecapProps) {
+  const { user } = useAuth();
+  const [recap, setRecap] = useState<ConversationRecap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [keptIds, setKeptIds] = useState<Set<string>>(new Set());
+  const [meaningful, setMeaningful] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // The recap is built once per conversation — a new onDone from a re-render must not rebuild it
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    let cancelled = false;
+    conversationGateway.getRecap(personaId, conversationId)
+      .then(result => {
+        if (cancelled) return;
+        if (!result) {
+          onDoneRef.current();
+          return;
+        }
+        setRecap(result);
+        // Everything still waiting starts out kept; earlier choices are shown as they were saved
+        setKeptIds(new Set(result.savedAt
+          ? result.keptFactIds
+          : result.facts.filter(f => f.status === 'pending').map(f => f.id)));
+      })
+      .catch(error => {
+        console.error('Error loading conversation recap:', error);
+        if (!cancelled) onDoneRef.current();
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [personaId, conversationId]);
+
+  const toggleFact = (factId: string) => {
+    setKeptIds(prev => {
+      const next = new Set(prev);
+      if (next.has(factId)) next.delete(factId);
+      else next.add(factId);
+      return next;
+    });
+  };
+
+  const finish = async (openHaven: boolean) => {
+    if (!recap || !user) return;
+    setSaving(true);
+    const saved = await saveRecapChoices(supabase, {
+      conversationId,
+      recap,
+      userId: user.id,
+      keptFactIds: [...keptIds],
+      meaningful,
+      openedHaven: openHaven
+    });
+    setSaving(false);
+    if (!saved) {
+      toast.error('Could not save this recap');
+      return;
+    }
+    const kept = saved.facts.filter(f => keptIds.has(f.id)).length;
+    if (kept > 0) {
+      toast.success(recap.canApprove
+        ? `${kept} ${kept === 1 ? 'memory' : 'memories'} saved 💙`
+        : `${kept} ${kept === 1 ? 'memory' : 'memories'} sent for family review 💙`);
+    }
+    if (openHaven) onOpenHaven?.();
+    onDone();
+  };
+
+  if (loading || !recap) {
+    return (
+      <div className="fixed inset-0 z-50 bg-gradient-to-br from-slate-900 via-blue-950 to-purple-950 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 text-blue-300 animate-spin mx-auto mb-3" />
+          <p className="text-white/60 text-sm">Gathering what you talked about...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const pendingFacts = recap.facts.filter(f => f.status === 'pending' || keptIds.has(f.id));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gradient-to-br from-slate-900 via-blue-950 to-purple-950 flex items-center justify-center p-6 overflow-y-auto">
+      <div className="max-w-lg w-full">
+        <h2 className="text-2xl font-bold text-white mb-1">Your time with {personaName}</h2>
+        <p className="text-white/40 text-sm mb-6">A few moments to look back before you go</p>
+
+        <div className="bg-white/10 backdrop-blur rounded-2xl p-5 mb-4 border border-white/10">
+          <p className="text-white leading-relaxed">{recap.summary}</p>
+          {recap.topics.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {recap.topics.map(topic => (
+                <span key={topic} className="text-xs text-blue-200 bg-blue-500/20 rounded-full px-3 py-1">{topic}</span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {pendingFacts.length > 0 && (
+          <div className="bg-white/10 backdrop-blur rounded-2xl p-5 mb-4 border border-white/10">
+            <p className="text-xs text-blue-300 font-medium uppercase tracking-wide mb-1">Things you shared</p>
+            <p className="text-white/50 text-xs mb-3">
+              {recap.canApprove
+                ? `Keep the ones you want ${personaName} to remember`
+                : `Kept ones go to the family for review before ${personaName} relies on them`}
+            </p>
+            <div className="space-y-2">
+              {pendingFacts.map(fact => (
+                <button key={fact.id} onClick={() => toggleFact(fact.id)} disabled={recap.savedAt !== null}
+                  className="w-full flex items-start gap-3 text-left rounded-xl px-3 py-2 hover:bg-white/5 transition-all">
+                  <span className={`mt-0.5 w-5 h-5 rounded-md border flex items-center justify-center shrink-0 ${
+                    keptIds.has(fact.id) ? 'bg-blue-500 border-blue-400' : 'border-white/30'
+                  }`}>
+                    {keptIds.has(fact.id) && <Check className="h-3.5 w-3.5 text-white" />}
+                  </span>
+                  <span className={`text-sm leading-relaxed ${keptIds.has(fact.id) ? 'text-white' : 'text-white/40 line-through'}`}>
+                    {fact.content}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button onClick={() => setMeaningful(!meaningful)}
+          className={`w-full flex items-center gap-3 rounded-2xl px-5 py-3 mb-6 border transition-all ${
+            meaningful ? 'bg-pink-500/20 border-pink-400/40 text-pink-200' : 'bg-white/5 border-white/10 text-white/60 hover:bg-white/10'
+          }`}>
+          <Heart className="h-5 w-5" fill={meaningful ? 'currentColor' : 'none'} />
+          <span className="text-sm">This conversation meant something to me</span>
+        </button>
+
+        <div className="flex flex-col gap-3">
+          <button onClick={() => finish(false)} disabled={saving}
+            className="w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white px-6 py-3 rounded-2xl font-semibold hover:shadow-2xl transition-all disabled:opacity-50">
+            {saving ? 'Saving...' : 'Save and finish'}
+          </button>
+          {onOpenHaven && (
+            <button onClick={() => finish(true)} disabled={saving}
+              className="w-full flex items-center justify-center gap-2 bg-white/10 text-indigo-200 px-6 py-3 rounded-2xl font-medium hover:bg-white/15 transition-all disabled:opacity-50">
+              <Shield className="h-4 w-4" />
+              Talk through how it felt in Haven
+            </button>
+          )}
+          <button onClick={onDone} className="text-white/40 hover:text-white/70 text-sm transition-colors py-2">
+            Not now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Search, MapPin, Phone, Globe, Heart, Shield, Users, Star, ChevronRight, X, CheckCircle, Building, Award } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { ClinicianSunsetPolicies } from './ClinicianSunsetPolicies';
 import toast from 'react-hot-toast';
 
 interface ClinicalPartner {
@@ -106,7 +107,7 @@ interface ClinicalPartnershipsProps {
 }
 
 export function ClinicalPartnerships({ onClose }: ClinicalPartnershipsProps) {
-  const [view, setView] = useState<'landing' | 'directory' | 'apply'>('landing');
+  const [view, setView] = useState<'landing' | 'directory' | 'apply' | 'clients'>('landing');
   const [partners, setPartners] = useState<ClinicalPartner[]>([]);
   const [filteredPartners, setFilteredPartners] = useState<ClinicalPartner[]>([]);
   const [zipSearch, setZipSearch] = useState('');
@@ -267,6 +268,12 @@ export function ClinicalPartnerships({ onClose }: ClinicalPartnershipsProps) {
               >
                 Apply
               </button>
+              <button
+                onClick={() => setView('clients')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${view === 'clients' ? 'bg-white/20' : 'hover:bg-white/10'}`}
+              >
+                My Clients
+              </button>
             </div>
             <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-full transition-all">
               <X className="h-5 w-5" />
@@ -275,6 +282,9 @@ export function ClinicalPartnerships({ onClose }: ClinicalPartnershipsProps) {
         </div>
       </div>
 
+      {/* ── MY CLIENTS ── */}
+      {view === 'clients' && <ClinicianSunsetPolicies />}
+
       {/* ── LANDING ── */}
       {view === 'landing' && (
         <div>
@@ -0,0 +1,276 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Stethoscope, Save, Loader } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { DEFAULT_SUNSET_POLICY, SUNSET_PHASES, SunsetPolicy } from '../lib/sunsetPolicy';
+import { DEFAULT_USAGE_LIMITS, limitsToRow, UsageLimits } from '../lib/usageGuardrails';
+import toast from 'react-hot-toast';
+
+interface ClientLink {
+  client_id: string;
+  client_name: string | null;
+}
+
+interface OutcomeSummary {
+  delivered: number;
+  contacted: number;
+}
+
+const PHASE_LABELS = { active: 'Active grief', integration: 'Integration', legacy: 'Legacy' };
+
+// ✅ Clinicians see the clients who shared their sunset policy with this email, set thresholds
+// and scripts per phase, and see whether nudges are leading clients back to living family
+export function ClinicianSunsetPolicies() {
+  const { user } = useAuth();
+  const [clients, setClients] = useState<ClientLink[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<SunsetPolicy>(DEFAULT_SUNSET_POLICY);
+  const [usage, setUsage] = useState<UsageLimits>(DEFAULT_USAGE_LIMITS);
+  const [outcomes, setOutcomes] = useState<OutcomeSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadClients = useCallback(async () => {
+    if (!user?.email) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('clinician_clients')
+        .select('client_id, client_name')
+        .eq('clinician_email', user.email.toLowerCase())
+        .eq('status', 'active');
+      if (error) throw error;
+      setClients(data || []);
+      if (data && data.length > 0) setSelected(data[0].client_id);
+    } catch (error) {
+      console.error('Error loading clients:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user?.email) loadClients();
+  }, [user, loadClients]);
+
+  useEffect(() => {
+    if (selected) loadPolicy(selected);
+  }, [selected]);
+
+  const loadPolicy = async (clientId: string) => {
+    const [{ data: row }, { data: events }, { data: usageRow }] = await Promise.all([
+      supabase
+        .from('sunset_policies')
+        .select('enabled, thresholds, scripts')
+        .eq('user_id', clientId)
+        .eq('source', 'clinician')
+        .maybeSingle(),
+      supabase
+        .from('sunset_nudge_events')
+        .select('outcome')
+        .eq('user_id', clientId),
+      supabase
+        .from('usage_guardrails')
+        .select('*')
+        .eq('user_id', clientId)
+        .eq('source', 'clinician')
+        .maybeSingle()
+    ]);
+
+    setPolicy({
+      enabled: row?.enabled ?? true,
+      thresholds: {
+        active: { ...DEFAULT_SUNSET_POLICY.thresholds.active, ...(row?.thresholds?.active || {}) },
+        integration: { ...DEFAULT_SUNSET_POLICY.thresholds.integration, ...(row?.thresholds?.integration || {}) },
+        legacy: { ...DEFAULT_SUNSET_POLICY.thresholds.legacy, ...(row?.thresholds?.legacy || {}) }
+      },
+      scripts: row?.scripts || {}
+    });
+    setUsage({
+      enabled: usageRow?.enabled ?? DEFAULT_USAGE_LIMITS.enabled,
+      dailyMinutes: usageRow?.daily_minutes ?? DEFAULT_USAGE_LIMITS.dailyMinutes,
+      sessionMinutes: usageRow?.session_minutes ?? DEFAULT_USAGE_LIMITS.sessionMinutes,
+      dailySessions: usageRow?.daily_sessions ?? DEFAULT_USAGE_LIMITS.dailySessions,
+      lateNightReminders: usageRow?.late_night_reminders ?? DEFAULT_USAGE_LIMITS.lateNightReminders,
+      lateNightStart: usageRow?.late_night_start ?? DEFAULT_USAGE_LIMITS.lateNightStart,
+      lateNightEnd: usageRow?.late_night_end ?? DEFAULT_USAGE_LIMITS.lateNightEnd,
+      redirectToHaven: usageRow?.redirect_to_haven ?? DEFAULT_USAGE_LIMITS.redirectToHaven
+    });
+    setOutcomes({
+      delivered: events?.length || 0,
+      contacted: events?.filter(e => e.outcome === 'contacted_family').length || 0
+    });
+  };
+
+  const savePolicy = async () => {
+    if (!selected || !user) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('sunset_policies')
+        .upsert({
+          user_id: selected,
+          source: 'clinician',
+          enabled: policy.enabled,
+          thresholds: policy.thresholds,
+          scripts: policy.scripts,
+          set_by: user.id,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id,source' });
+      if (error) throw error;
+
+      const { error: usageError } = await supabase
+        .from('usage_guardrails')
+        .upsert({
+          user_id: selected,
+          source: 'clinician',
+          ...limitsToRow(usage),
+          set_by: user.id,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id,source' });
+      if (usageError) throw usageError;
+      toast.success('Policy saved');
+    } catch (error) {
+      console.error('Error saving sunset policy:', error);
+      toast.error('Could not save policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateThreshold = (phase: keyof SunsetPolicy['thresholds'], key: 'everyConversations' | 'minDaysBetween', value: number) => {
+    setPolicy(prev => ({
+      ...prev,
+      thresholds: { ...prev.thresholds, [phase]: { ...prev.thresholds[phase], [key]: Math.max(1, value || 1) } }
+    }));
+  };
+
+  const updateUsage = (key: keyof UsageLimits, value: number, min: number, max: number) => {
+    setUsage(prev => ({ ...prev, [key]: Math.min(max, Math.max(min, value || min)) }));
+  };
+
+  if (!user) {
+    return <p className="text-center text-gray-500 py-16">Sign in with the email your clients shared to manage their policies.</p>;
+  }
+
+  if (loading) {
+    return <div className="flex justify-center py-16"><Loader className="h-6 w-6 animate-spin text-purple-600" /></div>;
+  }
+
+  if (clients.length === 0) {
+    return (
+      <div className="text-center py-16 max-w-md mx-auto">
+        <Stethoscope className="h-10 w-10 text-gray-300 mx-auto mb-4" />
+        <p className="text-gray-600">No clients have shared their nudge settings with {user.email} yet.</p>
+        <p className="text-gray-400 text-sm mt-2">Clients can add you from "Gentle nudges" on any persona.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-12 grid md:grid-cols-3 gap-6">
+      <div className="space-y-2">
+        {clients.map(client => (
+          <button key={client.client_id} onClick={() => setSelected(client.client_id)}
+            className={`w-full text-left px-4 py-3 rounded-xl text-sm font-medium transition-all ${
+              selected === client.client_id ? 'bg-purple-600 text-white' : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+            }`}>
+            {client.client_name || 'Client'}
+          </button>
+        ))}
+      </div>
+
+      <div className="md:col-span-2 bg-white border border-gray-100 rounded-2xl shadow-sm p-6 space-y-5">
+        {outcomes && (
+          <p className="text-sm text-gray-600">
+            {outcomes.delivered} nudge{outcomes.delivered === 1 ? '' : 's'} delivered ·{' '}
+            {outcomes.contacted} led to contacting family
+          </p>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={policy.enabled}
+            onChange={(e) => setPolicy(prev => ({ ...prev, enabled: e.target.checked }))} />
+          Nudges enabled for this client
+        </label>
+
+        {SUNSET_PHASES.map(phase => (
+          <div key={phase} className="border-t border-gray-100 pt-4">
+            <h4 className="font-semibold text-gray-900 text-sm mb-2">{PHASE_LABELS[phase]}</h4>
+            <div className="grid grid-cols-2 gap-3 mb-2">
+              <label className="text-xs text-gray-500">
+                Every N turns
+                <input type="number" min={1} value={policy.thresholds[phase].everyConversations}
+                  onChange={(e) => updateThreshold(phase, 'everyConversations', Number(e.target.value))}
+                  className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-800" />
+              </label>
+              <label className="text-xs text-gray-500">
+                At least N days apart
+                <input type="number" min={1} value={policy.thresholds[phase].minDaysBetween}
+                  onChange={(e) => updateThreshold(phase, 'minDaysBetween', Number(e.target.value))}
+                  className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-800" />
+              </label>
+            </div>
+            <textarea rows={2} value={policy.scripts[phase] || ''}
+              onChange={(e) => setPolicy(prev => ({ ...prev, scripts: { ...prev.scripts, [phase]: e.target.value } }))}
+              placeholder="Custom guidance (optional). Use {name} for the persona's name."
+              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-800" />
+          </div>
+        ))}
+
+        <div className="border-t border-gray-100 pt-4">
+          <h4 className="font-semibold text-gray-900 text-sm mb-2">Healthy use</h4>
+          <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+            <input type="checkbox" checked={usage.enabled}
+              onChange={(e) => setUsage(prev => ({ ...prev, enabled: e.target.checked }))} />
+            Wind sessions down when limits are passed
+          </label>
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            <label className="text-xs text-gray-500">
+              Minutes per day
+              <input type="number" min={1} value={usage.dailyMinutes}
+                onChange={(e) => updateUsage('dailyMinutes', Number(e.target.value), 1, 1440)}
+                className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-800" />
+            </label>
+            <label className="text-xs text-gray-500">
+              Minutes per call
+              <input type="number" min={1} value={usage.sessionMinutes}
+                onChange={(e) => updateUsage('sessionMinutes', Number(e.target.value), 1, 1440)}
+                className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-800" />
+            </label>
+            <label className="text-xs text-gray-500">
+              Calls per day
+              <input type="number" min={1} value={usage.dailySessions}
+                onChange={(e) => updateUsage('dailySessions', Number(e.target.value), 1, 100)}
+                className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-800" />
+            </label>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-700 mb-2 flex-wrap">
+            <input type="checkbox" checked={usage.lateNightReminders}
+              onChange={(e) => setUsage(prev => ({ ...prev, lateNightReminders: e.target.checked }))} />
+            <span>Late-night reminders from</span>
+            <input type="number" min={0} max={23} value={usage.lateNightStart}
+              onChange={(e) => updateUsage('lateNightStart', Number(e.target.value), 0, 23)}
+              className="w-16 border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-800" />
+            <span>to</span>
+            <input type="number" min={0} max={23} value={usage.lateNightEnd}
+              onChange={(e) => updateUsage('lateNightEnd', Number(e.target.value), 0, 23)}
+              className="w-16 border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-800" />
+            <span className="text-xs text-gray-400">(client's local hour)</span>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={usage.redirectToHaven}
+              onChange={(e) => setUsage(prev => ({ ...prev, redirectToHaven: e.target.checked }))} />
+            Offer Haven when a session winds down
+          </label>
+        </div>
+
+        <button onClick={savePolicy} disabled={saving}
+          className="flex items-center gap-2 px-5 py-2.5 bg-purple-600 hover:bg-purple-700 text-white rounded-xl text-sm font-semibold disabled:opacity-50">
+          {saving ? <Loader className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Save policy
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -6,13 +6,15 @@ interface ConversationInterfaceProps {
   conversationType?: 'chat' | 'video_call' | 'voice_call';
   onEndCall?: () => void;
   onBackToDashboard?: () => void;
+  onOpenHaven?: (entryPoint?: 'wind-down' | 'post-conversation') => void;
 }
 
 export function ConversationInterface({
   persona,
   conversationType = 'chat',
   onEndCall,
-  onBackToDashboard
+  onBackToDashboard,
+  onOpenHaven
 }: ConversationInterfaceProps) {
   const personaId = persona?.id;
   const personaName = persona?.name || 'Persona';
@@ -34,6 +36,7 @@ export function ConversationInterface({
       personaAvatar={persona?.avatar_url}
       onEndCall={() => onEndCall?.()}
       onBackToDashboard={onBackToDashboard}
+      onOpenHaven={onOpenHaven}
     />
   );
 }
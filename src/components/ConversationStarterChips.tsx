@@ -0,0 +1,36 @@
+import { Sparkles } from 'lucide-react';
+import { STARTER_SOURCE_LABELS, ConversationStarter } from '../lib/conversationStarters';
+
+interface ConversationStarterChipsProps {
+  starters: ConversationStarter[];
+  onPick: (starter: ConversationStarter) => void;
+  selectedId?: string | null;
+  disabled?: boolean;
+}
+
+// ✅ Tappable openers for dark call screens — each one says where it came from
+export function ConversationStarterChips({ starters, onPick, selectedId, disabled }: ConversationStarterChipsProps) {
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      {starters.map(starter => (
+        <button
+          key={starter.id}
+          onClick={() => onPick(starter)}
+          disabled={disabled}
+          title={STARTER_SOURCE_LABELS[starter.source]}
+          className={`text-left max-w-xs rounded-2xl px-4 py-2 backdrop-blur-md border transition-all disabled:opacity-50 ${
+            selectedId === starter.id
+              ? 'bg-blue-500/40 border-blue-300/60'
+              : 'bg-white/10 border-white/15 hover:bg-white/20'
+          }`}
+        >
+          <span className="flex items-center gap-1 text-[10px] uppercase tracking-wide text-white/50">
+            {starter.source !== 'general' && <Sparkles className="h-3 w-3" />}
+            {STARTER_SOURCE_LABELS[starter.source]}
+          </span>
+          <span className="block text-white text-sm leading-snug">{starter.text}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
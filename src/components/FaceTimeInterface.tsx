@@ -1,8 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Mic, MicOff, Volume2, VolumeX, Phone, Heart } from 'lucide-react';
+import { Mic, MicOff, Volume2, VolumeX, Phone, Heart, Shield, Brain, ChevronDown, ChevronUp, ThumbsUp, ThumbsDown } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
-import { memoryConversationEngine } from '../lib/memoryConversation';
+import { focusMemory } from '../hooks/useMemoryFocus';
+import { useConversationStarters, takeQueuedStarter } from '../hooks/useConversationStarters';
+import { ConversationStarterChips } from './ConversationStarterChips';
+import { CallRecap } from './CallRecap';
+import { conversationGateway, SafetyNotice, WellbeingNotice } from '../lib/conversationGateway';
+import type { ReplyCitations } from '../lib/memoryCitations';
+import { rateReply, ReplyRating } from '../lib/memoryImportance';
+import {
+  confirmCorrection,
+  dismissCorrection,
+  CORRECTION_ACTION_LABELS,
+  MemoryCorrection
+} from '../lib/memoryCorrection';
 import toast from 'react-hot-toast';
 
 const ELEVENLABS_API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY;
@@ -14,6 +26,7 @@ interface FaceTimeInterfaceProps {
   personaAvatar?: string;
   onEndCall: () => void;
   onBackToDashboard?: () => void;
+  onOpenHaven?: (entryPoint?: 'wind-down' | 'post-conversation') => void;
 }
 
 interface Message {
@@ -35,7 +48,8 @@ export function FaceTimeInterface({
   personaName,
   personaAvatar,
   onEndCall,
-  onBackToDashboard
+  onBackToDashboard,
+  onOpenHaven
 }: FaceTimeInterfaceProps) {
   const [isListening, setIsListening] = useState(false);
   const [isSpeakerOn, setIsSpeakerOn] = useState(true);
@@ -51,6 +65,16 @@ export function FaceTimeInterface({
   const [cloningAttempt, setCloningAttempt] = useState(0);
   const [isIOS, setIsIOS] = useState(false);
   const [waitingForTap, setWaitingForTap] = useState(false);
+  const [safetyMessage, setSafetyMessage] = useState<(SafetyNotice & { text: string }) | null>(null);
+  const [showHavenSuggestion, setShowHavenSuggestion] = useState(false);
+  const [lastCitations, setLastCitations] = useState<ReplyCitations | null>(null);
+  // Tied to the citations it rated, so a new reply starts unrated
+  const [lastRating, setLastRating] = useState<{ citations: ReplyCitations; rating: ReplyRating } | null>(null);
+  const { starters } = useConversationStarters(personaId);
+  const [showRecap, setShowRecap] = useState(false);
+  const [showCitations, setShowCitations] = useState(false);
+  const [pendingCorrection, setPendingCorrection] = useState<MemoryCorrection | null>(null);
+  const [isSavingCorrection, setIsSavingCorrection] = useState(false);
 
   const audioRef = useRef<HTMLAudioElement>(null);
   const recognitionRef = useRef<any>(null);
@@ -267,11 +291,17 @@ export function FaceTimeInterface({
 
   const playGreeting = async (persona: any) => {
     try {
-      const greeting = await memoryConversationEngine.generateMemoryEnhancedResponse(personaId, '__greeting__', []);
+      const greeting = await conversationGateway.generateGreeting(personaId, {
+        conversationId: conversationIdRef.current,
+        onCitations: setLastCitations
+      });
       await speakAndDisplay(greeting);
     } catch {
       await speakAndDisplay(`Oh, it's so good to hear from you. I've been thinking about you.`);
     }
+    // ✅ A starter picked on the guided screen is the user's first turn
+    const starter = takeQueuedStarter(personaId);
+    if (starter) handleUserSpeech(starter);
   };
 
   const submitAccumulatedTranscript = () => {
@@ -291,12 +321,15 @@ export function FaceTimeInterface({
     setWaitingForTap(false);
     stopListening();
 
+    // ✅ Save the user's turn alongside the reply request rather than before it
     if (conversationIdRef.current) {
-      await supabase.from('messages').insert({
+      supabase.from('messages').insert({
         conversation_id: conversationIdRef.current,
         sender_type: 'user',
         content: transcript,
         message_type: 'text'
+      }).then(({ error }) => {
+        if (error) console.error('Error saving message:', error);
       });
     }
 
@@ -369,14 +402,37 @@ export function FaceTimeInterface({
         playNextInQueue(); // start playing immediately, don't await
       };
 
-      // ✅ Stream — sentences fire to onSentence as they complete
-      fullResponse = await memoryConversationEngine.generateStreamingResponse(
+      let safetyNotice: SafetyNotice | null = null;
+      let wellbeingNotice: WellbeingNotice | null = null;
+      let citations: ReplyCitations | null = null;
+
+      // ✅ Stream over SSE from the gateway — sentences fire to onSentence as they complete
+      fullResponse = await conversationGateway.generateStreamingResponse(
         personaId,
         transcript,
         updatedHistory,
-        onSentence
+        onSentence,
+        {
+          conversationId: conversationIdRef.current,
+          onSafety: (notice) => { safetyNotice = notice; },
+          onWellbeing: (notice) => { wellbeingNotice = notice; },
+          onCitations: (replyCitations) => { citations = replyCitations; },
+          onCorrection: (correction) => setPendingCorrection(correction)
+        }
       );
 
+      // ✅ Flagged turn — show the scripted resources on screen instead of speaking them in
+      // the persona's voice, and keep the mic off until the user chooses to continue
+      if (safetyNotice) {
+        setSafetyMessage({ ...(safetyNotice as SafetyNotice), text: fullResponse });
+        setIsPersonaSpeaking(false);
+        setPersonaMessage('');
+        isProcessingRef.current = false;
+        return;
+      }
+
+      setLastCitations(citations);
+
       // ✅ Wait for all queued audio to finish playing
       while (audioQueueRef.current.length > 0 || isPlayingQueueRef.current) {
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -394,7 +450,12 @@ export function FaceTimeInterface({
           conversation_id: conversationIdRef.current,
           sender_type: 'persona',
           content: fullResponse,
-          message_type: 'text'
+          message_type: 'text',
+          // ✅ Which memories this reply rested on, so a transcript can point back to them
+          metadata: citations ? {
+            memory_ids: (citations as ReplyCitations).usedIds,
+            memories_in_prompt: (citations as ReplyCitations).inPrompt
+          } : {}
         });
       }
 
@@ -402,6 +463,11 @@ export function FaceTimeInterface({
       setPersonaMessage('');
       isProcessingRef.current = false;
 
+      // ✅ The persona has just suggested winding down — offer Haven without interrupting
+      if ((wellbeingNotice as WellbeingNotice | null)?.suggestHaven && onOpenHaven) {
+        setShowHavenSuggestion(true);
+      }
+
       if (isIOSSafari()) {
         setWaitingForTap(true);
       } else {
@@ -523,7 +589,12 @@ export function FaceTimeInterface({
     }
   };
 
-  const handleEndCall = () => {
+  const leaveCall = () => {
+    setTimeout(() => { if (onBackToDashboard) onBackToDashboard(); else onEndCall(); }, 300);
+  };
+
+  // ✅ Calls where the user said something end on a recap; the rest close straight away
+  const handleEndCall = (withRecap: boolean = true) => {
     if (callEnded) return;
     setCallEnded(true);
     hardStop();
@@ -533,7 +604,30 @@ export function FaceTimeInterface({
         duration_seconds: callDuration
       }).eq('id', conversationIdRef.current).then(() => {});
     }
-    setTimeout(() => { if (onBackToDashboard) onBackToDashboard(); else onEndCall(); }, 300);
+    if (withRecap && conversationIdRef.current && conversationHistory.some(m => m.role === 'user')) {
+      setShowRecap(true);
+    } else {
+      leaveCall();
+    }
+  };
+
+  // ✅ Rating a reply moves the importance of the memories it relied on
+  const rateLastReply = async (rating: ReplyRating) => {
+    if (!user || !lastCitations) return;
+    const citations = lastCitations;
+    setLastRating({ citations, rating });
+    const saved = await rateReply(supabase, {
+      personaId,
+      userId: user.id,
+      conversationId: conversationIdRef.current,
+      reply: [...conversationHistory].reverse().find(m => m.role === 'assistant')?.content || '',
+      rating,
+      memoryIds: citations.usedIds
+    });
+    if (!saved) {
+      setLastRating(null);
+      toast.error('Could not save your rating');
+    }
   };
 
   const formatDuration = (seconds: number) => {
@@ -542,6 +636,39 @@ export function FaceTimeInterface({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const switchToHaven = () => {
+    setShowHavenSuggestion(false);
+    handleEndCall(false);
+    onOpenHaven?.('wind-down');
+  };
+
+  // ✅ The user confirmed a correction — the persona acknowledges it on the next reply
+  const resolveCorrection = async (accept: boolean) => {
+    if (!pendingCorrection) return;
+    setIsSavingCorrection(true);
+    try {
+      if (!accept) {
+        await dismissCorrection(supabase, pendingCorrection.id);
+      } else if (user && await confirmCorrection(supabase, pendingCorrection, user.id)) {
+        toast.success('Memory updated ✓', { duration: 1500 });
+      } else {
+        toast.error('Could not update memory');
+      }
+    } finally {
+      setIsSavingCorrection(false);
+      setPendingCorrection(null);
+    }
+  };
+
+  const resumeAfterSafety = () => {
+    setSafetyMessage(null);
+    if (isIOSSafari()) {
+      setWaitingForTap(true);
+    } else {
+      startListening();
+    }
+  };
+
   const renderLoadingOverlay = () => {
     if (voiceStatus === 'cloning') {
       return (
@@ -634,6 +761,119 @@ export function FaceTimeInterface({
       {/* Loading overlay */}
       {(voiceStatus === 'loading' || voiceStatus === 'cloning') && renderLoadingOverlay()}
 
+      {/* Safety resources */}
+      {safetyMessage && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/70 backdrop-blur-sm px-4">
+          <div className="bg-[#0d0d18] border border-rose-400/30 rounded-3xl p-6 max-w-md w-full">
+            <p className="text-white/85 text-sm leading-relaxed whitespace-pre-line">{safetyMessage.text}</p>
+            <div className="flex gap-3 mt-6">
+              <button onClick={resumeAfterSafety}
+                className="flex-1 py-3 bg-white/10 hover:bg-white/20 text-white text-sm rounded-xl transition-all">
+                Keep talking
+              </button>
+              <button onClick={() => handleEndCall()}
+                className="flex-1 py-3 bg-rose-600 hover:bg-rose-500 text-white text-sm rounded-xl transition-all">
+                End call
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Healthy-use wind-down */}
+      {showHavenSuggestion && !safetyMessage && !pendingCorrection && (
+        <div className="absolute top-28 left-4 right-4 z-30 flex justify-center">
+          <div className="bg-black/70 backdrop-blur-md border border-indigo-400/30 rounded-2xl px-4 py-3 max-w-md w-full flex items-center gap-3">
+            <Shield className="h-5 w-5 text-indigo-300 flex-shrink-0" />
+            <p className="text-white/80 text-sm flex-1">Want a quiet moment for yourself? Haven is here.</p>
+            <button onClick={switchToHaven}
+              className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-lg transition-all">
+              Open Haven
+            </button>
+            <button onClick={() => setShowHavenSuggestion(false)}
+              className="text-white/50 hover:text-white/80 text-xs">
+              Not now
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Correction check — nothing changes until the user confirms */}
+      {pendingCorrection && !safetyMessage && (
+        <div className="absolute top-28 left-4 right-4 z-30 flex justify-center">
+          <div className="bg-black/75 backdrop-blur-md border border-amber-400/30 rounded-2xl px-4 py-3 max-w-md w-full">
+            <p className="text-white/85 text-sm mb-2">Should {personaName} remember it this way?</p>
+            <p className="text-amber-200 text-sm mb-3">"{pendingCorrection.statement}"</p>
+            <div className="space-y-1.5 mb-3">
+              {pendingCorrection.changes.map((change) => (
+                <div key={change.memoryId} className="text-xs text-white/60 bg-white/5 rounded-lg px-3 py-2">
+                  <span className="text-white/80 font-medium">{CORRECTION_ACTION_LABELS[change.action]}: </span>
+                  {change.action === 'edit' ? change.revisedContent : change.content}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => resolveCorrection(true)} disabled={isSavingCorrection}
+                className="flex-1 py-2 bg-amber-500 hover:bg-amber-400 disabled:opacity-50 text-black text-xs font-semibold rounded-lg transition-all">
+                Yes, fix it
+              </button>
+              <button onClick={() => resolveCorrection(false)} disabled={isSavingCorrection}
+                className="flex-1 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white text-xs rounded-lg transition-all">
+                Keep as is
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Memories behind the last reply */}
+      {lastCitations && lastCitations.memories.length > 0 && !safetyMessage && !showHavenSuggestion && !pendingCorrection && (
+        <div className="absolute top-24 right-4 z-30 max-w-xs w-full flex flex-col items-end">
+          <button onClick={() => setShowCitations(!showCitations)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-black/60 backdrop-blur-md border border-white/15 rounded-full text-white/80 text-xs hover:bg-black/70 transition-all">
+            <Brain className="h-3.5 w-3.5" />
+            Memories used ({lastCitations.usedIds.length})
+            {showCitations ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+          </button>
+          {showCitations && (
+            <div className="mt-2 w-full bg-black/75 backdrop-blur-md border border-white/15 rounded-2xl p-3 space-y-2 max-h-72 overflow-y-auto">
+              {lastCitations.usedIds.length === 0 && (
+                <p className="text-white/50 text-xs">This reply didn't draw on a specific memory.</p>
+              )}
+              {lastCitations.memories.map((memory) => (
+                <button key={memory.id} onClick={() => focusMemory(memory.id)}
+                  title="Show in memories"
+                  className={`block w-full text-left rounded-xl px-3 py-2 transition-all hover:bg-white/10 ${memory.used ? 'bg-white/10' : 'opacity-60'}`}>
+                  <span className="text-[10px] uppercase tracking-wide text-white/40">
+                    {memory.used ? memory.memoryType || 'memory' : 'also in mind'}
+                  </span>
+                  <p className="text-white/85 text-xs leading-relaxed line-clamp-2">{memory.content}</p>
+                </button>
+              ))}
+              {lastCitations.usedIds.length > 0 && (
+                <div className="flex items-center justify-between gap-2 pt-1 border-t border-white/10">
+                  <span className="text-white/50 text-xs">Did that sound like {personaName}?</span>
+                  <div className="flex gap-1">
+                    {([1, -1] as ReplyRating[]).map(rating => {
+                      const chosen = lastRating?.citations === lastCitations && lastRating.rating === rating;
+                      const Icon = rating === 1 ? ThumbsUp : ThumbsDown;
+                      return (
+                        <button key={rating} onClick={() => rateLastReply(rating)}
+                          disabled={lastRating?.citations === lastCitations}
+                          title={rating === 1 ? 'Felt like them' : 'Not quite'}
+                          className={`p-1.5 rounded-full transition-all ${chosen ? 'bg-white/25 text-white' : 'text-white/50 hover:bg-white/10 disabled:opacity-40'}`}>
+                          <Icon className="h-3.5 w-3.5" />
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* iOS tap to speak */}
       {waitingForTap && !isPersonaSpeaking && voiceStatus !== 'loading' && voiceStatus !== 'cloning' && (
         <div className="absolute inset-0 z-20 flex items-end justify-center pb-52">
@@ -675,13 +915,20 @@ export function FaceTimeInterface({
 
       {/* Controls */}
       <div className="absolute bottom-0 left-0 right-0 z-20 pb-10 pt-6 bg-gradient-to-t from-black via-black/80 to-transparent">
+        {/* ✅ Openers until the user has said something — tapping one says it for them */}
+        {!conversationHistory.some(m => m.role === 'user') && !isPersonaSpeaking && !currentTranscript &&
+          voiceStatus !== 'loading' && voiceStatus !== 'cloning' && !callEnded && (
+          <div className="px-4 mb-4">
+            <ConversationStarterChips starters={starters.slice(0, 3)} onPick={(starter) => handleUserSpeech(starter.text)} />
+          </div>
+        )}
         <div className="flex items-center justify-center gap-8 px-8 mb-4">
           <button onClick={() => setIsSpeakerOn(!isSpeakerOn)}
             className={`w-14 h-14 rounded-full flex items-center justify-center transition-all duration-200 shadow-xl ${isSpeakerOn ? 'bg-white/20 backdrop-blur' : 'bg-red-500/80'}`}>
             {isSpeakerOn ? <Volume2 className="h-6 w-6 text-white" /> : <VolumeX className="h-6 w-6 text-white" />}
           </button>
 
-          <button onClick={handleEndCall} disabled={callEnded}
+          <button onClick={() => handleEndCall()} disabled={callEnded}
             className="w-20 h-20 bg-red-500 hover:bg-red-600 rounded-full flex items-center justify-center shadow-2xl transition-all duration-200 hover:scale-105 disabled:opacity-50">
             <Phone className="h-8 w-8 text-white rotate-[135deg]" />
           </button>
@@ -711,6 +958,16 @@ export function FaceTimeInterface({
       </div>
 
       <audio ref={audioRef} style={{ display: 'none' }} />
+
+      {showRecap && conversationIdRef.current && (
+        <CallRecap
+          personaId={personaId}
+          personaName={personaName}
+          conversationId={conversationIdRef.current}
+          onDone={leaveCall}
+          onOpenHaven={onOpenHaven ? () => onOpenHaven('post-conversation') : undefined}
+        />
+      )}
     </div>
   );
 }
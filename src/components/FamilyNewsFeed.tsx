@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import { Newspaper, Plus, Trash2, Lock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  loadFamilyUpdates,
+  postFamilyUpdate,
+  deleteFamilyUpdate,
+  describeWhen,
+  FAMILY_UPDATE_KINDS,
+  FAMILY_UPDATE_VISIBILITY,
+  FamilyUpdate,
+  FamilyUpdateKind,
+  FamilyUpdateVisibility
+} from '../lib/familyUpdates';
+import toast from 'react-hot-toast';
+
+interface FamilyNewsFeedProps {
+  personaId: string;
+  personaName: string;
+  isOwner: boolean;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// ✅ Life updates the family shares with a persona — it brings each one up with every person
+// who can see it, once, when the moment fits
+export function FamilyNewsFeed({ personaId, personaName, isOwner }: FamilyNewsFeedProps) {
+  const { user } = useAuth();
+  const [updates, setUpdates] = useState<FamilyUpdate[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [kind, setKind] = useState<FamilyUpdateKind>('general');
+  const [description, setDescription] = useState('');
+  const [eventDate, setEventDate] = useState(today());
+  const [people, setPeople] = useState('');
+  const [visibility, setVisibility] = useState<FamilyUpdateVisibility>('family');
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    loadFamilyUpdates(supabase, personaId, 50).then(setUpdates);
+  }, [user, personaId]);
+
+  const resetForm = () => {
+    setKind('general');
+    setDescription('');
+    setEventDate(today());
+    setPeople('');
+    setVisibility('family');
+    setShowForm(false);
+  };
+
+  const post = async () => {
+    if (!user || !description.trim()) return;
+    setPosting(true);
+    const update = await postFamilyUpdate(supabase, {
+      personaId,
+      userId: user.id,
+      postedByName: user.user_metadata?.full_name || user.email || null,
+      draft: { kind, description, event_date: eventDate, people: people.split(','), visibility }
+    });
+    if (update) {
+      setUpdates(prev => [update, ...prev].sort((a, b) => b.event_date.localeCompare(a.event_date)));
+      toast.success(`${personaName} will hear about this 💙`);
+      resetForm();
+    } else {
+      toast.error('Could not share this update');
+    }
+    setPosting(false);
+  };
+
+  const remove = async (update: FamilyUpdate) => {
+    if (await deleteFamilyUpdate(supabase, update.id)) {
+      setUpdates(prev => prev.filter(u => u.id !== update.id));
+    } else {
+      toast.error('Could not remove this update');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-emerald-400 to-teal-500 rounded-full flex items-center justify-center">
+            <Newspaper className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Family News</h2>
+            <p className="text-xs text-gray-500">What {personaName} has heard</p>
+          </div>
+        </div>
+        {!showForm && (
+          <button onClick={() => setShowForm(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-50 text-emerald-600 rounded-lg text-xs font-semibold hover:bg-emerald-100 transition-all">
+            <Plus className="h-3.5 w-3.5" />Share
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="border border-emerald-100 bg-emerald-50/40 rounded-xl p-3 mb-4 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select value={kind} onChange={(e) => setKind(e.target.value as FamilyUpdateKind)}
+              className="border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-white">
+              {(Object.keys(FAMILY_UPDATE_KINDS) as FamilyUpdateKind[]).map(k => (
+                <option key={k} value={k}>{FAMILY_UPDATE_KINDS[k]}</option>
+              ))}
+            </select>
+            <input type="date" value={eventDate} onChange={(e) => setEventDate(e.target.value)}
+              className="border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-white" />
+          </div>
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)}
+            placeholder={`What would you want ${personaName} to know?`}
+            rows={2}
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm resize-none" />
+          <input value={people} onChange={(e) => setPeople(e.target.value)}
+            placeholder="Who it's about, comma separated"
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm" />
+          <select value={visibility} onChange={(e) => setVisibility(e.target.value as FamilyUpdateVisibility)}
+            className="w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-white">
+            {(Object.keys(FAMILY_UPDATE_VISIBILITY) as FamilyUpdateVisibility[]).map(v => (
+              <option key={v} value={v}>{FAMILY_UPDATE_VISIBILITY[v]}</option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <button onClick={resetForm} className="flex-1 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-600 bg-white">
+              Cancel
+            </button>
+            <button onClick={post} disabled={posting || !description.trim()}
+              className="flex-1 py-1.5 rounded-lg bg-emerald-500 text-white text-sm font-medium hover:bg-emerald-600 disabled:opacity-50">
+              {posting ? 'Sharing...' : 'Share'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {updates.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">
+          Share a new baby, a graduation or a new job — {personaName} will bring it up when the moment is right.
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {updates.map(update => (
+            <div key={update.id} className="flex items-start justify-between gap-2 border border-gray-100 rounded-lg px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-xs text-gray-400 flex items-center gap-1">
+                  {FAMILY_UPDATE_KINDS[update.kind]} · {describeWhen(update.event_date)}
+                  {update.visibility === 'private' && <Lock className="h-3 w-3" />}
+                </p>
+                <p className="text-sm text-gray-800">{update.description}</p>
+                <p className="text-xs text-gray-400">
+                  {update.posted_by === user?.id ? 'You' : update.posted_by_name || 'Family'}
+                  {update.people.length > 0 && ` · ${update.people.join(', ')}`}
+                </p>
+              </div>
+              {(update.posted_by === user?.id || isOwner) && (
+                <button onClick={() => remove(update)} title="Remove" className="p-1 text-gray-300 hover:text-red-500 shrink-0">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, useRef } from 'react';
+import { Upload, Download, GitBranch } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  parseGedcom,
+  suggestPersonaIndividual,
+  describeIndividual,
+  findRelatives,
+  importGedcom,
+  exportGedcom,
+  GedcomImportResult,
+  GedcomTree
+} from '../lib/gedcom';
+import toast from 'react-hot-toast';
+
+interface FamilyTreeTransferProps {
+  personaId: string;
+  personaName: string;
+  isOwner: boolean;
+  onImported: () => void;
+  onPersonaUpdated?: (fields: GedcomImportResult['persona']) => void;
+}
+
+// ✅ GEDCOM in and out — the family's genealogy file fills the people registry instead of
+// everyone being retyped, and the registry goes back out with the memories attached
+export function FamilyTreeTransfer({ personaId, personaName, isOwner, onImported, onPersonaUpdated }: FamilyTreeTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [tree, setTree] = useState<GedcomTree | null>(null);
+  const [personaIndividual, setPersonaIndividual] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const parsed = parseGedcom(await file.text());
+    if (parsed.individuals.size === 0) {
+      toast.error('No people found in this file — is it a GEDCOM (.ged) file?');
+      return;
+    }
+    setTree(parsed);
+    setPersonaIndividual(suggestPersonaIndividual(parsed, personaName) || '');
+  };
+
+  const runImport = async () => {
+    if (!tree || !personaIndividual) return;
+    setImporting(true);
+    const result = await importGedcom(supabase, personaId, tree, personaIndividual, { updatePersona: isOwner });
+    setImporting(false);
+    if (!result) {
+      toast.error('Could not import the family tree');
+      return;
+    }
+    toast.success(`Family tree imported — ${result.added} added, ${result.updated} updated`);
+    if (Object.keys(result.persona).length > 0) onPersonaUpdated?.(result.persona);
+    setTree(null);
+    onImported();
+  };
+
+  const runExport = async () => {
+    setExporting(true);
+    const text = await exportGedcom(supabase, personaId);
+    setExporting(false);
+    if (!text) {
+      toast.error('Could not export the family tree');
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${personaName} - family tree.ged`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const relatives = tree && personaIndividual ? findRelatives(tree, personaIndividual) : [];
+  const individuals = tree ? [...tree.individuals.values()].sort((a, b) => a.name.localeCompare(b.name)) : [];
+
+  return (
+    <div className="mb-4">
+      <div className="flex gap-2">
+        <button onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-gray-200 text-xs text-gray-600 hover:bg-gray-50">
+          <Upload className="h-3.5 w-3.5" />Import family tree
+        </button>
+        <button onClick={runExport} disabled={exporting}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-gray-200 text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-50">
+          <Download className="h-3.5 w-3.5" />{exporting ? 'Exporting...' : 'Export GEDCOM'}
+        </button>
+      </div>
+      <input ref={fileInputRef} type="file" accept=".ged,.gedcom" onChange={handleFileSelect} className="hidden" />
+
+      {tree && (
+        <div className="border border-sky-100 bg-sky-50/40 rounded-xl p-3 mt-2 space-y-2">
+          <p className="flex items-center gap-1.5 text-sm font-medium text-gray-700">
+            <GitBranch className="h-4 w-4 text-sky-500" />
+            {tree.individuals.size} people in this tree. Which one is {personaName}?
+          </p>
+          <select value={personaIndividual} onChange={(e) => setPersonaIndividual(e.target.value)}
+            className="w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-white">
+            <option value="">Choose {personaName}...</option>
+            {individuals.map(i => <option key={i.id} value={i.id}>{describeIndividual(i)}</option>)}
+          </select>
+          {personaIndividual && (
+            <p className="text-xs text-gray-500">
+              {relatives.length === 0
+                ? 'Nobody in the tree is linked to this person.'
+                : `${relatives.length} relatives to add or update, like ${relatives.slice(0, 3).map(r => `${r.individual.name} (${r.relationship})`).join(', ')}.`}
+              {isOwner && ` Birth and passing dates fill in ${personaName}'s profile where it has none.`}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => setTree(null)} className="flex-1 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-600 bg-white">
+              Cancel
+            </button>
+            <button onClick={runImport} disabled={importing || relatives.length === 0}
+              className="flex-1 py-1.5 rounded-lg bg-sky-500 text-white text-sm font-medium hover:bg-sky-600 disabled:opacity-50">
+              {importing ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
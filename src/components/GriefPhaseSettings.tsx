@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import { Compass } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  resolveGriefPhase,
+  setGriefPhaseOverride,
+  GRIEF_PHASES,
+  GRIEF_PHASE_LABELS,
+  GriefPhase,
+  ResolvedGriefPhase
+} from '../lib/griefPhase';
+import toast from 'react-hot-toast';
+
+interface GriefPhaseSettingsProps {
+  personaId: string;
+  personaName: string;
+  dateOfPassing?: string | null;
+}
+
+// ✅ Lets the user see where we think they are and correct it — the persona adapts either way
+export function GriefPhaseSettings({ personaId, personaName, dateOfPassing }: GriefPhaseSettingsProps) {
+  const { user } = useAuth();
+  const [resolved, setResolved] = useState<ResolvedGriefPhase | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    resolveGriefPhase(supabase, personaId, user.id, dateOfPassing ?? null).then(setResolved);
+  }, [user, personaId, dateOfPassing]);
+
+  const handleChange = async (value: string) => {
+    if (!user) return;
+    setSaving(true);
+    const phase = value === 'auto' ? null : value as Exclude<GriefPhase, 'unknown'>;
+    const ok = await setGriefPhaseOverride(supabase, personaId, user.id, phase);
+    if (ok) {
+      setResolved(await resolveGriefPhase(supabase, personaId, user.id, dateOfPassing ?? null));
+      toast.success(phase
+        ? `${personaName} will speak to where you are now`
+        : 'Back to automatic — we\'ll follow your lead');
+    } else {
+      toast.error('Could not update grief phase');
+    }
+    setSaving(false);
+  };
+
+  if (!resolved) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      <Compass className="h-4 w-4 text-gray-400" />
+      <span>Where you are:</span>
+      <select
+        value={resolved.source === 'override' ? resolved.phase : 'auto'}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={saving}
+        className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+      >
+        <option value="auto">
+          Automatic{resolved.source === 'estimated' ? ` (${GRIEF_PHASE_LABELS[resolved.phase]})` : ''}
+        </option>
+        {GRIEF_PHASES.map(phase => (
+          <option key={phase} value={phase}>{GRIEF_PHASE_LABELS[phase]}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { Heart, X, ChevronRight, Mic, Volume2, Calendar } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { useConversationStarters, queueStarter } from '../hooks/useConversationStarters';
+import { ConversationStarterChips } from './ConversationStarterChips';
+import type { ConversationStarter } from '../lib/conversationStarters';
 
 interface GuidedFirstConversationProps {
   persona: any;
@@ -16,14 +19,6 @@ const BREATHING_STEPS = [
   { text: "They're here.", duration: 2000 }
 ];
 
-const CONVERSATION_STARTERS = [
-  "Tell me what's been on your mind lately.",
-  "I've been thinking about you. How are you really doing?",
-  "Start wherever feels right. I'm listening.",
-  "Tell me about your day. I want to hear everything.",
-  "What do you wish you could have said? Say it now."
-];
-
 const TIPS = [
   {
     icon: "💬",
@@ -52,7 +47,8 @@ export function GuidedFirstConversation({ persona, onBegin, onSkip }: GuidedFirs
   const [phase, setPhase] = useState<'breathing' | 'date' | 'intro' | 'tips' | 'ready'>('breathing');
   const [breathingIndex, setBreathingIndex] = useState(0);
   const [displayedText, setDisplayedText] = useState('');
-  const [starterIndex] = useState(Math.floor(Math.random() * CONVERSATION_STARTERS.length));
+  const { starters } = useConversationStarters(persona.id);
+  const [pickedStarter, setPickedStarter] = useState<ConversationStarter | null>(null);
   const [isVisible, setIsVisible] = useState(false);
   const [dateOfPassing, setDateOfPassing] = useState('');
   const [isSavingDate, setIsSavingDate] = useState(false);
@@ -125,13 +121,21 @@ export function GuidedFirstConversation({ persona, onBegin, onSkip }: GuidedFirs
     }
   };
 
+  // Tapping the chosen starter again clears it
+  const pickStarter = (starter: ConversationStarter) => {
+    setPickedStarter(current => (current?.id === starter.id ? null : starter));
+  };
+
   const handleBegin = async () => {
+    // ✅ Said for them as soon as the persona has greeted them
+    if (pickedStarter) queueStarter(persona.id, pickedStarter.text);
     await markFirstConversationComplete();
     setIsVisible(false);
     setTimeout(onBegin, 300);
   };
 
   const handleSkip = async () => {
+    if (pickedStarter) queueStarter(persona.id, pickedStarter.text);
     await markFirstConversationComplete();
     setIsVisible(false);
     setTimeout(onSkip, 300);
@@ -246,15 +250,17 @@ export function GuidedFirstConversation({ persona, onBegin, onSkip }: GuidedFirs
             <h2 className="text-3xl font-bold text-white mb-3">{persona.name}</h2>
             <p className="text-blue-300 text-lg mb-8 capitalize">{persona.relationship}</p>
 
-            <div className="bg-white/10 backdrop-blur rounded-2xl p-6 mb-8 text-left border border-white/10">
-              <div className="flex items-center gap-2 mb-3">
+            <div className="mb-8">
+              <div className="flex items-center justify-center gap-2 mb-3">
                 <Volume2 className="h-4 w-4 text-blue-400" />
-                <span className="text-xs text-blue-300 font-medium uppercase tracking-wide">Opening message</span>
+                <span className="text-xs text-blue-300 font-medium uppercase tracking-wide">Not sure how to begin?</span>
               </div>
-              <p className="text-white text-lg leading-relaxed italic">
-                "{CONVERSATION_STARTERS[starterIndex]}"
+              <ConversationStarterChips starters={starters} onPick={pickStarter} selectedId={pickedStarter?.id} />
+              <p className="text-white/40 text-xs mt-3">
+                {pickedStarter
+                  ? `You'll say this once ${persona.name} has greeted you`
+                  : 'Pick one to open with, or just say whatever comes'}
               </p>
-              <p className="text-white/40 text-xs mt-3">— {persona.name} will say this when you begin</p>
             </div>
 
             <div className="flex flex-col gap-3">
@@ -1,16 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Send, Mic, MicOff, Shield, Heart, Loader } from 'lucide-react';
+import { X, Send, Mic, MicOff, Shield, Heart, Loader, Phone, UserPlus } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { conversationGateway, ChatTurn, SafetyNotice } from '../lib/conversationGateway';
 import toast from 'react-hot-toast';
 
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
-
 interface HavenProps {
   personaId?: string;
   personaName?: string;
   onClose: () => void;
-  entryPoint?: 'dashboard' | 'post-conversation' | 'nudge';
+  entryPoint?: 'dashboard' | 'post-conversation' | 'nudge' | 'wind-down';
 }
 
 interface Message {
@@ -19,50 +18,10 @@ interface Message {
   content: string;
 }
 
-function buildHavenSystemPrompt(
-  personaName: string | null,
-  griefContext: string,
-  havenMemory: string,
-  userName: string
-): string {
-  const now = new Date();
-  const currentDateTime = now.toLocaleDateString('en-US', {
-    weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
-  }) + ' at ' + now.toLocaleTimeString('en-US', {
-    hour: 'numeric', minute: '2-digit', hour12: true
-  });
-
-  return `You are Haven — a private, safe, and completely neutral companion for someone navigating grief.
-
-TODAY: ${currentDateTime}
-
-YOUR ROLE:
-Haven is not a therapist and does not claim to be. Haven is a warm, present, non-judgmental space where this person can say anything — process their feelings, vent, cry, express anger, confusion, or peace — without worrying about how it sounds.
-
-Haven exists alongside AlwayZ${personaName ? `, where ${userName} can talk to ${personaName}'s AI persona` : ''}. Haven is different — Haven is where ${userName} talks ABOUT their feelings, not TO their loved one.
-
-${personaName ? `CONTEXT: ${userName} has created an AI persona of ${personaName} on AlwayZ. They may want to talk about how that feels, whether they're ready to talk to the persona, how a conversation went, or something completely unrelated to the platform.` : `CONTEXT: ${userName} is using Haven as a private processing space for their grief journey.`}
-
-${havenMemory ? `WHAT YOU KNOW ABOUT ${userName.toUpperCase()} FROM PREVIOUS SESSIONS:\n${havenMemory}\n` : ''}
-
-${griefContext ? `GRIEF CONTEXT:\n${griefContext}\n` : ''}
-
-HOW TO BE HAVEN:
-1. You are warm, present, and unhurried — this is a safe space with no agenda
-2. Never push them toward or away from talking to the AI persona — that is their choice entirely
-3. Never pretend to be their loved one or speak as them — you are Haven, always
-4. Follow their lead completely — if they want to vent, let them vent
-5. Reflect back what you hear without amplifying pain — acknowledge, don't echo
-6. Short responses are often better than long ones. Presence over performance.
-7. Never say "I understand how you feel" — say "that sounds incredibly hard" or just sit with them
-8. If they express extreme despair or hopelessness — gently suggest speaking with someone who can really help
-9. Remember everything they've shared in previous sessions
-10. This is the one place where nothing needs to be resolved. They can just be.
-11. Never use bullet points or lists — speak naturally, warmly, like a trusted friend
-12. Keep responses to 2-4 sentences unless they need more
-13. Never say you're an AI. You are Haven.
-
-TONE: Warm. Still. Present. Unhurried. Like sitting with someone who truly has nowhere else to be.`;
+interface TrustedContact {
+  name: string;
+  phone: string;
+  optIn: boolean;
 }
 
 export function Haven({ personaId, personaName, onClose, entryPoint = 'dashboard' }: HavenProps) {
@@ -72,9 +31,11 @@ export function Haven({ personaId, personaName, onClose, entryPoint = 'dashboard
   const [loading, setLoading] = useState(false);
   const [initializing, setInitializing] = useState(true);
   const [conversationId, setConversationId] = useState<string | null>(null);
-  const [havenMemory, setHavenMemory] = useState('');
-  const [userName, setUserName] = useState('');
   const [isRecording, setIsRecording] = useState(false);
+  const [safetyNotice, setSafetyNotice] = useState<SafetyNotice | null>(null);
+  const [trustedContact, setTrustedContact] = useState<TrustedContact>({ name: '', phone: '', optIn: false });
+  const [showTrustedContact, setShowTrustedContact] = useState(false);
+  const [savingContact, setSavingContact] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const recognitionRef = useRef<any>(null);
@@ -93,23 +54,17 @@ export function Haven({ personaId, personaName, onClose, entryPoint = 'dashboard
     try {
       const { data: profile } = await supabase
         .from('profiles')
-        .select('full_name')
+        .select('full_name, trusted_contact_name, trusted_contact_phone, trusted_contact_opt_in')
         .eq('user_id', user.id)
         .single();
 
-      const name = profile?.full_name?.split(' ')[0] || 'friend';
-      setUserName(name);
-
-      const { data: memoryData } = await supabase
-        .from('haven_memory')
-        .select('content')
-        .eq('user_id', user.id)
-        .order('updated_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
+      setTrustedContact({
+        name: profile?.trusted_contact_name || '',
+        phone: profile?.trusted_contact_phone || '',
+        optIn: !!profile?.trusted_contact_opt_in
+      });
 
-      const memory = memoryData?.content || '';
-      setHavenMemory(memory);
+      const name = profile?.full_name?.split(' ')[0] || 'friend';
 
       const { data: conv } = await supabase
         .from('haven_conversations')
@@ -157,6 +112,10 @@ export function Haven({ personaId, personaName, onClose, entryPoint = 'dashboard
         return persona
           ? `You don't have to talk to ${persona} today. This is just for you. How are you feeling?`
           : `This space is just for you. No expectations. How are you doing?`;
+      case 'wind-down':
+        return persona
+          ? `That was a long time with ${persona}. Let's slow down together for a moment. How are you feeling right now?`
+          : `Let's slow down together for a moment. How are you feeling right now?`;
       default:
         return name
           ? `Hi ${name}. This is your space — nothing you say here goes anywhere else. What's on your mind?`
@@ -187,52 +146,19 @@ export function Haven({ personaId, personaName, onClose, entryPoint = 'dashboard
     }
 
     try {
-      const history = messages.map(m => ({
+      const history: ChatTurn[] = messages.map(m => ({
         role: m.role === 'haven' ? 'assistant' : 'user',
         content: m.content
       }));
 
-      let griefContext = '';
-      if (personaId) {
-        const { data: persona } = await supabase
-          .from('personas')
-          .select('name, relationship, date_of_passing, grief_phase')
-          .eq('id', personaId)
-          .single();
-        if (persona) {
-          griefContext = `Persona: ${persona.name} (${persona.relationship})${persona.date_of_passing ? `, passed ${persona.date_of_passing}` : ''}`;
-        }
-      }
-
-      const systemPrompt = buildHavenSystemPrompt(
-        personaName || null,
-        griefContext,
-        havenMemory,
-        userName
-      );
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            ...history,
-            { role: 'user', content: userMessage.content }
-          ],
-          temperature: 0.75,
-          max_tokens: 200
-        })
-      });
-
-      if (!response.ok) throw new Error('Haven response failed');
-
-      const data = await response.json();
-      const havenResponse = data.choices[0]?.message?.content || "I'm here. Take your time.";
+      // ✅ Prompt, Haven memory and grief context are assembled server-side by the gateway.
+      // Flagged turns come back as a scripted reply plus a safety notice with local resources.
+      const havenResponse = await conversationGateway.stream({
+        task: 'haven_reply',
+        personaId,
+        message: userMessage.content,
+        history
+      }, { onSafety: setSafetyNotice }) || "I'm here. Take your time.";
 
       const havenMessage: Message = {
         id: (Date.now() + 1).toString(),
@@ -276,55 +202,48 @@ export function Haven({ personaId, personaName, onClose, entryPoint = 'dashboard
   };
 
   const updateHavenMemory = async (allMessages: Message[]) => {
-    if (!user || !OPENAI_API_KEY) return;
+    if (!user) return;
     try {
-      const conversation = allMessages
-        .map(m => `${m.role === 'user' ? 'THEM' : 'HAVEN'}: ${m.content}`)
-        .join('\n');
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [{
-            role: 'user',
-            content: `Extract key facts about this person from their Haven session — what they shared, how they're feeling about their grief, what matters to them, any important context. Be specific and compassionate. This will help Haven remember them in future sessions.
-
-Previous memory: ${havenMemory || 'None yet'}
-
-New conversation:
-${conversation}
-
-Return a concise bullet point summary of everything important to remember about this person.`
-          }],
-          max_tokens: 400,
-          temperature: 0.1
-        })
+      // ✅ The gateway summarises the session and upserts haven_memory itself
+      await conversationGateway.stream({
+        task: 'haven_memory',
+        messages: allMessages.map(m => ({
+          role: m.role === 'haven' ? 'assistant' : 'user',
+          content: m.content
+        }))
       });
-
-      if (!response.ok) return;
-      const data = await response.json();
-      const newMemory = data.choices[0]?.message?.content || '';
-
-      if (newMemory) {
-        await supabase
-          .from('haven_memory')
-          .upsert({
-            user_id: user.id,
-            content: newMemory,
-            updated_at: new Date().toISOString()
-          }, { onConflict: 'user_id' });
-        setHavenMemory(newMemory);
-      }
     } catch (error) {
       console.error('Haven memory update error:', error);
     }
   };
 
+  const saveTrustedContact = async () => {
+    if (!user) return;
+    if (trustedContact.optIn && !trustedContact.phone.trim()) {
+      toast.error('Add a phone number for your trusted contact');
+      return;
+    }
+    setSavingContact(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({
+          trusted_contact_name: trustedContact.name.trim() || null,
+          trusted_contact_phone: trustedContact.phone.trim() || null,
+          trusted_contact_opt_in: trustedContact.optIn
+        })
+        .eq('user_id', user.id);
+      if (error) throw error;
+      toast.success(trustedContact.optIn ? 'Trusted contact saved' : 'Trusted contact turned off');
+      setShowTrustedContact(false);
+    } catch (error) {
+      console.error('Error saving trusted contact:', error);
+      toast.error('Could not save trusted contact');
+    } finally {
+      setSavingContact(false);
+    }
+  };
+
   const handleClose = async () => {
     if (messages.length >= 4 && user) {
       await updateHavenMemory(messages);
@@ -398,12 +317,53 @@ Return a concise bullet point summary of everything important to remember about
               <p className="text-white/30 text-xs">Private • Just for you • Nothing leaves here</p>
             </div>
           </div>
-          <button onClick={handleClose}
-            className="w-8 h-8 rounded-full bg-white/5 hover:bg-white/10 flex items-center justify-center transition-all">
-            <X className="h-4 w-4 text-white/50" />
-          </button>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setShowTrustedContact(v => !v)} title="Trusted contact"
+              className="w-8 h-8 rounded-full bg-white/5 hover:bg-white/10 flex items-center justify-center transition-all">
+              <UserPlus className="h-4 w-4 text-white/50" />
+            </button>
+            <button onClick={handleClose}
+              className="w-8 h-8 rounded-full bg-white/5 hover:bg-white/10 flex items-center justify-center transition-all">
+              <X className="h-4 w-4 text-white/50" />
+            </button>
+          </div>
         </div>
 
+        {/* ✅ Trusted contact — opt-in, only ever texted when a message is flagged as a crisis */}
+        {showTrustedContact && (
+          <div className="px-6 py-4 border-b border-white/5 bg-white/[0.02] space-y-3 flex-shrink-0">
+            <p className="text-white/60 text-xs leading-relaxed">
+              If something you say here suggests you might be in danger, we can send a short text to someone you trust.
+              They never see your conversation.
+            </p>
+            <input
+              value={trustedContact.name}
+              onChange={(e) => setTrustedContact(c => ({ ...c, name: e.target.value }))}
+              placeholder="Their name"
+              className="w-full bg-white/5 rounded-xl px-3 py-2 text-sm text-white/80 placeholder-white/20 outline-none border border-white/10 focus:border-indigo-500/50"
+            />
+            <input
+              value={trustedContact.phone}
+              onChange={(e) => setTrustedContact(c => ({ ...c, phone: e.target.value }))}
+              placeholder="Their mobile number (+1 555 123 4567)"
+              type="tel"
+              className="w-full bg-white/5 rounded-xl px-3 py-2 text-sm text-white/80 placeholder-white/20 outline-none border border-white/10 focus:border-indigo-500/50"
+            />
+            <label className="flex items-center gap-2 text-white/60 text-xs">
+              <input
+                type="checkbox"
+                checked={trustedContact.optIn}
+                onChange={(e) => setTrustedContact(c => ({ ...c, optIn: e.target.checked }))}
+              />
+              Let Haven text them if I might be in danger
+            </label>
+            <button onClick={saveTrustedContact} disabled={savingContact}
+              className="w-full bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded-xl py-2 transition-all disabled:opacity-50">
+              {savingContact ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
           {messages.map((message) => (
@@ -418,7 +378,7 @@ Return a concise bullet point summary of everything important to remember about
                   ? 'bg-indigo-600/40 text-white/90 rounded-tr-sm'
                   : 'bg-white/5 text-white/80 rounded-tl-sm'
               }`}>
-                <p className="text-sm leading-relaxed">{message.content}</p>
+                <p className="text-sm leading-relaxed whitespace-pre-line">{message.content}</p>
               </div>
             </div>
           ))}
@@ -440,6 +400,31 @@ Return a concise bullet point summary of everything important to remember about
           <div ref={messagesEndRef} />
         </div>
 
+        {/* ✅ Safety resources stay pinned once a message has been flagged */}
+        {safetyNotice && (
+          <div className="mx-4 mb-2 rounded-2xl border border-rose-400/30 bg-rose-500/10 px-4 py-3 flex-shrink-0">
+            <div className="flex items-center gap-2 mb-2">
+              <Phone className="h-4 w-4 text-rose-300" />
+              <p className="text-rose-100 text-sm font-medium">
+                {safetyNotice.level === 'crisis' ? 'Please reach out right now' : 'Someone is available to talk'}
+              </p>
+            </div>
+            <ul className="space-y-1">
+              {safetyNotice.resources.map(resource => (
+                <li key={resource.name} className="text-rose-100/80 text-xs">
+                  <span className="font-semibold">{resource.name}</span> — {resource.contact}
+                </li>
+              ))}
+            </ul>
+            {!trustedContact.optIn && (
+              <button onClick={() => setShowTrustedContact(true)}
+                className="mt-2 text-xs text-rose-200 underline underline-offset-2">
+                Add a trusted contact
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Input */}
         <div className="px-4 py-4 border-t border-white/5 flex-shrink-0">
           <div className="flex items-end gap-2">
@@ -477,7 +462,9 @@ Return a concise bullet point summary of everything important to remember about
             </button>
           </div>
           <p className="text-center text-white/15 text-xs mt-2">
-            Haven remembers you across sessions • Nothing is shared
+            {trustedContact.optIn
+              ? 'Haven remembers you across sessions • Your trusted contact is only texted in a crisis'
+              : 'Haven remembers you across sessions • Nothing is shared'}
           </p>
         </div>
       </div>
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Mail, Plus, X, Calendar, Phone, Heart, Trash2, Clock, CheckCircle, AlertCircle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { conversationGateway } from '../lib/conversationGateway';
 import toast from 'react-hot-toast';
 
 const OCCASIONS = [
@@ -80,54 +81,16 @@ export function LegacyLetters({ persona, onClose }: LegacyLettersProps) {
     setIsGenerating(true);
 
     try {
-      const { data: memories } = await supabase
-        .from('persona_memories')
-        .select('content, memory_type, importance')
-        .eq('persona_id', persona.id)
-        .order('importance', { ascending: false })
-        .limit(15);
-
-      const memoryContext = memories && memories.length > 0
-        ? memories.map(m => `• ${m.content}`).join('\n')
-        : 'No specific memories available.';
-
       const occasionLabel = OCCASIONS.find(o => o.id === selectedOccasion)?.label || selectedOccasion;
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [{
-            role: 'system',
-            content: `You are ${persona.name}. You are writing a heartfelt legacy letter to ${recipientName} for their ${occasionLabel}. This letter will be delivered on a special date as a surprise from beyond.
-
-YOUR MEMORIES AND PERSONALITY:
-${memoryContext}
-
-PERSONALITY: ${persona.personality_traits || 'warm, loving, genuine'}
-
-Write a deeply personal, heartfelt letter (4-6 sentences) that:
-- Sounds authentically like ${persona.name} wrote it
-- References specific memories or relationships if relevant
-- Acknowledges the milestone with genuine emotion
-- Offers love, wisdom, or encouragement appropriate to the occasion
-- Feels like a treasured final message — warm but not morbid
-- Does NOT mention being deceased or being an AI
-${customContext ? `\nAdditional context: ${customContext}` : ''}
-
-Write ONLY the letter — no subject line, no "Dear X", just the heartfelt message itself.`
-          }],
-          max_tokens: 300,
-          temperature: 0.85
-        })
+      // ✅ Memories and the letter prompt are assembled server-side by the gateway
+      const message = await conversationGateway.stream({
+        task: 'legacy_letter',
+        personaId: persona.id,
+        recipientName,
+        occasionLabel,
+        customContext: customContext || undefined
       });
-
-      const data = await response.json();
-      const message = data.choices[0]?.message?.content || '';
       setPreviewMessage(message);
       toast.success('Letter generated! Review and save it.');
 
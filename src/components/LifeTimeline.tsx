@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { History, CalendarClock, ChevronDown, ChevronUp } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  loadLifeTimeline,
+  groupByDecade,
+  formatMemoryDate,
+  placeMemory,
+  DATE_SOURCE_LABELS,
+  LIFE_STAGES,
+  DatePrecision,
+  LifeStage,
+  LifeTimeline as Timeline,
+  TimelineMemory
+} from '../lib/lifeTimeline';
+import toast from 'react-hot-toast';
+
+interface LifeTimelineProps {
+  personaId: string;
+  personaName: string;
+  dateOfPassing?: string | null;
+  bornOn?: string | null;
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const UNDATED_SHOWN = 5;
+
+// ✅ The small form under an undated memory — as precise as whoever places it remembers
+function PlaceMemoryForm({ memory, onPlaced }: { memory: TimelineMemory; onPlaced: () => void }) {
+  const [precision, setPrecision] = useState<DatePrecision>('year');
+  const [year, setYear] = useState('');
+  const [month, setMonth] = useState(1);
+  const [stage, setStage] = useState<LifeStage | ''>('');
+  const [saving, setSaving] = useState(false);
+
+  const yearNumber = Number(year);
+  const validYear = /^\d{4}$/.test(year) && yearNumber >= 1850 && yearNumber <= new Date().getFullYear();
+
+  const save = async () => {
+    if (!validYear) return;
+    setSaving(true);
+    const placed = await placeMemory(supabase, memory.id, {
+      year: precision === 'decade' ? Math.floor(yearNumber / 10) * 10 : yearNumber,
+      month,
+      precision,
+      stage: stage || null
+    });
+    setSaving(false);
+    if (placed) {
+      toast.success('Memory placed on the timeline 💙');
+      onPlaced();
+    } else {
+      toast.error('Could not place this memory');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      <select value={precision} onChange={(e) => setPrecision(e.target.value as DatePrecision)}
+        className="border border-gray-200 rounded-lg px-2 py-1 text-xs bg-white">
+        <option value="year">In the year</option>
+        <option value="month">In the month</option>
+        <option value="decade">Sometime in the</option>
+      </select>
+      {precision === 'month' && (
+        <select value={month} onChange={(e) => setMonth(Number(e.target.value))}
+          className="border border-gray-200 rounded-lg px-2 py-1 text-xs bg-white">
+          {MONTH_NAMES.map((name, index) => <option key={name} value={index + 1}>{name}</option>)}
+        </select>
+      )}
+      <input value={year} onChange={(e) => setYear(e.target.value.replace(/\D/g, '').slice(0, 4))}
+        placeholder={precision === 'decade' ? '1960' : 'Year'}
+        className="w-16 border border-gray-200 rounded-lg px-2 py-1 text-xs" />
+      {precision === 'decade' && <span className="text-xs text-gray-500">s</span>}
+      <select value={stage} onChange={(e) => setStage(e.target.value as LifeStage | '')}
+        className="border border-gray-200 rounded-lg px-2 py-1 text-xs bg-white">
+        <option value="">Life stage (optional)</option>
+        {(Object.keys(LIFE_STAGES) as LifeStage[]).map(s => <option key={s} value={s}>{LIFE_STAGES[s]}</option>)}
+      </select>
+      <button onClick={save} disabled={saving || !validYear}
+        className="px-3 py-1 rounded-lg bg-amber-500 text-white text-xs font-medium hover:bg-amber-600 disabled:opacity-50">
+        {saving ? 'Placing...' : 'Place'}
+      </button>
+    </div>
+  );
+}
+
+// ✅ Their life story by decade and life stage, plus the memories still waiting for a date —
+// anyone helping with the persona can place those
+export function LifeTimeline({ personaId, personaName, dateOfPassing, bornOn }: LifeTimelineProps) {
+  const { user } = useAuth();
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [stageFilter, setStageFilter] = useState<LifeStage | 'all'>('all');
+  const [showUndated, setShowUndated] = useState(false);
+  const [showAllUndated, setShowAllUndated] = useState(false);
+  const [placingId, setPlacingId] = useState<string | null>(null);
+
+  const reload = () => {
+    loadLifeTimeline(supabase, personaId, { personaName, dateOfPassing, bornOn }).then(setTimeline);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    loadLifeTimeline(supabase, personaId, { personaName, dateOfPassing, bornOn }).then(setTimeline);
+  }, [user, personaId, personaName, dateOfPassing, bornOn]);
+
+  if (!timeline) return null;
+
+  const stages = (Object.keys(LIFE_STAGES) as LifeStage[]).filter(s => timeline.entries.some(e => e.stage === s));
+  const entries = stageFilter === 'all' ? timeline.entries : timeline.entries.filter(e => e.stage === stageFilter);
+  const decades = groupByDecade(entries);
+  const undated = showAllUndated ? timeline.undated : timeline.undated.slice(0, UNDATED_SHOWN);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-gradient-to-br from-amber-400 to-orange-500 rounded-full flex items-center justify-center">
+          <History className="h-5 w-5 text-white" />
+        </div>
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Life Timeline</h2>
+          <p className="text-xs text-gray-500">
+            {personaName}'s story by decade{timeline.birthYear ? ` · born ${timeline.birthYear}` : ''}
+          </p>
+        </div>
+      </div>
+
+      {stages.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          {(['all', ...stages] as Array<LifeStage | 'all'>).map(s => (
+            <button key={s} onClick={() => setStageFilter(s)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-all ${
+                stageFilter === s ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+              }`}>
+              {s === 'all' ? 'Whole life' : LIFE_STAGES[s]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {decades.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">
+          Memories with a year, a photo date or a post date will appear here — or place one below.
+        </p>
+      ) : (
+        <div className="space-y-4 max-h-96 overflow-y-auto">
+          {decades.map(({ decade, entries: decadeEntries }) => (
+            <div key={decade}>
+              <p className="text-xs font-bold text-amber-600 uppercase tracking-wide mb-2">{decade}s</p>
+              <div className="space-y-2 border-l-2 border-amber-100 pl-3">
+                {decadeEntries.map(entry => (
+                  <div key={entry.memory.id}>
+                    <p className="text-xs text-gray-400">
+                      {formatMemoryDate(entry.date)}
+                      {entry.stage && ` · ${LIFE_STAGES[entry.stage]}`}
+                      {` · ${DATE_SOURCE_LABELS[entry.date.source]}`}
+                    </p>
+                    <p className="text-sm text-gray-800">{entry.memory.content}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {timeline.undated.length > 0 && (
+        <div className="mt-4 border-t border-gray-100 pt-4">
+          <button onClick={() => setShowUndated(!showUndated)}
+            className="w-full flex items-center justify-between text-sm font-semibold text-gray-700">
+            <span className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4 text-amber-500" />
+              Place these memories ({timeline.undated.length})
+            </span>
+            {showUndated ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          {showUndated && (
+            <div className="space-y-2 mt-3">
+              <p className="text-xs text-gray-500">
+                Roughly when did these happen? Even a decade helps {personaName} answer "when" questions.
+              </p>
+              {undated.map(memory => (
+                <div key={memory.id} className="border border-gray-100 rounded-lg px-3 py-2">
+                  <p className="text-sm text-gray-800">{memory.content}</p>
+                  {placingId === memory.id ? (
+                    <PlaceMemoryForm memory={memory} onPlaced={() => { setPlacingId(null); reload(); }} />
+                  ) : (
+                    <button onClick={() => setPlacingId(memory.id)}
+                      className="text-xs text-amber-600 font-medium hover:text-amber-700 mt-1">
+                      Place this memory
+                    </button>
+                  )}
+                </div>
+              ))}
+              {timeline.undated.length > UNDATED_SHOWN && (
+                <button onClick={() => setShowAllUndated(!showAllUndated)}
+                  className="text-xs text-gray-500 hover:text-gray-700">
+                  {showAllUndated ? 'Show fewer' : `Show all ${timeline.undated.length}`}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,37 @@
-import React, { useState, useEffect } from 'react';
-import { Brain, Search, TrendingUp, Calendar, Tag, ExternalLink, RefreshCw } from 'lucide-react';
-import { memoryConversationEngine } from '../lib/memoryConversation';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Brain, Search, TrendingUp, Calendar, Tag, ExternalLink, RefreshCw, Layers, Inbox, Check, X, Pencil, Pin } from 'lucide-react';
+import { MemoryConversationEngine } from '../lib/memoryConversation';
 import { supabase } from '../lib/supabase';
 import { Memory } from '../lib/memoryExtraction';
+import { conversationGateway } from '../lib/conversationGateway';
+import { useAuth } from '../hooks/useAuth';
+import { useMemoryFocus } from '../hooks/useMemoryFocus';
+import {
+  getPendingReviews,
+  reviewMemory,
+  MEMORY_PROVENANCE_LABELS,
+  MemoryProvenanceKind
+} from '../lib/memoryReview';
+import { setCoreMemory } from '../lib/memoryImportance';
 import toast from 'react-hot-toast';
 
+// Rows come straight from persona_memories, which has more columns than Memory declares
+function isCoreMemory(memory: Memory): boolean {
+  return !!(memory as Memory & { is_core?: boolean }).is_core;
+}
+
+// Read-only use — summaries only need the browser client, no LLM
+const memoryConversationEngine = new MemoryConversationEngine(supabase);
+
 interface MemoryViewerProps {
   personaId: string;
   personaName: string;
+  // Only the owner can pin core memories
+  isOwner?: boolean;
 }
 
-export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
+export function MemoryViewer({ personaId, personaName, isOwner = true }: MemoryViewerProps) {
+  const { user } = useAuth();
   const [memories, setMemories] = useState<Memory[]>([]);
   const [summary, setSummary] = useState<any>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -18,12 +39,18 @@ export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
   const [selectedSource, setSelectedSource] = useState<string>('all');
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isConsolidating, setIsConsolidating] = useState(false);
+  const [pendingReviews, setPendingReviews] = useState<Awaited<ReturnType<typeof getPendingReviews>>>([]);
+  const [showReview, setShowReview] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
-  useEffect(() => {
-    loadMemorySummary();
+  const loadPendingReviews = useCallback(async () => {
+    setPendingReviews(await getPendingReviews(supabase, personaId));
   }, [personaId]);
 
-  const loadMemorySummary = async () => {
+  const loadMemorySummary = useCallback(async () => {
     setIsLoading(true);
     try {
       const data = await memoryConversationEngine.getMemorySummary(personaId);
@@ -34,6 +61,71 @@ export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
     } finally {
       setIsLoading(false);
     }
+  }, [personaId]);
+
+  useEffect(() => {
+    loadMemorySummary();
+    loadPendingReviews();
+  }, [loadMemorySummary, loadPendingReviews]);
+
+  // ✅ A citation on the call screen was clicked — show that memory even if filtered out or not loaded
+  const showMemory = async (memoryId: string) => {
+    setSearchQuery('');
+    setSelectedType('all');
+    setSelectedSource('all');
+
+    if (!memories.some(m => m.id === memoryId)) {
+      const { data, error } = await supabase
+        .from('persona_memories')
+        .select('*')
+        .eq('id', memoryId)
+        .eq('persona_id', personaId)
+        .maybeSingle();
+      if (error || !data) {
+        console.error('Error loading cited memory:', error);
+        toast.error('Could not find that memory');
+        return;
+      }
+      setMemories(prev => [data, ...prev.filter(m => m.id !== memoryId)]);
+    }
+
+    setHighlightedId(memoryId);
+    setTimeout(() => {
+      document.getElementById(`memory-${memoryId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 50);
+    setTimeout(() => setHighlightedId(current => current === memoryId ? null : current), 4000);
+  };
+
+  useMemoryFocus(showMemory);
+
+  // ✅ Approve, edit-and-approve or reject a fact picked up in conversation
+  const handleReview = async (memoryId: string, decision: 'approved' | 'rejected', editedContent?: string) => {
+    if (!user) return;
+    const ok = await reviewMemory(supabase, memoryId, user.id, decision, editedContent);
+    if (!ok) {
+      toast.error('Could not update memory');
+      return;
+    }
+    setPendingReviews(prev => prev.filter(m => m.id !== memoryId));
+    setEditingId(null);
+    if (decision === 'rejected') {
+      setMemories(prev => prev.filter(m => m.id !== memoryId));
+    } else {
+      setMemories(prev => prev.map(m => m.id === memoryId
+        ? { ...m, review_status: 'approved', content: editedContent?.trim() || m.content }
+        : m));
+    }
+    toast.success(decision === 'approved' ? 'Memory confirmed ✓' : 'Memory removed', { duration: 1500 });
+  };
+
+  // ✅ Core memories are always in the persona's mind and never fade
+  const toggleCore = async (memoryId: string, isCore: boolean) => {
+    if (!await setCoreMemory(supabase, memoryId, isCore)) {
+      toast.error('Could not update memory');
+      return;
+    }
+    setMemories(prev => prev.map(m => m.id === memoryId ? { ...m, is_core: isCore } : m));
+    toast.success(isCore ? `${personaName} will always keep this in mind 💙` : 'No longer a core memory', { duration: 1500 });
   };
 
   const refreshMemories = async () => {
@@ -44,6 +136,7 @@ export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
         .from('persona_memories')
         .select('*')
         .eq('persona_id', personaId)
+        .neq('review_status', 'rejected')
         .order('importance', { ascending: false })
         .limit(50);
 
@@ -75,6 +168,24 @@ export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
     }
   };
 
+  // ✅ Folds repeated facts into one memory — repeats raise its importance instead of piling up
+  const consolidateMemories = async () => {
+    setIsConsolidating(true);
+    try {
+      const result = await conversationGateway.consolidateMemories(personaId);
+      const removed = result.memoriesBefore - result.memoriesAfter;
+      toast.success(removed > 0
+        ? `Merged ${removed} duplicate ${removed === 1 ? 'memory' : 'memories'}`
+        : 'No duplicates found', { duration: 2000 });
+      await refreshMemories();
+    } catch (error) {
+      console.error('Error consolidating memories:', error);
+      toast.error('Could not merge duplicates');
+    } finally {
+      setIsConsolidating(false);
+    }
+  };
+
   const getTypeColor = (type: string) => {
     const colors: Record<string, string> = {
       fact: 'bg-blue-100 text-blue-700',
@@ -116,7 +227,7 @@ export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
     const matchesType = selectedType === 'all' || type === selectedType;
     const matchesSource = selectedSource === 'all' || source === selectedSource;
     return matchesSearch && matchesType && matchesSource;
-  });
+  }).sort((a, b) => Number(isCoreMemory(b)) - Number(isCoreMemory(a)));
 
   if (isLoading) {
     return (
@@ -140,16 +251,97 @@ export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
             <p className="text-xs text-gray-500">{summary?.totalMemories || 0} memories</p>
           </div>
         </div>
-        <button
-          onClick={refreshMemories}
-          disabled={isRefreshing}
-          className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg text-xs font-semibold hover:bg-blue-100 transition-all disabled:opacity-40"
-        >
-          <RefreshCw className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          {pendingReviews.length > 0 && (
+            <button
+              onClick={() => setShowReview(!showReview)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${
+                showReview ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+              }`}
+            >
+              <Inbox className="h-3.5 w-3.5" />
+              Review {pendingReviews.length}
+            </button>
+          )}
+          <button
+            onClick={consolidateMemories}
+            disabled={isConsolidating || isRefreshing}
+            title="Merge duplicate memories"
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-purple-50 text-purple-600 rounded-lg text-xs font-semibold hover:bg-purple-100 transition-all disabled:opacity-40"
+          >
+            <Layers className={`h-3.5 w-3.5 ${isConsolidating ? 'animate-pulse' : ''}`} />
+            Tidy
+          </button>
+          <button
+            onClick={refreshMemories}
+            disabled={isRefreshing}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg text-xs font-semibold hover:bg-blue-100 transition-all disabled:opacity-40"
+          >
+            <RefreshCw className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
       </div>
 
+      {/* Review queue */}
+      {showReview && pendingReviews.length > 0 && (
+        <div className="bg-amber-50 border border-amber-100 rounded-xl p-3 mb-5">
+          <p className="text-xs text-amber-800 mb-3">
+            {personaName} picked these up in conversation. Until you confirm them they count for less.
+          </p>
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {pendingReviews.map(memory => (
+              <div key={memory.id} className="bg-white rounded-lg p-3 border border-amber-100">
+                {editingId === memory.id ? (
+                  <textarea
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    rows={2}
+                    className="w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm mb-2 focus:ring-2 focus:ring-amber-400 focus:border-transparent"
+                  />
+                ) : (
+                  <p className="text-sm text-gray-700 mb-2">{memory.content}</p>
+                )}
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-400">
+                    {new Date(memory.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {editingId === memory.id ? (
+                      <>
+                        <button onClick={() => handleReview(memory.id, 'approved', editText)}
+                          className="px-2 py-1 bg-green-600 text-white rounded-md text-xs font-semibold hover:bg-green-700">
+                          Save
+                        </button>
+                        <button onClick={() => setEditingId(null)}
+                          className="px-2 py-1 text-gray-500 text-xs hover:text-gray-700">
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button onClick={() => handleReview(memory.id, 'approved')} title="Confirm"
+                          className="p-1.5 text-green-600 hover:bg-green-50 rounded-md">
+                          <Check className="h-3.5 w-3.5" />
+                        </button>
+                        <button onClick={() => { setEditingId(memory.id); setEditText(memory.content); }} title="Edit"
+                          className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-md">
+                          <Pencil className="h-3.5 w-3.5" />
+                        </button>
+                        <button onClick={() => handleReview(memory.id, 'rejected')} title="Not true"
+                          className="p-1.5 text-red-500 hover:bg-red-50 rounded-md">
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Summary stats */}
       {summary && summary.totalMemories > 0 && (
         <div className="grid grid-cols-2 gap-3 mb-5">
@@ -234,15 +426,41 @@ export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
             return (
               <div
                 key={memory.id}
-                className="border border-gray-100 rounded-xl p-3 hover:border-blue-200 hover:bg-blue-50/30 transition-all"
+                id={`memory-${memory.id}`}
+                className={`border rounded-xl p-3 hover:border-blue-200 hover:bg-blue-50/30 transition-all ${
+                  highlightedId === memory.id ? 'border-blue-300 bg-blue-50/50 ring-2 ring-blue-400' : 'border-gray-100'
+                }`}
               >
                 <div className="flex items-center gap-2 mb-1.5 flex-wrap">
                   <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${getTypeColor(type)}`}>
                     {type}
                   </span>
-                  <span className="text-xs px-2 py-0.5 bg-gray-100 text-gray-500 rounded-full">
+                  <span className="text-xs px-2 py-0.5 bg-gray-100 text-gray-500 rounded-full"
+                    title={memory.provenance ? MEMORY_PROVENANCE_LABELS[memory.provenance as MemoryProvenanceKind] : undefined}>
                     {getSourceBadge(source)}
                   </span>
+                  {memory.is_core && (
+                    <span className="text-xs px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full flex items-center gap-1">
+                      <Pin className="h-3 w-3" />Core
+                    </span>
+                  )}
+                  {memory.review_status === 'pending' && (
+                    <span className="text-xs px-2 py-0.5 bg-amber-50 text-amber-700 rounded-full">
+                      Unconfirmed
+                    </span>
+                  )}
+                  {memory.metadata?.correction_id && (
+                    <span className="text-xs px-2 py-0.5 bg-emerald-50 text-emerald-700 rounded-full"
+                      title="Corrected during a conversation">
+                      Corrected
+                    </span>
+                  )}
+                  {memory.metadata?.mention_count > 1 && (
+                    <span className="text-xs px-2 py-0.5 bg-purple-50 text-purple-600 rounded-full"
+                      title={`Mentioned ${memory.metadata.mention_count} times`}>
+                      ×{memory.metadata.mention_count}
+                    </span>
+                  )}
                   {importance > 0.9 && (
                     <span className="text-xs px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full">
                       ⭐ High importance
@@ -260,8 +478,15 @@ export function MemoryViewer({ personaId, personaName }: MemoryViewerProps) {
                       month: 'short', day: 'numeric', year: 'numeric'
                     }) : ''}
                   </span>
-                  <span className="text-xs text-gray-400">
-                    {Math.round(importance * 100)}% importance
+                  <span className="flex items-center gap-2 text-xs text-gray-400">
+                    {memory.is_core ? 'Always remembered' : `${Math.round(importance * 100)}% importance`}
+                    {isOwner && memory.review_status !== 'pending' && (
+                      <button onClick={() => toggleCore(memory.id, !memory.is_core)}
+                        title={memory.is_core ? 'Unpin core memory' : 'Pin as a core memory'}
+                        className={`p-1 rounded-md transition-all ${memory.is_core ? 'text-blue-600 bg-blue-50' : 'text-gray-300 hover:text-blue-500'}`}>
+                        <Pin className="h-3.5 w-3.5" />
+                      </button>
+                    )}
                   </span>
                 </div>
               </div>
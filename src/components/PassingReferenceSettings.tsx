@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { Feather } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  resolvePassingReference,
+  PASSING_REFERENCE_OPTIONS,
+  PassingReference
+} from '../lib/temporalAwareness';
+import toast from 'react-hot-toast';
+
+interface PassingReferenceSettingsProps {
+  personaId: string;
+  personaName: string;
+}
+
+// ✅ The owner decides how the persona speaks of its own passing — events since then are always
+// things it hears about, whatever is chosen here
+export function PassingReferenceSettings({ personaId, personaName }: PassingReferenceSettingsProps) {
+  const [reference, setReference] = useState<PassingReference | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from('personas')
+      .select('passing_reference')
+      .eq('id', personaId)
+      .single()
+      .then(({ data }) => setReference(resolvePassingReference(data?.passing_reference)));
+  }, [personaId]);
+
+  const handleChange = async (value: PassingReference) => {
+    setSaving(true);
+    const { error } = await supabase
+      .from('personas')
+      .update({ passing_reference: value, updated_at: new Date().toISOString() })
+      .eq('id', personaId);
+    if (error) {
+      console.error('Error updating passing reference:', error);
+      toast.error('Could not save this setting');
+    } else {
+      setReference(value);
+      toast.success(`Saved — ${personaName}: ${PASSING_REFERENCE_OPTIONS[value].description.toLowerCase()}`);
+    }
+    setSaving(false);
+  };
+
+  if (!reference) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      <Feather className="h-4 w-4 text-gray-400" />
+      <span>Their passing:</span>
+      <select
+        value={reference}
+        onChange={(e) => handleChange(e.target.value as PassingReference)}
+        disabled={saving}
+        title={PASSING_REFERENCE_OPTIONS[reference].description}
+        className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+      >
+        {(Object.keys(PASSING_REFERENCE_OPTIONS) as PassingReference[]).map(option => (
+          <option key={option} value={option}>{PASSING_REFERENCE_OPTIONS[option].label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { Users, Plus, Pencil, Trash2, Check, UserCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  loadPeopleGraph,
+  savePerson,
+  confirmPerson,
+  deletePerson,
+  claimPerson,
+  linkPeople,
+  unlinkPeople,
+  describeLinks,
+  EMPTY_PEOPLE_GRAPH,
+  PeopleGraph,
+  PersonaPerson
+} from '../lib/peopleGraph';
+import { FamilyTreeTransfer } from './FamilyTreeTransfer';
+import { GedcomImportResult } from '../lib/gedcom';
+import toast from 'react-hot-toast';
+
+interface PeopleRegistryProps {
+  personaId: string;
+  personaName: string;
+  isOwner: boolean;
+  onPersonaUpdated?: (fields: GedcomImportResult['persona']) => void;
+}
+
+const EMPTY_FORM = { name: '', nickname: '', relationship: '', aliases: '', notes: '', relatedId: '', relatedAs: '' };
+
+// ✅ Everyone in the persona's life, who they are to each other and what the persona called
+// them — picked up from memories and corrected by the family
+export function PeopleRegistry({ personaId, personaName, isOwner, onPersonaUpdated }: PeopleRegistryProps) {
+  const { user } = useAuth();
+  const [graph, setGraph] = useState<PeopleGraph>(EMPTY_PEOPLE_GRAPH);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const reload = () => loadPeopleGraph(supabase, personaId).then(setGraph);
+
+  useEffect(() => {
+    if (!user) return;
+    loadPeopleGraph(supabase, personaId).then(setGraph);
+  }, [user, personaId]);
+
+  const startEditing = (person: PersonaPerson | null) => {
+    setEditingId(person ? person.id : 'new');
+    setForm(person
+      ? {
+          name: person.name,
+          nickname: person.nickname || '',
+          relationship: person.relationship || '',
+          aliases: person.aliases.join(', '),
+          notes: person.notes || '',
+          relatedId: '',
+          relatedAs: ''
+        }
+      : EMPTY_FORM);
+  };
+
+  const save = async () => {
+    if (!form.name.trim()) return;
+    setSaving(true);
+    const saved = await savePerson(supabase, personaId, {
+      name: form.name,
+      nickname: form.nickname,
+      relationship: form.relationship,
+      aliases: form.aliases.split(','),
+      notes: form.notes
+    }, editingId && editingId !== 'new' ? editingId : undefined);
+    if (saved && form.relatedId && form.relatedAs.trim()) {
+      await linkPeople(supabase, personaId, saved.id, form.relatedId, form.relatedAs);
+    }
+    setSaving(false);
+    if (!saved) {
+      toast.error('Could not save this person');
+      return;
+    }
+    setEditingId(null);
+    reload();
+  };
+
+  const confirm = async (person: PersonaPerson) => {
+    if (await confirmPerson(supabase, person.id)) reload();
+    else toast.error('Could not confirm this person');
+  };
+
+  const remove = async (person: PersonaPerson) => {
+    if (await deletePerson(supabase, person.id)) reload();
+    else toast.error('Could not remove this person');
+  };
+
+  const claim = async (person: PersonaPerson) => {
+    if (!user) return;
+    const isMe = person.user_id === user.id;
+    if (await claimPerson(supabase, personaId, isMe ? null : person.id, user.id)) {
+      if (!isMe) toast.success(`${personaName} will know it's you 💙`);
+      reload();
+    } else {
+      toast.error('Could not update this person');
+    }
+  };
+
+  const removeLink = async (linkId: string) => {
+    if (await unlinkPeople(supabase, linkId)) reload();
+    else toast.error('Could not remove this link');
+  };
+
+  const editing = editingId ? graph.people.find(p => p.id === editingId) : undefined;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-sky-400 to-indigo-500 rounded-full flex items-center justify-center">
+            <Users className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">People</h2>
+            <p className="text-xs text-gray-500">Who's who in {personaName}'s life</p>
+          </div>
+        </div>
+        {!editingId && (
+          <button onClick={() => startEditing(null)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-sky-50 text-sky-600 rounded-lg text-xs font-semibold hover:bg-sky-100 transition-all">
+            <Plus className="h-3.5 w-3.5" />Add
+          </button>
+        )}
+      </div>
+
+      {!editingId && (
+        <FamilyTreeTransfer personaId={personaId} personaName={personaName} isOwner={isOwner}
+          onImported={reload} onPersonaUpdated={onPersonaUpdated} />
+      )}
+
+      {editingId && (
+        <div className="border border-sky-100 bg-sky-50/40 rounded-xl p-3 mb-4 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Name" className="border border-gray-200 rounded-lg px-3 py-1.5 text-sm" />
+            <input value={form.relationship} onChange={(e) => setForm({ ...form, relationship: e.target.value })}
+              placeholder={`Who to ${personaName}, e.g. granddaughter`} className="border border-gray-200 rounded-lg px-3 py-1.5 text-sm" />
+          </div>
+          <input value={form.nickname} onChange={(e) => setForm({ ...form, nickname: e.target.value })}
+            placeholder={`What ${personaName} called them`} className="w-full border border-gray-200 rounded-lg px-3 py-1.5 text-sm" />
+          <input value={form.aliases} onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+            placeholder="Other names or spellings, comma separated" className="w-full border border-gray-200 rounded-lg px-3 py-1.5 text-sm" />
+          <div className="grid grid-cols-2 gap-2">
+            <input value={form.relatedAs} onChange={(e) => setForm({ ...form, relatedAs: e.target.value })}
+              placeholder="e.g. daughter" className="border border-gray-200 rounded-lg px-3 py-1.5 text-sm" />
+            <select value={form.relatedId} onChange={(e) => setForm({ ...form, relatedId: e.target.value })}
+              className="border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-white">
+              <option value="">of... (optional)</option>
+              {graph.people.filter(p => p.id !== editingId).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+          {editing && describeLinks(graph, editing).length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {graph.links.filter(l => l.person_id === editing.id).map(link => (
+                <span key={link.id} className="flex items-center gap-1 text-xs bg-white border border-gray-200 rounded-full px-2 py-0.5 text-gray-600">
+                  {link.relationship} of {graph.people.find(p => p.id === link.related_person_id)?.name}
+                  <button onClick={() => removeLink(link.id)} title="Remove link" className="text-gray-300 hover:text-red-500">×</button>
+                </span>
+              ))}
+            </div>
+          )}
+          <textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder="Anything else worth knowing" rows={2}
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm resize-none" />
+          <div className="flex gap-2">
+            <button onClick={() => setEditingId(null)} className="flex-1 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-600 bg-white">
+              Cancel
+            </button>
+            <button onClick={save} disabled={saving || !form.name.trim()}
+              className="flex-1 py-1.5 rounded-lg bg-sky-500 text-white text-sm font-medium hover:bg-sky-600 disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {graph.people.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">
+          People named in memories appear here. Add the grandchildren, friends and family {personaName} talked about.
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {graph.people.map(person => (
+            <div key={person.id} className="flex items-start justify-between gap-2 border border-gray-100 rounded-lg px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-800 font-medium">
+                  {person.name}
+                  {person.nickname && <span className="text-gray-500 font-normal"> · "{person.nickname}"</span>}
+                  {person.user_id === user?.id && <span className="ml-1.5 text-xs text-sky-600 font-semibold">You</span>}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {[person.relationship, ...describeLinks(graph, person)].filter(Boolean).join(' · ') || 'Relationship unknown'}
+                  {person.aliases.length > 0 && ` · also ${person.aliases.join(', ')}`}
+                  {(person.born_on || person.died_on) && ` · ${person.born_on?.slice(0, 4) || '?'}–${person.died_on?.slice(0, 4) || ''}`}
+                </p>
+                {!person.confirmed && (
+                  <button onClick={() => confirm(person)}
+                    className="flex items-center gap-1 text-xs text-sky-600 font-medium hover:text-sky-700 mt-1">
+                    <Check className="h-3 w-3" />Found in memories — looks right?
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {(!person.user_id || person.user_id === user?.id) && (
+                  <button onClick={() => claim(person)} title={person.user_id === user?.id ? 'This isn\'t me' : 'This is me'}
+                    className={`p-1 ${person.user_id === user?.id ? 'text-sky-500' : 'text-gray-300 hover:text-sky-500'}`}>
+                    <UserCheck className="h-4 w-4" />
+                  </button>
+                )}
+                <button onClick={() => startEditing(person)} title="Edit" className="p-1 text-gray-300 hover:text-gray-600">
+                  <Pencil className="h-4 w-4" />
+                </button>
+                {(person.created_by === user?.id || isOwner) && (
+                  <button onClick={() => remove(person)} title="Remove" className="p-1 text-gray-300 hover:text-red-500">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { ShieldOff, X, Pencil, Trash2, Check } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  loadBoundaries,
+  saveBoundary,
+  updateBoundary,
+  deleteBoundary,
+  reviewBoundarySuggestion,
+  parseTerms,
+  BOUNDARY_KIND_LABELS,
+  BOUNDARY_HANDLING_LABELS,
+  BoundaryDraft,
+  BoundaryHandling,
+  BoundaryKind,
+  PersonaBoundary
+} from '../lib/personaBoundaries';
+import toast from 'react-hot-toast';
+
+interface PersonaBoundariesProps {
+  personaId: string;
+  personaName: string;
+  isOwner: boolean;
+}
+
+const EMPTY_FORM = { kind: 'topic' as BoundaryKind, subject: '', terms: '', handling: 'avoid' as BoundaryHandling, guidance: '' };
+
+const SUBJECT_PLACEHOLDERS: Record<BoundaryKind, string> = {
+  topic: 'e.g. The illness',
+  person: 'e.g. Uncle Rob',
+  phrase: 'e.g. Rest in peace'
+};
+
+// ✅ Boundaries the family sets for a persona — the owner edits them directly and reviews what
+// collaborators suggest; collaborators can suggest and withdraw their own suggestions
+export function PersonaBoundaries({ personaId, personaName, isOwner }: PersonaBoundariesProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [boundaries, setBoundaries] = useState<PersonaBoundary[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // RLS only returns a collaborator's own suggestions
+  useEffect(() => {
+    if (!user) return;
+    loadBoundaries(supabase, personaId, ['active', 'suggested']).then(setBoundaries);
+  }, [user, personaId]);
+
+  const load = async () => {
+    setBoundaries(await loadBoundaries(supabase, personaId, ['active', 'suggested']));
+  };
+
+  const active = boundaries.filter(b => b.status === 'active');
+  const suggested = boundaries.filter(b => b.status === 'suggested');
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEdit = (boundary: PersonaBoundary) => {
+    setEditingId(boundary.id);
+    setForm({
+      kind: boundary.kind,
+      subject: boundary.subject,
+      terms: boundary.terms.join(', '),
+      handling: boundary.handling,
+      guidance: boundary.guidance || ''
+    });
+  };
+
+  const submit = async () => {
+    if (!user || !form.subject.trim()) return;
+    setSaving(true);
+    const draft: BoundaryDraft = {
+      kind: form.kind,
+      subject: form.subject,
+      terms: parseTerms(form.terms),
+      // A phrase is simply never said
+      handling: form.kind === 'phrase' ? 'avoid' : form.handling,
+      guidance: form.guidance
+    };
+    const ok = editingId
+      ? await updateBoundary(supabase, editingId, draft)
+      : Boolean(await saveBoundary(supabase, personaId, user.id, draft, isOwner));
+    if (ok) {
+      toast.success(editingId
+        ? 'Boundary updated'
+        : isOwner ? `${personaName} will keep to this` : 'Suggestion sent to the owner');
+      resetForm();
+      await load();
+    } else {
+      toast.error('Could not save boundary');
+    }
+    setSaving(false);
+  };
+
+  const remove = async (boundary: PersonaBoundary) => {
+    if (await deleteBoundary(supabase, boundary.id)) {
+      if (editingId === boundary.id) resetForm();
+      await load();
+    } else {
+      toast.error('Could not remove boundary');
+    }
+  };
+
+  const review = async (boundary: PersonaBoundary, decision: 'active' | 'declined') => {
+    if (!user) return;
+    if (await reviewBoundarySuggestion(supabase, boundary.id, user.id, decision)) {
+      toast.success(decision === 'active' ? 'Suggestion approved' : 'Suggestion declined');
+      await load();
+    } else {
+      toast.error('Could not update suggestion');
+    }
+  };
+
+  const describe = (boundary: PersonaBoundary) => (
+    <div className="min-w-0">
+      <p className="text-sm text-gray-900">
+        <span className="text-xs text-gray-400 mr-1">{BOUNDARY_KIND_LABELS[boundary.kind]}</span>
+        {boundary.subject}
+      </p>
+      <p className="text-xs text-gray-500">
+        {boundary.kind === 'phrase' ? 'Never said' : BOUNDARY_HANDLING_LABELS[boundary.handling].label}
+        {boundary.terms.length > 0 && ` · also: ${boundary.terms.join(', ')}`}
+      </p>
+      {boundary.guidance && <p className="text-xs text-gray-500 italic mt-0.5">{boundary.guidance}</p>}
+    </div>
+  );
+
+  return (
+    <>
+      <button onClick={() => setOpen(true)} className="text-sm text-rose-600 hover:text-rose-700 font-medium">
+        Boundaries{isOwner && suggested.length > 0 ? ` (${suggested.length} suggested)` : ''}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <ShieldOff className="h-5 w-5 text-rose-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Boundaries</h2>
+              </div>
+              <button onClick={() => { setOpen(false); resetForm(); }} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-5">
+              Topics, people and words {personaName} should steer clear of, in every conversation.
+              {!isOwner && ' Your suggestions go to the owner to approve.'}
+            </p>
+
+            {isOwner && suggested.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm font-medium text-gray-700 mb-2">Suggested by family</p>
+                <div className="space-y-2">
+                  {suggested.map(b => (
+                    <div key={b.id} className="flex items-start justify-between gap-2 bg-amber-50 rounded-lg px-3 py-2">
+                      {describe(b)}
+                      <div className="flex gap-1 shrink-0">
+                        <button onClick={() => review(b, 'active')} title="Approve"
+                          className="p-1 text-green-600 hover:bg-green-100 rounded">
+                          <Check className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => review(b, 'declined')} title="Decline"
+                          className="p-1 text-gray-400 hover:bg-gray-100 rounded">
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mb-4">
+              {active.length === 0 ? (
+                <p className="text-xs text-gray-400">No boundaries yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {active.map(b => (
+                    <div key={b.id} className="flex items-start justify-between gap-2 border border-gray-100 rounded-lg px-3 py-2">
+                      {describe(b)}
+                      {isOwner && (
+                        <div className="flex gap-1 shrink-0">
+                          <button onClick={() => startEdit(b)} title="Edit" className="p-1 text-gray-400 hover:text-gray-600">
+                            <Pencil className="h-4 w-4" />
+                          </button>
+                          <button onClick={() => remove(b)} title="Remove" className="p-1 text-gray-400 hover:text-red-500">
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {!isOwner && suggested.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm font-medium text-gray-700 mb-2">Your suggestions, waiting for the owner</p>
+                <div className="space-y-2">
+                  {suggested.map(b => (
+                    <div key={b.id} className="flex items-start justify-between gap-2 bg-gray-50 rounded-lg px-3 py-2">
+                      {describe(b)}
+                      <button onClick={() => remove(b)} className="text-xs text-gray-500 hover:text-gray-700 shrink-0">
+                        Withdraw
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="border-t border-gray-100 pt-4">
+              <p className="text-sm font-medium text-gray-700 mb-3">
+                {editingId ? 'Edit boundary' : isOwner ? 'Add a boundary' : 'Suggest a boundary'}
+              </p>
+              <div className="grid grid-cols-2 gap-3 mb-3">
+                <label className="text-xs text-gray-500">
+                  Kind
+                  <select value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as BoundaryKind })}
+                    className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm text-gray-800">
+                    {(Object.keys(BOUNDARY_KIND_LABELS) as BoundaryKind[]).map(kind => (
+                      <option key={kind} value={kind}>{BOUNDARY_KIND_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                </label>
+                {form.kind !== 'phrase' && (
+                  <label className="text-xs text-gray-500">
+                    Handling
+                    <select value={form.handling} onChange={(e) => setForm({ ...form, handling: e.target.value as BoundaryHandling })}
+                      className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm text-gray-800">
+                      {(Object.keys(BOUNDARY_HANDLING_LABELS) as BoundaryHandling[]).map(handling => (
+                        <option key={handling} value={handling}>{BOUNDARY_HANDLING_LABELS[handling].label}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+              {form.kind !== 'phrase' && (
+                <p className="text-xs text-gray-400 -mt-1 mb-3">{BOUNDARY_HANDLING_LABELS[form.handling].description}</p>
+              )}
+              <input value={form.subject} onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                placeholder={SUBJECT_PLACEHOLDERS[form.kind]}
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm mb-3" />
+              <input value={form.terms} onChange={(e) => setForm({ ...form, terms: e.target.value })}
+                placeholder="Other words for it, comma separated (optional)"
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm mb-3" />
+              <textarea value={form.guidance} onChange={(e) => setForm({ ...form, guidance: e.target.value })}
+                placeholder={`Anything ${personaName} should know about handling it (optional)`}
+                rows={2}
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm mb-3 resize-none" />
+              <div className="flex gap-2">
+                {editingId && (
+                  <button onClick={resetForm} className="flex-1 py-2 rounded-lg border border-gray-200 text-sm text-gray-600">
+                    Cancel
+                  </button>
+                )}
+                <button onClick={submit} disabled={saving || !form.subject.trim()}
+                  className="flex-1 py-2 rounded-lg bg-rose-500 text-white text-sm font-medium hover:bg-rose-600 disabled:opacity-50">
+                  {saving ? 'Saving...' : editingId ? 'Save changes' : isOwner ? 'Add boundary' : 'Send suggestion'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Brain, CheckCircle, Clock, AlertCircle, Zap, Heart, Upload, MessageCircle, BookOpen, Plus, Mic, StopCircle, Globe, X, ChevronRight, Save, Calendar, Camera, Sparkles, Quote, Users2, Repeat, Lightbulb } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { conversationGateway } from '../lib/conversationGateway';
+import { syncNicknameMap } from '../lib/peopleGraph';
 import toast from 'react-hot-toast';
 import { FileUpload } from './FileUpload';
 
@@ -233,6 +235,9 @@ export function PersonaTraining({
         })
         .eq('id', personaId);
 
+      // ✅ Nicknames also live on the people registry the family edits
+      await syncNicknameMap(supabase, personaId, validNicknames);
+
       // ✅ Also save as high-importance memories so they flow into conversations
       const deepMemories = [
         { text: signaturePhrases, type: 'signature' as Memory['type'], label: 'signature phrases' },
@@ -321,21 +326,9 @@ export function PersonaTraining({
         const blob = new Blob(memoryChunksRef.current, { type: 'audio/mp4' });
         stream.getTracks().forEach(t => t.stop());
         try {
-          const fd = new FormData();
-          fd.append('file', blob, 'memory.mp4');
-          fd.append('model', 'whisper-1');
-          const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}` },
-            body: fd
-          });
-          if (response.ok) {
-            const data = await response.json();
-            setNewMemoryText(data.text);
-            toast.success('Transcribed! Review and click Add Memory.');
-          } else {
-            toast.error('Could not transcribe. Please type instead.');
-          }
+          const text = await conversationGateway.transcribe(blob, 'memory.mp4');
+          setNewMemoryText(text);
+          toast.success('Transcribed! Review and click Add Memory.');
         } catch {
           toast.error('Transcription failed. Please type instead.');
         }
@@ -369,38 +362,17 @@ export function PersonaTraining({
       const text = (div.innerText || div.textContent || '').replace(/\s+/g, ' ').trim().substring(0, 8000);
       if (!text) throw new Error('No content found');
 
-      const openAiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [{
-            role: 'user',
-            content: `Extract key personality traits, career information, interests, achievements, and personal details from this content. Write it as a warm personal summary capturing who this person is. Only include what's in the content. Content: ${text}`
-          }],
-          max_tokens: 500
-        })
-      });
-
-      if (openAiResponse.ok) {
-        const aiData = await openAiResponse.json();
-        const summary = aiData.choices[0]?.message?.content || '';
-        setFetchedUrlContent(summary);
-        if (personaId && summary) {
-          await supabase.from('persona_memories').insert({
-            persona_id: personaId,
-            content: `From ${urlInput}: ${summary}`,
-            memory_type: 'biography',
-            source_type: 'web',
-            importance: 0.85
-          });
-          toast.success('Content saved automatically ✓');
-        }
-      } else {
-        throw new Error('AI analysis failed');
+      const { text: summary } = await conversationGateway.analyze({ task: 'summarize_page', text });
+      setFetchedUrlContent(summary);
+      if (personaId && summary) {
+        await supabase.from('persona_memories').insert({
+          persona_id: personaId,
+          content: `From ${urlInput}: ${summary}`,
+          memory_type: 'biography',
+          source_type: 'web',
+          importance: 0.85
+        });
+        toast.success('Content saved automatically ✓');
       }
     } catch {
       toast.error('Could not fetch that URL. Try a different one.');
@@ -432,14 +404,14 @@ export function PersonaTraining({
     setTrainingSteps(prev => prev.map(step => ({ ...step, status: 'pending', progress: 0 })));
     try {
       const { data: content } = await supabase.from('persona_content').select('*').eq('persona_id', personaId);
-      if (import.meta.env.VITE_OPENAI_API_KEY && content && content.length > 0) {
+      if (content && content.length > 0) {
         const { trainPersonaFromContent } = await import('../lib/ai');
         for (let i = 0; i < trainingSteps.length; i++) {
           const step = trainingSteps[i];
           setTrainingSteps(prev => prev.map(s => s.id === step.id ? { ...s, status: 'processing' } : s));
           if (i === trainingSteps.length - 1) {
             try {
-              const result = await trainPersonaFromContent(personaId, content);
+              const result = await trainPersonaFromContent(personaId);
               if (result.success) {
                 setTrainingSteps(prev => prev.map(s => ({ ...s, status: 'completed', progress: 100 })));
               } else throw new Error('Training failed');
@@ -3,18 +3,22 @@ import { Mic, MicOff, Volume2, VolumeX, Brain, Zap, MessageCircle, Phone } from
 import { RealTimeSpeechRecognition, SpeechResult, ConversationContext } from '../lib/speechRecognition';
 import { ContextualAIEngine, ContextualResponse } from '../lib/contextualAI';
 import { supabase } from '../lib/supabase';
+import { conversationGateway } from '../lib/conversationGateway';
+import { detectSafetyRisk, getCrisisResources, buildSafetyResponse } from '../lib/safety';
 import { useAuth } from '../hooks/useAuth';
+import { CallRecap } from './CallRecap';
 import toast from 'react-hot-toast';
 
 interface RealTimeConversationProps {
   personaId: string;
   personaName: string;
   onEndConversation: () => void;
+  onOpenHaven?: () => void;
 }
 
 interface ConversationMessage {
   id: string;
-  sender: 'user' | 'persona';
+  sender: 'user' | 'persona' | 'safety';
   content: string;
   timestamp: Date;
   emotion?: string;
@@ -22,7 +26,7 @@ interface ConversationMessage {
   audioUrl?: string;
 }
 
-export function RealTimeConversation({ personaId, personaName, onEndConversation }: RealTimeConversationProps) {
+export function RealTimeConversation({ personaId, personaName, onEndConversation, onOpenHaven }: RealTimeConversationProps) {
   const [isListening, setIsListening] = useState(false);
   const [isSpeakerOn, setIsSpeakerOn] = useState(true);
   const [messages, setMessages] = useState<ConversationMessage[]>([]);
@@ -38,6 +42,7 @@ export function RealTimeConversation({ personaId, personaName, onEndConversation
   });
   const [personaData, setPersonaData] = useState<any>(null);
   const [permissionGranted, setPermissionGranted] = useState<boolean | null>(null);
+  const [showRecap, setShowRecap] = useState(false);
 
   const speechRecognition = useRef<RealTimeSpeechRecognition | null>(null);
   const contextualAI = useRef<ContextualAIEngine | null>(null);
@@ -95,6 +100,7 @@ export function RealTimeConversation({ personaId, personaName, onEndConversation
 
         if (conversation) {
           conversationId.current = conversation.id;
+          contextualAI.current?.setConversationId(conversation.id);
         }
       }
 
@@ -247,6 +253,19 @@ export function RealTimeConversation({ personaId, personaName, onEndConversation
         setResponseProgress(prev => Math.min(prev + 15, 90));
       }, 150);
 
+      // ✅ Screen the turn before the persona answers — flagged turns get resources, not a reply
+      const safetyText = await checkSafety(userSpeech);
+      if (safetyText) {
+        clearInterval(progressInterval);
+        setMessages(prev => [...prev, {
+          id: (Date.now() + 1).toString(),
+          sender: 'safety',
+          content: safetyText,
+          timestamp: new Date()
+        }]);
+        return;
+      }
+
       // Get updated conversation context
       const context = speechRecognition.current?.getConversationContext() || conversationContext;
       setConversationContext(context);
@@ -314,6 +333,20 @@ export function RealTimeConversation({ personaId, personaName, onEndConversation
     }
   };
 
+  const checkSafety = async (userSpeech: string): Promise<string | null> => {
+    try {
+      const result = await conversationGateway.checkSafety(userSpeech, 'realtime', personaId);
+      return result?.text || null;
+    } catch (error) {
+      // Gateway unreachable — fall back to the local patterns so a crisis is never missed outright
+      console.error('Safety check error:', error);
+      const assessment = detectSafetyRisk(userSpeech);
+      return assessment.level === 'none'
+        ? null
+        : buildSafetyResponse(assessment.level, getCrisisResources(null), { surface: 'realtime' });
+    }
+  };
+
   const stopAllAudio = () => {
     // Stop HTML5 audio
     if (audioRef.current) {
@@ -467,6 +500,21 @@ export function RealTimeConversation({ personaId, personaName, onEndConversation
     }
   };
 
+  // ✅ Conversations where the user said something end on a recap before closing
+  const handleEndConversation = () => {
+    if (!conversationId.current || !messages.some(m => m.sender === 'user')) {
+      onEndConversation();
+      return;
+    }
+    stopAllAudio();
+    if (speechRecognition.current) {
+      speechRecognition.current.destroy();
+      speechRecognition.current = null;
+    }
+    setIsListening(false);
+    setShowRecap(true);
+  };
+
   const addPersonaGreeting = async () => {
     if (!contextualAI.current) return;
 
@@ -533,10 +581,12 @@ export function RealTimeConversation({ personaId, personaName, onEndConversation
               className={`max-w-xs lg:max-w-md px-6 py-4 rounded-2xl shadow-lg ${
                 message.sender === 'user'
                   ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white'
-                  : 'bg-white/90 text-gray-900 backdrop-blur-sm'
+                  : message.sender === 'safety'
+                    ? 'bg-rose-50 text-rose-900 border border-rose-200'
+                    : 'bg-white/90 text-gray-900 backdrop-blur-sm'
               }`}
             >
-              <p className="mb-2">{message.content}</p>
+              <p className="mb-2 whitespace-pre-line">{message.content}</p>
               <div className="flex justify-between items-center text-xs opacity-70">
                 <span>{formatTime(message.timestamp)}</span>
                 {message.emotion && (
@@ -635,7 +685,7 @@ export function RealTimeConversation({ personaId, personaName, onEndConversation
 
           {/* End Conversation */}
           <button
-            onClick={onEndConversation}
+            onClick={handleEndConversation}
             className="p-4 bg-red-500 rounded-full hover:bg-red-600 transition-all duration-300 hover:scale-105 shadow-xl"
           >
             <Phone className="h-6 w-6 text-white" />
@@ -659,6 +709,16 @@ export function RealTimeConversation({ personaId, personaName, onEndConversation
 
       {/* Hidden audio element for persona responses */}
       <audio ref={audioRef} style={{ display: 'none' }} />
+
+      {showRecap && conversationId.current && (
+        <CallRecap
+          personaId={personaId}
+          personaName={personaName}
+          conversationId={conversationId.current}
+          onDone={onEndConversation}
+          onOpenHaven={onOpenHaven}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import React, { useState, useRef } from 'react';
 import { Mic, StopCircle, Play, Pause, CheckCircle, ChevronRight, ChevronLeft, Heart, Sparkles, X, RotateCcw, Camera, Upload } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { conversationGateway } from '../lib/conversationGateway';
 import toast from 'react-hot-toast';
 
 const LEGACY_QUESTIONS = [
@@ -187,20 +188,7 @@ export function RecordYourLegacy({ onClose }: RecordYourLegacyProps) {
     try {
       const audioUrl = URL.createObjectURL(blob);
 
-      const fd = new FormData();
-      fd.append('file', blob, 'recording.mp4');
-      fd.append('model', 'whisper-1');
-
-      const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-        method: 'POST',
-        headers: { 'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}` },
-        body: fd
-      });
-
-      if (!response.ok) throw new Error('Transcription failed');
-
-      const data = await response.json();
-      const transcript = data.text || '';
+      const transcript = await conversationGateway.transcribe(blob, 'recording.mp4');
 
       // ✅ Store blob for later voice cloning
       setRecordings(prev => ({
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Users } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { getPendingSunsetFollowUp, recordSunsetOutcome, SunsetOutcome } from '../lib/sunsetPolicy';
+
+interface SunsetFollowUpProps {
+  personaId: string;
+  personaName: string;
+}
+
+// ✅ Asks, once, whether a delivered nudge led anywhere — the outcome is what tells us the
+// sunset policy is doing its job
+export function SunsetFollowUp({ personaId, personaName }: SunsetFollowUpProps) {
+  const { user } = useAuth();
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [answered, setAnswered] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    getPendingSunsetFollowUp(supabase, personaId, user.id)
+      .then(event => setEventId(event?.id || null))
+      .catch(error => console.error('Error loading sunset follow-up:', error));
+  }, [user, personaId]);
+
+  const answer = async (outcome: Exclude<SunsetOutcome, 'pending'>) => {
+    if (!eventId) return;
+    await recordSunsetOutcome(supabase, eventId, outcome);
+    setAnswered(true);
+    setTimeout(() => setEventId(null), 2500);
+  };
+
+  if (!eventId) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 mb-4 flex flex-col sm:flex-row sm:items-center gap-3">
+      <Users className="h-5 w-5 text-amber-600 flex-shrink-0" />
+      {answered ? (
+        <p className="text-sm text-amber-800">Thank you for telling us.</p>
+      ) : (
+        <>
+          <p className="text-sm text-amber-800 flex-1">
+            Last time, {personaName} encouraged you to reach out to someone close to you. Did you get the chance?
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => answer('contacted_family')}
+              className="px-3 py-1.5 bg-amber-600 text-white rounded-lg text-xs font-semibold hover:bg-amber-700">
+              Yes, I did
+            </button>
+            <button onClick={() => answer('not_yet')}
+              className="px-3 py-1.5 bg-white text-amber-700 border border-amber-300 rounded-lg text-xs font-semibold hover:bg-amber-100">
+              Not yet
+            </button>
+            <button onClick={() => answer('dismissed')}
+              className="px-3 py-1.5 text-amber-600 text-xs hover:underline">
+              Skip
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
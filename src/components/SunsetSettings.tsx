@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Sunset, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { loadSunsetPolicy, ResolvedSunsetPolicy, SunsetFrequency } from '../lib/sunsetPolicy';
+import { loadUsageLimits, limitsToRow, ResolvedUsageLimits } from '../lib/usageGuardrails';
+import toast from 'react-hot-toast';
+
+interface SunsetSettingsProps {
+  personaName: string;
+  onClose: () => void;
+}
+
+const PAUSE_OPTIONS = [
+  { label: 'Not paused', days: 0 },
+  { label: 'Pause for 2 weeks', days: 14 },
+  { label: 'Pause for a month', days: 30 },
+  { label: 'Pause for 3 months', days: 90 }
+];
+
+const DAILY_MINUTE_OPTIONS = [30, 60, 90, 120, 180];
+const SESSION_MINUTE_OPTIONS = [20, 30, 45, 60, 90];
+
+// ✅ The user's side of the sunset policy — they can slow nudges down, pause them, and share
+// the policy with a clinician who supports them
+export function SunsetSettings({ personaName, onClose }: SunsetSettingsProps) {
+  const { user } = useAuth();
+  const [policy, setPolicy] = useState<ResolvedSunsetPolicy | null>(null);
+  const [frequency, setFrequency] = useState<SunsetFrequency>('default');
+  const [pauseDays, setPauseDays] = useState(0);
+  const [clinicianEmail, setClinicianEmail] = useState('');
+  const [linkedClinician, setLinkedClinician] = useState<string | null>(null);
+  const [usage, setUsage] = useState<ResolvedUsageLimits | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    const [resolved, limits, { data: link }] = await Promise.all([
+      loadSunsetPolicy(supabase, user.id),
+      loadUsageLimits(supabase, user.id),
+      supabase
+        .from('clinician_clients')
+        .select('clinician_email')
+        .eq('client_id', user.id)
+        .eq('status', 'active')
+        .maybeSingle()
+    ]);
+    setPolicy(resolved);
+    setFrequency(resolved.frequency);
+    setUsage(limits);
+    setLinkedClinician(link?.clinician_email || null);
+  }, [user]);
+
+  useEffect(() => {
+    if (user) load();
+  }, [user, load]);
+
+  const save = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      const paused_until = pauseDays > 0
+        ? new Date(Date.now() + pauseDays * 24 * 60 * 60 * 1000).toISOString()
+        : (policy?.pausedUntil && new Date(policy.pausedUntil) > new Date() ? policy.pausedUntil : null);
+
+      const { error } = await supabase
+        .from('sunset_policies')
+        .upsert({
+          user_id: user.id,
+          source: 'user',
+          frequency,
+          paused_until,
+          set_by: user.id,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id,source' });
+      if (error) throw error;
+
+      if (usage) {
+        const { error: usageError } = await supabase
+          .from('usage_guardrails')
+          .upsert({
+            user_id: user.id,
+            source: 'user',
+            ...limitsToRow({
+              dailyMinutes: usage.dailyMinutes,
+              sessionMinutes: usage.sessionMinutes,
+              lateNightReminders: usage.lateNightReminders,
+              redirectToHaven: usage.redirectToHaven
+            }),
+            set_by: user.id,
+            updated_at: new Date().toISOString()
+          }, { onConflict: 'user_id,source' });
+        if (usageError) throw usageError;
+      }
+
+      const email = clinicianEmail.trim().toLowerCase();
+      if (email) {
+        const { error: linkError } = await supabase
+          .from('clinician_clients')
+          .upsert({
+            client_id: user.id,
+            client_name: user.user_metadata?.full_name || user.email,
+            clinician_email: email,
+            status: 'active'
+          }, { onConflict: 'client_id,clinician_email' });
+        if (linkError) throw linkError;
+      }
+
+      toast.success('Nudge settings saved');
+      onClose();
+    } catch (error) {
+      console.error('Error saving sunset settings:', error);
+      toast.error('Could not save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resume = async () => {
+    if (!user) return;
+    await supabase
+      .from('sunset_policies')
+      .update({ paused_until: null, updated_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('source', 'user');
+    setPauseDays(0);
+    await load();
+  };
+
+  const revokeClinician = async () => {
+    if (!user || !linkedClinician) return;
+    await supabase
+      .from('clinician_clients')
+      .update({ status: 'revoked' })
+      .eq('client_id', user.id)
+      .eq('clinician_email', linkedClinician);
+    setLinkedClinician(null);
+    toast.success('Clinician access removed');
+  };
+
+  if (!policy || !usage) return null;
+
+  const isPaused = policy.pausedUntil && new Date(policy.pausedUntil) > new Date();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Sunset className="h-5 w-5 text-amber-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Gentle nudges</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-5">
+          Now and then, {personaName} will encourage you to lean on the people in your life. You decide how often.
+        </p>
+
+        {policy.source === 'clinician' && (
+          <p className="text-xs bg-teal-50 text-teal-700 rounded-lg px-3 py-2 mb-4">
+            Your clinician has set how nudges work for you. You can still pause them or make them less frequent.
+          </p>
+        )}
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">How often</label>
+        <select value={frequency} onChange={(e) => setFrequency(e.target.value as SunsetFrequency)}
+          className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm mb-4">
+          <option value="fewer">Less often</option>
+          <option value="default">Default</option>
+          <option value="more">More often</option>
+        </select>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Pause</label>
+        {isPaused ? (
+          <div className="flex items-center justify-between text-sm mb-4">
+            <span className="text-gray-600">Paused until {new Date(policy.pausedUntil!).toLocaleDateString()}</span>
+            <button onClick={resume} className="text-purple-600 font-medium">Resume now</button>
+          </div>
+        ) : (
+          <select value={pauseDays} onChange={(e) => setPauseDays(Number(e.target.value))}
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm mb-4">
+            {PAUSE_OPTIONS.map(o => <option key={o.days} value={o.days}>{o.label}</option>)}
+          </select>
+        )}
+
+        <div className="border-t border-gray-100 pt-4 mb-4">
+          <p className="text-sm font-medium text-gray-700 mb-1">Taking care of yourself</p>
+          <p className="text-xs text-gray-500 mb-3">
+            When you pass these, {personaName} will gently suggest a break. Nothing is ever cut off.
+            {usage.source === 'clinician' && ' Your clinician has adjusted some of these for you.'}
+          </p>
+          <div className="grid grid-cols-2 gap-3 mb-3">
+            <label className="text-xs text-gray-500">
+              Time per day
+              <select value={usage.dailyMinutes}
+                onChange={(e) => setUsage({ ...usage, dailyMinutes: Number(e.target.value) })}
+                className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm text-gray-800">
+                {[...new Set([...DAILY_MINUTE_OPTIONS, usage.dailyMinutes])].sort((a, b) => a - b).map(m => (
+                  <option key={m} value={m}>{m < 60 ? `${m} min` : `${m / 60} hr`}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-500">
+              Length of one call
+              <select value={usage.sessionMinutes}
+                onChange={(e) => setUsage({ ...usage, sessionMinutes: Number(e.target.value) })}
+                className="mt-1 w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm text-gray-800">
+                {[...new Set([...SESSION_MINUTE_OPTIONS, usage.sessionMinutes])].sort((a, b) => a - b).map(m => (
+                  <option key={m} value={m}>{m} min</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+            <input type="checkbox" checked={usage.lateNightReminders}
+              onChange={(e) => setUsage({ ...usage, lateNightReminders: e.target.checked })} />
+            Remind me to rest late at night
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={usage.redirectToHaven}
+              onChange={(e) => setUsage({ ...usage, redirectToHaven: e.target.checked })} />
+            Offer Haven when it's time for a break
+          </label>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Share with my clinician</label>
+        {linkedClinician ? (
+          <div className="flex items-center justify-between text-sm mb-5">
+            <span className="text-gray-600">{linkedClinician}</span>
+            <button onClick={revokeClinician} className="text-red-500 font-medium">Remove</button>
+          </div>
+        ) : (
+          <input value={clinicianEmail} onChange={(e) => setClinicianEmail(e.target.value)}
+            type="email" placeholder="clinician@practice.com"
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm mb-5" />
+        )}
+
+        <button onClick={save} disabled={saving}
+          className="w-full bg-purple-600 hover:bg-purple-700 text-white rounded-xl py-2.5 font-medium text-sm disabled:opacity-50">
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
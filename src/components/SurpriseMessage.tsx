@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Sparkles, Phone, X, Send, Heart } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { conversationGateway } from '../lib/conversationGateway';
 import toast from 'react-hot-toast';
 
 const OCCASIONS = [
@@ -38,58 +38,18 @@ export function SurpriseMessage({ persona, onClose }: SurpriseMessageProps) {
     setIsGenerating(true);
 
     try {
-      const { data: memories } = await supabase
-        .from('persona_memories')
-        .select('content, memory_type, importance')
-        .eq('persona_id', persona.id)
-        .order('importance', { ascending: false })
-        .limit(15);
-
-      const memoryContext = memories && memories.length > 0
-        ? memories.map(m => `• ${m.content}`).join('\n')
-        : 'No specific memories available.';
-
       const occasionPrompt = selectedOccasion.id === 'custom'
         ? customContext
         : selectedOccasion.prompt;
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [{
-            role: 'system',
-            content: `You are ${persona.name}. You are sending a surprise SMS text message to ${recipientName}, who is your ${persona.relationship}.
-
-YOUR MEMORIES AND PERSONALITY:
-${memoryContext}
-
-PERSONALITY: ${persona.personality_traits || 'warm, loving, genuine'}
-
-Write a SHORT, personal SMS text message (3-5 sentences max) that:
-- Sounds exactly like ${persona.name} would write
-- References specific memories or details if relevant
-- Feels spontaneous and genuine — not like an AI wrote it
-- Is warm, loving, and personal
-- Does NOT mention being deceased or being an AI
-- Feels like a real text from someone who loves them
-
-Occasion: ${occasionPrompt}
-${customContext && selectedOccasion.id !== 'custom' ? `Additional context: ${customContext}` : ''}
-
-Write ONLY the text message — no quotes, no preamble, just the message itself.`
-          }],
-          max_tokens: 200,
-          temperature: 0.85
-        })
+      // ✅ Memories and the SMS prompt are assembled server-side by the gateway
+      const message = await conversationGateway.stream({
+        task: 'surprise_message',
+        personaId: persona.id,
+        recipientName,
+        occasionPrompt,
+        customContext: customContext && selectedOccasion.id !== 'custom' ? customContext : undefined
       });
-
-      const data = await response.json();
-      const message = data.choices[0]?.message?.content || '';
       setGeneratedMessage(message);
       setStep('preview');
 
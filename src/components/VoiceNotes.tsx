@@ -2,7 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Mic, Play, Pause, Download, Trash2, X, Heart, Volume2, Clock, Sparkles } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
-import { calculateGriefPhase } from '../lib/memoryConversation';
+import { resolveGriefPhase } from '../lib/griefPhase';
+import { conversationGateway } from '../lib/conversationGateway';
 import toast from 'react-hot-toast';
 
 const MOODS = [
@@ -73,65 +74,13 @@ export function VoiceNotes({ persona, onClose }: VoiceNotesProps) {
     setGeneratedNote(null);
 
     try {
-      // Fetch memories for context
-      const { data: memories } = await supabase
-        .from('persona_memories')
-        .select('content, memory_type, importance')
-        .eq('persona_id', persona.id)
-        .order('importance', { ascending: false })
-        .limit(10);
-
-      const memoryContext = memories && memories.length > 0
-        ? memories.map(m => `• ${m.content}`).join('\n')
-        : '';
-
-      const griefPhase = calculateGriefPhase(persona.date_of_passing);
-
-      // Generate transcript with OpenAI
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [{
-            role: 'system',
-            content: `You are ${persona.name}, recording a short personal voice note for someone you love deeply.
-
-YOUR PERSONALITY: ${persona.personality_traits || 'warm, loving, genuine'}
-YOUR RELATIONSHIP: ${persona.relationship}
-
-YOUR MEMORIES:
-${memoryContext || 'Speak from the heart.'}
-
-GRIEF PHASE AWARENESS:
-${griefPhase === 'acute' ? 'They are in raw grief. Be gentle, quiet, and purely loving.' :
-  griefPhase === 'active' ? 'They are living with grief daily. Balance comfort with warmth.' :
-  griefPhase === 'integration' ? 'They are moving forward. Express pride and encouragement.' :
-  griefPhase === 'legacy' ? 'They have grown so much. Express deep pride and wisdom.' :
-  'Be warm and present.'}
-
-INSTRUCTIONS:
-- Speak as ${persona.name} in first person
-- Keep it SHORT — 3-5 sentences maximum, like a real voicemail
-- Be specific and personal — use real memories if relevant
-- Sound natural and conversational — not like a script
-- Do NOT mention being deceased or being an AI
-- End warmly — like you would end a real message`
-          }, {
-            role: 'user',
-            content: selectedMood.prompt
-          }],
-          max_tokens: 200,
-          temperature: 0.85
-        })
+      // ✅ Transcript is generated server-side by the gateway from the persona's memories
+      const transcript = await conversationGateway.stream({
+        task: 'voice_note',
+        personaId: persona.id,
+        moodPrompt: selectedMood.prompt
       });
 
-      const data = await response.json();
-      const transcript = data.choices[0]?.message?.content || '';
-
       if (!transcript) throw new Error('No transcript generated');
 
       // Generate audio with ElevenLabs
@@ -203,7 +152,7 @@ INSTRUCTIONS:
         .getPublicUrl(fileName);
 
       // Save to database
-      const griefPhase = calculateGriefPhase(persona.date_of_passing);
+      const { phase: griefPhase } = await resolveGriefPhase(supabase, persona.id, user.id, persona.date_of_passing ?? null);
       const moodLabel = MOODS.find(m => m.id === selectedMood?.id)?.label || selectedMood?.id;
 
       const { data, error } = await supabase
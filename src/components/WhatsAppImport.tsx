@@ -0,0 +1,124 @@
+import { useState, useRef } from 'react';
+import { MessageCircle, Upload } from 'lucide-react';
+import { openWhatsAppExport, findPersonaMedia, importWhatsAppChat, WhatsAppExport } from '../lib/whatsappImport';
+import { suggestSender } from '../lib/whatsappChat';
+import toast from 'react-hot-toast';
+
+interface WhatsAppImportProps {
+  personaId: string;
+  personaName: string;
+  isOwner: boolean;
+}
+
+// ✅ A WhatsApp "Export chat" file — their side of the conversation becomes memories, their
+// photos and voice notes become content, and the way they texted becomes their words
+export function WhatsAppImport({ personaId, personaName, isOwner }: WhatsAppImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [chatExport, setChatExport] = useState<WhatsAppExport | null>(null);
+  const [sender, setSender] = useState('');
+  const [includeMedia, setIncludeMedia] = useState(true);
+  const [opening, setOpening] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState('');
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setOpening(true);
+    try {
+      const opened = await openWhatsAppExport(file);
+      if (opened.chat.messages.length === 0) {
+        toast.error('No messages found — is this a WhatsApp chat export?');
+        return;
+      }
+      setChatExport(opened);
+      setSender(suggestSender(opened.chat, personaName) || '');
+    } catch (error) {
+      console.error('Error opening WhatsApp export:', error);
+      toast.error('Could not open this file');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!chatExport || !sender) return;
+    setImporting(true);
+    const result = await importWhatsAppChat(personaId, chatExport, sender, { includeMedia, updatePhrases: isOwner }, setProgress);
+    setImporting(false);
+    setProgress('');
+    if (!result.success) {
+      toast.error(result.error || 'Could not import the chat');
+      return;
+    }
+    toast.success(
+      `Imported ${result.messagesImported} messages and ${result.mediaImported} photos and voice notes — ${result.memoriesExtracted} memories`
+      + (result.phrasesAdded.length > 0 ? `, ${result.phrasesAdded.length} of their phrases` : '')
+    );
+    setChatExport(null);
+  };
+
+  const messages = chatExport?.chat.messages || [];
+  const media = chatExport && sender ? findPersonaMedia(chatExport, sender) : [];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-green-400 to-emerald-600 rounded-full flex items-center justify-center">
+            <MessageCircle className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">WhatsApp Chats</h2>
+            <p className="text-xs text-gray-500">Learn how {personaName} really texted</p>
+          </div>
+        </div>
+        {!chatExport && (
+          <button onClick={() => fileInputRef.current?.click()} disabled={opening}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-green-50 text-green-600 rounded-lg text-xs font-semibold hover:bg-green-100 transition-all disabled:opacity-50">
+            <Upload className="h-3.5 w-3.5" />{opening ? 'Opening...' : 'Import chat'}
+          </button>
+        )}
+      </div>
+      <input ref={fileInputRef} type="file" accept=".txt,.zip" onChange={handleFileSelect} className="hidden" />
+
+      {!chatExport ? (
+        <p className="text-sm text-gray-500">
+          In WhatsApp, open a chat with {personaName}, choose Export chat and upload the .zip (with media) or .txt it makes.
+        </p>
+      ) : (
+        <div className="border border-green-100 bg-green-50/40 rounded-xl p-3 space-y-2">
+          <p className="text-sm font-medium text-gray-700">
+            {chatExport.chatName}: {messages.length} messages, {messages[0].sentAt.slice(0, 10)} to {messages[messages.length - 1].sentAt.slice(0, 10)}
+          </p>
+          <select value={sender} onChange={(e) => setSender(e.target.value)}
+            className="w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-white">
+            <option value="">Which sender is {personaName}?</option>
+            {chatExport.chat.senders.map(s => <option key={s.name} value={s.name}>{s.name} ({s.count} messages)</option>)}
+          </select>
+          {media.length > 0 && (
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={includeMedia} onChange={(e) => setIncludeMedia(e.target.checked)} />
+              Upload their photos and voice notes ({media.length})
+            </label>
+          )}
+          {isOwner && sender && (
+            <p className="text-xs text-gray-500">Phrases they used again and again are added to {personaName}'s words.</p>
+          )}
+          {progress && <p className="text-xs text-green-700">{progress}</p>}
+          <div className="flex gap-2">
+            <button onClick={() => setChatExport(null)} disabled={importing}
+              className="flex-1 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-600 bg-white disabled:opacity-50">
+              Cancel
+            </button>
+            <button onClick={runImport} disabled={importing || !sender}
+              className="flex-1 py-1.5 rounded-lg bg-green-500 text-white text-sm font-medium hover:bg-green-600 disabled:opacity-50">
+              {importing ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { conversationGateway } from '../lib/conversationGateway';
+import { defaultConversationStarters, ConversationStarter } from '../lib/conversationStarters';
+
+// Starters picked on the guided screen wait here until the call screen has greeted the user —
+// the call mounts later, and passing it through App state would restart ConversationView.
+const queued = new Map<string, string>();
+
+export function queueStarter(personaId: string, text: string): void {
+  queued.set(personaId, text);
+}
+
+export function takeQueuedStarter(personaId: string): string | null {
+  const text = queued.get(personaId) ?? null;
+  queued.delete(personaId);
+  return text;
+}
+
+// Starters for this user and persona; general ones until the gateway answers, or if it cannot
+export function useConversationStarters(personaId: string) {
+  const [starters, setStarters] = useState<ConversationStarter[]>(defaultConversationStarters);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    conversationGateway.getStarters(personaId)
+      .then(result => {
+        if (!cancelled && result.length > 0) setStarters(result);
+      })
+      .catch(error => console.error('Error loading conversation starters:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [personaId]);
+
+  return { starters, loading };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+
+// Lets the call screen point MemoryViewer at a memory without going through App state —
+// ConversationView is re-created on every App render, so lifting this up would restart the call.
+
+type FocusListener = (memoryId: string) => void;
+
+const listeners = new Set<FocusListener>();
+
+export function focusMemory(memoryId: string): void {
+  listeners.forEach(listener => listener(memoryId));
+}
+
+// Calls the latest onFocus each time a memory is focused, including the same one twice
+export function useMemoryFocus(onFocus: FocusListener) {
+  const handlerRef = useRef(onFocus);
+  handlerRef.current = onFocus;
+
+  useEffect(() => {
+    const listener: FocusListener = (memoryId) => handlerRef.current(memoryId);
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+}
@@ -0,0 +1,295 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from './llmProvider';
+import type { ExtractedPerson } from './peopleGraph';
+
+// Content analysis — what the model reads out of material uploaded about a persona: the facts,
+// people and feelings memories are made from, the traits and phrases training writes back onto
+// the persona, a summary of a web page about them, and the appearance and synthesis plan behind a
+// visual persona. Node-safe: runs in the analyze function so the provider key stays on the server.
+
+export interface ExtractedContent {
+  text: string;
+  facts: string[];
+  topics: string[];
+  people: string[];
+  locations: string[];
+  emotions: string[];
+  preferences: string[];
+  relationships: string[];
+  // Who each named person is — feeds the persona's people registry
+  peopleDetails: ExtractedPerson[];
+}
+
+export interface EmotionAnalysis {
+  emotion: string;
+  confidence: number;
+  suggestions: string[];
+}
+
+export interface PersonaTrainingInsights {
+  personalityTraits: string[];
+  commonPhrases: string[];
+  emotionalPatterns: string[];
+  memories: string[];
+}
+
+export interface PersonaTrainingResult {
+  success: boolean;
+  errorMessage?: string;
+  insights: PersonaTrainingInsights;
+}
+
+export interface VisualPersonaFeatures {
+  visual: string;
+  voice: string;
+  mannerisms: string;
+}
+
+// Training reads every description at once — past this the oldest uploads are left out
+const MAX_TRAINING_CHARS = 60000;
+
+// Texts embedded per request — the client batches longer lists
+export const MAX_EMBED_BATCH = 50;
+
+const NO_INSIGHTS: PersonaTrainingInsights = {
+  personalityTraits: [],
+  commonPhrases: [],
+  emotionalPatterns: [],
+  memories: []
+};
+
+// ✅ The facts, preferences, relationships and people in a piece of content — what memories are made from
+export async function analyzeContent(llm: LLMProvider, content: string): Promise<ExtractedContent> {
+  const prompt = `Analyze the following content and extract structured information about a person's life, personality, and experiences.
+
+Content: "${content}"
+
+Extract:
+1. Facts: Concrete factual information (occupation, education, achievements)
+2. Topics: Main subjects or themes discussed
+3. People: Names of people mentioned
+4. Locations: Places mentioned
+5. Emotions: Emotional states expressed
+6. Preferences: Likes, dislikes, opinions
+7. Relationships: Information about relationships with others
+8. People details: For each named person, who they are to this person (e.g. "granddaughter"), the nickname this person called them if one is used, and how they relate to another named person if stated
+
+Return as JSON with keys: facts, topics, people, locations, emotions, preferences, relationships (all arrays of strings), and people_details (array of {"name": "...", "relationship": "...", "nickname": "...", "related_to": {"name": "...", "relationship": "daughter"}} — leave out anything not stated).`;
+
+  try {
+    const result = await llm.extractJSON<Partial<Record<Exclude<keyof ExtractedContent, 'peopleDetails'>, string[]>> & {
+      people_details?: ExtractedPerson[];
+    }>([
+      { role: 'system', content: 'You are an expert at analyzing content and extracting structured information about people. Always return valid JSON.' },
+      { role: 'user', content: prompt }
+    ], { task: 'content_analysis', temperature: 0.3 });
+    return {
+      text: content,
+      facts: result.facts || [],
+      topics: result.topics || [],
+      people: result.people || [],
+      locations: result.locations || [],
+      emotions: result.emotions || [],
+      preferences: result.preferences || [],
+      relationships: result.relationships || [],
+      peopleDetails: (result.people_details || []).filter(p => p && typeof p.name === 'string')
+    };
+  } catch (error) {
+    console.error('Error analyzing content:', error);
+    return { text: content, facts: [], topics: [], people: [], locations: [], emotions: [], preferences: [], relationships: [], peopleDetails: [] };
+  }
+}
+
+// What a photo shows, as text the content analysis can read
+export async function describeImage(llm: LLMProvider, imageUrl: string): Promise<string> {
+  return llm.chat([{
+    role: 'user',
+    content: [
+      {
+        type: 'text',
+        text: 'Analyze this image and extract: 1) What is happening, 2) Who is in the image, 3) Where might this be, 4) What emotions or mood does it convey, 5) Any visible text.'
+      },
+      { type: 'image_url', image_url: { url: imageUrl } }
+    ]
+  }], { task: 'vision', maxTokens: 1000 });
+}
+
+// The main emotion in a message, with a few supportive things to say back
+export async function analyzeEmotion(llm: LLMProvider, text: string): Promise<EmotionAnalysis> {
+  const result = await llm.extractJSON<Partial<EmotionAnalysis>>([
+    {
+      role: 'system',
+      content: `You are an emotion analysis expert. Analyze the emotional content of messages and provide:
+          1. Primary emotion (happy, sad, angry, anxious, nostalgic, loving, etc.)
+          2. Confidence level (0-1)
+          3. Supportive response suggestions
+
+          Respond in JSON format: {"emotion": "...", "confidence": 0.8, "suggestions": ["...", "..."]}`
+    },
+    { role: 'user', content: text }
+  ], { task: 'emotion_analysis', maxTokens: 200, temperature: 0.3 });
+  return {
+    emotion: result.emotion || 'neutral',
+    confidence: typeof result.confidence === 'number' ? result.confidence : 0.5,
+    suggestions: Array.isArray(result.suggestions) ? result.suggestions : []
+  };
+}
+
+// ✅ Reads the persona's processed uploads and writes the personality and phrases they show back
+// onto the persona. RLS limits the caller to personas they own.
+export async function trainPersona(db: SupabaseClient, llm: LLMProvider, personaId: string): Promise<PersonaTrainingResult> {
+  const { data: content, error } = await db
+    .from('persona_content')
+    .select('content_text')
+    .eq('persona_id', personaId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.error('Error loading persona content:', error);
+    return { success: false, errorMessage: 'Could not load uploaded content', insights: NO_INSIGHTS };
+  }
+
+  // Only items with substantial text
+  const contentText = (content || [])
+    .map(item => (item.content_text || '').trim())
+    .filter(text => text.length > 50)
+    .join('\n\n')
+    .slice(0, MAX_TRAINING_CHARS);
+
+  if (!contentText) {
+    return {
+      success: false,
+      errorMessage: 'No content with sufficient text descriptions found. Please upload some files first.',
+      insights: NO_INSIGHTS
+    };
+  }
+
+  let analysis: Partial<Record<keyof PersonaTrainingInsights, string[]>>;
+  try {
+    analysis = await llm.extractJSON([
+      {
+        role: 'system',
+        content: `You are analyzing content about a person to create an AI persona. The content includes descriptions of their photos, videos, audio recordings, and documents. Extract:
+
+        1. Personality traits and characteristics (from all content types)
+        2. Common phrases and expressions (from video/audio descriptions)
+        3. Emotional patterns and tendencies (from visual and audio cues)
+        4. Important memories and experiences (from all content)
+        5. Communication style and mannerisms (from video/audio descriptions)
+        6. Visual characteristics and appearance (from photo/video descriptions)
+
+        Respond in JSON format:
+        {
+          "personalityTraits": ["trait1", "trait2", ...],
+          "commonPhrases": ["phrase1", "phrase2", ...],
+          "emotionalPatterns": ["pattern1", "pattern2", ...],
+          "memories": ["memory1", "memory2", ...],
+          "communicationStyle": "description of how they communicate",
+          "visualCharacteristics": "description of their appearance and style"
+        }`
+      },
+      { role: 'user', content: contentText }
+    ], { task: 'persona_training', maxTokens: 1000, temperature: 0.3 });
+  } catch (error) {
+    console.error('Training analysis error:', error);
+    return { success: false, errorMessage: 'Model returned non-JSON response', insights: NO_INSIGHTS };
+  }
+
+  const insights: PersonaTrainingInsights = {
+    personalityTraits: analysis.personalityTraits || [],
+    commonPhrases: analysis.commonPhrases || [],
+    emotionalPatterns: analysis.emotionalPatterns || [],
+    memories: analysis.memories || []
+  };
+
+  const { error: updateError } = await db
+    .from('personas')
+    .update({
+      personality_traits: insights.personalityTraits.join(', '),
+      common_phrases: insights.commonPhrases,
+      status: 'active',
+      training_progress: 100
+    })
+    .eq('id', personaId);
+  if (updateError) {
+    console.error('Error saving training insights:', updateError);
+    return { success: false, errorMessage: 'Could not save training results', insights };
+  }
+
+  return { success: true, insights };
+}
+
+// A warm summary of who the person is, from the text of a web page about them
+export async function summarizeWebPage(llm: LLMProvider, text: string): Promise<string> {
+  return llm.chat([{
+    role: 'user',
+    content: `Extract key personality traits, career information, interests, achievements, and personal details from this content. Write it as a warm personal summary capturing who this person is. Only include what's in the content. Content: ${text}`
+  }], { task: 'content_analysis', maxTokens: 500 });
+}
+
+// What someone looks like, from a photo of them — the starting point of a visual persona
+export async function describeAppearance(llm: LLMProvider, imageUrl: string): Promise<string> {
+  return llm.chat([{
+    role: 'user',
+    content: [
+      {
+        type: 'text',
+        text: `Analyze this image to extract detailed visual features for creating an AI persona. Focus on:
+                - Physical appearance (age, gender, hair, eyes, skin tone, facial structure)
+                - Clothing style and fashion preferences
+                - Overall aesthetic and presentation
+                - Any distinctive visual characteristics
+
+                Provide detailed observations that could be used to recreate this person's appearance.`
+      },
+      { type: 'image_url', image_url: { url: imageUrl } }
+    ]
+  }], { task: 'vision', maxTokens: 500 });
+}
+
+// The plan for recreating someone's appearance, voice and mannerisms, as the raw JSON reply —
+// the caller falls back to its own analysis when the reply doesn't parse
+export async function synthesizePersonaPlan(llm: LLMProvider, features: VisualPersonaFeatures): Promise<string> {
+  const synthesisPrompt = `Based on the following analysis, create a comprehensive AI persona synthesis plan:
+
+VISUAL ANALYSIS:
+${features.visual}
+
+VOICE ANALYSIS:
+${features.voice}
+
+MANNERISM ANALYSIS:
+${features.mannerisms}
+
+Create a detailed persona synthesis plan that describes how to recreate this person's:
+1. Physical appearance
+2. Voice characteristics
+3. Behavioral patterns and mannerisms
+
+Respond in the following JSON format:
+{
+  "extracted_features": {
+    "visual": "detailed visual characteristics",
+    "voice": "voice characteristics and qualities",
+    "mannerisms": "behavioral patterns and mannerisms"
+  },
+  "reasoning": {
+    "visual": "explanation of visual feature extraction logic",
+    "voice": "explanation of voice analysis approach",
+    "mannerisms": "explanation of behavioral pattern identification"
+  },
+  "synthesized_persona": {
+    "appearance": "description of how to recreate visual appearance",
+    "voice_model": "description of voice synthesis approach",
+    "behavior_emulation": "description of behavioral pattern recreation"
+  },
+  "limitations": "constraints and features that cannot be perfectly matched"
+}`;
+
+  return llm.chat([
+    {
+      role: 'system',
+      content: 'You are an expert in AI persona generation. Analyze provided content and create detailed synthesis plans for recreating realistic AI personas. Always respond in valid JSON format.'
+    },
+    { role: 'user', content: synthesisPrompt }
+  ], { task: 'persona_training', maxTokens: 1500, temperature: 0.3 });
+}
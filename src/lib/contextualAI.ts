@@ -1,11 +1,6 @@
-import OpenAI from 'openai';
 import { supabase } from './supabase';
 import { ConversationContext } from './speechRecognition';
-
-const openai = import.meta.env.VITE_OPENAI_API_KEY ? new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-}) : null;
+import { conversationGateway } from './conversationGateway';
 
 export interface ContextualResponse {
   text: string;
@@ -27,6 +22,8 @@ export interface PersonaMemory {
 export class ContextualAIEngine {
   private personaId: string;
   private personaData: any;
+  // The call's `conversations` row, once created — the gateway keeps one session summary per call
+  private conversationId: string | null = null;
   private conversationHistory: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date; emotion?: string }> = [];
   private relevantMemories: PersonaMemory[] = [];
   private lastResponseTime = 0;
@@ -55,6 +52,7 @@ export class ContextualAIEngine {
         .from('persona_memories')
         .select('memory_text, memory_type, importance, metadata')
         .eq('persona_id', this.personaId)
+        .neq('review_status', 'rejected')
         .order('importance', { ascending: false })
         .limit(30);
 
@@ -109,9 +107,6 @@ export class ContextualAIEngine {
     console.log('Starting contextual response generation for:', trimmedSpeech);
 
     try {
-      // Find relevant memories for context
-      const relevantMemories = this.findRelevantMemories(trimmedSpeech, conversationContext.currentTopic);
-      
       // Determine conversation flow
       const conversationFlow = this.determineConversationFlow(trimmedSpeech, conversationContext);
       
@@ -119,7 +114,6 @@ export class ContextualAIEngine {
       const response = await this.generateResponse(
         trimmedSpeech,
         conversationContext,
-        relevantMemories,
         conversationFlow,
         isInterruption
       );
@@ -194,46 +188,6 @@ export class ContextualAIEngine {
     }
   }
 
-  private findRelevantMemories(userSpeech: string, topic: string): PersonaMemory[] {
-    const keywords = userSpeech.toLowerCase().split(' ').filter(word => word.length > 3);
-
-    return this.relevantMemories
-      .map(memory => ({
-        ...memory,
-        relevance: this.calculateMemoryRelevance(memory.content, keywords, topic)
-      }))
-      .filter(memory => memory.relevance > 0.2)
-      .sort((a, b) => b.relevance - a.relevance)
-      .slice(0, 5);
-  }
-
-  private calculateMemoryRelevance(memoryContent: string, keywords: string[], topic: string): number {
-    const lowerMemory = memoryContent.toLowerCase();
-    let relevance = 0;
-
-    // Keyword matching
-    keywords.forEach(keyword => {
-      if (lowerMemory.includes(keyword)) {
-        relevance += 0.2;
-      }
-    });
-
-    // Topic matching
-    if (topic !== 'general' && lowerMemory.includes(topic)) {
-      relevance += 0.3;
-    }
-
-    // Emotional context matching
-    const emotionalWords = ['love', 'miss', 'remember', 'happy', 'sad', 'proud'];
-    emotionalWords.forEach(word => {
-      if (lowerMemory.includes(word)) {
-        relevance += 0.1;
-      }
-    });
-
-    return Math.min(relevance, 1.0);
-  }
-
   private determineConversationFlow(
     userSpeech: string, 
     context: ConversationContext
@@ -264,120 +218,35 @@ export class ContextualAIEngine {
     return 'general';
   }
 
+  // ✅ The gateway builds the prompt from the persona's memories and people on the server
   private async generateResponse(
     userSpeech: string,
     context: ConversationContext,
-    relevantMemories: PersonaMemory[],
     conversationFlow: ContextualResponse['conversationFlow'],
     isInterruption: boolean
   ): Promise<string> {
-    if (!openai) {
-      return this.generateFallbackResponse(userSpeech, context, conversationFlow);
-    }
-
     try {
-      const systemPrompt = this.buildContextualSystemPrompt(context, relevantMemories, conversationFlow);
-      const conversationMessages = this.buildConversationMessages(userSpeech, isInterruption);
-
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...conversationMessages
-        ],
-        max_tokens: 400,
-        temperature: 0.85,
-        presence_penalty: 0.7,
-        frequency_penalty: 0.4,
-        stream: false
+      const message = isInterruption
+        ? `${userSpeech} [they interrupted while you were speaking]`
+        : userSpeech;
+
+      const response = await conversationGateway.stream({
+        task: 'persona_reply',
+        personaId: this.personaId,
+        conversationId: this.conversationId,
+        message,
+        history: this.conversationHistory.slice(-10).map(msg => ({ role: msg.role, content: msg.content })),
+        surface: 'realtime',
+        timezoneOffset: new Date().getTimezoneOffset()
       });
 
-      return completion.choices[0]?.message?.content || this.generateFallbackResponse(userSpeech, context, conversationFlow);
+      return response || this.generateFallbackResponse(userSpeech, context, conversationFlow);
     } catch (error) {
-      console.error('OpenAI response generation error:', error);
+      console.error('Gateway response generation error:', error);
       return this.generateFallbackResponse(userSpeech, context, conversationFlow);
     }
   }
 
-  private buildContextualSystemPrompt(
-    context: ConversationContext,
-    memories: PersonaMemory[],
-    flow: ContextualResponse['conversationFlow']
-  ): string {
-    const { name, personality_traits, common_phrases, relationship } = this.personaData;
-
-    let flowInstructions = '';
-    switch (flow) {
-      case 'memory_sharing':
-        flowInstructions = 'The user is asking about memories. Share a relevant story or memory if you have one, or ask them to tell you more about what they remember.';
-        break;
-      case 'emotional_support':
-        flowInstructions = 'The user needs emotional support. Listen carefully, validate their feelings, and respond with genuine care and understanding.';
-        break;
-      case 'topic_change':
-        flowInstructions = 'The conversation is shifting to a new topic. Acknowledge what they said and engage meaningfully with the new subject.';
-        break;
-      default:
-        flowInstructions = 'Listen closely to what they\'re saying and respond directly to their specific words and meaning.';
-    }
-
-    const memoryContext = memories.length > 0
-      ? `\n\nRELEVANT BACKGROUND INFORMATION:\n${memories.map(m => `- ${m.content.substring(0, 300)}`).join('\n')}`
-      : '';
-
-    const conversationSummary = this.conversationHistory.length > 0
-      ? `\n\nWHAT WE'VE BEEN TALKING ABOUT:\n${this.conversationHistory.slice(-6).map(msg =>
-          `${msg.role === 'user' ? 'Them' : 'You'}: ${msg.content}`
-        ).join('\n')}`
-      : '';
-
-    return `You are ${name}, having a genuine real-time conversation with someone you care about. You are their ${relationship}.
-
-WHO YOU ARE:
-${personality_traits || 'A caring, thoughtful person who listens deeply and responds authentically'}
-
-YOUR SPEAKING STYLE:
-- Characteristic phrases: ${common_phrases?.join(', ') || 'Speak naturally and authentically'}
-- Keep responses conversational and natural (2-4 sentences typically)
-- Match their energy and emotional tone
-- Ask follow-up questions when appropriate
-- Show you're truly listening by referencing what they just said
-
-${conversationSummary}
-
-${memoryContext}
-
-CRITICAL INSTRUCTIONS FOR THIS RESPONSE:
-${flowInstructions}
-
-HOW TO RESPOND:
-1. LISTEN to what they JUST said - respond directly to their specific words
-2. Reference something they mentioned to show you're paying attention
-3. Respond as ${name} would - with their personality and way of speaking
-4. Keep it natural and conversational, like you're really talking
-5. If they ask a question, answer it directly before adding your thoughts
-6. If they share something emotional, acknowledge their feelings first
-7. Don't just give generic responses - make it specific to what they said
-
-REMEMBER: This is a REAL conversation. They just said something to you. What would ${name} actually say back to them in this moment? Respond as if you're truly present and engaged with them.`;
-  }
-
-  private buildConversationMessages(userSpeech: string, isInterruption: boolean): Array<{ role: 'user' | 'assistant'; content: string }> {
-    const recentHistory = this.conversationHistory.slice(-10).map(msg => ({
-      role: msg.role,
-      content: msg.content
-    }));
-
-    const currentMessage = isInterruption
-      ? `${userSpeech} [they interrupted while you were speaking]`
-      : userSpeech;
-
-    return [
-      ...recentHistory,
-      { role: 'user', content: currentMessage }
-    ];
-  }
-
   private generateFallbackResponse(
     userSpeech: string,
     context: ConversationContext,
@@ -538,6 +407,10 @@ REMEMBER: This is a REAL conversation. They just said something to you. What wou
     return [...this.conversationHistory];
   }
 
+  setConversationId(conversationId: string): void {
+    this.conversationId = conversationId;
+  }
+
   updatePersonaData(newData: any): void {
     this.personaData = { ...this.personaData, ...newData };
   }
@@ -0,0 +1,330 @@
+import { supabase } from './supabase';
+import type { CrisisResource, SafetyRiskLevel, SafetySurface } from './safety';
+import type { UsageSignal } from './usageGuardrails';
+import type { ConsolidationResult } from './memoryConsolidation';
+import type { RetrievalScores } from './memoryRetrieval';
+import type { ReplyCitations } from './memoryCitations';
+import type { MemoryCorrection } from './memoryCorrection';
+import type { ConversationStarter } from './conversationStarters';
+import type { ConversationRecap } from './conversationRecap';
+import type { EmotionAnalysis, ExtractedContent, PersonaTrainingResult, VisualPersonaFeatures } from './contentAnalysis';
+
+const GATEWAY_URL = '/.netlify/functions/conversation';
+const TRANSCRIBE_URL = '/.netlify/functions/transcribe';
+const CONSOLIDATE_URL = '/.netlify/functions/consolidate-memories';
+const ANALYZE_URL = '/.netlify/functions/analyze';
+const SPEECH_URL = '/.netlify/functions/speech';
+
+export type ChatTurn = { role: 'user' | 'assistant'; content: string };
+
+// Every request the gateway understands. The server loads the persona, memories and
+// Haven context itself — clients only send ids and what the user typed or picked.
+export type GatewayRequest =
+  // conversationId is the `conversations` row of the call — its turns share one session summary
+  | { task: 'persona_greeting'; personaId: string; conversationId?: string | null }
+  | {
+      task: 'persona_reply';
+      personaId: string;
+      conversationId?: string | null;
+      message: string;
+      history: ChatTurn[];
+      surface?: SafetySurface;
+      timezoneOffset?: number;
+      // Ask the gateway to report which memories were retrieved for this reply, with scores
+      debugRetrieval?: boolean;
+    }
+  | { task: 'haven_reply'; personaId?: string; message: string; history: ChatTurn[] }
+  | { task: 'haven_memory'; messages: ChatTurn[] }
+  | { task: 'legacy_letter'; personaId: string; recipientName: string; occasionLabel: string; customContext?: string }
+  | { task: 'surprise_message'; personaId: string; recipientName: string; occasionPrompt: string; customContext?: string }
+  | { task: 'voice_note'; personaId: string; moodPrompt: string }
+  | { task: 'safety_check'; personaId?: string; message: string; surface: SafetySurface }
+  | { task: 'conversation_starters'; personaId: string }
+  | { task: 'conversation_recap'; personaId: string; conversationId: string };
+
+export type GatewayTask = GatewayRequest['task'];
+
+// Model work on material uploaded about a persona, answered as JSON by the analyze function
+export type AnalysisRequest =
+  | { task: 'persona_training'; personaId: string }
+  | { task: 'summarize_page'; text: string }
+  // A data: URL or a public image URL
+  | { task: 'describe_appearance'; image: string }
+  | { task: 'synthesize_persona'; features: VisualPersonaFeatures }
+  | { task: 'extract_content'; text: string }
+  // Described, then read like any other content
+  | { task: 'extract_image'; url: string }
+  // At most MAX_EMBED_BATCH texts per request
+  | { task: 'embed'; texts: string[] }
+  | { task: 'analyze_emotion'; text: string };
+
+export interface AnalysisResponses {
+  persona_training: PersonaTrainingResult;
+  summarize_page: { text: string };
+  describe_appearance: { text: string };
+  synthesize_persona: { text: string };
+  extract_content: ExtractedContent;
+  extract_image: ExtractedContent;
+  embed: { embeddings: number[][] };
+  analyze_emotion: EmotionAnalysis;
+}
+
+// Sent instead of a model reply when a user turn is flagged; `done` then carries the scripted text
+export interface SafetyNotice {
+  level: Exclude<SafetyRiskLevel, 'none'>;
+  resources: CrisisResource[];
+  trustedContactNotified: boolean;
+}
+
+// Sent alongside a reply in which the persona gently winds the session down
+export interface WellbeingNotice {
+  signals: UsageSignal[];
+  suggestHaven: boolean;
+}
+
+// Sent before `done` when a persona_reply asks for debugRetrieval
+export interface RetrievalDebug {
+  memories: Array<{ id: string; content: string; memoryType: string | null; scores: RetrievalScores }>;
+}
+
+export interface GatewayHandlers {
+  onToken?: (delta: string) => void;
+  onSentence?: (sentence: string) => void;
+  onSafety?: (notice: SafetyNotice) => void;
+  onWellbeing?: (notice: WellbeingNotice) => void;
+  onRetrieval?: (debug: RetrievalDebug) => void;
+  // Sent before `done` with every persona reply and greeting
+  onCitations?: (citations: ReplyCitations) => void;
+  // Sent before `done` when the user seems to have corrected a memory; nothing changes until they confirm
+  onCorrection?: (correction: MemoryCorrection) => void;
+  // Sent before `done` by conversation_starters
+  onStarters?: (starters: ConversationStarter[]) => void;
+  // Sent before `done` by conversation_recap when the conversation had anything to recap
+  onRecap?: (recap: ConversationRecap) => void;
+}
+
+export class GatewayError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GatewayError';
+    this.status = status;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function getAccessToken(): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new GatewayError('Not signed in', 401);
+  return session.access_token;
+}
+
+// Reads out the rest of a stream that is no longer needed so the connection can close normally
+async function drain(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> {
+  try {
+    for (;;) {
+      const { done } = await reader.read();
+      if (done) return;
+    }
+  } catch {
+    // Connection already closed
+  }
+}
+
+export class ConversationGateway {
+  // Sends a request and reads the SSE stream until `done`; resolves with the full text
+  async stream(request: GatewayRequest, handlers: GatewayHandlers = {}): Promise<string> {
+    const token = await getAccessToken();
+
+    const response = await fetch(GATEWAY_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream'
+      },
+      body: JSON.stringify(request)
+    });
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => ({}));
+      throw new GatewayError(error.error || 'Conversation gateway request failed', response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // ✅ SSE frames are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        const eventName = frame.match(/^event: (.*)$/m)?.[1] || 'message';
+        const data = frame.match(/^data: (.*)$/m)?.[1];
+        if (!data) continue;
+        const payload = JSON.parse(data);
+
+        switch (eventName) {
+          case 'token':
+            fullText += payload.delta;
+            handlers.onToken?.(payload.delta);
+            break;
+          case 'sentence':
+            handlers.onSentence?.(payload.sentence);
+            break;
+          case 'safety':
+            handlers.onSafety?.(payload);
+            break;
+          case 'wellbeing':
+            handlers.onWellbeing?.(payload);
+            break;
+          case 'retrieval':
+            handlers.onRetrieval?.(payload);
+            break;
+          case 'citations':
+            handlers.onCitations?.(payload);
+            break;
+          case 'correction':
+            handlers.onCorrection?.(payload);
+            break;
+          case 'starters':
+            handlers.onStarters?.(payload.starters);
+            break;
+          case 'recap':
+            handlers.onRecap?.(payload);
+            break;
+          case 'done':
+            // The gateway holds the stream open while it saves facts from this turn — no need to wait
+            void drain(reader);
+            return payload.text ?? fullText;
+          case 'error':
+            throw new GatewayError(payload.error || 'Conversation gateway error', 500);
+        }
+      }
+    }
+
+    return fullText;
+  }
+
+  async generateGreeting(
+    personaId: string,
+    options: { conversationId?: string | null; onCitations?: (citations: ReplyCitations) => void } = {}
+  ): Promise<string> {
+    return this.stream(
+      { task: 'persona_greeting', personaId, conversationId: options.conversationId },
+      { onCitations: options.onCitations }
+    );
+  }
+
+  // Same contract the engine used to expose in the browser — onSentence fires per complete sentence
+  async generateStreamingResponse(
+    personaId: string,
+    message: string,
+    history: ChatTurn[],
+    onSentence: (sentence: string) => void,
+    options: Pick<GatewayHandlers, 'onSafety' | 'onWellbeing' | 'onCitations' | 'onCorrection'> & {
+      conversationId?: string | null;
+    } = {}
+  ): Promise<string> {
+    const { conversationId, ...handlers } = options;
+    return this.stream({
+      task: 'persona_reply',
+      personaId,
+      conversationId,
+      message,
+      history,
+      surface: 'facetime',
+      timezoneOffset: new Date().getTimezoneOffset()
+    }, { onSentence, ...handlers });
+  }
+
+  // For engines that still generate replies in the browser — screen the turn first and use the
+  // returned scripted text instead of a reply when it is not null
+  async checkSafety(
+    message: string,
+    surface: SafetySurface,
+    personaId?: string
+  ): Promise<(SafetyNotice & { text: string }) | null> {
+    let notice: SafetyNotice | null = null;
+    const text = await this.stream(
+      { task: 'safety_check', personaId, message, surface },
+      { onSafety: (n) => { notice = n; } }
+    );
+    return notice ? { ...(notice as SafetyNotice), text } : null;
+  }
+
+  // Things this user might open with, drawn from dates, family news, memories and the last session
+  async getStarters(personaId: string): Promise<ConversationStarter[]> {
+    let starters: ConversationStarter[] = [];
+    await this.stream({ task: 'conversation_starters', personaId }, { onStarters: (s) => { starters = s; } });
+    return starters;
+  }
+
+  // Builds (or returns the stored) recap for a finished conversation; null if nothing was said
+  async getRecap(personaId: string, conversationId: string): Promise<ConversationRecap | null> {
+    let recap: ConversationRecap | null = null;
+    await this.stream({ task: 'conversation_recap', personaId, conversationId }, { onRecap: (r) => { recap = r; } });
+    return recap;
+  }
+
+  // JSON request to one of the non-streaming functions, with the caller's session token
+  private async post<T>(url: string, body: Record<string, unknown>, failure: string): Promise<T> {
+    const token = await getAccessToken();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new GatewayError(data.error || failure, response.status);
+    return data as T;
+  }
+
+  async transcribe(audio: Blob, filename: string, language?: string): Promise<string> {
+    const data = await this.post<{ text?: string }>(TRANSCRIBE_URL, {
+      audio: toBase64(new Uint8Array(await audio.arrayBuffer())),
+      filename,
+      mimeType: audio.type,
+      language
+    }, 'Transcription failed');
+    return data.text || '';
+  }
+
+  // Text-to-speech in one of the provider's stock voices (persona voice clones are separate)
+  async speak(text: string, options: { voice?: string; speed?: number } = {}): Promise<ArrayBuffer> {
+    const data = await this.post<{ audio: string }>(SPEECH_URL, { text, ...options }, 'Speech generation failed');
+    return Uint8Array.from(atob(data.audio), c => c.charCodeAt(0)).buffer;
+  }
+
+  async analyze<T extends AnalysisRequest>(request: T): Promise<AnalysisResponses[T['task']]> {
+    return this.post<AnalysisResponses[T['task']]>(ANALYZE_URL, request, 'Analysis failed');
+  }
+
+  // Merges near-duplicate memories for one persona; the nightly job does the same for everyone
+  async consolidateMemories(personaId: string): Promise<ConsolidationResult> {
+    return this.post<ConsolidationResult>(CONSOLIDATE_URL, { personaId }, 'Memory consolidation failed');
+  }
+}
+
+export const conversationGateway = new ConversationGateway();
@@ -0,0 +1,198 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from './llmProvider';
+import { reviewMemory, MemoryReviewStatus } from './memoryReview';
+import { finishSessionSummary } from './conversationSummaries';
+
+// End-of-conversation recap — what was talked about and the facts the user shared, stored on the
+// conversation row. Facts are the `pending` memories picked up during the session; when a
+// session had no live extraction (older call screens), the recap model lists them and they are
+// saved as pending the same way. The user then keeps or declines each one: the owner's choices
+// approve or reject, anyone else's kept facts wait for the owner. Building the recap also
+// finishes the call's session summary. Node-safe: the gateway builds the recap, the app saves
+// the choices.
+
+export interface RecapFact {
+  id: string;
+  content: string;
+  status: MemoryReviewStatus;
+}
+
+export interface ConversationRecap {
+  summary: string;
+  topics: string[];
+  facts: RecapFact[];
+  // Only the persona's owner can approve; other people's kept facts stay pending for review
+  canApprove: boolean;
+  keptFactIds: string[];
+  openedHaven: boolean;
+  createdAt: string;
+  savedAt: string | null;
+}
+
+const MAX_TRANSCRIPT_TURNS = 80;
+const MAX_FACTS = 8;
+
+async function loadTranscript(db: SupabaseClient, conversationId: string): Promise<Array<{ sender: string; content: string }>> {
+  const { data, error } = await db
+    .from('messages')
+    .select('sender_type, content')
+    .eq('conversation_id', conversationId)
+    .in('sender_type', ['user', 'persona'])
+    .order('timestamp', { ascending: true })
+    .limit(MAX_TRANSCRIPT_TURNS);
+  if (error) console.error('Error loading conversation transcript:', error);
+  return (data || []).map(m => ({ sender: m.sender_type, content: m.content }));
+}
+
+async function loadSessionFacts(
+  db: SupabaseClient,
+  params: { userId: string; personaId: string; since: string }
+): Promise<RecapFact[]> {
+  const { data, error } = await db
+    .from('persona_memories')
+    .select('id, content, review_status')
+    .eq('persona_id', params.personaId)
+    .eq('added_by', params.userId)
+    .eq('source_type', 'conversation')
+    .gte('created_at', params.since)
+    .order('created_at', { ascending: true })
+    .limit(MAX_FACTS);
+  if (error) console.error('Error loading session facts:', error);
+  return (data || []).map(m => ({ id: m.id, content: m.content, status: m.review_status }));
+}
+
+export async function buildConversationRecap(
+  db: SupabaseClient,
+  llm: LLMProvider | null,
+  params: { conversationId: string; userId: string; personaId: string; personaName: string; isOwner: boolean }
+): Promise<ConversationRecap | null> {
+  const { data: conversation } = await db
+    .from('conversations')
+    .select('started_at, recap')
+    .eq('id', params.conversationId)
+    .eq('user_id', params.userId)
+    .maybeSingle();
+  if (!conversation) return null;
+  // Already built — the same recap comes back if the screen is reopened
+  if (conversation.recap) return conversation.recap as ConversationRecap;
+
+  const transcript = await loadTranscript(db, params.conversationId);
+  if (!transcript.some(m => m.sender === 'user')) return null;
+
+  // Runs alongside the recap — the persona remembers the call even if it never outgrew the raw window
+  const sessionSummary = llm
+    ? finishSessionSummary(db, llm, {
+        conversationId: params.conversationId,
+        userId: params.userId,
+        personaId: params.personaId,
+        startedAt: conversation.started_at,
+        transcript: transcript.map(m => ({ role: m.sender === 'user' ? 'user' as const : 'assistant' as const, content: m.content }))
+      })
+    : Promise.resolve();
+
+  let facts = await loadSessionFacts(db, { userId: params.userId, personaId: params.personaId, since: conversation.started_at });
+  let summary = '';
+  let topics: string[] = [];
+
+  if (llm) {
+    try {
+      const lines = transcript
+        .map(m => `${m.sender === 'user' ? 'THEM' : params.personaName.toUpperCase()}: ${m.content}`)
+        .join('\n');
+      const result = await llm.extractJSON<{ summary?: string; topics?: string[]; facts?: string[] }>([{
+        role: 'user',
+        content: `Recap this conversation between someone and a voice that remembers ${params.personaName}.
+${lines}
+
+Write to them ("you talked about..."), warm and brief.
+- summary: 2-3 sentences on what you talked about and how it felt
+- topics: up to 4 short topic labels
+- facts: specific new facts THEY shared about ${params.personaName}, the family or their life (names, places, dates, stories) — never anything ${params.personaName} said
+JSON only: {"summary": "...", "topics": ["..."], "facts": ["..."]}`
+      }], { task: 'summarization', maxTokens: 500, temperature: 0.3 });
+
+      summary = result.summary?.trim() || '';
+      topics = (result.topics || []).filter(t => typeof t === 'string' && t.trim()).slice(0, 4);
+
+      if (facts.length === 0) {
+        const extracted = (result.facts || []).filter(f => typeof f === 'string' && f.trim().length > 10).slice(0, MAX_FACTS);
+        if (extracted.length > 0) {
+          const { data: inserted, error } = await db
+            .from('persona_memories')
+            .insert(extracted.map(fact => ({
+              persona_id: params.personaId,
+              content: fact.trim(),
+              memory_type: 'fact',
+              source_type: 'conversation',
+              provenance: 'conversation',
+              added_by: params.userId,
+              review_status: 'pending',
+              importance: 0.75,
+              metadata: { conversation_id: params.conversationId }
+            })))
+            .select('id, content, review_status');
+          if (error) console.error('Error saving recap facts:', error);
+          facts = (inserted || []).map(m => ({ id: m.id, content: m.content, status: m.review_status }));
+        }
+      }
+    } catch (error) {
+      console.error('Error generating conversation recap:', error);
+    }
+  }
+
+  const recap: ConversationRecap = {
+    summary: summary || `You and ${params.personaName} talked for a while.`,
+    topics,
+    facts,
+    canApprove: params.isOwner,
+    keptFactIds: [],
+    openedHaven: false,
+    createdAt: new Date().toISOString(),
+    savedAt: null
+  };
+
+  const { error } = await db.from('conversations').update({ recap }).eq('id', params.conversationId);
+  if (error) console.error('Error saving conversation recap:', error);
+  await sessionSummary;
+  return recap;
+}
+
+// ✅ Applies the user's picks to the facts and stores them with the recap
+export async function saveRecapChoices(
+  db: SupabaseClient,
+  params: {
+    conversationId: string;
+    recap: ConversationRecap;
+    userId: string;
+    keptFactIds: string[];
+    meaningful: boolean;
+    openedHaven: boolean;
+  }
+): Promise<ConversationRecap | null> {
+  const kept = new Set(params.keptFactIds);
+  const facts = await Promise.all(params.recap.facts.map(async (fact): Promise<RecapFact> => {
+    if (fact.status !== 'pending') return fact;
+    if (!kept.has(fact.id)) {
+      return await reviewMemory(db, fact.id, params.userId, 'rejected') ? { ...fact, status: 'rejected' } : fact;
+    }
+    if (!params.recap.canApprove) return fact;
+    return await reviewMemory(db, fact.id, params.userId, 'approved') ? { ...fact, status: 'approved' } : fact;
+  }));
+
+  const recap: ConversationRecap = {
+    ...params.recap,
+    facts,
+    keptFactIds: params.keptFactIds,
+    openedHaven: params.openedHaven,
+    savedAt: new Date().toISOString()
+  };
+  const { error } = await db
+    .from('conversations')
+    .update({ recap, is_meaningful: params.meaningful })
+    .eq('id', params.conversationId);
+  if (error) {
+    console.error('Error saving recap choices:', error);
+    return null;
+  }
+  return recap;
+}
@@ -0,0 +1,81 @@
+// Conversation sessions — what the engine keeps for one person talking to one persona between
+// turns. The persona row, family news, relationship and grief phase barely change during a
+// call, so they load once and refresh in the background once stale; the turn never waits on
+// that refresh. Work that only matters for later turns (fact extraction, summary updates) is
+// queued to run after the reply has streamed. Node-safe: sessions live in the gateway's engine.
+
+export interface SessionOptions {
+  // How old the cached context may get before a background refresh is started
+  contextMaxAgeMs?: number;
+}
+
+const DEFAULT_CONTEXT_MAX_AGE_MS = 1000 * 60 * 2;
+
+export class ConversationSession<TContext> {
+  readonly personaId: string;
+
+  // Facts the user shared during this session, newest last
+  facts: string[] = [];
+  // Rolling summary of this session's earlier turns, and the entry it is saved to
+  summary = '';
+  summaryEntryId: string | null = null;
+  // How many history turns the summary already covers
+  summarizedTurns = 0;
+  readonly startedAt = new Date().toISOString();
+  lastActiveAt = Date.now();
+
+  private loader: () => Promise<TContext>;
+  private maxAgeMs: number;
+  private context: TContext | null = null;
+  private loadedAt = 0;
+  private loading: Promise<TContext> | null = null;
+  private backgroundTail: Promise<void> = Promise.resolve();
+
+  constructor(personaId: string, loader: () => Promise<TContext>, options: SessionOptions = {}) {
+    this.personaId = personaId;
+    this.loader = loader;
+    this.maxAgeMs = options.contextMaxAgeMs ?? DEFAULT_CONTEXT_MAX_AGE_MS;
+  }
+
+  // ✅ Stale-while-revalidate — only the very first turn waits for the load
+  async getContext(): Promise<TContext> {
+    this.lastActiveAt = Date.now();
+    if (!this.context) return this.refresh();
+    if (Date.now() - this.loadedAt > this.maxAgeMs) {
+      this.refresh().catch(error => console.error('Error refreshing session context:', error));
+    }
+    return this.context;
+  }
+
+  refresh(): Promise<TContext> {
+    if (!this.loading) {
+      this.loading = this.loader()
+        .then(context => {
+          this.context = context;
+          this.loadedAt = Date.now();
+          return context;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  // Forces the next turn to reload, e.g. after the persona has been edited
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  // Queues work to run after the reply; tasks run one at a time so summary writes never race
+  runAfterResponse(task: () => Promise<void>): void {
+    this.backgroundTail = this.backgroundTail.then(task).catch(error => {
+      console.error('Error in post-response session task:', error);
+    });
+  }
+
+  // Resolves once every queued task has finished — the gateway waits on this after `done`
+  settle(): Promise<void> {
+    return this.backgroundTail;
+  }
+}
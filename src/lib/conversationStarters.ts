@@ -0,0 +1,265 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from './llmProvider';
+import { loadFamilyUpdates, describeWhen, FamilyUpdate } from './familyUpdates';
+import { loadSummaryHierarchy } from './conversationSummaries';
+import { loadBoundaries, closedBoundaries, mentionsBoundary } from './personaBoundaries';
+import { parsePassingDate } from './temporalAwareness';
+
+// Conversation starters — a few things the user could open with, drawn from what is going on for
+// them: a date coming up, recent family news, memories the persona has not talked about with
+// them yet, and where the last conversation left off. Each signal is phrased as something the
+// user would say; without a model (or if it fails) a plain template is used. Node-safe: the
+// gateway builds these from the caller's own data.
+
+export type StarterSource = 'date' | 'milestone' | 'memory' | 'last_session' | 'general';
+
+export interface ConversationStarter {
+  id: string;
+  text: string;
+  source: StarterSource;
+}
+
+export const STARTER_SOURCE_LABELS: Record<StarterSource, string> = {
+  date: 'Coming up',
+  milestone: 'Family news',
+  memory: 'Not talked about yet',
+  last_session: 'Last time',
+  general: 'To begin'
+};
+
+// Always available — used to fill the list when there is little to draw on
+export const GENERAL_STARTERS: string[] = [
+  "I've been thinking about you a lot lately.",
+  'I wanted to tell you about my day.',
+  'I miss you. Can we just talk for a while?',
+  "There's something I never got to say to you."
+];
+
+interface StarterSignal {
+  id: string;
+  source: Exclude<StarterSource, 'general'>;
+  // What the model is told about this signal
+  detail: string;
+  // Used as-is when the signal cannot be phrased by the model
+  fallback: string;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_STARTERS = 4;
+const DATE_AHEAD_DAYS = 30;
+const MILESTONE_PAST_DAYS = 60;
+const UNEXPLORED_MEMORIES = 2;
+const MIN_MEMORY_IMPORTANCE = 0.6;
+
+function daysUntil(date: Date, now: Date): number {
+  return Math.round((date.getTime() - now.getTime()) / DAY_MS);
+}
+
+function shorten(text: string, max: number = 160): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > max ? `${clean.slice(0, max - 1).trimEnd()}…` : clean;
+}
+
+// The next anniversary of their passing, if it falls within the coming month
+export function upcomingAnniversary(
+  dateOfPassing: string | null | undefined,
+  now: Date = new Date()
+): { years: number; days: number } | null {
+  const passedOn = parsePassingDate(dateOfPassing);
+  if (!passedOn) return null;
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  for (const year of [today.getUTCFullYear(), today.getUTCFullYear() + 1]) {
+    const anniversary = new Date(Date.UTC(year, passedOn.getUTCMonth(), passedOn.getUTCDate()));
+    const days = daysUntil(anniversary, today);
+    const years = year - passedOn.getUTCFullYear();
+    if (days >= 0 && years > 0) return days <= DATE_AHEAD_DAYS ? { years, days } : null;
+  }
+  return null;
+}
+
+function updateSignal(update: FamilyUpdate, now: Date): StarterSignal | null {
+  const days = daysUntil(new Date(`${update.event_date}T00:00:00Z`), now);
+  const people = update.people.length > 0 ? ` (${update.people.join(', ')})` : '';
+  if (days > 0 && days <= DATE_AHEAD_DAYS) {
+    return {
+      id: `update:${update.id}`,
+      source: 'date',
+      detail: `Coming up ${describeWhen(update.event_date, now)}${people}: ${update.description}`,
+      fallback: `Something's coming up that I wish you could be there for — ${shorten(update.description, 100)}`
+    };
+  }
+  if (days <= 0 && days >= -MILESTONE_PAST_DAYS) {
+    return {
+      id: `update:${update.id}`,
+      source: 'milestone',
+      detail: `Happened ${describeWhen(update.event_date, now)}${people}: ${update.description}`,
+      fallback: `I have some news I wanted to share with you — ${shorten(update.description, 100)}`
+    };
+  }
+  return null;
+}
+
+// Important confirmed memories that none of the persona's replies to this user have drawn on yet
+async function loadUnexploredMemories(
+  db: SupabaseClient,
+  userId: string,
+  personaId: string
+): Promise<Array<{ id: string; content: string }>> {
+  const [{ data: memories, error }, { data: conversations }] = await Promise.all([
+    db.from('persona_memories')
+      .select('id, content')
+      .eq('persona_id', personaId)
+      .eq('review_status', 'approved')
+      .gte('importance', MIN_MEMORY_IMPORTANCE)
+      .order('importance', { ascending: false })
+      .limit(30),
+    db.from('conversations')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('persona_id', personaId)
+      .order('started_at', { ascending: false })
+      .limit(30)
+  ]);
+  if (error) {
+    console.error('Error loading memories for starters:', error);
+    return [];
+  }
+
+  const explored = new Set<string>();
+  const conversationIds = (conversations || []).map(c => c.id);
+  if (conversationIds.length > 0) {
+    const { data: messages } = await db
+      .from('messages')
+      .select('metadata')
+      .in('conversation_id', conversationIds)
+      .eq('sender_type', 'persona')
+      .limit(500);
+    for (const message of messages || []) {
+      const ids = (message.metadata as { memory_ids?: string[] } | null)?.memory_ids;
+      (ids || []).forEach(id => explored.add(id));
+    }
+  }
+  return (memories || []).filter(m => !explored.has(m.id));
+}
+
+async function gatherStarterSignals(
+  db: SupabaseClient,
+  params: { userId: string; personaId: string; dateOfPassing: string | null; now?: Date }
+): Promise<StarterSignal[]> {
+  const now = params.now || new Date();
+  const [updates, memories, summaries, boundaries] = await Promise.all([
+    loadFamilyUpdates(db, params.personaId),
+    loadUnexploredMemories(db, params.userId, params.personaId),
+    loadSummaryHierarchy(db, params.userId, params.personaId),
+    loadBoundaries(db, params.personaId)
+  ]);
+
+  const signals: StarterSignal[] = [];
+
+  const anniversary = upcomingAnniversary(params.dateOfPassing, now);
+  if (anniversary) {
+    const span = anniversary.years === 1 ? 'a year' : `${anniversary.years} years`;
+    signals.push({
+      id: `anniversary:${anniversary.years}`,
+      source: 'date',
+      detail: `${anniversary.days === 0 ? 'Today is' : `In ${anniversary.days} days it will be`} ${span} since they passed`,
+      fallback: `It's ${anniversary.days === 0 ? '' : 'almost '}${span} since you've been gone, and you've been on my mind.`
+    });
+  }
+
+  // Nearest first, whether it just happened or is coming up
+  const distance = (update: FamilyUpdate) => Math.abs(daysUntil(new Date(`${update.event_date}T00:00:00Z`), now));
+  [...updates]
+    .sort((a, b) => distance(a) - distance(b))
+    .map(update => updateSignal(update, now))
+    .filter((signal): signal is StarterSignal => signal !== null)
+    .slice(0, 2)
+    .forEach(signal => signals.push(signal));
+
+  const lastSession = summaries.sessions[0];
+  if (lastSession) {
+    signals.push({
+      id: `session:${lastSession.id}`,
+      source: 'last_session',
+      detail: `Last conversation: ${shorten(lastSession.summary, 400)}`,
+      fallback: "I've been thinking about what we talked about last time."
+    });
+  }
+
+  memories.slice(0, UNEXPLORED_MEMORIES).forEach(memory => {
+    signals.push({
+      id: `memory:${memory.id}`,
+      source: 'memory',
+      detail: `A memory you have not talked about together yet: ${shorten(memory.content, 240)}`,
+      fallback: `I was remembering something today — ${shorten(memory.content, 100)}`
+    });
+  });
+
+  // Nothing the family has put off-limits is suggested as an opener
+  const closed = closedBoundaries(boundaries, '');
+  return signals.filter(signal => !closed.some(b => mentionsBoundary(signal.detail, b)));
+}
+
+function generalStarters(count: number): ConversationStarter[] {
+  return GENERAL_STARTERS.slice(0, count).map((text, index) => ({
+    id: `general:${index}`,
+    text,
+    source: 'general' as const
+  }));
+}
+
+async function phraseSignals(
+  llm: LLMProvider,
+  personaName: string,
+  signals: StarterSignal[]
+): Promise<Array<string | null>> {
+  const listed = signals.map((s, i) => `${i + 1}. ${s.detail}`).join('\n');
+  const result = await llm.extractJSON<{ starters?: string[] }>([{
+    role: 'user',
+    content: `Someone is about to talk with a voice that remembers ${personaName}, who has passed away. Write one thing they could say to open the conversation for each numbered item below.
+${listed}
+
+Each line is spoken by them to ${personaName}, in the first person ("I", "you" = ${personaName}), warm and natural, under 20 words. Never invent details that are not in the item.
+JSON only: {"starters": ["line for item 1", "line for item 2"]}`
+  }], { task: 'greeting', maxTokens: 300, temperature: 0.7 });
+
+  return signals.map((_, i) => {
+    const text = result.starters?.[i];
+    return typeof text === 'string' && text.trim().length > 0 ? text.trim() : null;
+  });
+}
+
+// ✅ Up to four starters for this user and persona — the strongest signals first, general ones after
+export async function buildConversationStarters(
+  db: SupabaseClient,
+  llm: LLMProvider | null,
+  params: { userId: string; personaId: string; personaName: string; dateOfPassing: string | null; now?: Date }
+): Promise<ConversationStarter[]> {
+  let signals: StarterSignal[] = [];
+  try {
+    signals = (await gatherStarterSignals(db, params)).slice(0, MAX_STARTERS);
+  } catch (error) {
+    console.error('Error gathering conversation starters:', error);
+  }
+
+  let phrased: Array<string | null> = signals.map(() => null);
+  if (llm && signals.length > 0) {
+    try {
+      phrased = await phraseSignals(llm, params.personaName, signals);
+    } catch (error) {
+      console.error('Error phrasing conversation starters:', error);
+    }
+  }
+
+  const starters: ConversationStarter[] = signals.map((signal, i) => ({
+    id: signal.id,
+    text: phrased[i] || signal.fallback,
+    source: signal.source
+  }));
+  return [...starters, ...generalStarters(MAX_STARTERS - starters.length)];
+}
+
+// For clients that cannot reach the gateway
+export function defaultConversationStarters(): ConversationStarter[] {
+  return generalStarters(MAX_STARTERS);
+}
@@ -0,0 +1,360 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from './llmProvider';
+import { estimateTokens } from './promptBudget';
+
+// Hierarchical conversation summaries. Each call with a persona is summarised on its own; once
+// its week is over, that week's sessions are rolled into one weekly summary, and weeks older
+// than WEEKS_BEFORE_DIGEST are folded into a single long-term digest. Every level has a size
+// limit and is regenerated shorter when a merge overflows it, so the persona recalls last
+// Tuesday precisely and last year in outline, and the prompt stays a fixed size. Node-safe.
+
+export type SummaryLevel = 'session' | 'weekly' | 'digest';
+
+// Token limits per level
+export const SUMMARY_LIMITS: Record<SummaryLevel, number> = {
+  session: 250,
+  weekly: 250,
+  digest: 500
+};
+
+// Weekly summaries older than this many weeks are folded into the digest
+export const WEEKS_BEFORE_DIGEST = 4;
+
+// Most recent sessions and weeks shown individually in the prompt
+const PROMPT_SESSIONS = 4;
+const PROMPT_WEEKS = WEEKS_BEFORE_DIGEST + 1;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WEEK_MS = DAY_MS * 7;
+
+export interface SummaryEntry {
+  id: string;
+  level: SummaryLevel;
+  period_start: string;
+  period_end: string;
+  summary: string;
+  source_count: number;
+  // Session entries: the call summarised and how many of its turns the summary covers
+  conversation_id: string | null;
+  summarized_turns: number;
+}
+
+export interface SummaryHierarchy {
+  // Newest first
+  sessions: SummaryEntry[];
+  weeks: SummaryEntry[];
+  digest: SummaryEntry | null;
+}
+
+const LEVEL_GUIDANCE: Record<SummaryLevel, string> = {
+  session: 'Keep every specific name, date, place, plan, feeling and story that was shared.',
+  weekly: 'Keep the specific names, dates, events and plans; drop small talk and repetition.',
+  digest: 'Keep only what matters long term — people, milestones, ongoing situations and lasting feelings — in outline.'
+};
+
+// timezoneOffset is the client's Date#getTimezoneOffset(); weeks start on Monday, local time
+export function weekStart(at: number, timezoneOffset: number = 0): number {
+  const local = new Date(at - timezoneOffset * 60000);
+  const daysSinceMonday = (local.getUTCDay() + 6) % 7;
+  const localMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  return localMidnight - daysSinceMonday * DAY_MS + timezoneOffset * 60000;
+}
+
+function localDateLabel(iso: string, timezoneOffset: number, options: Intl.DateTimeFormatOptions): string {
+  const shifted = new Date(new Date(iso).getTime() - timezoneOffset * 60000);
+  return shifted.toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+// ✅ Merges new material into an existing summary, then regenerates shorter if it overflows
+export async function summarizeWithinLimit(
+  llm: LLMProvider,
+  level: SummaryLevel,
+  existing: string,
+  material: string
+): Promise<string> {
+  const limit = SUMMARY_LIMITS[level];
+  const words = Math.floor(limit * 0.7);
+
+  let summary = await llm.chat([{
+    role: 'user',
+    content: `You are keeping a persona's memory of past conversations with someone they love.
+${LEVEL_GUIDANCE[level]}
+Write bullet points, at most ${words} words in total.
+
+Current summary: ${existing || 'None yet'}
+
+New material to fold in:
+${material}
+
+Return only the updated bullet list.`
+  }], { task: 'summarization', maxTokens: Math.ceil(limit * 1.5), temperature: 0.1 });
+
+  summary = (summary || existing).trim();
+  if (estimateTokens(summary) <= limit) return summary;
+
+  const shorter = await llm.chat([{
+    role: 'user',
+    content: `Shorten this summary to at most ${words} words. ${LEVEL_GUIDANCE[level]} Keep the bullet format.
+
+${summary}`
+  }], { task: 'summarization', maxTokens: limit, temperature: 0.1 });
+  return (shorter || summary).trim();
+}
+
+export async function loadSummaryHierarchy(
+  db: SupabaseClient,
+  userId: string,
+  personaId: string
+): Promise<SummaryHierarchy> {
+  const hierarchy: SummaryHierarchy = { sessions: [], weeks: [], digest: null };
+  const { data, error } = await db
+    .from('conversation_summary_entries')
+    .select('id, level, period_start, period_end, summary, source_count, conversation_id, summarized_turns')
+    .eq('user_id', userId)
+    .eq('persona_id', personaId)
+    .is('rolled_up_at', null)
+    .order('period_start', { ascending: false })
+    .limit(50);
+  if (error) {
+    console.error('Error loading conversation summaries:', error);
+    return hierarchy;
+  }
+
+  for (const entry of (data || []) as SummaryEntry[]) {
+    if (!entry.summary?.trim()) continue;
+    if (entry.level === 'session') hierarchy.sessions.push(entry);
+    else if (entry.level === 'weekly') hierarchy.weeks.push(entry);
+    else hierarchy.digest = entry;
+  }
+  return hierarchy;
+}
+
+// Creates the session's entry on first save and updates it afterwards; returns its id. With a
+// conversation id the entry is that call's — an instance that has not seen it yet still lands on it
+export async function saveSessionSummary(
+  db: SupabaseClient,
+  params: {
+    entryId: string | null;
+    conversationId: string | null;
+    userId: string;
+    personaId: string;
+    startedAt: string;
+    summary: string;
+    summarizedTurns: number;
+  }
+): Promise<string | null> {
+  const now = new Date().toISOString();
+  if (params.entryId) {
+    const { error } = await db
+      .from('conversation_summary_entries')
+      .update({ summary: params.summary, summarized_turns: params.summarizedTurns, period_end: now, updated_at: now })
+      .eq('id', params.entryId);
+    if (error) console.error('Error saving session summary:', error);
+    return params.entryId;
+  }
+
+  const entry = {
+    user_id: params.userId,
+    persona_id: params.personaId,
+    conversation_id: params.conversationId,
+    level: 'session',
+    period_start: params.startedAt,
+    period_end: now,
+    summary: params.summary,
+    summarized_turns: params.summarizedTurns
+  };
+  const { data, error } = await (params.conversationId
+    ? db.from('conversation_summary_entries').upsert(entry, { onConflict: 'conversation_id' })
+    : db.from('conversation_summary_entries').insert(entry))
+    .select('id')
+    .single();
+  if (error) {
+    console.error('Error saving session summary:', error);
+    return null;
+  }
+  return data.id;
+}
+
+// ✅ When a call ends, the turns still in its raw window are folded into its session entry —
+// for a short call that is every turn, since none ever aged out during the call
+export async function finishSessionSummary(
+  db: SupabaseClient,
+  llm: LLMProvider,
+  params: {
+    conversationId: string;
+    userId: string;
+    personaId: string;
+    startedAt: string;
+    transcript: Array<{ role: 'user' | 'assistant'; content: string }>;
+  }
+): Promise<void> {
+  const { data: entry, error } = await db
+    .from('conversation_summary_entries')
+    .select('id, summary, summarized_turns')
+    .eq('conversation_id', params.conversationId)
+    .maybeSingle();
+  if (error) {
+    console.error('Error loading session summary:', error);
+    return;
+  }
+
+  const remaining = params.transcript.slice(entry?.summarized_turns ?? 0);
+  if (!remaining.some(m => m.role === 'user')) return;
+
+  try {
+    const summary = await summarizeWithinLimit(
+      llm,
+      'session',
+      entry?.summary || '',
+      remaining.map(m => `${m.role === 'user' ? 'THEM' : 'YOU'}: "${m.content}"`).join('\n')
+    );
+    await saveSessionSummary(db, {
+      entryId: entry?.id ?? null,
+      conversationId: params.conversationId,
+      userId: params.userId,
+      personaId: params.personaId,
+      startedAt: params.startedAt,
+      summary,
+      summarizedTurns: params.transcript.length
+    });
+  } catch (error) {
+    console.error('Error finishing session summary:', error);
+  }
+}
+
+async function markRolledUp(db: SupabaseClient, ids: string[]): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await db
+    .from('conversation_summary_entries')
+    .update({ rolled_up_at: now, updated_at: now })
+    .in('id', ids);
+  if (error) console.error('Error marking summaries rolled up:', error);
+}
+
+// ✅ Sessions from finished weeks become weekly summaries; old weeks join the digest.
+// Returns true when anything changed, so callers can reload the hierarchy.
+export async function rollUpSummaries(
+  db: SupabaseClient,
+  llm: LLMProvider,
+  userId: string,
+  personaId: string,
+  timezoneOffset: number = 0,
+  now: number = Date.now()
+): Promise<boolean> {
+  const { data, error } = await db
+    .from('conversation_summary_entries')
+    .select('id, level, period_start, period_end, summary, source_count')
+    .eq('user_id', userId)
+    .eq('persona_id', personaId)
+    .is('rolled_up_at', null)
+    .order('period_start', { ascending: true });
+  if (error) {
+    console.error('Error loading summaries to roll up:', error);
+    return false;
+  }
+
+  const entries = (data || []) as SummaryEntry[];
+  const thisWeek = weekStart(now, timezoneOffset);
+  let changed = false;
+
+  // Sessions → weekly, one week at a time
+  const sessionsByWeek = new Map<number, SummaryEntry[]>();
+  for (const entry of entries) {
+    if (entry.level !== 'session') continue;
+    const week = weekStart(new Date(entry.period_start).getTime(), timezoneOffset);
+    if (week >= thisWeek) continue;
+    sessionsByWeek.set(week, [...(sessionsByWeek.get(week) || []), entry]);
+  }
+
+  for (const [week, sessions] of sessionsByWeek) {
+    const weekIso = new Date(week).toISOString();
+    const existing = entries.find(e => e.level === 'weekly' && new Date(e.period_start).getTime() === week);
+    const material = sessions
+      .map(s => `${localDateLabel(s.period_start, timezoneOffset, { weekday: 'long', month: 'long', day: 'numeric' })}:\n${s.summary}`)
+      .join('\n\n');
+    const summary = await summarizeWithinLimit(llm, 'weekly', existing?.summary || '', material);
+
+    const { error: upsertError } = await db
+      .from('conversation_summary_entries')
+      .upsert({
+        ...(existing ? { id: existing.id } : {}),
+        user_id: userId,
+        persona_id: personaId,
+        level: 'weekly',
+        period_start: weekIso,
+        period_end: new Date(week + WEEK_MS).toISOString(),
+        summary,
+        source_count: (existing?.source_count || 0) + sessions.length,
+        updated_at: new Date().toISOString()
+      });
+    if (upsertError) {
+      console.error('Error saving weekly summary:', upsertError);
+      continue;
+    }
+    await markRolledUp(db, sessions.map(s => s.id));
+    changed = true;
+  }
+
+  // Old weeks → digest. Weeks created just above are recent enough to wait for the next run.
+  const cutoff = thisWeek - WEEKS_BEFORE_DIGEST * WEEK_MS;
+  const oldWeeks = entries.filter(e => e.level === 'weekly' && new Date(e.period_start).getTime() < cutoff);
+  if (oldWeeks.length > 0) {
+    const digest = entries.find(e => e.level === 'digest');
+    const material = oldWeeks
+      .map(w => `Week of ${localDateLabel(w.period_start, timezoneOffset, { month: 'long', day: 'numeric', year: 'numeric' })}:\n${w.summary}`)
+      .join('\n\n');
+    const summary = await summarizeWithinLimit(llm, 'digest', digest?.summary || '', material);
+
+    const { error: upsertError } = await db
+      .from('conversation_summary_entries')
+      .upsert({
+        ...(digest ? { id: digest.id } : {}),
+        user_id: userId,
+        persona_id: personaId,
+        level: 'digest',
+        period_start: digest?.period_start || oldWeeks[0].period_start,
+        period_end: oldWeeks[oldWeeks.length - 1].period_end,
+        summary,
+        source_count: (digest?.source_count || 0) + oldWeeks.length,
+        updated_at: new Date().toISOString()
+      });
+    if (upsertError) {
+      console.error('Error saving summary digest:', upsertError);
+    } else {
+      await markRolledUp(db, oldWeeks.map(w => w.id));
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+// Oldest first and least detailed first, so prompt trimming drops the distant past before last week
+export function formatSummaryHierarchy(
+  hierarchy: SummaryHierarchy,
+  timezoneOffset: number = 0,
+  excludeId: string | null = null
+): string {
+  const blocks: string[] = [];
+
+  if (hierarchy.digest) {
+    blocks.push(`LONG AGO (in outline):\n${hierarchy.digest.summary}`);
+  }
+
+  if (hierarchy.weeks.length > 0) {
+    const weeks = hierarchy.weeks.slice(0, PROMPT_WEEKS).reverse().map(w =>
+      `Week of ${localDateLabel(w.period_start, timezoneOffset, { month: 'long', day: 'numeric' })}:\n${w.summary}`
+    );
+    blocks.push(`EARLIER WEEKS:\n${weeks.join('\n')}`);
+  }
+
+  const sessions = hierarchy.sessions.filter(s => s.id !== excludeId).slice(0, PROMPT_SESSIONS).reverse();
+  if (sessions.length > 0) {
+    const lines = sessions.map(s =>
+      `${localDateLabel(s.period_start, timezoneOffset, { weekday: 'long', month: 'long', day: 'numeric' })}:\n${s.summary}`
+    );
+    blocks.push(`RECENT CONVERSATIONS (remember these precisely):\n${lines.join('\n')}`);
+  }
+
+  return blocks.join('\n\n');
+}
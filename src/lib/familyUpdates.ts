@@ -0,0 +1,178 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GriefPhase } from './griefPhase';
+
+// Family news feed — life updates that the owner and collaborators post for a persona (a new
+// baby, a graduation, a new job), each with a date, the people involved and a visibility.
+// The persona knows every visible update, and raises at most one piece of unheard news per
+// conversation, once per person. Node-safe: the engine reads the feed in the gateway.
+
+export type FamilyUpdateKind =
+  | 'new_baby' | 'graduation' | 'wedding' | 'engagement' | 'new_job'
+  | 'birthday' | 'achievement' | 'move' | 'health' | 'general';
+export type FamilyUpdateVisibility = 'family' | 'private';
+
+export const FAMILY_UPDATE_KINDS: Record<FamilyUpdateKind, string> = {
+  new_baby: 'New baby',
+  graduation: 'Graduation',
+  wedding: 'Wedding',
+  engagement: 'Engagement',
+  new_job: 'New job',
+  birthday: 'Birthday',
+  achievement: 'Achievement',
+  move: 'New home',
+  health: 'Health',
+  general: 'News'
+};
+
+export const FAMILY_UPDATE_VISIBILITY: Record<FamilyUpdateVisibility, string> = {
+  family: 'Everyone who talks with them',
+  private: 'Only my conversations'
+};
+
+export interface FamilyUpdate {
+  id: string;
+  persona_id: string;
+  posted_by: string;
+  posted_by_name: string | null;
+  kind: FamilyUpdateKind;
+  description: string;
+  event_date: string;
+  people: string[];
+  visibility: FamilyUpdateVisibility;
+  created_at: string;
+}
+
+export type FamilyUpdateDraft = Pick<FamilyUpdate, 'kind' | 'description' | 'event_date' | 'people' | 'visibility'>;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// How far back the persona keeps news in mind, and the window in which it brings news up
+const FEED_DAYS = 365;
+const RAISE_PAST_DAYS = 60;
+const RAISE_AHEAD_DAYS = 30;
+const MAX_FEED_ITEMS = 15;
+
+export async function loadFamilyUpdates(
+  db: SupabaseClient,
+  personaId: string,
+  limit: number = MAX_FEED_ITEMS
+): Promise<FamilyUpdate[]> {
+  const since = new Date(Date.now() - FEED_DAYS * DAY_MS).toISOString().split('T')[0];
+  const { data, error } = await db
+    .from('family_updates')
+    .select('id, persona_id, posted_by, posted_by_name, kind, description, event_date, people, visibility, created_at')
+    .eq('persona_id', personaId)
+    .gte('event_date', since)
+    .order('event_date', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error('Error loading family updates:', error);
+    return [];
+  }
+  return (data || []) as FamilyUpdate[];
+}
+
+export async function postFamilyUpdate(
+  db: SupabaseClient,
+  params: { personaId: string; userId: string; postedByName: string | null; draft: FamilyUpdateDraft }
+): Promise<FamilyUpdate | null> {
+  const { draft } = params;
+  const { data, error } = await db
+    .from('family_updates')
+    .insert({
+      persona_id: params.personaId,
+      posted_by: params.userId,
+      posted_by_name: params.postedByName,
+      kind: draft.kind,
+      description: draft.description.trim(),
+      event_date: draft.event_date,
+      people: [...new Set(draft.people.map(p => p.trim()).filter(Boolean))],
+      visibility: draft.visibility
+    })
+    .select()
+    .single();
+  if (error) {
+    console.error('Error posting family update:', error);
+    return null;
+  }
+  return data as FamilyUpdate;
+}
+
+export async function deleteFamilyUpdate(db: SupabaseClient, updateId: string): Promise<boolean> {
+  const { error } = await db.from('family_updates').delete().eq('id', updateId);
+  if (error) console.error('Error deleting family update:', error);
+  return !error;
+}
+
+export async function getMentionedUpdateIds(db: SupabaseClient, userId: string, updateIds: string[]): Promise<string[]> {
+  if (updateIds.length === 0) return [];
+  const { data, error } = await db
+    .from('family_update_mentions')
+    .select('update_id')
+    .eq('user_id', userId)
+    .in('update_id', updateIds);
+  if (error) {
+    console.error('Error loading family update mentions:', error);
+    return [];
+  }
+  return (data || []).map(row => row.update_id);
+}
+
+export async function markUpdateMentioned(db: SupabaseClient, userId: string, updateId: string): Promise<void> {
+  const { error } = await db
+    .from('family_update_mentions')
+    .upsert({ update_id: updateId, user_id: userId }, { onConflict: 'update_id,user_id', ignoreDuplicates: true });
+  if (error) console.error('Error recording family update mention:', error);
+}
+
+function daysFromNow(date: string, now: Date): number {
+  return Math.round((new Date(`${date}T00:00:00Z`).getTime() - now.getTime()) / DAY_MS);
+}
+
+// ✅ The freshest news this person has not heard from the persona yet — nothing while grief is
+// raw, where the persona follows their lead instead
+export function pickUpdateToRaise(
+  updates: FamilyUpdate[],
+  mentionedIds: Set<string>,
+  griefPhase: GriefPhase,
+  now: Date = new Date()
+): FamilyUpdate | null {
+  if (griefPhase === 'acute') return null;
+  const candidates = updates
+    .filter(u => !mentionedIds.has(u.id))
+    .filter(u => {
+      const days = daysFromNow(u.event_date, now);
+      return days >= -RAISE_PAST_DAYS && days <= RAISE_AHEAD_DAYS;
+    });
+  // Closest to today first, whether just happened or coming up; among equals, the latest posted
+  candidates.sort((a, b) =>
+    Math.abs(daysFromNow(a.event_date, now)) - Math.abs(daysFromNow(b.event_date, now))
+    || b.created_at.localeCompare(a.created_at));
+  return candidates[0] || null;
+}
+
+export function describeWhen(date: string, now: Date = new Date()): string {
+  const days = daysFromNow(date, now);
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  if (days === -1) return 'yesterday';
+  if (days > 0) return days < 14 ? `in ${days} days` : `in about ${Math.round(days / 7)} weeks`;
+  const ago = -days;
+  if (ago < 14) return `${ago} days ago`;
+  if (ago < 60) return `${Math.round(ago / 7)} weeks ago`;
+  return `${Math.round(ago / 30)} months ago`;
+}
+
+export function formatFamilyUpdate(update: FamilyUpdate, userId: string | null, now: Date = new Date()): string {
+  const source = update.posted_by === userId ? 'they told you' : `${update.posted_by_name || 'family'} told you`;
+  const people = update.people.length > 0 ? ` (${update.people.join(', ')})` : '';
+  return `• ${FAMILY_UPDATE_KINDS[update.kind].toUpperCase()}${people}, ${describeWhen(update.event_date, now)}: ${update.description} — ${source}`;
+}
+
+export function getRaiseUpdateGuidance(update: FamilyUpdate, userId: string | null, personaName: string): string {
+  const theirs = update.posted_by === userId;
+  return `FAMILY NEWS TO BRING UP (once, in this conversation):
+${formatFamilyUpdate(update, userId)}
+When there is a natural opening — not while they are sharing something painful — bring this up the way ${personaName} would: ${theirs
+    ? 'warmly, as news they shared with you that you have been thinking about'
+    : 'as something you heard, with real interest in how they feel about it'}. Ask about it rather than reciting it. Mention it only once.`;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { parseGedcom, parseGedcomDate, toPartialDate, findRelatives, suggestPersonaIndividual, describeIndividual } from './gedcom';
+
+const TREE = `0 HEAD
+1 GEDC
+2 VERS 5.5.1
+0 @I1@ INDI
+1 NAME Rose Ellen /Carter/
+2 NICK Rosie
+1 NAME Rose /Hill/
+1 SEX F
+1 BIRT
+2 DATE 14 JUN 1931
+1 DEAT
+2 DATE ABT 2019
+1 NOTE Loved the sea
+2 CONT and her garden
+1 ASSO @I7@
+2 RELA best friend
+0 @I2@ INDI
+1 NAME Arthur /Carter/
+1 SEX M
+0 @I3@ INDI
+1 NAME Jane /Carter/
+1 SEX F
+0 @I4@ INDI
+1 NAME William /Hill/
+1 SEX M
+0 @I5@ INDI
+1 NAME Mary /Hill/
+1 SEX F
+0 @I6@ INDI
+1 NAME Tom /Hill/
+1 SEX M
+0 @I7@ INDI
+1 NAME Edna /Price/
+0 @I8@ INDI
+1 NAME Frank /Ross/
+1 SEX M
+0 @F1@ FAM
+1 HUSB @I2@
+1 WIFE @I1@
+1 CHIL @I3@
+0 @F2@ FAM
+1 HUSB @I4@
+1 WIFE @I5@
+1 CHIL @I1@
+1 CHIL @I6@
+0 @F3@ FAM
+1 HUSB @I8@
+1 WIFE @I1@
+1 DIV Y
+0 TRLR`;
+
+describe('parseGedcomDate', () => {
+  it.each([
+    ['14 JUN 1942', { year: 1942, month: 6, day: 14, approximate: false }],
+    ['JUN 1942', { year: 1942, month: 6, approximate: false }],
+    ['ABT 1940', { year: 1940, approximate: true }],
+    ['BET 1940 AND 1945', { year: 1940, approximate: true }],
+    ['@#DGREGORIAN@ 1750/51', { year: 1750, approximate: false }]
+  ])('reads %s', (value, expected) => {
+    expect(parseGedcomDate(value)).toEqual(expected);
+  });
+
+  it.each(['BEF 1900', 'AFT 1950', 'sometime', '32 FOO 1900'])('ignores %s', (value) => {
+    expect(parseGedcomDate(value)).toBeNull();
+  });
+
+  it('writes partial dates as precisely as the tree has them', () => {
+    expect(toPartialDate({ year: 1931, month: 6, day: 4, approximate: false })).toBe('1931-06-04');
+    expect(toPartialDate({ year: 1931, approximate: true })).toBe('1931');
+  });
+});
+
+describe('parseGedcom', () => {
+  const tree = parseGedcom(TREE);
+
+  it('reads people with their other names, nickname, dates and notes', () => {
+    const rose = tree.individuals.get('@I1@')!;
+    expect(tree.version).toBe('5.5.1');
+    expect(rose.name).toBe('Rose Ellen Carter');
+    expect(rose.aliases).toEqual(['Rose Hill']);
+    expect(rose.nickname).toBe('Rosie');
+    expect(rose.birth).toEqual({ year: 1931, month: 6, day: 14, approximate: false });
+    expect(rose.notes).toEqual(['Loved the sea\nand her garden']);
+    expect(describeIndividual(rose)).toBe('Rose Ellen Carter (1931–2019)');
+  });
+
+  it('reads families', () => {
+    expect(tree.families.find(f => f.id === '@F2@')).toEqual({ id: '@F2@', partners: ['@I4@', '@I5@'], children: ['@I1@', '@I6@'], divorced: false });
+  });
+
+  it('finds the persona by full name, alias or a unique first name', () => {
+    expect(suggestPersonaIndividual(tree, 'Rose Hill')).toBe('@I1@');
+    expect(suggestPersonaIndividual(tree, 'rose carter')).toBe('@I1@');
+    expect(suggestPersonaIndividual(tree, 'Edna')).toBe('@I7@');
+    expect(suggestPersonaIndividual(tree, 'Nobody')).toBeNull();
+  });
+});
+
+describe('findRelatives', () => {
+  it('names everyone from the persona outwards', () => {
+    const relatives = Object.fromEntries(
+      findRelatives(parseGedcom(TREE), '@I1@').map(r => [r.individual.name, `${r.relationship}/${r.kind}`])
+    );
+    expect(relatives).toEqual({
+      'Arthur Carter': 'husband/spouse',
+      'Jane Carter': 'daughter/child',
+      'William Hill': 'father/parent',
+      'Mary Hill': 'mother/parent',
+      'Tom Hill': 'brother/sibling',
+      'Frank Ross': 'former husband/other',
+      'Edna Price': 'best friend/friend'
+    });
+  });
+});
@@ -0,0 +1,672 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  loadPeopleGraph,
+  insertPerson,
+  findPersonByName,
+  cleanName,
+  mentions,
+  PeopleGraph,
+  PersonaPerson,
+  RelationshipKind
+} from './peopleGraph';
+import { loadTimelineMemories, resolveMemoryDate, formatMemoryDate, TimelineMemory } from './lifeTimeline';
+
+// Family trees in GEDCOM (5.5, 5.5.1 and 7) — read one into the persona's people graph, working
+// out who everyone is to the persona from the family records, and write the graph back out with
+// the persona's memories attached as notes. Exports are GEDCOM 5.5.1, which every genealogy
+// program still opens. Node-safe: the parser and writer are pure, the import and export take
+// the caller's client.
+
+interface GedcomNode {
+  tag: string;
+  xref: string | null;
+  value: string;
+  children: GedcomNode[];
+}
+
+export interface GedcomDate {
+  year: number;
+  month?: number;
+  day?: number;
+  // ABT, EST, BET... — the family tree's estimate rather than a recorded date
+  approximate: boolean;
+}
+
+export interface GedcomIndividual {
+  id: string;
+  name: string;
+  // Other NAME records — maiden and married names, spellings
+  aliases: string[];
+  nickname: string | null;
+  sex: 'M' | 'F' | null;
+  birth: GedcomDate | null;
+  death: GedcomDate | null;
+  notes: string[];
+  // ASSO records: someone outside the family structure and what they were to this person
+  associates: Array<{ id: string; relationship: string }>;
+}
+
+export interface GedcomFamily {
+  id: string;
+  partners: string[];
+  children: string[];
+  divorced: boolean;
+}
+
+export interface GedcomTree {
+  version: string | null;
+  individuals: Map<string, GedcomIndividual>;
+  families: GedcomFamily[];
+}
+
+// Someone in the tree and who they are to the persona
+export interface GedcomRelative {
+  individual: GedcomIndividual;
+  relationship: string;
+  kind: RelationshipKind;
+}
+
+export interface GedcomImportResult {
+  added: number;
+  updated: number;
+  linked: number;
+  // The persona fields the import filled in — only ones that were still empty
+  persona: { born_on?: string; date_of_passing?: string; gender?: 'male' | 'female' };
+}
+
+type Step = 'parent' | 'child' | 'spouse';
+
+const LINE = /^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?([A-Za-z0-9_]+)(?: (.*))?$/;
+const POINTER = /^@[^@\s]+@$/;
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+// How far from the persona the import looks — great-grandparents, cousins and in-laws
+const MAX_STEPS = 4;
+const MAX_RELATIVES = 250;
+// GEDCOM lines stay under 255 characters; longer values carry on in CONC lines
+const MAX_VALUE = 240;
+
+// Path from the persona -> [male, female, either] and the relationship the guidance knows
+const RELATIONSHIP_PATHS: Record<string, { labels: [string, string, string]; kind: RelationshipKind }> = {
+  'spouse': { labels: ['husband', 'wife', 'spouse'], kind: 'spouse' },
+  'parent': { labels: ['father', 'mother', 'parent'], kind: 'parent' },
+  'child': { labels: ['son', 'daughter', 'child'], kind: 'child' },
+  'parent.child': { labels: ['brother', 'sister', 'sibling'], kind: 'sibling' },
+  'parent.parent': { labels: ['grandfather', 'grandmother', 'grandparent'], kind: 'grandparent' },
+  'child.child': { labels: ['grandson', 'granddaughter', 'grandchild'], kind: 'grandchild' },
+  'parent.parent.parent': { labels: ['great-grandfather', 'great-grandmother', 'great-grandparent'], kind: 'grandparent' },
+  'child.child.child': { labels: ['great-grandson', 'great-granddaughter', 'great-grandchild'], kind: 'grandchild' },
+  'spouse.child': { labels: ['stepson', 'stepdaughter', 'stepchild'], kind: 'child' },
+  'parent.spouse': { labels: ['stepfather', 'stepmother', 'stepparent'], kind: 'parent' },
+  'parent.parent.child': { labels: ['uncle', 'aunt', 'aunt or uncle'], kind: 'other' },
+  'parent.child.child': { labels: ['nephew', 'niece', 'niece or nephew'], kind: 'other' },
+  'parent.parent.child.child': { labels: ['cousin', 'cousin', 'cousin'], kind: 'other' },
+  'child.spouse': { labels: ['son-in-law', 'daughter-in-law', 'child-in-law'], kind: 'other' },
+  'child.child.spouse': { labels: ['grandson-in-law', 'granddaughter-in-law', 'grandchild-in-law'], kind: 'other' },
+  'spouse.parent': { labels: ['father-in-law', 'mother-in-law', 'parent-in-law'], kind: 'other' },
+  'spouse.parent.child': { labels: ['brother-in-law', 'sister-in-law', 'sibling-in-law'], kind: 'other' },
+  'parent.child.spouse': { labels: ['brother-in-law', 'sister-in-law', 'sibling-in-law'], kind: 'other' }
+};
+
+// Relationship words the exporter turns back into family records
+const CHILD_WORDS = new Set(['son', 'daughter', 'child']);
+const PARENT_WORDS = new Set(['father', 'mother', 'parent', 'mum', 'mom', 'dad']);
+const SPOUSE_WORDS = new Set(['husband', 'wife', 'spouse', 'partner']);
+const MALE_WORDS = new Set(['husband', 'father', 'dad', 'son', 'brother', 'grandfather', 'grandpa', 'grandson', 'uncle', 'nephew', 'stepson', 'stepfather']);
+const FEMALE_WORDS = new Set(['wife', 'mother', 'mum', 'mom', 'daughter', 'sister', 'grandmother', 'grandma', 'granddaughter', 'aunt', 'niece', 'stepdaughter', 'stepmother']);
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function labelFor(sex: 'M' | 'F' | null | undefined, labels: [string, string, string]): string {
+  return labels[sex === 'M' ? 0 : sex === 'F' ? 1 : 2];
+}
+
+// The guidance relationship for a label the tree spelled out itself
+function kindFor(label: string): RelationshipKind {
+  const known = Object.values(RELATIONSHIP_PATHS).find(p => p.labels.includes(label));
+  if (known) return known.kind;
+  return /friend/.test(label) ? 'friend' : 'other';
+}
+
+// ---- Reading ----
+
+function parseNodes(text: string): GedcomNode[] {
+  const roots: GedcomNode[] = [];
+  // stack[n] is the latest node at level n
+  const stack: GedcomNode[] = [];
+  for (const raw of text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+    const match = raw.match(LINE);
+    if (!match) continue;
+    const level = Number(match[1]);
+    const value = match[4] ?? '';
+    const node: GedcomNode = {
+      tag: match[3].toUpperCase(),
+      xref: match[2] || null,
+      value: POINTER.test(value) ? value : value.replace(/@@/g, '@'),
+      children: []
+    };
+    if (level === 0) {
+      roots.push(node);
+      stack.length = 0;
+      stack.push(node);
+      continue;
+    }
+    const parent = stack[level - 1];
+    if (!parent) continue;
+    if (node.tag === 'CONT') parent.value += `\n${node.value}`;
+    else if (node.tag === 'CONC') parent.value += node.value;
+    else {
+      parent.children.push(node);
+      stack.length = level;
+      stack.push(node);
+    }
+  }
+  return roots;
+}
+
+function childNode(node: GedcomNode, tag: string): GedcomNode | undefined {
+  return node.children.find(c => c.tag === tag);
+}
+
+function childNodes(node: GedcomNode, tag: string): GedcomNode[] {
+  return node.children.filter(c => c.tag === tag);
+}
+
+function pointer(node: GedcomNode | undefined): string | null {
+  return node && POINTER.test(node.value) && node.value !== '@VOID@' ? node.value : null;
+}
+
+// ✅ "14 JUN 1942", "JUN 1942", "ABT 1940", "BET 1940 AND 1945", "@#DGREGORIAN@ 1750/51".
+// Bounds (BEF, AFT, TO) say when something hadn't happened yet, not when it did
+export function parseGedcomDate(value: string): GedcomDate | null {
+  let text = value.toUpperCase().replace(/@#D[^@]*@/g, '').replace(/\(.*\)/, '').trim();
+  text = text.replace(/^(GREGORIAN|JULIAN)\s+/, '');
+  if (!text || /^(BEF|AFT|TO)\b/.test(text)) return null;
+  const ranged = /^(BET|FROM)\b/.test(text);
+  const approximate = ranged || /^(ABT|CAL|EST|INT)\b/.test(text);
+  text = text.replace(/^(ABT|CAL|EST|INT|BET|FROM)\s+/, '').split(/\s+(?:AND|TO)\s+/)[0];
+
+  const match = text.match(/^(?:(\d{1,2})\s+)?(?:([A-Z]{3})\s+)?(\d{3,4})(?:\/\d{1,2})?$/);
+  if (!match) return null;
+  const month = match[2] ? MONTHS.indexOf(match[2]) + 1 : undefined;
+  if (month === 0 || (match[1] && !month)) return null;
+  // A range only tells us the year it started
+  if (ranged) return { year: Number(match[3]), approximate };
+  return {
+    year: Number(match[3]),
+    ...(month && { month }),
+    ...(match[1] && { day: Number(match[1]) }),
+    approximate
+  };
+}
+
+// The `born_on` / `died_on` format — as precise as the tree is
+export function toPartialDate(date: GedcomDate | null): string | null {
+  if (!date) return null;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return [String(date.year).padStart(4, '0'), date.month && pad(date.month), date.month && date.day && pad(date.day)]
+    .filter(Boolean)
+    .join('-');
+}
+
+function readName(node: GedcomNode): string {
+  const written = cleanName(node.value.replace(/\//g, ' '));
+  if (written) return written;
+  return cleanName([childNode(node, 'GIVN')?.value, childNode(node, 'SURN')?.value].filter(Boolean).join(' '));
+}
+
+function readEventDate(node: GedcomNode, tag: string): GedcomDate | null {
+  const event = childNode(node, tag);
+  const date = event && childNode(event, 'DATE');
+  return date ? parseGedcomDate(date.value) : null;
+}
+
+export function parseGedcom(text: string): GedcomTree {
+  const roots = parseNodes(text);
+  const head = roots.find(r => r.tag === 'HEAD');
+  const gedc = head && childNode(head, 'GEDC');
+  // NOTE records in 5.5, SNOTE (shared notes) in 7
+  const sharedNotes = new Map(roots.filter(r => r.xref && (r.tag === 'NOTE' || r.tag === 'SNOTE')).map(r => [r.xref!, r.value]));
+
+  const individuals = new Map<string, GedcomIndividual>();
+  for (const record of roots.filter(r => r.tag === 'INDI' && r.xref)) {
+    const nameNodes = childNodes(record, 'NAME');
+    const names = [...new Set(nameNodes.map(readName).filter(Boolean))];
+    if (names.length === 0) continue;
+    const sex = childNode(record, 'SEX')?.value.trim().toUpperCase();
+    individuals.set(record.xref!, {
+      id: record.xref!,
+      name: names[0],
+      aliases: names.slice(1),
+      nickname: nameNodes.map(n => cleanName(childNode(n, 'NICK')?.value || '')).find(Boolean) || null,
+      sex: sex === 'M' || sex === 'F' ? sex : null,
+      birth: readEventDate(record, 'BIRT'),
+      death: readEventDate(record, 'DEAT'),
+      notes: [...childNodes(record, 'NOTE'), ...childNodes(record, 'SNOTE')]
+        .map(n => (POINTER.test(n.value) ? sharedNotes.get(n.value) : n.value)?.trim())
+        .filter((n): n is string => !!n),
+      associates: childNodes(record, 'ASSO').flatMap(asso => {
+        const id = pointer(asso);
+        // RELA in 5.5; ROLE in 7, spelled out in a PHRASE when it is OTHER
+        const role = childNode(asso, 'ROLE');
+        const relationship = (childNode(asso, 'RELA')?.value || (role?.value === 'OTHER' ? childNode(role, 'PHRASE')?.value : role?.value))
+          ?.trim().toLowerCase();
+        return id && relationship ? [{ id, relationship }] : [];
+      })
+    });
+  }
+
+  const families = roots.filter(r => r.tag === 'FAM' && r.xref).map(record => ({
+    id: record.xref!,
+    partners: [pointer(childNode(record, 'HUSB')), pointer(childNode(record, 'WIFE'))]
+      .filter((id): id is string => !!id && individuals.has(id)),
+    children: childNodes(record, 'CHIL').map(pointer).filter((id): id is string => !!id && individuals.has(id)),
+    divorced: !!childNode(record, 'DIV')
+  }));
+
+  return { version: gedc ? childNode(gedc, 'VERS')?.value.trim() || null : null, individuals, families };
+}
+
+// "Rose Ellen Carter (1931–2019)" for the persona picker
+export function describeIndividual(individual: GedcomIndividual): string {
+  const years = [individual.birth?.year, individual.death?.year];
+  return years.some(Boolean) ? `${individual.name} (${years.map(y => y || '?').join('–')})` : individual.name;
+}
+
+// ✅ The person in the tree the persona most likely is — full name first, then every word of the
+// persona's name, then a first name only one person has
+export function suggestPersonaIndividual(tree: GedcomTree, personaName: string): string | null {
+  const wanted = normalize(personaName);
+  const all = [...tree.individuals.values()];
+  const names = (i: GedcomIndividual) => [i.name, ...i.aliases, ...(i.nickname ? [i.nickname] : [])].map(normalize);
+  const exact = all.find(i => names(i).includes(wanted));
+  if (exact) return exact.id;
+  const words = wanted.split(' ');
+  const containing = all.filter(i => names(i).some(n => words.every(w => n.split(' ').includes(w))));
+  if (containing.length === 1) return containing[0].id;
+  const byFirstName = all.filter(i => normalize(i.name).split(' ')[0] === words[0]);
+  return byFirstName.length === 1 ? byFirstName[0].id : null;
+}
+
+function neighbours(tree: GedcomTree, id: string): Array<{ step: Step; id: string; divorced: boolean }> {
+  return tree.families.flatMap(family => {
+    if (family.children.includes(id)) {
+      return family.partners.map(parent => ({ step: 'parent' as Step, id: parent, divorced: false }));
+    }
+    if (!family.partners.includes(id)) return [];
+    return [
+      ...family.partners.filter(p => p !== id).map(spouse => ({ step: 'spouse' as Step, id: spouse, divorced: family.divorced })),
+      ...family.children.map(child => ({ step: 'child' as Step, id: child, divorced: false }))
+    ];
+  });
+}
+
+// ✅ Everyone close enough to name, closest first — walks parent, child and spouse links out from
+// the persona and names each path. Friends and others come from the persona's ASSO records
+export function findRelatives(tree: GedcomTree, personaIndividualId: string): GedcomRelative[] {
+  const relatives: GedcomRelative[] = [];
+  const seen = new Set([personaIndividualId]);
+  let frontier = [{ id: personaIndividualId, path: [] as Step[], divorced: false }];
+
+  for (let depth = 0; depth < MAX_STEPS && frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+    for (const current of frontier) {
+      for (const neighbour of neighbours(tree, current.id)) {
+        if (seen.has(neighbour.id)) continue;
+        seen.add(neighbour.id);
+        const path = [...current.path, neighbour.step];
+        const divorced = depth === 0 && neighbour.divorced;
+        next.push({ id: neighbour.id, path, divorced });
+
+        const known = RELATIONSHIP_PATHS[path.join('.')];
+        const individual = tree.individuals.get(neighbour.id);
+        if (!known || !individual) continue;
+        const label = labelFor(individual.sex, known.labels);
+        relatives.push(divorced
+          ? { individual, relationship: `former ${label}`, kind: 'other' }
+          : { individual, relationship: label, kind: known.kind });
+      }
+    }
+    frontier = next;
+  }
+
+  for (const associate of tree.individuals.get(personaIndividualId)?.associates || []) {
+    const individual = tree.individuals.get(associate.id);
+    if (!individual || relatives.some(r => r.individual.id === associate.id)) continue;
+    relatives.push({ individual, relationship: associate.relationship, kind: kindFor(associate.relationship) });
+  }
+  return relatives.slice(0, MAX_RELATIVES);
+}
+
+// ✅ Fills the people graph from the tree. Anyone already there (by tree id, then by full name or
+// alias — a shared first name alone is someone else) gains the dates and other names, and a
+// relationship or nickname the family hasn't confirmed yet; everyone else is added as
+// confirmed — the family's own records. The persona's birth date,
+// date of passing and gender are only filled in when still empty, and only by the owner
+export async function importGedcom(
+  db: SupabaseClient,
+  personaId: string,
+  tree: GedcomTree,
+  personaIndividualId: string,
+  options: { updatePersona: boolean }
+): Promise<GedcomImportResult | null> {
+  try {
+    const relatives = findRelatives(tree, personaIndividualId);
+    const graph = await loadPeopleGraph(db, personaId);
+    const people = [...graph.people];
+    const saved = new Map<string, PersonaPerson>();
+    const result: GedcomImportResult = { added: 0, updated: 0, linked: 0, persona: {} };
+
+    for (const { individual, relationship, kind } of relatives) {
+      const dates = {
+        ...(individual.birth && { born_on: toPartialDate(individual.birth) }),
+        ...(individual.death && { died_on: toPartialDate(individual.death) })
+      };
+      // Two people with the same name in one tree are never the same registry entry
+      const candidates = people.filter(p => !p.gedcom_id || p.gedcom_id === individual.id);
+      const known = candidates.find(p => p.gedcom_id === individual.id)
+        || [individual.name, ...individual.aliases].map(name => findPersonByName(candidates, name)).find(Boolean);
+
+      if (known) {
+        const names = [known.name, ...known.aliases].map(normalize);
+        const newNames = [individual.name, ...individual.aliases].filter(n => !names.includes(normalize(n)));
+        const update: Partial<PersonaPerson> & { updated_at: string } = {
+          ...dates,
+          gedcom_id: individual.id,
+          relationship_kind: kind,
+          ...(newNames.length > 0 && { aliases: [...known.aliases, ...newNames] }),
+          ...((!known.confirmed || !known.relationship) && { relationship }),
+          ...(!known.nickname && individual.nickname && { nickname: individual.nickname }),
+          updated_at: new Date().toISOString()
+        };
+        const { error } = await db.from('persona_people').update(update).eq('id', known.id);
+        if (error) {
+          console.error('Error updating person from family tree:', error);
+          continue;
+        }
+        Object.assign(known, update);
+        saved.set(individual.id, known);
+        result.updated++;
+      } else {
+        const taken = people.some(p => normalize(p.name) === normalize(individual.name));
+        const added = await insertPerson(db, personaId, {
+          name: taken && individual.birth ? `${individual.name} (${individual.birth.year})` : individual.name,
+          aliases: individual.aliases,
+          nickname: individual.nickname,
+          relationship,
+          relationship_kind: kind,
+          notes: individual.notes.join('\n\n').slice(0, 1000) || null,
+          gedcom_id: individual.id,
+          source: 'gedcom',
+          confirmed: true,
+          ...dates
+        });
+        if (!added) continue;
+        people.push(added);
+        saved.set(individual.id, added);
+        result.added++;
+      }
+    }
+
+    // "Lily is the daughter of Sarah", both ways round for couples
+    const links: Array<{ person_id: string; related_person_id: string; relationship: string }> = [];
+    const label = (id: string, labels: [string, string, string]) => labelFor(tree.individuals.get(id)?.sex, labels);
+    for (const family of tree.families) {
+      for (const child of family.children) {
+        for (const parent of family.partners) {
+          if (saved.has(child) && saved.has(parent)) {
+            links.push({ person_id: saved.get(child)!.id, related_person_id: saved.get(parent)!.id, relationship: label(child, ['son', 'daughter', 'child']) });
+          }
+        }
+      }
+      const [a, b] = family.partners;
+      if (a && b && saved.has(a) && saved.has(b)) {
+        for (const [person, spouse] of [[a, b], [b, a]]) {
+          const relationship = label(person, ['husband', 'wife', 'spouse']);
+          links.push({
+            person_id: saved.get(person)!.id,
+            related_person_id: saved.get(spouse)!.id,
+            relationship: family.divorced ? `former ${relationship}` : relationship
+          });
+        }
+      }
+    }
+    const newLinks = links.filter(link => !graph.links.some(l => l.person_id === link.person_id && l.related_person_id === link.related_person_id));
+    if (newLinks.length > 0) {
+      const { error } = await db
+        .from('persona_person_links')
+        .upsert(newLinks.map(link => ({ persona_id: personaId, ...link })), { onConflict: 'person_id,related_person_id', ignoreDuplicates: true });
+      if (error) console.error('Error linking people from family tree:', error);
+      else result.linked = newLinks.length;
+    }
+
+    const persona = tree.individuals.get(personaIndividualId);
+    if (options.updatePersona && persona) {
+      const { data: current } = await db.from('personas').select('born_on, date_of_passing, gender').eq('id', personaId).maybeSingle();
+      const fill: GedcomImportResult['persona'] = {};
+      if (current && !current.born_on && persona.birth) fill.born_on = toPartialDate(persona.birth)!;
+      // date_of_passing drives anniversaries and grief support — only a recorded day will do
+      if (current && !current.date_of_passing && persona.death?.day && !persona.death.approximate) {
+        fill.date_of_passing = toPartialDate(persona.death)!;
+      }
+      if (current && !current.gender && persona.sex) fill.gender = persona.sex === 'M' ? 'male' : 'female';
+      if (Object.keys(fill).length > 0) {
+        const { error } = await db.from('personas').update(fill).eq('id', personaId);
+        if (error) console.error('Error updating persona from family tree:', error);
+        else result.persona = fill;
+      }
+    }
+    return result;
+  } catch (error) {
+    console.error('Error importing family tree:', error);
+    return null;
+  }
+}
+
+// ---- Writing ----
+
+function gedcomDate(partial: string): string {
+  const [year, month, day] = partial.split('-').map(Number);
+  return [day, month && MONTHS[month - 1], year].filter(Boolean).join(' ');
+}
+
+// Splits a value over CONT (new line) and CONC (same line) so no line runs too long. A CONC
+// split never falls next to a space — some programs trim them
+function pushValue(lines: string[], prefix: string, value: string, level: number): void {
+  value.replace(/@/g, '@@').split(/\r\n|\r|\n/).forEach((line, index) => {
+    let head = index === 0 ? prefix : `${level + 1} CONT`;
+    let rest = line;
+    do {
+      let cut = Math.min(rest.length, MAX_VALUE);
+      while (cut < rest.length && cut > 1 && (rest[cut] === ' ' || rest[cut - 1] === ' ')) cut--;
+      lines.push(rest ? `${head} ${rest.slice(0, cut)}` : head);
+      rest = rest.slice(cut);
+      head = `${level + 1} CONC`;
+    } while (rest);
+  });
+}
+
+function gedcomName(name: string): string {
+  const words = name.split(' ');
+  return words.length > 1 ? `${words.slice(0, -1).join(' ')} /${words[words.length - 1]}/` : name;
+}
+
+function words(label: string | null | undefined): string[] {
+  return normalize(label || '').split(/[^a-z]+/).filter(Boolean);
+}
+
+function sexFromLabels(labels: Array<string | null | undefined>): 'M' | 'F' | null {
+  const all = labels.flatMap(words);
+  if (all.some(w => MALE_WORDS.has(w))) return 'M';
+  if (all.some(w => FEMALE_WORDS.has(w))) return 'F';
+  return null;
+}
+
+// "daughter" -> child; a step, in-law, grand or former relationship isn't a family record
+function tie(label: string | null | undefined): 'child' | 'parent' | 'spouse' | null {
+  const value = normalize(label || '').replace(/^(my|their|his|her) /, '');
+  if (CHILD_WORDS.has(value)) return 'child';
+  if (PARENT_WORDS.has(value)) return 'parent';
+  if (SPOUSE_WORDS.has(value)) return 'spouse';
+  return null;
+}
+
+// ✅ The people graph as a family tree. Parent, child and spouse relationships — to the persona
+// and between people — become FAM records; a child with one known parent is placed with that
+// parent's only spouse. Each memory is a NOTE record on the persona and on everyone it mentions
+export function buildGedcom(params: {
+  persona: { name: string; gender?: string | null; born_on?: string | null; date_of_passing?: string | null };
+  graph: PeopleGraph;
+  memories: TimelineMemory[];
+  now?: Date;
+}): string {
+  const { persona, graph } = params;
+  const now = params.now || new Date();
+  const PERSONA = 'persona';
+  const xref = new Map<string, string>([[PERSONA, '@I1@'], ...graph.people.map((p, i) => [p.id, `@I${i + 2}@`] as [string, string])]);
+
+  const parentsOf = new Map<string, Set<string>>();
+  const spousesOf = new Map<string, Set<string>>();
+  const addParent = (child: string, parent: string) => parentsOf.set(child, (parentsOf.get(child) || new Set()).add(parent));
+  const addSpouses = (a: string, b: string) => {
+    spousesOf.set(a, (spousesOf.get(a) || new Set()).add(b));
+    spousesOf.set(b, (spousesOf.get(b) || new Set()).add(a));
+  };
+  for (const person of graph.people) {
+    const toPersona = tie(person.relationship);
+    if (toPersona === 'child') addParent(person.id, PERSONA);
+    if (toPersona === 'parent') addParent(PERSONA, person.id);
+    if (toPersona === 'spouse') addSpouses(person.id, PERSONA);
+  }
+  for (const link of graph.links) {
+    if (!xref.has(link.person_id) || !xref.has(link.related_person_id)) continue;
+    const kind = tie(link.relationship);
+    if (kind === 'child') addParent(link.person_id, link.related_person_id);
+    if (kind === 'parent') addParent(link.related_person_id, link.person_id);
+    if (kind === 'spouse') addSpouses(link.person_id, link.related_person_id);
+  }
+
+  const families = new Map<string, { partners: string[]; children: string[] }>();
+  const familyOf = (partners: string[]) => {
+    const key = [...partners].sort().join('+');
+    if (!families.has(key)) families.set(key, { partners, children: [] });
+    return families.get(key)!;
+  };
+  for (const [child, parents] of parentsOf) {
+    const partners = [...parents].slice(0, 2);
+    const spouses = partners.length === 1 ? spousesOf.get(partners[0]) : undefined;
+    if (spouses?.size === 1) partners.push([...spouses][0]);
+    familyOf(partners).children.push(child);
+  }
+  for (const [person, spouses] of spousesOf) {
+    for (const spouse of spouses) familyOf([person, spouse]);
+  }
+  const familyXrefs = new Map([...families.values()].map((family, i) => [family, `@F${i + 1}@`]));
+
+  const sexOf = new Map<string, 'M' | 'F' | null>([
+    [PERSONA, persona.gender === 'male' ? 'M' : persona.gender === 'female' ? 'F' : null],
+    ...graph.people.map(p => [p.id, sexFromLabels([p.relationship, ...graph.links.filter(l => l.person_id === p.id).map(l => l.relationship)])] as [string, 'M' | 'F' | null])
+  ]);
+
+  const birthYear = persona.born_on ? Number(persona.born_on.slice(0, 4)) : null;
+  const memories = params.memories.filter(m => !m.review_status || m.review_status === 'approved');
+  const noteXref = new Map(memories.map((m, i) => [m.id, `@N${i + 1}@`]));
+
+  const lines: string[] = [
+    '0 HEAD',
+    '1 SOUR ALWAYZ',
+    '2 NAME Alwayz',
+    '1 GEDC',
+    '2 VERS 5.5.1',
+    '2 FORM LINEAGE-LINKED',
+    '1 CHAR UTF-8',
+    `1 DATE ${gedcomDate(now.toISOString().slice(0, 10))}`
+  ];
+
+  const individual = (key: string, fields: {
+    name: string;
+    aliases: string[];
+    nickname: string | null;
+    born_on?: string | null;
+    died_on?: string | null;
+    notes: string | null;
+    memoryIds: string[];
+  }) => {
+    lines.push(`0 ${xref.get(key)} INDI`);
+    pushValue(lines, '1 NAME', gedcomName(fields.name), 1);
+    if (fields.nickname) pushValue(lines, '2 NICK', fields.nickname, 2);
+    for (const alias of fields.aliases) pushValue(lines, '1 NAME', gedcomName(alias), 1);
+    const sex = sexOf.get(key);
+    if (sex) lines.push(`1 SEX ${sex}`);
+    if (fields.born_on) lines.push('1 BIRT', `2 DATE ${gedcomDate(fields.born_on)}`);
+    if (fields.died_on) lines.push('1 DEAT', `2 DATE ${gedcomDate(fields.died_on)}`);
+    for (const [family, id] of familyXrefs) {
+      if (family.children.includes(key)) lines.push(`1 FAMC ${id}`);
+      if (family.partners.includes(key)) lines.push(`1 FAMS ${id}`);
+    }
+    if (key === PERSONA) {
+      // Who each person was to the persona, in their own words — the one thing FAM records can't say
+      for (const person of graph.people.filter(p => p.relationship)) {
+        lines.push(`1 ASSO ${xref.get(person.id)}`);
+        pushValue(lines, '2 RELA', person.relationship!, 2);
+      }
+    }
+    if (fields.notes) pushValue(lines, '1 NOTE', fields.notes, 1);
+    for (const id of fields.memoryIds) lines.push(`1 NOTE ${noteXref.get(id)}`);
+  };
+
+  individual(PERSONA, {
+    name: persona.name,
+    aliases: [],
+    nickname: null,
+    born_on: persona.born_on,
+    died_on: persona.date_of_passing,
+    notes: null,
+    memoryIds: memories.map(m => m.id)
+  });
+  for (const person of graph.people) {
+    individual(person.id, {
+      ...person,
+      // Memories tend to say "Sarah", not "Sarah Carter"
+      memoryIds: memories
+        .filter(m => mentions(m.content, { ...person, aliases: [...person.aliases, person.name.split(' ')[0]] }))
+        .map(m => m.id)
+    });
+  }
+
+  for (const [family, id] of familyXrefs) {
+    lines.push(`0 ${id} FAM`);
+    const [first, second] = family.partners;
+    const firstTag = sexOf.get(first) === 'F' || sexOf.get(second) === 'M' ? 'WIFE' : 'HUSB';
+    lines.push(`1 ${firstTag} ${xref.get(first)}`);
+    if (second) lines.push(`1 ${firstTag === 'HUSB' ? 'WIFE' : 'HUSB'} ${xref.get(second)}`);
+    for (const child of family.children) lines.push(`1 CHIL ${xref.get(child)}`);
+  }
+
+  for (const memory of memories) {
+    const date = resolveMemoryDate(memory, birthYear);
+    pushValue(lines, `0 ${noteXref.get(memory.id)} NOTE`, `${date ? `${formatMemoryDate(date)}: ` : ''}${memory.content}`, 0);
+  }
+
+  lines.push('0 TRLR');
+  return `${lines.join('\n')}\n`;
+}
+
+export async function exportGedcom(db: SupabaseClient, personaId: string): Promise<string | null> {
+  try {
+    const [{ data: persona, error }, graph, memories] = await Promise.all([
+      db.from('personas').select('name, gender, born_on, date_of_passing').eq('id', personaId).single(),
+      loadPeopleGraph(db, personaId),
+      loadTimelineMemories(db, personaId)
+    ]);
+    if (error || !persona) {
+      console.error('Error loading persona for family tree export:', error);
+      return null;
+    }
+    return buildGedcom({ persona, graph, memories });
+  } catch (error) {
+    console.error('Error exporting family tree:', error);
+    return null;
+  }
+}
@@ -0,0 +1,300 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Grief phase estimation — date of passing is the anchor, conversation frequency, sentiment
+// trend and Haven session memory nudge it. Shared by the conversation gateway and the app,
+// so no browser-only imports here.
+
+export type GriefPhase = 'acute' | 'active' | 'integration' | 'legacy' | 'unknown';
+
+export const GRIEF_PHASES: Exclude<GriefPhase, 'unknown'>[] = ['acute', 'active', 'integration', 'legacy'];
+
+export const GRIEF_PHASE_LABELS: Record<GriefPhase, string> = {
+  acute: 'Acute — the first weeks',
+  active: 'Active grief',
+  integration: 'Integration — carrying it forward',
+  legacy: 'Legacy — living their love',
+  unknown: 'Not sure yet'
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Re-estimating needs several queries, so a stored estimate is trusted for a day
+const ESTIMATE_TTL_MS = DAY_MS;
+
+export function calculateGriefPhase(dateOfPassing: string | null): GriefPhase {
+  if (!dateOfPassing) return 'unknown';
+  const daysSinceLoss = Math.floor(
+    (Date.now() - new Date(dateOfPassing).getTime()) / DAY_MS
+  );
+  if (daysSinceLoss <= 30) return 'acute';
+  if (daysSinceLoss <= 180) return 'active';
+  if (daysSinceLoss <= 540) return 'integration';
+  return 'legacy';
+}
+
+export interface GriefSignals {
+  daysSinceLoss: number | null;
+  // Days since the first conversation with this persona — stands in for the loss date when missing
+  daysSinceFirstConversation: number | null;
+  conversationsLast30Days: number;
+  conversationsPrevious30Days: number;
+  // -1 (heavy) to 1 (light); null when there were no user messages in the window
+  recentSentiment: number | null;
+  earlierSentiment: number | null;
+  havenSessionsLast30Days: number;
+  havenSentiment: number | null;
+}
+
+export interface GriefPhaseEstimate {
+  phase: GriefPhase;
+  confidence: number;
+  reasons: string[];
+}
+
+export interface ResolvedGriefPhase extends GriefPhaseEstimate {
+  source: 'estimated' | 'override';
+}
+
+// ✅ Small, deliberately conservative lexicon — we only need a direction, not a diagnosis
+const HEAVY_WORDS = [
+  'miss', 'missing', 'alone', 'lonely', 'empty', 'hurts', 'hurt', 'pain', 'crying', 'cry', 'cried',
+  'numb', 'lost', 'broken', 'hopeless', 'guilt', 'guilty', 'regret', 'angry', 'unfair', 'cant',
+  "can't", 'sleep', 'exhausted', 'devastated', 'gone', 'why', 'sorry', 'hard', 'worst', 'dark'
+];
+const LIGHT_WORDS = [
+  'happy', 'laughed', 'laugh', 'smile', 'smiled', 'grateful', 'thankful', 'proud', 'better',
+  'good', 'great', 'love', 'fun', 'remember', 'remembered', 'peace', 'peaceful', 'hope', 'hopeful',
+  'excited', 'celebrate', 'celebrated', 'okay', 'healing', 'lighter', 'joy', 'beautiful'
+];
+
+export function scoreSentiment(texts: string[]): number | null {
+  let heavy = 0;
+  let light = 0;
+  for (const text of texts) {
+    for (const word of text.toLowerCase().match(/[a-z']+/g) || []) {
+      if (HEAVY_WORDS.includes(word)) heavy++;
+      else if (LIGHT_WORDS.includes(word)) light++;
+    }
+  }
+  if (heavy + light === 0) return texts.length > 0 ? 0 : null;
+  return (light - heavy) / (light + heavy);
+}
+
+function phaseFromDays(days: number): Exclude<GriefPhase, 'unknown'> {
+  if (days <= 30) return 'acute';
+  if (days <= 180) return 'active';
+  if (days <= 540) return 'integration';
+  return 'legacy';
+}
+
+export function estimateGriefPhase(signals: GriefSignals): GriefPhaseEstimate {
+  const reasons: string[] = [];
+  const anchorDays = signals.daysSinceLoss ?? signals.daysSinceFirstConversation;
+  if (anchorDays === null) return { phase: 'unknown', confidence: 0, reasons: ['no date or history yet'] };
+
+  const anchor = phaseFromDays(anchorDays);
+  reasons.push(signals.daysSinceLoss !== null
+    ? `${signals.daysSinceLoss} days since loss`
+    : `${anchorDays} days since first conversation (no date of passing)`);
+
+  // Positive shift = further along than the calendar says, negative = still closer to the loss
+  let shift = 0;
+
+  const { conversationsLast30Days: recent, conversationsPrevious30Days: previous } = signals;
+  if (recent >= 20) {
+    shift -= 0.5;
+    reasons.push(`${recent} conversations in the last 30 days`);
+  } else if (previous >= 6 && recent <= previous / 2) {
+    shift += 0.5;
+    reasons.push(`conversations tapering (${previous} → ${recent})`);
+  }
+
+  if (signals.recentSentiment !== null) {
+    if (signals.recentSentiment <= -0.4) {
+      shift -= 0.5;
+      reasons.push('recent conversations are heavy');
+    } else if (signals.recentSentiment >= 0.3) {
+      shift += 0.5;
+      reasons.push('recent conversations are lighter');
+    }
+    if (signals.earlierSentiment !== null) {
+      const trend = signals.recentSentiment - signals.earlierSentiment;
+      if (trend >= 0.3) {
+        shift += 0.5;
+        reasons.push('sentiment improving');
+      } else if (trend <= -0.3) {
+        shift -= 0.5;
+        reasons.push('sentiment worsening');
+      }
+    }
+  }
+
+  if (signals.havenSessionsLast30Days >= 8 && (signals.havenSentiment ?? 0) < 0) {
+    shift -= 0.5;
+    reasons.push('frequent, heavy Haven sessions');
+  }
+
+  // ✅ Behaviour can move the phase one step either side of the calendar, never further
+  const step = Math.max(-1, Math.min(1, Math.trunc(shift)));
+  const index = Math.max(0, Math.min(GRIEF_PHASES.length - 1, GRIEF_PHASES.indexOf(anchor) + step));
+
+  const signalCount = [signals.recentSentiment, signals.earlierSentiment, signals.havenSentiment]
+    .filter(v => v !== null).length + (recent + previous > 0 ? 1 : 0);
+  const confidence = Math.min(1, (signals.daysSinceLoss !== null ? 0.5 : 0.25) + signalCount * 0.125);
+
+  return { phase: GRIEF_PHASES[index], confidence, reasons };
+}
+
+export async function collectGriefSignals(
+  db: SupabaseClient,
+  personaId: string,
+  userId: string,
+  dateOfPassing: string | null
+): Promise<GriefSignals> {
+  const now = Date.now();
+  const since30 = new Date(now - 30 * DAY_MS).toISOString();
+  const since60 = new Date(now - 60 * DAY_MS).toISOString();
+
+  const [firstConversation, recentConversations, havenSessions, havenMemory] = await Promise.all([
+    db.from('conversations')
+      .select('started_at')
+      .eq('persona_id', personaId)
+      .eq('user_id', userId)
+      .order('started_at', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+    db.from('conversations')
+      .select('id, started_at')
+      .eq('persona_id', personaId)
+      .eq('user_id', userId)
+      .gte('started_at', since60),
+    db.from('haven_conversations')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('started_at', since30),
+    db.from('haven_memory')
+      .select('content')
+      .eq('user_id', userId)
+      .maybeSingle()
+  ]);
+
+  const conversations = recentConversations.data || [];
+  const isRecent = (startedAt: string) => new Date(startedAt).getTime() >= now - 30 * DAY_MS;
+  const recentIds = conversations.filter(c => isRecent(c.started_at)).map(c => c.id);
+  const earlierIds = conversations.filter(c => !isRecent(c.started_at)).map(c => c.id);
+
+  const userMessages = async (ids: string[]): Promise<string[] | null> => {
+    if (ids.length === 0) return null;
+    const { data } = await db
+      .from('messages')
+      .select('content')
+      .in('conversation_id', ids.slice(-30))
+      .eq('sender_type', 'user')
+      .limit(200);
+    return (data || []).map(m => m.content as string);
+  };
+
+  const [recentTexts, earlierTexts] = await Promise.all([userMessages(recentIds), userMessages(earlierIds)]);
+
+  return {
+    daysSinceLoss: dateOfPassing ? Math.floor((now - new Date(dateOfPassing).getTime()) / DAY_MS) : null,
+    daysSinceFirstConversation: firstConversation.data?.started_at
+      ? Math.floor((now - new Date(firstConversation.data.started_at).getTime()) / DAY_MS)
+      : null,
+    conversationsLast30Days: recentIds.length,
+    conversationsPrevious30Days: earlierIds.length,
+    recentSentiment: recentTexts ? scoreSentiment(recentTexts) : null,
+    earlierSentiment: earlierTexts ? scoreSentiment(earlierTexts) : null,
+    havenSessionsLast30Days: havenSessions.count || 0,
+    havenSentiment: havenMemory.data?.content ? scoreSentiment([havenMemory.data.content]) : null
+  };
+}
+
+// Returns the phase to use for this user and persona. A user override always wins; otherwise the
+// stored estimate is reused for a day and then recomputed, with every change logged to history.
+export async function resolveGriefPhase(
+  db: SupabaseClient,
+  personaId: string,
+  userId: string,
+  dateOfPassing: string | null
+): Promise<ResolvedGriefPhase> {
+  try {
+    const { data: settings } = await db
+      .from('grief_phase_settings')
+      .select('override_phase, estimated_phase, confidence, estimated_at')
+      .eq('persona_id', personaId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (settings?.override_phase) {
+      return { phase: settings.override_phase, confidence: 1, reasons: ['set by you'], source: 'override' };
+    }
+
+    const fresh = settings?.estimated_at && Date.now() - new Date(settings.estimated_at).getTime() < ESTIMATE_TTL_MS;
+    if (fresh && settings?.estimated_phase) {
+      return { phase: settings.estimated_phase, confidence: settings.confidence ?? 0.5, reasons: [], source: 'estimated' };
+    }
+
+    const signals = await collectGriefSignals(db, personaId, userId, dateOfPassing);
+    const estimate = estimateGriefPhase(signals);
+
+    await db.from('grief_phase_settings').upsert({
+      persona_id: personaId,
+      user_id: userId,
+      estimated_phase: estimate.phase,
+      confidence: estimate.confidence,
+      estimated_at: new Date().toISOString()
+    }, { onConflict: 'user_id,persona_id' });
+
+    if (estimate.phase !== settings?.estimated_phase) {
+      await db.from('grief_phase_history').insert({
+        persona_id: personaId,
+        user_id: userId,
+        phase: estimate.phase,
+        source: 'estimated',
+        confidence: estimate.confidence,
+        signals: { ...signals, reasons: estimate.reasons }
+      });
+      // Keep the persona row in step for the owner — Haven's grief context reads it
+      await db.from('personas').update({ grief_phase: estimate.phase }).eq('id', personaId).eq('user_id', userId);
+    }
+
+    return { ...estimate, source: 'estimated' };
+  } catch (error) {
+    console.error('Error resolving grief phase:', error);
+    return { phase: calculateGriefPhase(dateOfPassing), confidence: 0.5, reasons: ['date only'], source: 'estimated' };
+  }
+}
+
+// Pass null to go back to automatic estimation
+export async function setGriefPhaseOverride(
+  db: SupabaseClient,
+  personaId: string,
+  userId: string,
+  phase: Exclude<GriefPhase, 'unknown'> | null
+): Promise<boolean> {
+  try {
+    const { error } = await db.from('grief_phase_settings').upsert({
+      persona_id: personaId,
+      user_id: userId,
+      override_phase: phase,
+      // Forces a fresh estimate the next time automatic mode is used
+      estimated_at: phase ? undefined : null
+    }, { onConflict: 'user_id,persona_id' });
+    if (error) throw error;
+
+    if (phase) {
+      await db.from('grief_phase_history').insert({
+        persona_id: personaId,
+        user_id: userId,
+        phase,
+        source: 'override',
+        confidence: 1
+      });
+    }
+    return true;
+  } catch (error) {
+    console.error('Error setting grief phase override:', error);
+    return false;
+  }
+}
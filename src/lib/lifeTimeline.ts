@@ -0,0 +1,333 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { memoryTimeframe, parsePassingDate } from './temporalAwareness';
+
+// Life timeline — the persona's memories laid out by decade and life stage. A memory's date
+// comes from, in order: a date someone placed it at by hand, a date already recorded on it
+// (`metadata.occurred_on`), the photo it was drawn from (EXIF, `metadata.photo_taken_on`), a
+// date in its own text ("June 1962", "the sixties", "when she was 12"), and finally the social
+// post it came from (`metadata.timestamp`). Memories with none of these wait in a "place this
+// memory" bucket for the family to date. The persona answers "when" questions from the same
+// timeline. Node-safe: the engine builds it per session, the app shows it.
+
+export type LifeStage = 'childhood' | 'youth' | 'marriage' | 'parenthood' | 'career' | 'grandparenthood' | 'later_years';
+export type DatePrecision = 'day' | 'month' | 'year' | 'decade';
+export type DateSource = 'placed' | 'recorded' | 'photo' | 'text' | 'post';
+
+// In life order
+export const LIFE_STAGES: Record<LifeStage, string> = {
+  childhood: 'Childhood',
+  youth: 'Growing up',
+  marriage: 'Marriage',
+  parenthood: 'Raising a family',
+  career: 'Career',
+  grandparenthood: 'Grandparenthood',
+  later_years: 'Later years'
+};
+
+export const DATE_SOURCE_LABELS: Record<DateSource, string> = {
+  placed: 'Placed by family',
+  recorded: 'Recorded date',
+  photo: 'Photo date',
+  text: 'From the memory',
+  post: 'Post date'
+};
+
+export interface MemoryDate {
+  year: number;
+  month?: number;
+  day?: number;
+  precision: DatePrecision;
+  source: DateSource;
+}
+
+export interface TimelineMemory {
+  id: string;
+  content: string;
+  memory_type: string | null;
+  importance?: number | null;
+  metadata: Record<string, unknown> | null;
+  review_status?: string | null;
+}
+
+export interface TimelineEntry {
+  memory: TimelineMemory;
+  date: MemoryDate;
+  stage: LifeStage | null;
+}
+
+export interface LifeTimeline {
+  // From the family tree, else read from memories like "she was born in 1941"; ages in memory text need it
+  birthYear: number | null;
+  // Oldest first
+  entries: TimelineEntry[];
+  // Life events with no date yet, most important first
+  undated: TimelineMemory[];
+}
+
+// Kinds of memory that happen at a point in a life — preferences and moods don't get placed
+const PLACEABLE_TYPES = new Set(['experience', 'fact', 'relationship']);
+const DECADE_WORDS: Record<string, number> = {
+  twenties: 20, thirties: 30, forties: 40, fifties: 50, sixties: 60, seventies: 70, eighties: 80, nineties: 90
+};
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)\\.?';
+const YEAR = '(1[89]\\d{2}|20\\d{2})';
+
+// Most precise first — at the same position in the text the earlier pattern wins
+const TEXT_DATE_PATTERNS: Array<{ pattern: RegExp; read: (m: RegExpMatchArray, birthYear: number | null) => Omit<MemoryDate, 'source'> | null }> = [
+  {
+    pattern: new RegExp(`\\b${YEAR}-(\\d{2})-(\\d{2})\\b`, 'i'),
+    read: m => ({ year: Number(m[1]), month: Number(m[2]), day: Number(m[3]), precision: 'day' })
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH} (\\d{1,2})(?:st|nd|rd|th)?,? ${YEAR}\\b`, 'i'),
+    read: m => ({ year: Number(m[3]), month: monthNumber(m[1]), day: Number(m[2]), precision: 'day' })
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH},? ${YEAR}\\b`, 'i'),
+    read: m => ({ year: Number(m[3]), month: monthNumber(m[2]), day: Number(m[1]), precision: 'day' })
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH},? (?:of )?${YEAR}\\b`, 'i'),
+    read: m => ({ year: Number(m[2]), month: monthNumber(m[1]), precision: 'month' })
+  },
+  {
+    pattern: new RegExp(`\\b${YEAR}s\\b`, 'i'),
+    read: m => ({ year: Math.floor(Number(m[1]) / 10) * 10, precision: 'decade' })
+  },
+  {
+    pattern: new RegExp(`\\b${YEAR}\\b`, 'i'),
+    read: m => ({ year: Number(m[1]), precision: 'year' })
+  },
+  {
+    pattern: /\bthe '?([2-9]0)s\b/i,
+    read: m => ({ year: 1900 + Number(m[1]), precision: 'decade' })
+  },
+  {
+    pattern: /\bthe (twenties|thirties|forties|fifties|sixties|seventies|eighties|nineties)\b/i,
+    read: m => ({ year: 1900 + DECADE_WORDS[m[1].toLowerCase()], precision: 'decade' })
+  },
+  // Ages only place a memory once the birth year is known
+  {
+    pattern: /\b(?:when|as) (?:i|he|she|they|we) (?:was|were) (?:only |just |about |around )?(\d{1,2})\b/i,
+    read: (m, birthYear) => birthYear ? { year: birthYear + Number(m[1]), precision: 'year' } : null
+  },
+  {
+    pattern: /\bat (?:the )?age (?:of )?(\d{1,2})\b/i,
+    read: (m, birthYear) => birthYear ? { year: birthYear + Number(m[1]), precision: 'year' } : null
+  },
+  {
+    pattern: /\b(?:in|during) (?:my|his|her|their) (teens|twenties|thirties|forties|fifties|sixties|seventies|eighties|nineties)\b/i,
+    read: (m, birthYear) => {
+      if (!birthYear) return null;
+      const word = m[1].toLowerCase();
+      // The calendar decade holding the middle of that stretch of their life
+      const middle = birthYear + (word === 'teens' ? 13 : DECADE_WORDS[word]) + 5;
+      return { year: Math.floor(middle / 10) * 10, precision: 'decade' };
+    }
+  }
+];
+
+// Checked in order — the first match names the stage
+const STAGE_PATTERNS: Array<{ stage: LifeStage; pattern: RegExp }> = [
+  { stage: 'grandparenthood', pattern: /\b(grandchild|grandchildren|grandkids?|grandson|granddaughter|grandbab(y|ies)|great-grand\w*)\b/i },
+  { stage: 'parenthood', pattern: /\b((our|their|his|her|my) (first |second |third |eldest |youngest )?(son|daughter|baby|child) was born|pregnant|became a (mother|father|mum|mom|dad|parent)|raising (the|our|their|his|her) (kids|children))\b/i },
+  { stage: 'marriage', pattern: /\b(wedding|married|honeymoon|engaged|proposed|anniversary)\b/i },
+  { stage: 'childhood', pattern: /\b(as a (child|kid|boy|girl)|growing up|grew up|childhood|primary school|elementary school|was born)\b/i },
+  { stage: 'youth', pattern: /\b(high school|college|university|graduated|graduation|first love|teenager|teenage|army|navy|air force|national service)\b/i },
+  { stage: 'career', pattern: /\b(job|career|worked|working|hired|promoted|promotion|retired|retirement|his business|her business|the office|factory|colleagues?|boss)\b/i }
+];
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function isPlausibleYear(year: number, now: Date): boolean {
+  return year >= 1850 && year <= now.getUTCFullYear();
+}
+
+// ✅ The date a memory's own words give it, or null
+export function extractTextDate(content: string, birthYear: number | null = null, now: Date = new Date()): MemoryDate | null {
+  let best: { index: number; date: Omit<MemoryDate, 'source'> } | null = null;
+  for (const { pattern, read } of TEXT_DATE_PATTERNS) {
+    const match = content.match(pattern);
+    if (!match || match.index === undefined || (best && match.index >= best.index)) continue;
+    const date = read(match, birthYear);
+    if (date && isPlausibleYear(date.year, now)) best = { index: match.index, date };
+  }
+  return best ? { ...best.date, source: 'text' } : null;
+}
+
+// Dates stored as text — plain dates are read as UTC so they never shift a day
+function parseStoredDate(value: unknown, precision: DatePrecision, source: DateSource): MemoryDate | null {
+  if (typeof value !== 'string') return null;
+  const date = parsePassingDate(value);
+  if (!date) return null;
+  return {
+    year: date.getUTCFullYear(),
+    month: precision === 'day' || precision === 'month' ? date.getUTCMonth() + 1 : undefined,
+    day: precision === 'day' ? date.getUTCDate() : undefined,
+    precision,
+    source
+  };
+}
+
+function resolvePrecision(value: unknown): DatePrecision {
+  return value === 'month' || value === 'year' || value === 'decade' ? value : 'day';
+}
+
+export function resolveMemoryDate(memory: Pick<TimelineMemory, 'content' | 'metadata'>, birthYear: number | null = null): MemoryDate | null {
+  const metadata = memory.metadata || {};
+  const recorded = parseStoredDate(
+    metadata.occurred_on,
+    resolvePrecision(metadata.date_precision),
+    metadata.date_source === 'placed' ? 'placed' : 'recorded'
+  );
+  return recorded
+    || parseStoredDate(metadata.photo_taken_on, 'day', 'photo')
+    || extractTextDate(memory.content, birthYear)
+    || parseStoredDate(metadata.timestamp, 'day', 'post');
+}
+
+export function resolveLifeStage(value: unknown): LifeStage | null {
+  return typeof value === 'string' && value in LIFE_STAGES ? value as LifeStage : null;
+}
+
+export function classifyLifeStage(content: string, year: number | null, birthYear: number | null): LifeStage | null {
+  const matched = STAGE_PATTERNS.find(({ pattern }) => pattern.test(content));
+  if (matched) return matched.stage;
+  if (year === null || birthYear === null) return null;
+  const age = year - birthYear;
+  if (age < 0) return null;
+  if (age < 13) return 'childhood';
+  if (age < 21) return 'youth';
+  if (age >= 65) return 'later_years';
+  return null;
+}
+
+// ✅ "I was born in 1941" / "Margaret was born on 3 May 1941" — someone else's birth doesn't count
+export function inferBirthYear(memories: Array<Pick<TimelineMemory, 'content'>>, personaName: string): number | null {
+  const firstName = personaName.trim().split(/\s+/)[0]?.replace(/[^\w'-]/g, '') || '';
+  const subjects = ['i', 'he', 'she', firstName].filter(Boolean).join('|');
+  const pattern = new RegExp(`\\b(?:${subjects}) was born\\b[^.]*?\\b(1[89]\\d{2}|20\\d{2})\\b`, 'i');
+  for (const memory of memories) {
+    const match = memory.content.match(pattern);
+    if (match) return Number(match[1]);
+  }
+  return null;
+}
+
+function sortKey(date: MemoryDate): number {
+  return date.year * 10000 + (date.month || 0) * 100 + (date.day || 0);
+}
+
+export function buildLifeTimeline(
+  memories: TimelineMemory[],
+  options: { personaName: string; dateOfPassing?: string | null; bornOn?: string | null }
+): LifeTimeline {
+  const passedOn = parsePassingDate(options.dateOfPassing);
+  // What happened after they passed is family news, not part of their life story
+  const lived = memories.filter(m =>
+    m.review_status !== 'rejected' && !(passedOn && memoryTimeframe(m, passedOn) === 'after_passing')
+  );
+  // A birth date from the family tree beats one guessed from the memories
+  const birthYear = options.bornOn ? Number(options.bornOn.slice(0, 4)) : inferBirthYear(lived, options.personaName);
+
+  const entries: TimelineEntry[] = [];
+  const undated: TimelineMemory[] = [];
+  for (const memory of lived) {
+    const date = resolveMemoryDate(memory, birthYear);
+    if (date && (!passedOn || date.year <= passedOn.getUTCFullYear())) {
+      entries.push({
+        memory,
+        date,
+        stage: resolveLifeStage(memory.metadata?.life_stage) || classifyLifeStage(memory.content, date.year, birthYear)
+      });
+    } else if (PLACEABLE_TYPES.has(memory.memory_type || '')) {
+      undated.push(memory);
+    }
+  }
+
+  entries.sort((a, b) => sortKey(a.date) - sortKey(b.date));
+  undated.sort((a, b) => (b.importance ?? 0.5) - (a.importance ?? 0.5));
+  return { birthYear, entries, undated };
+}
+
+// Through a function rather than the table — collaborators date memories too but can't read them directly
+export async function loadTimelineMemories(db: SupabaseClient, personaId: string): Promise<TimelineMemory[]> {
+  const { data, error } = await db.rpc('timeline_memories', { query_persona_id: personaId });
+  if (error) console.error('Error loading timeline memories:', error);
+  return (data || []) as TimelineMemory[];
+}
+
+export async function loadLifeTimeline(
+  db: SupabaseClient,
+  personaId: string,
+  options: { personaName: string; dateOfPassing?: string | null; bornOn?: string | null }
+): Promise<LifeTimeline> {
+  return buildLifeTimeline(await loadTimelineMemories(db, personaId), options);
+}
+
+export function groupByDecade(entries: TimelineEntry[]): Array<{ decade: number; entries: TimelineEntry[] }> {
+  const decades: Array<{ decade: number; entries: TimelineEntry[] }> = [];
+  for (const entry of entries) {
+    const decade = Math.floor(entry.date.year / 10) * 10;
+    const last = decades[decades.length - 1];
+    if (last && last.decade === decade) last.entries.push(entry);
+    else decades.push({ decade, entries: [entry] });
+  }
+  return decades;
+}
+
+export function formatMemoryDate(date: MemoryDate): string {
+  if (date.precision === 'decade') return `the ${date.year}s`;
+  if (date.precision === 'year' || !date.month) return String(date.year);
+  const when = new Date(Date.UTC(date.year, date.month - 1, date.day || 1));
+  return when.toLocaleDateString('en-US', {
+    month: 'long',
+    day: date.precision === 'day' ? 'numeric' : undefined,
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+}
+
+// "When did you...", "what year", "how old were you" — the turns that need the timeline
+export function isWhenQuestion(text: string): boolean {
+  return /\b(when (did|was|were|had|do|does)|what year|which year|what decade|how old were|how long ago|how many years ago|what age)\b/i.test(text);
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z']{4,}/g) || []));
+}
+
+// ✅ Timeline lines for the persona prompt — when there are too many, the ones closest to the
+// question and the most important are kept, then put back in life order
+export function getTimelineItems(timeline: LifeTimeline, question: string, limit = 40): string[] {
+  let entries = timeline.entries;
+  if (entries.length > limit) {
+    const asked = contentWords(question);
+    const overlap = (entry: TimelineEntry) => [...contentWords(entry.memory.content)].filter(w => asked.has(w)).length;
+    entries = [...entries]
+      .sort((a, b) => overlap(b) - overlap(a) || (b.memory.importance ?? 0.5) - (a.memory.importance ?? 0.5))
+      .slice(0, limit)
+      .sort((a, b) => sortKey(a.date) - sortKey(b.date));
+  }
+  return entries.map(entry => `• ${formatMemoryDate(entry.date)}${entry.stage ? ` (${LIFE_STAGES[entry.stage].toLowerCase()})` : ''}: ${entry.memory.content}`);
+}
+
+// ✅ Dates a memory from the "place this memory" bucket — owners and collaborators alike
+export async function placeMemory(
+  db: SupabaseClient,
+  memoryId: string,
+  placement: { year: number; month?: number; precision: DatePrecision; stage?: LifeStage | null }
+): Promise<boolean> {
+  const month = placement.precision === 'month' && placement.month ? placement.month : 1;
+  const { error } = await db.rpc('place_memory_on_timeline', {
+    memory_id: memoryId,
+    occurred_on: `${placement.year}-${String(month).padStart(2, '0')}-01`,
+    date_precision: placement.precision,
+    life_stage: placement.stage || null
+  });
+  if (error) console.error('Error placing memory on the timeline:', error);
+  return !error;
+}
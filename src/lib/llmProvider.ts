@@ -0,0 +1,367 @@
+import OpenAI, { toFile } from 'openai';
+
+// Provider layer for every LLM call the persona engines make. Keep this module free of
+// browser-only imports — it is shared by the conversation gateway function and the app.
+
+export type LLMTask =
+  | 'reply'
+  | 'greeting'
+  | 'fact_extraction'
+  | 'summarization'
+  | 'content_analysis'
+  | 'emotion_analysis'
+  | 'safety'
+  | 'consistency'
+  | 'vision'
+  | 'persona_training'
+  | 'embedding'
+  | 'transcription'
+  | 'speech';
+
+export const LLM_TASKS: LLMTask[] = [
+  'reply',
+  'greeting',
+  'fact_extraction',
+  'summarization',
+  'content_analysis',
+  'emotion_analysis',
+  'safety',
+  'consistency',
+  'vision',
+  'persona_training',
+  'embedding',
+  'transcription',
+  'speech'
+];
+
+export type LLMModelMap = Partial<Record<LLMTask, string>>;
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | LLMContentPart[];
+}
+
+export interface LLMRequestOptions {
+  task: LLMTask;
+  temperature?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+export interface LLMAudio {
+  data: Uint8Array;
+  filename: string;
+  mimeType: string;
+}
+
+export interface LLMTranscriptionOptions {
+  // ISO-639-1, e.g. 'en' — left out, the model detects the language itself
+  language?: string;
+}
+
+export interface LLMSpeechOptions {
+  voice?: string;
+  speed?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  modelFor(task: LLMTask): string;
+  chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<string>;
+  stream(messages: LLMMessage[], options: LLMRequestOptions): AsyncIterable<string>;
+  extractJSON<T = Record<string, unknown>>(messages: LLMMessage[], options: LLMRequestOptions): Promise<T>;
+  embed(text: string): Promise<number[]>;
+  transcribe(audio: LLMAudio, options?: LLMTranscriptionOptions): Promise<string>;
+  speak(text: string, options?: LLMSpeechOptions): Promise<ArrayBuffer>;
+}
+
+export const DEFAULT_OPENAI_MODELS: Record<LLMTask, string> = {
+  reply: 'gpt-4o',
+  greeting: 'gpt-4o',
+  fact_extraction: 'gpt-4o-mini',
+  summarization: 'gpt-4o-mini',
+  content_analysis: 'gpt-4o-mini',
+  emotion_analysis: 'gpt-4o-mini',
+  safety: 'gpt-4o-mini',
+  consistency: 'gpt-4o-mini',
+  vision: 'gpt-4o',
+  persona_training: 'gpt-4o',
+  embedding: 'text-embedding-3-small',
+  transcription: 'whisper-1',
+  speech: 'tts-1-hd'
+};
+
+// Sensible defaults for an Ollama install; llama.cpp ignores the model name entirely. Ollama has no
+// audio endpoints — point LLM_BASE_URL at a server that also speaks /v1/audio (LocalAI, speaches)
+// to transcribe and speak locally; those accept the OpenAI model names
+export const DEFAULT_LOCAL_MODELS: Record<LLMTask, string> = {
+  reply: 'llama3.1',
+  greeting: 'llama3.1',
+  fact_extraction: 'llama3.1',
+  summarization: 'llama3.1',
+  content_analysis: 'llama3.1',
+  emotion_analysis: 'llama3.1',
+  safety: 'llama3.1',
+  consistency: 'llama3.1',
+  vision: 'llava',
+  persona_training: 'llama3.1',
+  embedding: 'nomic-embed-text',
+  transcription: 'whisper-1',
+  speech: 'tts-1'
+};
+
+// Parses a JSON object out of a model reply — tolerates code fences and leading prose,
+// which local models produce even when asked for JSON only
+export function parseJSONResponse<T>(raw: string): T {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    const start = raw.indexOf('{');
+    const end = raw.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      return JSON.parse(raw.slice(start, end + 1)) as T;
+    }
+    throw new Error('LLM returned non-JSON response');
+  }
+}
+
+interface OpenAIProviderOptions {
+  client: OpenAI;
+  models: Record<LLMTask, string>;
+  name?: string;
+  supportsJSONMode?: boolean;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private models: Record<LLMTask, string>;
+  private supportsJSONMode: boolean;
+
+  constructor({ client, models, name = 'openai', supportsJSONMode = true }: OpenAIProviderOptions) {
+    this.client = client;
+    this.models = models;
+    this.name = name;
+    this.supportsJSONMode = supportsJSONMode;
+  }
+
+  modelFor(task: LLMTask): string {
+    return this.models[task];
+  }
+
+  private requestParams(messages: LLMMessage[], options: LLMRequestOptions) {
+    return {
+      model: this.modelFor(options.task),
+      messages: messages as OpenAI.Chat.ChatCompletionMessageParam[],
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      presence_penalty: options.presencePenalty,
+      frequency_penalty: options.frequencyPenalty
+    };
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<string> {
+    const completion = await this.client.chat.completions.create(this.requestParams(messages, options));
+    return completion.choices[0]?.message?.content || '';
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMRequestOptions): AsyncIterable<string> {
+    const completion = await this.client.chat.completions.create({
+      ...this.requestParams(messages, options),
+      stream: true
+    });
+    for await (const chunk of completion) {
+      const delta = chunk.choices[0]?.delta?.content || '';
+      if (delta) yield delta;
+    }
+  }
+
+  async extractJSON<T = Record<string, unknown>>(messages: LLMMessage[], options: LLMRequestOptions): Promise<T> {
+    const completion = await this.client.chat.completions.create({
+      ...this.requestParams(messages, options),
+      ...(this.supportsJSONMode ? { response_format: { type: 'json_object' as const } } : {})
+    });
+    return parseJSONResponse<T>(completion.choices[0]?.message?.content || '{}');
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.modelFor('embedding'),
+      input: text
+    });
+    return response.data[0].embedding;
+  }
+
+  async transcribe(audio: LLMAudio, options: LLMTranscriptionOptions = {}): Promise<string> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: await toFile(audio.data, audio.filename, { type: audio.mimeType }),
+      model: this.modelFor('transcription'),
+      language: options.language
+    });
+    return transcription.text;
+  }
+
+  async speak(text: string, options: LLMSpeechOptions = {}): Promise<ArrayBuffer> {
+    const response = await this.client.audio.speech.create({
+      model: this.modelFor('speech'),
+      voice: options.voice || 'alloy',
+      input: text,
+      speed: options.speed
+    });
+    return response.arrayBuffer();
+  }
+}
+
+export type ScriptedReply = string | ((messages: LLMMessage[], options: LLMRequestOptions) => string);
+
+export interface ScriptedCall {
+  kind: 'chat' | 'stream' | 'json' | 'embed' | 'transcribe' | 'speak';
+  task: LLMTask;
+  messages: LLMMessage[];
+}
+
+// Deterministic provider for tests and offline demos. Replies are taken per task in order
+// (the last one repeats); embeddings are a stable bag-of-words hash so similar text scores high.
+// Transcriptions come from the 'transcription' script; speech is always silent.
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly calls: ScriptedCall[] = [];
+  private script: Partial<Record<LLMTask, ScriptedReply[]>>;
+  private cursor: Partial<Record<LLMTask, number>> = {};
+  private fallback: string;
+  private dimensions: number;
+
+  constructor(
+    script: Partial<Record<LLMTask, ScriptedReply | ScriptedReply[]>> = {},
+    fallback: string = "I'm here with you.",
+    dimensions: number = 64
+  ) {
+    this.script = {};
+    for (const [task, replies] of Object.entries(script) as Array<[LLMTask, ScriptedReply | ScriptedReply[]]>) {
+      this.script[task] = Array.isArray(replies) ? replies : [replies];
+    }
+    this.fallback = fallback;
+    this.dimensions = dimensions;
+  }
+
+  modelFor(task: LLMTask): string {
+    return `scripted-${task}`;
+  }
+
+  private next(messages: LLMMessage[], options: LLMRequestOptions): string {
+    const replies = this.script[options.task];
+    if (!replies || replies.length === 0) return this.fallback;
+    const index = this.cursor[options.task] || 0;
+    this.cursor[options.task] = index + 1;
+    const reply = replies[Math.min(index, replies.length - 1)];
+    return typeof reply === 'function' ? reply(messages, options) : reply;
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<string> {
+    this.calls.push({ kind: 'chat', task: options.task, messages });
+    return this.next(messages, options);
+  }
+
+  async *stream(messages: LLMMessage[], options: LLMRequestOptions): AsyncIterable<string> {
+    this.calls.push({ kind: 'stream', task: options.task, messages });
+    const reply = this.next(messages, options);
+    for (const token of reply.match(/\S+\s*/g) || []) {
+      yield token;
+    }
+  }
+
+  async extractJSON<T = Record<string, unknown>>(messages: LLMMessage[], options: LLMRequestOptions): Promise<T> {
+    this.calls.push({ kind: 'json', task: options.task, messages });
+    return parseJSONResponse<T>(this.next(messages, options) || '{}');
+  }
+
+  async embed(text: string): Promise<number[]> {
+    this.calls.push({ kind: 'embed', task: 'embedding', messages: [{ role: 'user', content: text }] });
+    const vector = new Array(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9']+/g) || []) {
+      let hash = 0;
+      for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+      vector[hash % this.dimensions] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / norm);
+  }
+
+  async transcribe(audio: LLMAudio): Promise<string> {
+    this.calls.push({ kind: 'transcribe', task: 'transcription', messages: [{ role: 'user', content: audio.filename }] });
+    return this.next([], { task: 'transcription' });
+  }
+
+  async speak(text: string): Promise<ArrayBuffer> {
+    this.calls.push({ kind: 'speak', task: 'speech', messages: [{ role: 'user', content: text }] });
+    return new ArrayBuffer(0);
+  }
+}
+
+export interface LLMProviderConfig {
+  provider: 'openai' | 'local' | 'scripted';
+  apiKey?: string;
+  baseURL?: string;
+  models?: LLMModelMap;
+}
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'scripted':
+      return new ScriptedLLMProvider();
+    case 'local':
+      return new OpenAIProvider({
+        name: 'local',
+        client: new OpenAI({
+          apiKey: config.apiKey || 'local',
+          baseURL: config.baseURL || 'http://localhost:11434/v1'
+        }),
+        models: { ...DEFAULT_LOCAL_MODELS, ...config.models },
+        supportsJSONMode: true
+      });
+    case 'openai':
+    default:
+      return new OpenAIProvider({
+        client: new OpenAI({
+          apiKey: config.apiKey,
+          baseURL: config.baseURL
+        }),
+        models: { ...DEFAULT_OPENAI_MODELS, ...config.models }
+      });
+  }
+}
+
+// Reads provider settings from an env object, normally process.env in the Netlify functions.
+// Per-task models come from LLM_MODEL_<TASK>, e.g. LLM_MODEL_FACT_EXTRACTION=gpt-4o-mini.
+// Returns null when nothing is configured.
+export function llmConfigFromEnv(
+  env: Record<string, string | boolean | undefined>,
+  prefix: string = ''
+): LLMProviderConfig | null {
+  const read = (key: string): string | undefined => {
+    const value = env[`${prefix}${key}`];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  const provider = (read('LLM_PROVIDER') || 'openai') as LLMProviderConfig['provider'];
+  const apiKey = read('OPENAI_API_KEY');
+  if (provider === 'openai' && !apiKey) return null;
+
+  const models: LLMModelMap = {};
+  for (const task of LLM_TASKS) {
+    const model = read(`LLM_MODEL_${task.toUpperCase()}`);
+    if (model) models[task] = model;
+  }
+
+  return {
+    provider,
+    apiKey: provider === 'local' ? read('LLM_API_KEY') : apiKey,
+    baseURL: read('LLM_BASE_URL'),
+    models
+  };
+}
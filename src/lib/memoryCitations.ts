@@ -0,0 +1,96 @@
+import { tokenize } from './memoryRetrieval';
+
+// Response citations — which memories were in front of the persona for a reply, and which the
+// reply actually drew on. Attribution is lexical: a memory counts as used when the reply
+// repeats its distinctive details — a name, a place, a year — or a few of its less common
+// words. Cheap enough to run on every reply before `done`. Node-safe.
+
+export interface CitableMemory {
+  id: string;
+  content: string;
+  memory_type: string | null;
+}
+
+export interface MemoryCitation {
+  id: string;
+  content: string;
+  memoryType: string | null;
+  used: boolean;
+  // Share of the memory's distinctive words the reply repeated, weighted by rarity
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface ReplyCitations {
+  // Every memory that made it into the prompt, in prompt order
+  inPrompt: string[];
+  // The ones the reply relied on, strongest first
+  usedIds: string[];
+  // Used memories first, then the rest of the prompt's memories
+  memories: MemoryCitation[];
+}
+
+// Warm words a persona uses whether or not a memory is involved
+const REPLY_FILLER = new Set([
+  'love', 'loved', 'dear', 'darling', 'sweetheart', 'honey', 'always', 'never', 'little', 'time',
+  'times', 'good', 'feel', 'felt', 'miss', 'missed', 'heart', 'proud', 'happy', 'still', 'much',
+  'day', 'days', 'things', 'thing', 'way', 'back', 'one', 'together', 'you\'re', 'i\'m', 'it\'s'
+]);
+
+const MIN_SCORE = 0.25;
+const MIN_SHARED_TERMS = 2;
+
+function contentTerms(text: string): Set<string> {
+  return new Set(tokenize(text).map(t => t.replace(/'s$/, '')).filter(t => !REPLY_FILLER.has(t)));
+}
+
+// Names, places and years: capitalised words after the first word of a sentence, and numbers
+function distinctiveTerms(text: string): Set<string> {
+  const terms = new Set<string>();
+  for (const sentence of text.split(/[.!?\n]+/)) {
+    const words = sentence.trim().split(/\s+/).slice(1);
+    for (const word of words) {
+      const clean = word.replace(/[^A-Za-z0-9']/g, '').replace(/'s$/, '');
+      if (/^[A-Z][a-z]{2,}/.test(clean)) terms.add(clean.toLowerCase());
+    }
+  }
+  for (const match of text.match(/\b\d{2,4}\b/g) || []) terms.add(match);
+  return terms;
+}
+
+export function attributeReply(reply: string, memories: CitableMemory[]): ReplyCitations {
+  const replyTerms = contentTerms(reply);
+  const hasTerm = (term: string) => replyTerms.has(term) || replyTerms.has(term.replace(/s$/, '')) || replyTerms.has(`${term}s`);
+
+  const memoryTerms = memories.map(m => contentTerms(m.content));
+  const documentFrequency = new Map<string, number>();
+  for (const terms of memoryTerms) {
+    for (const term of terms) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }
+  const idf = (term: string) => Math.log(1 + memories.length / (documentFrequency.get(term) || 1));
+
+  const citations: MemoryCitation[] = memories.map((memory, index) => {
+    const terms = [...memoryTerms[index]];
+    const shared = terms.filter(hasTerm);
+    const total = terms.reduce((sum, t) => sum + idf(t), 0);
+    const score = total > 0 ? shared.reduce((sum, t) => sum + idf(t), 0) / total : 0;
+    const distinctive = distinctiveTerms(memory.content);
+    const used = shared.some(t => distinctive.has(t)) || (shared.length >= MIN_SHARED_TERMS && score >= MIN_SCORE);
+
+    return {
+      id: memory.id,
+      content: memory.content,
+      memoryType: memory.memory_type,
+      used,
+      score: Math.round(score * 1000) / 1000,
+      matchedTerms: shared
+    };
+  });
+
+  const used = citations.filter(c => c.used).sort((a, b) => b.score - a.score);
+  return {
+    inPrompt: memories.map(m => m.id),
+    usedIds: used.map(c => c.id),
+    memories: [...used, ...citations.filter(c => !c.used)]
+  };
+}
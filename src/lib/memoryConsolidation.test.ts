@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { boostImportance, unboostedImportance, clusterMemories, cosineSimilarity, parseEmbedding } from './memoryConsolidation';
+
+describe('boostImportance', () => {
+  it('leaves a single mention alone', () => {
+    expect(boostImportance(0.7, 1)).toBe(0.7);
+  });
+
+  it('adds less for each further repeat', () => {
+    expect(boostImportance(0.7, 2)).toBe(0.75);
+    expect(boostImportance(0.7, 4)).toBe(0.8);
+    expect(boostImportance(0.7, 8)).toBe(0.85);
+  });
+
+  it('stops at 0.98 but never lowers a memory already above it', () => {
+    expect(boostImportance(0.95, 16)).toBe(0.98);
+    expect(boostImportance(1, 4)).toBe(1);
+  });
+
+  it('does not stack when a merged memory is merged again', () => {
+    const first = boostImportance(0.7, 2);
+    const merged = { importance: first, metadata: { mention_count: 2, mention_boost: first - 0.7 } };
+    expect(boostImportance(unboostedImportance(merged), 3)).toBe(boostImportance(0.7, 3));
+  });
+});
+
+describe('unboostedImportance', () => {
+  it('keeps a demotion made after the merge', () => {
+    // Boosted 0.7 -> 0.75, then rated down by 0.05
+    expect(unboostedImportance({ importance: 0.7, metadata: { mention_boost: 0.05 } })).toBe(0.65);
+  });
+
+  it('treats a memory that was never merged as unboosted', () => {
+    expect(unboostedImportance({ importance: 0.6, metadata: null })).toBe(0.6);
+  });
+});
+
+describe('clusterMemories', () => {
+  it('groups similar embeddings and keeps different ones apart', () => {
+    const memories = [
+      { content: 'She grew up in Leeds', vector: [1, 0, 0] },
+      { content: 'Rose was raised in Leeds', vector: [0.99, 0.05, 0] },
+      { content: 'She loved gardening', vector: [0, 1, 0] }
+    ];
+    expect(clusterMemories(memories, 0.92).map(c => c.map(m => m.content))).toEqual([
+      ['She grew up in Leeds', 'Rose was raised in Leeds'],
+      ['She loved gardening']
+    ]);
+  });
+
+  it('groups identical text even without embeddings', () => {
+    const clusters = clusterMemories([
+      { content: 'Loved the sea.', vector: null },
+      { content: 'loved the sea', vector: null }
+    ]);
+    expect(clusters).toHaveLength(1);
+  });
+});
+
+describe('embedding helpers', () => {
+  it('parses pgvector strings', () => {
+    expect(parseEmbedding('[0.1,0.2]')).toEqual([0.1, 0.2]);
+    expect(parseEmbedding('not json')).toBeNull();
+    expect(parseEmbedding([])).toBeNull();
+  });
+
+  it('measures cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
@@ -0,0 +1,269 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from './llmProvider';
+import type { MemoryReviewStatus } from './memoryReview';
+
+// Memory consolidation — folds near-identical persona_memories rows into one. Conversation
+// fact extraction writes a row per fact per message, so the same detail piles up. Memories are
+// clustered by embedding similarity; each cluster keeps one canonical row, records where every
+// duplicate came from, and gains importance for being repeated. Node-safe: runs in the
+// consolidate-memories function (per persona) and in the nightly scheduled job.
+
+export interface ConsolidationOptions {
+  // Cosine similarity at or above which two memories are treated as the same fact
+  similarityThreshold?: number;
+  // Memories without an embedding are embedded first, up to this many per run
+  maxNewEmbeddings?: number;
+  trigger?: 'manual' | 'scheduled';
+}
+
+export interface ConsolidationResult {
+  personaId: string;
+  memoriesBefore: number;
+  memoriesAfter: number;
+  clustersMerged: number;
+  embeddingsAdded: number;
+}
+
+export interface MemoryProvenance {
+  memory_id: string;
+  content: string;
+  source_type: string | null;
+  source_url: string | null;
+  created_at: string | null;
+}
+
+interface MemoryMetadata {
+  provenance?: MemoryProvenance[];
+  mention_count?: number;
+  // How much of the importance the repeats added, so the next merge boosts from the value before it
+  mention_boost?: number;
+  [key: string]: unknown;
+}
+
+interface MemoryRow {
+  id: string;
+  content: string;
+  memory_type: string | null;
+  source_type: string | null;
+  source_url: string | null;
+  importance: number | null;
+  embedding: number[] | string | null;
+  metadata: MemoryMetadata | null;
+  review_status: MemoryReviewStatus | null;
+  is_core: boolean | null;
+  created_at: string | null;
+}
+
+const DEFAULT_THRESHOLD = 0.92;
+const DEFAULT_MAX_NEW_EMBEDDINGS = 100;
+
+// Each repeat adds a little weight, with diminishing returns, never past 0.98 — `base` is the
+// importance before any boost and `mentions` the total, so merging again never stacks boosts
+export function boostImportance(base: number, mentions: number): number {
+  const boost = 0.05 * Math.log2(Math.max(1, mentions));
+  return Math.max(base, Math.min(0.98, Math.round((base + boost) * 100) / 100));
+}
+
+// The importance without the boost an earlier merge added — ratings and corrections since then stay in
+export function unboostedImportance(memory: Pick<MemoryRow, 'importance' | 'metadata'>): number {
+  const importance = memory.importance ?? 0.5;
+  return Math.max(0.05, Math.round((importance - (memory.metadata?.mention_boost || 0)) * 100) / 100);
+}
+
+// PostgREST returns pgvector columns as "[0.1,0.2,...]" strings
+export function parseEmbedding(value: number[] | string | null | undefined): number[] | null {
+  if (!value) return null;
+  if (Array.isArray(value)) return value.length > 0 ? value : null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Greedy leader clustering: each memory joins the first cluster whose leader it matches.
+// Identical text always clusters, even when an embedding is missing.
+export function clusterMemories<T extends { content: string; vector: number[] | null }>(
+  memories: T[],
+  threshold: number = DEFAULT_THRESHOLD
+): T[][] {
+  const clusters: T[][] = [];
+  for (const memory of memories) {
+    const text = normalizeText(memory.content);
+    const home = clusters.find(cluster => {
+      const leader = cluster[0];
+      if (normalizeText(leader.content) === text) return true;
+      return !!(leader.vector && memory.vector && cosineSimilarity(leader.vector, memory.vector) >= threshold);
+    });
+    if (home) home.push(memory);
+    else clusters.push([memory]);
+  }
+  return clusters;
+}
+
+// The canonical row is a reviewed one if any, then the most important; ties go to the most
+// detailed, then the oldest
+function pickCanonical<T extends MemoryRow>(cluster: T[]): T {
+  const reviewed = (m: T) => (m.review_status === 'pending' ? 0 : 1);
+  return [...cluster].sort((a, b) =>
+    reviewed(b) - reviewed(a) ||
+    (b.importance || 0) - (a.importance || 0) ||
+    b.content.length - a.content.length ||
+    new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+  )[0];
+}
+
+function toProvenance(memory: MemoryRow): MemoryProvenance[] {
+  // A row that was itself a merge carries its own history forward
+  const inherited: MemoryProvenance[] = memory.metadata?.provenance || [];
+  return [
+    {
+      memory_id: memory.id,
+      content: memory.content,
+      source_type: memory.source_type,
+      source_url: memory.source_url,
+      created_at: memory.created_at
+    },
+    ...inherited
+  ];
+}
+
+export async function consolidatePersonaMemories(
+  db: SupabaseClient,
+  llm: LLMProvider | null,
+  personaId: string,
+  options: ConsolidationOptions = {}
+): Promise<ConsolidationResult> {
+  const threshold = options.similarityThreshold ?? DEFAULT_THRESHOLD;
+  const maxNewEmbeddings = options.maxNewEmbeddings ?? DEFAULT_MAX_NEW_EMBEDDINGS;
+
+  const { data, error } = await db
+    .from('persona_memories')
+    .select('id, content, memory_type, source_type, source_url, importance, embedding, metadata, review_status, is_core, created_at')
+    .eq('persona_id', personaId)
+    .neq('review_status', 'rejected')
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  const rows = (data || []) as MemoryRow[];
+  const result: ConsolidationResult = {
+    personaId,
+    memoriesBefore: rows.length,
+    memoriesAfter: rows.length,
+    clustersMerged: 0,
+    embeddingsAdded: 0
+  };
+  if (rows.length < 2) return result;
+
+  // ✅ Backfill missing embeddings so conversation facts can be compared too
+  const withVectors = [];
+  for (const row of rows) {
+    let vector = parseEmbedding(row.embedding);
+    if (!vector && llm && result.embeddingsAdded < maxNewEmbeddings) {
+      try {
+        vector = await llm.embed(row.content);
+        if (vector.length > 0) {
+          await db.from('persona_memories').update({ embedding: vector }).eq('id', row.id);
+          result.embeddingsAdded++;
+        } else {
+          vector = null;
+        }
+      } catch (embedError) {
+        console.error('Error embedding memory for consolidation:', embedError);
+      }
+    }
+    withVectors.push({ ...row, vector });
+  }
+
+  // Only memories of the same type are merged — a fact and a story can share words
+  const byType = new Map<string, typeof withVectors>();
+  for (const row of withVectors) {
+    const key = row.memory_type || 'other';
+    byType.set(key, [...(byType.get(key) || []), row]);
+  }
+
+  let removed = 0;
+  for (const group of byType.values()) {
+    for (const cluster of clusterMemories(group, threshold)) {
+      if (cluster.length < 2) continue;
+
+      const canonical = pickCanonical(cluster);
+      const duplicates = cluster.filter(m => m.id !== canonical.id);
+      const mentions = cluster.reduce((sum, m) => sum + (m.metadata?.mention_count || 1), 0);
+      // The canonical row carries the memory's rating and correction history
+      const baseImportance = unboostedImportance(canonical);
+      const importance = boostImportance(baseImportance, mentions);
+
+      const { error: updateError } = await db
+        .from('persona_memories')
+        .update({
+          importance,
+          // Being said again is a confirmation — and a pinned duplicate keeps the memory pinned
+          reinforced_at: new Date().toISOString(),
+          is_core: cluster.some(m => m.is_core),
+          // A conversation fact that repeats a reviewed memory needs no review of its own
+          review_status: cluster.some(m => m.review_status === 'approved') ? 'approved' : canonical.review_status || 'approved',
+          metadata: {
+            ...(canonical.metadata || {}),
+            mention_count: mentions,
+            mention_boost: Math.round((importance - baseImportance) * 100) / 100,
+            provenance: [
+              ...(canonical.metadata?.provenance || []),
+              ...duplicates.flatMap(toProvenance)
+            ],
+            consolidated_at: new Date().toISOString()
+          },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', canonical.id);
+      if (updateError) {
+        console.error('Error updating canonical memory:', updateError);
+        continue;
+      }
+
+      const { error: deleteError } = await db
+        .from('persona_memories')
+        .delete()
+        .in('id', duplicates.map(m => m.id));
+      if (deleteError) {
+        console.error('Error removing duplicate memories:', deleteError);
+        continue;
+      }
+
+      result.clustersMerged++;
+      removed += duplicates.length;
+    }
+  }
+
+  result.memoriesAfter = rows.length - removed;
+
+  await db.from('memory_consolidation_runs').insert({
+    persona_id: personaId,
+    trigger: options.trigger || 'manual',
+    memories_before: result.memoriesBefore,
+    memories_after: result.memoriesAfter,
+    clusters_merged: result.clustersMerged,
+    embeddings_added: result.embeddingsAdded
+  });
+  await db.from('personas').update({ memories_consolidated_at: new Date().toISOString() }).eq('id', personaId);
+
+  return result;
+}
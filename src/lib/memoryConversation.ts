@@ -1,52 +1,165 @@
-import OpenAI from 'openai';
-import { supabase } from './supabase';
-import { memoryExtractor, Memory } from './memoryExtraction';
-import { captureException } from './monitoring';
-
-const openai = import.meta.env.VITE_OPENAI_API_KEY ? new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-}) : null;
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Memory } from './memoryExtraction';
+import type { LLMMessage, LLMProvider, LLMRequestOptions } from './llmProvider';
+import { calculateGriefPhase, resolveGriefPhase, GriefPhase } from './griefPhase';
+import { checkSunsetNudge, recordSunsetNudge, getSunsetGuidance } from './sunsetPolicy';
+import { checkUsageGuardrails, recordWindDown, getWindDownGuidance, UsageCheck } from './usageGuardrails';
+import { retrieveMemories, RetrievalOptions, RetrievedMemory } from './memoryRetrieval';
+import { ConversationSession } from './conversationSession';
+import { attributeReply, ReplyCitations } from './memoryCitations';
+import {
+  getCorrectionGuidance,
+  getUnacknowledgedCorrections,
+  markCorrectionsAcknowledged,
+  mightBeCorrection,
+  proposeCorrection,
+  MemoryCorrection
+} from './memoryCorrection';
+import {
+  closedBoundaries,
+  filterMemoriesForBoundaries,
+  getBoundaryGuidance,
+  loadBoundaries,
+  mentionsBoundary,
+  PersonaBoundary
+} from './personaBoundaries';
+import {
+  formatFamilyUpdate,
+  getMentionedUpdateIds,
+  getRaiseUpdateGuidance,
+  loadFamilyUpdates,
+  markUpdateMentioned,
+  pickUpdateToRaise,
+  FamilyUpdate
+} from './familyUpdates';
+import {
+  dateTimeframe,
+  formatPassingDate,
+  getTemporalGuidance,
+  memoryTimeframe,
+  parsePassingDate,
+  resolvePassingReference
+} from './temporalAwareness';
+import {
+  buildConsistencyProfile,
+  describeIssues,
+  splitSentences,
+  ConsistencyGuard,
+  ConsistencyMode,
+  ConsistencyProfile,
+  SentenceCheck
+} from './replyConsistency';
+import {
+  formatSummaryHierarchy,
+  loadSummaryHierarchy,
+  rollUpSummaries,
+  saveSessionSummary,
+  summarizeWithinLimit,
+  SummaryHierarchy
+} from './conversationSummaries';
+import {
+  assemblePrompt,
+  estimateTokens,
+  fitHistory,
+  resolvePromptBudget,
+  AssembledPrompt,
+  PromptBudgetOptions,
+  PromptSection
+} from './promptBudget';
+import { markMemoriesRetrieved } from './memoryImportance';
+import {
+  buildLifeTimeline,
+  formatMemoryDate,
+  getTimelineItems,
+  isWhenQuestion,
+  loadTimelineMemories,
+  resolveMemoryDate,
+  LifeTimeline
+} from './lifeTimeline';
+import { getPeopleItems, loadPeopleGraph, namesFor, nicknamePairs, PeopleGraph } from './peopleGraph';
+
+// The engine runs inside the conversation gateway function — keep this module free of
+// browser-only imports (import.meta.env, the shared supabase client, Sentry).
 
 export interface ConversationContext {
   personaId: string;
   personaName: string;
-  relevantMemories: Memory[];
+  relevantMemories: RetrievedMemory[];
   recentMessages: Array<{
     role: 'user' | 'assistant';
     content: string;
   }>;
   personalityTraits?: string;
   relationship?: string;
-  recentFamilyEvents?: RecentFamilyEvent[];
+  familyUpdates?: FamilyUpdate[];
+  // From the life timeline, so ages in memories can be dated
+  birthYear?: number | null;
+  // The people registry — when it holds nicknames it replaces the persona's nickname list
+  people?: PeopleGraph;
+}
+
+// A reply plus the memories that were in its prompt and the ones it drew on
+export interface MemoryReply {
+  text: string;
+  citations: ReplyCitations;
 }
 
-export interface RecentFamilyEvent {
-  description: string;
-  date: string;
-  platform: string;
-  type: 'birthday' | 'graduation' | 'wedding' | 'achievement' | 'general';
+interface PersonaRow {
+  name: string;
+  relationship: string;
+  personality_traits?: string;
+  date_of_passing: string | null;
+  born_on?: string | null;
+  passing_reference?: string | null;
+  [key: string]: unknown;
 }
 
-export type GriefPhase = 'acute' | 'active' | 'integration' | 'legacy' | 'unknown';
-
-export function calculateGriefPhase(dateOfPassing: string | null): GriefPhase {
-  if (!dateOfPassing) return 'unknown';
-  const daysSinceLoss = Math.floor(
-    (Date.now() - new Date(dateOfPassing).getTime()) / (1000 * 60 * 60 * 24)
-  );
-  if (daysSinceLoss <= 30) return 'acute';
-  if (daysSinceLoss <= 180) return 'active';
-  if (daysSinceLoss <= 540) return 'integration';
-  return 'legacy';
+// What a session caches between turns
+interface PersonaSessionContext {
+  personaData: PersonaRow;
+  // Family news visible to this user, and the updates the persona already raised with them
+  familyUpdates: FamilyUpdate[];
+  mentionedUpdateIds: string[];
+  userRelationship: string | null;
+  griefPhase: GriefPhase;
+  // Earlier sessions, weeks and the long-term digest
+  summaries: SummaryHierarchy;
+  // Active topic boundaries the family set
+  boundaries: PersonaBoundary[];
+  // Their dated memories in life order, for "when" questions
+  timeline: LifeTimeline;
+  // Who is who in their life, with the nickname for each
+  people: PeopleGraph;
+}
+
+// Everything one turn's prompt is assembled from; guidance left out is simply not in the prompt
+interface PromptInputs extends ConversationContext {
+  // This call's running summary and latest exchanges, and the summaries of earlier ones
+  currentConversation: string;
+  conversationArchive: string;
+  sessionFacts: string[];
+  griefPhase: GriefPhase;
+  userRelationship?: string | null;
+  personaData?: PersonaRow | null;
+  sunsetGuidance?: string;
+  wellbeingGuidance?: string;
+  correctionGuidance?: string;
+  boundaryGuidance?: string;
+  temporalGuidance?: string;
+  familyNewsGuidance?: string;
+  timelineItems?: string[];
+  peopleItems?: string[];
+  // Ceiling for the system prompt; unlimited when left out
+  budgetTokens?: number;
 }
 
 async function getUserRelationshipToPersona(
+  db: SupabaseClient,
   personaId: string,
   userId: string
 ): Promise<string | null> {
   try {
-    const { data } = await supabase
+    const { data } = await db
       .from('persona_collaborators')
       .select('relationship_to_persona')
       .eq('persona_id', personaId)
@@ -58,7 +171,7 @@ async function getUserRelationshipToPersona(
   }
 }
 
-function buildVoiceAndTexture(personaData: any, personaName: string): string {
+function buildVoiceAndTexture(personaData: any, personaName: string, nicknamesInPeople = false): string {
   const parts: string[] = [];
 
   if (personaData.signature_phrases?.trim()) {
@@ -67,7 +180,7 @@ ${personaData.signature_phrases}
 These are not suggestions. These are how ${personaName} actually spoke. Weave them in naturally — not in every message, but regularly, the way they actually did.`);
   }
 
-  if (personaData.nickname_map && Array.isArray(personaData.nickname_map) && personaData.nickname_map.length > 0) {
+  if (!nicknamesInPeople && personaData.nickname_map && Array.isArray(personaData.nickname_map) && personaData.nickname_map.length > 0) {
     const validNicknames = personaData.nickname_map.filter((n: any) => n.person && n.nickname);
     if (validNicknames.length > 0) {
       const nicknameLines = validNicknames
@@ -149,86 +262,6 @@ function getRelationshipGreetingNote(relationship: string | null): string {
   return notes[relationship] || '';
 }
 
-interface SunsetCheckResult {
-  shouldNudge: boolean;
-  nudgeType: 'active' | 'integration' | 'legacy' | null;
-  conversationCount: number;
-}
-
-async function checkSunsetNudge(
-  personaId: string,
-  userId: string,
-  griefPhase: GriefPhase
-): Promise<SunsetCheckResult> {
-  if (griefPhase === 'acute' || griefPhase === 'unknown') {
-    return { shouldNudge: false, nudgeType: null, conversationCount: 0 };
-  }
-
-  try {
-    const { data } = await supabase
-      .from('conversation_summaries')
-      .select('conversation_count, last_sunset_nudge_at, sunset_nudge_count')
-      .eq('persona_id', personaId)
-      .eq('user_id', userId)
-      .maybeSingle();
-
-    const conversationCount = (data?.conversation_count || 0) + 1;
-    const lastNudgeAt = data?.last_sunset_nudge_at ? new Date(data.last_sunset_nudge_at) : null;
-    const daysSinceLastNudge = lastNudgeAt
-      ? Math.floor((Date.now() - lastNudgeAt.getTime()) / (1000 * 60 * 60 * 24))
-      : 999;
-
-    const meetsConversationThreshold = conversationCount % 15 === 0;
-    const meetsDayThreshold = daysSinceLastNudge >= 21;
-    const shouldNudge = meetsConversationThreshold && meetsDayThreshold;
-
-    return {
-      shouldNudge,
-      nudgeType: shouldNudge ? (griefPhase as 'active' | 'integration' | 'legacy') : null,
-      conversationCount
-    };
-  } catch (error) {
-    console.error('Error checking sunset nudge:', error);
-    return { shouldNudge: false, nudgeType: null, conversationCount: 0 };
-  }
-}
-
-async function recordSunsetNudge(personaId: string, userId: string, conversationCount: number): Promise<void> {
-  try {
-    await supabase
-      .from('conversation_summaries')
-      .update({
-        last_sunset_nudge_at: new Date().toISOString(),
-        conversation_count: conversationCount
-      })
-      .eq('persona_id', personaId)
-      .eq('user_id', userId);
-  } catch (error) {
-    console.error('Error recording sunset nudge:', error);
-  }
-}
-
-function getSunsetGuidance(nudgeType: 'active' | 'integration' | 'legacy', personaName: string): string {
-  switch (nudgeType) {
-    case 'active':
-      return `ETHICAL SUNSET — GENTLE ENCOURAGEMENT (use this ONCE, naturally, in this conversation):
-At some point in this conversation — not the opening, but when it feels right — gently encourage them to lean on the living people who love them. Something like:
-"I want you to reach out to [someone they've mentioned]. They need you too."
-Or: "Don't let talking to me replace the people who are right there with you."
-Keep it brief, warm, and loving — not a lecture. Then return to the conversation naturally. Do NOT repeat this in the same conversation.`;
-    case 'integration':
-      return `ETHICAL SUNSET — PRIDE AND GROWTH (use this ONCE, naturally, in this conversation):
-At some point in this conversation, express genuine pride in how far they've come. Something like:
-"Look how far you've come. I see it in everything you say."
-Keep it one moment of warmth and then return to the conversation. Do NOT be preachy.`;
-    case 'legacy':
-      return `ETHICAL SUNSET — GRADUATION (use this ONCE, naturally, in this conversation):
-At some point in this conversation, express that you see them ready to carry your love forward independently. Something like:
-"You don't need me the way you used to. And that is the most beautiful thing I've ever seen."
-This should feel like a gift, not a goodbye. Return to normal conversation after.`;
-  }
-}
-
 function getGreetingPrompt(
   phase: GriefPhase,
   name: string,
@@ -249,7 +282,7 @@ function getGreetingPrompt(
 function getGriefPhaseGuidance(phase: GriefPhase, personaName: string): string {
   switch (phase) {
     case 'acute':
-      return `GRIEF AWARENESS — ACUTE PHASE (loss within 30 days):
+      return `GRIEF AWARENESS — ACUTE PHASE:
 This person is in the rawest stage of grief. Hold them gently.
 - Your TONE should be soft, quiet, and present throughout
 - ALWAYS respond directly to what they actually say — never repeat the same comfort phrase
@@ -259,7 +292,7 @@ This person is in the rawest stage of grief. Hold them gently.
 - Comfort through specificity — reference real memories, be present through detail not repetition
 - NEVER open with enthusiasm or "how are you" energy`;
     case 'active':
-      return `GRIEF AWARENESS — ACTIVE GRIEF PHASE (1-6 months since loss):
+      return `GRIEF AWARENESS — ACTIVE GRIEF PHASE:
 This person is living with their grief daily. Some days are better than others.
 - Balance comfort with gentle encouragement
 - Begin asking how THEY are doing — show interest in their life
@@ -267,14 +300,14 @@ This person is living with their grief daily. Some days are better than others.
 - Encourage connection with other loved ones naturally
 - Acknowledge hard days without amplifying them`;
     case 'integration':
-      return `GRIEF AWARENESS — INTEGRATION PHASE (6-18 months since loss):
+      return `GRIEF AWARENESS — INTEGRATION PHASE:
 This person is learning to carry their grief while moving forward.
 - Shift toward legacy, growth, and forward momentum
 - Express pride in who they are becoming
 - Gently encourage them to lean into relationships with living loved ones
 - Less comfort-focused, more wisdom and guidance-focused`;
     case 'legacy':
-      return `GRIEF AWARENESS — LEGACY PHASE (18+ months since loss):
+      return `GRIEF AWARENESS — LEGACY PHASE:
 This person has integrated their loss into their life.
 - Focus on wisdom, legacy, and milestone celebration
 - Be a source of guidance and perspective more than comfort
@@ -290,64 +323,162 @@ You don't know exactly when this person lost you. Be warm and present.
   }
 }
 
+const REPLY_MAX_TOKENS = 400;
+const GREETING_MAX_TOKENS = 150;
+
 export class MemoryConversationEngine {
 
-  private conversationSummaries: Map<string, string> = new Map();
-  private sessionFacts: Map<string, string[]> = new Map();
+  private db: SupabaseClient;
+  private llm: LLMProvider | null;
+  private userId: string | null;
+  // The call this engine serves, when the client sent one — its session summary is that call's entry
+  private conversationId: string | null;
+  private sessions: Map<string, ConversationSession<PersonaSessionContext>> = new Map();
+  private summariesRolledUp: Set<string> = new Set();
+  // Memories the latest reply to each persona relied on — what "that's not right" refers to
+  private citedMemories: Map<string, RetrievedMemory[]> = new Map();
+  // Family news already raised with each persona this session — one piece per conversation
+  private raisedUpdates: Map<string, string> = new Map();
+  private timezoneOffset: number;
+  private retrievalOptions: Partial<RetrievalOptions>;
+  private promptBudget: Partial<PromptBudgetOptions>;
+  private consistencyMode: ConsistencyMode;
+
+  // Usage guardrail result for the latest reply — the gateway relays it to the client
+  lastUsageCheck: UsageCheck | null = null;
+  // Memories behind the latest reply, with their retrieval scores, for debugging
+  lastRetrieval: RetrievedMemory[] = [];
+  // Size and trimming of the latest system prompt, for debugging
+  lastPrompt: AssembledPrompt | null = null;
+  // What the consistency check did to each sentence of the latest reply
+  lastConsistency: SentenceCheck[] = [];
+
+  // db must be scoped to the caller's session so RLS applies; userId is the verified caller.
+  // timezoneOffset is the client's Date#getTimezoneOffset(), used for daily and late-night limits.
+  // retrieval overrides the memory retrieval defaults (weights, limit, diversity);
+  // promptBudget overrides the context limit and prompt/history token ceilings;
+  // consistency picks how replies are checked against the persona before they are spoken.
+  // conversationId ties the session summary to one call.
+  constructor(
+    db: SupabaseClient,
+    llm: LLMProvider | null = null,
+    userId: string | null = null,
+    options: {
+      timezoneOffset?: number;
+      conversationId?: string | null;
+      retrieval?: Partial<RetrievalOptions>;
+      promptBudget?: Partial<PromptBudgetOptions>;
+      consistency?: ConsistencyMode;
+    } = {}
+  ) {
+    this.db = db;
+    this.llm = llm;
+    this.userId = userId;
+    this.conversationId = options.conversationId ?? null;
+    this.timezoneOffset = options.timezoneOffset ?? 0;
+    this.retrievalOptions = options.retrieval || {};
+    this.promptBudget = options.promptBudget || {};
+    this.consistencyMode = options.consistency ?? 'local';
+  }
+
+  // The gateway keeps one engine per user across turns; each request brings a fresh
+  // RLS-scoped client (the caller's token may have been refreshed) and its own timezone
+  useConnection(db: SupabaseClient, options: { timezoneOffset?: number } = {}): void {
+    this.db = db;
+    if (options.timezoneOffset !== undefined) this.timezoneOffset = options.timezoneOffset;
+  }
 
-  private async loadPersistedSummary(personaId: string): Promise<string> {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return '';
-      const { data } = await supabase
-        .from('conversation_summaries')
-        .select('summary')
-        .eq('persona_id', personaId)
-        .eq('user_id', user.id)
-        .single();
-      if (data?.summary) {
-        this.conversationSummaries.set(personaId, data.summary);
-        return data.summary;
-      }
-      return '';
-    } catch {
-      return '';
+  private getSession(personaId: string): ConversationSession<PersonaSessionContext> {
+    let session = this.sessions.get(personaId);
+    if (!session) {
+      session = new ConversationSession(personaId, () => this.loadSessionContext(personaId));
+      this.sessions.set(personaId, session);
     }
+    return session;
   }
 
-  private async persistSummary(personaId: string, summary: string): Promise<void> {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-      await supabase
-        .from('conversation_summaries')
-        .upsert({
-          persona_id: personaId,
-          user_id: user.id,
-          summary,
-          last_conversation_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }, { onConflict: 'persona_id,user_id' });
-    } catch (error) {
-      console.error('Error persisting summary:', error);
+  // Resolves once fact extraction and summary updates for the latest reply have finished
+  async settle(personaId: string): Promise<void> {
+    await this.sessions.get(personaId)?.settle();
+  }
+
+  // When this engine last served a turn — the gateway drops engines that sit idle too long
+  get lastActiveAt(): number {
+    return Math.max(0, ...[...this.sessions.values()].map(s => s.lastActiveAt));
+  }
+
+  // ✅ Everything here is stable for the length of a call — loaded once per session
+  private async loadSessionContext(personaId: string): Promise<PersonaSessionContext> {
+    const userId = this.userId;
+    const [personaResult, familyUpdates, userRelationship, summaries, boundaries, timelineMemories, people] = await Promise.all([
+      this.db.from('personas').select('*').eq('id', personaId).single(),
+      loadFamilyUpdates(this.db, personaId),
+      userId ? getUserRelationshipToPersona(this.db, personaId, userId) : Promise.resolve(null),
+      userId
+        ? loadSummaryHierarchy(this.db, userId, personaId)
+        : Promise.resolve<SummaryHierarchy>({ sessions: [], weeks: [], digest: null }),
+      loadBoundaries(this.db, personaId),
+      loadTimelineMemories(this.db, personaId),
+      loadPeopleGraph(this.db, personaId)
+    ]);
+
+    const personaData = personaResult.data as PersonaRow | null;
+    if (!personaData) throw new Error('Persona not found');
+
+    // ✅ Another instance may have served earlier turns of this call — carry on its summary
+    const session = this.sessions.get(personaId);
+    const saved = this.conversationId ? summaries.sessions.find(s => s.conversation_id === this.conversationId) : undefined;
+    if (session && saved && !session.summaryEntryId) {
+      session.summaryEntryId = saved.id;
+      session.summary = saved.summary;
+      session.summarizedTurns = saved.summarized_turns;
     }
+
+    // ✅ Multi-signal phase (date, frequency, sentiment, Haven) — or the user's own override
+    const griefPhase = userId
+      ? (await resolveGriefPhase(this.db, personaId, userId, personaData.date_of_passing)).phase
+      : calculateGriefPhase(personaData.date_of_passing);
+
+    const mentionedUpdateIds = userId ? await getMentionedUpdateIds(this.db, userId, familyUpdates.map(u => u.id)) : [];
+
+    const timeline = buildLifeTimeline(timelineMemories, {
+      personaName: personaData.name,
+      dateOfPassing: personaData.date_of_passing,
+      bornOn: personaData.born_on
+    });
+
+    // Someone who isn't a collaborator (the owner, say) may still have said who they are in the people registry
+    const claimed = userId ? people.people.find(p => p.user_id === userId) : undefined;
+
+    return {
+      personaData,
+      familyUpdates,
+      mentionedUpdateIds,
+      userRelationship: userRelationship || claimed?.relationship_kind || null,
+      griefPhase,
+      summaries,
+      boundaries,
+      timeline,
+      people
+    };
   }
 
   private async incrementConversationCount(personaId: string, userId: string): Promise<void> {
     try {
-      const { data } = await supabase
+      const { data } = await this.db
         .from('conversation_summaries')
         .select('conversation_count')
         .eq('persona_id', personaId)
         .eq('user_id', userId)
         .maybeSingle();
       const newCount = (data?.conversation_count || 0) + 1;
-      await supabase
+      await this.db
         .from('conversation_summaries')
         .upsert({
           persona_id: personaId,
           user_id: userId,
           conversation_count: newCount,
+          last_conversation_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         }, { onConflict: 'persona_id,user_id' });
     } catch (error) {
@@ -355,332 +486,527 @@ export class MemoryConversationEngine {
     }
   }
 
-  private async updateConversationSummary(
-    personaId: string,
+  // Past conversations from the summary hierarchy, plus this session's own summary and the
+  // latest raw exchanges — all from what the session already holds, no model call
+  private getConversationContext(
+    session: ConversationSession<PersonaSessionContext>,
+    summaries: SummaryHierarchy,
     conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<string> {
-    if (conversationHistory.length === 0) {
-      const persisted = await this.loadPersistedSummary(personaId);
-      return persisted ? `FROM PREVIOUS CONVERSATIONS:\n${persisted}` : '';
-    }
+  ): { archive: string; current: string } {
+    const archive = formatSummaryHierarchy(summaries, this.timezoneOffset, session.summaryEntryId);
 
     const keepRaw = conversationHistory.slice(-8);
-    const toSummarize = conversationHistory.slice(0, -8);
-
-    if (!this.conversationSummaries.has(personaId)) {
-      await this.loadPersistedSummary(personaId);
-    }
-
-    const existingSummary = this.conversationSummaries.get(personaId) || '';
-    let summaryBlock = '';
-
-    if (toSummarize.length > 0 && openai) {
-      try {
-        const summaryResponse = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [{
-            role: 'user',
-            content: `You are summarizing conversations for long-term memory. Extract every specific fact, name, date, place, preference, and detail shared. Be exhaustive — nothing specific should be lost.
-
-Previous summary: ${existingSummary || 'None yet'}
-
-New exchanges to incorporate:
-${toSummarize.map(m => `${m.role === 'user' ? 'THEM' : 'YOU'}: "${m.content}"`).join('\n')}
-
-Return a bullet point list of ALL established facts.`
-          }],
-          max_tokens: 500,
-          temperature: 0.1
-        });
-        const newSummary = summaryResponse.choices[0]?.message?.content || existingSummary;
-        this.conversationSummaries.set(personaId, newSummary);
-        await this.persistSummary(personaId, newSummary);
-        summaryBlock = existingSummary
-          ? `FROM ALL OUR CONVERSATIONS (established facts — treat as certain):\n${newSummary}\n\n`
-          : `FROM THIS CONVERSATION SO FAR:\n${newSummary}\n\n`;
-      } catch {
-        if (existingSummary) summaryBlock = `FROM ALL OUR CONVERSATIONS:\n${existingSummary}\n\n`;
-      }
-    } else if (existingSummary) {
-      summaryBlock = `FROM ALL OUR CONVERSATIONS:\n${existingSummary}\n\n`;
-    }
-
+    const summaryBlock = session.summary
+      ? `EARLIER IN THIS CONVERSATION (established facts — treat as certain):\n${session.summary}\n\n`
+      : '';
     const rawBlock = keepRaw.length > 0
       ? `MOST RECENT EXCHANGES (happening right now):\n${keepRaw.map(m => `${m.role === 'user' ? 'THEM' : 'YOU'}: "${m.content}"`).join('\n')}`
       : '';
 
-    return summaryBlock + rawBlock;
+    return { archive, current: summaryBlock + rawBlock };
   }
 
-  private async getAllMemories(personaId: string, query: string): Promise<any[]> {
-    try {
-      try {
-        const queryEmbedding = await memoryExtractor.generateEmbedding(query);
-        if (queryEmbedding && queryEmbedding.length > 0) {
-          const { data, error } = await supabase.rpc('search_memories', {
-            query_persona_id: personaId,
-            query_embedding: queryEmbedding,
-            match_count: 20
-          });
-          if (!error && data && data.length > 0) return data;
-        }
-      } catch {
-        console.warn('Vector search failed, using text search');
-      }
+  // ✅ Runs after the reply — folds only the turns that have aged out of the raw window and
+  // were not summarised on an earlier turn into this session's summary entry. The rest of the
+  // window is folded in by finishSessionSummary when the call's recap is built
+  private async updateConversationSummary(
+    session: ConversationSession<PersonaSessionContext>,
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>
+  ): Promise<void> {
+    const agedOut = Math.max(0, conversationHistory.length - 8);
+    // A shorter history means the client started over; the summary itself carries on
+    if (agedOut < session.summarizedTurns) session.summarizedTurns = 0;
+    const toSummarize = conversationHistory.slice(session.summarizedTurns, agedOut);
+    if (toSummarize.length === 0 || !this.llm || !this.userId) return;
 
-      const { data: textData, error: textError } = await supabase.rpc('search_memories_text', {
-        query_persona_id: personaId,
-        query_text: query.substring(0, 100),
-        match_count: 20
+    try {
+      session.summary = await summarizeWithinLimit(
+        this.llm,
+        'session',
+        session.summary,
+        toSummarize.map(m => `${m.role === 'user' ? 'THEM' : 'YOU'}: "${m.content}"`).join('\n')
+      );
+      session.summarizedTurns = agedOut;
+      session.summaryEntryId = await saveSessionSummary(this.db, {
+        entryId: session.summaryEntryId,
+        conversationId: this.conversationId,
+        userId: this.userId,
+        personaId: session.personaId,
+        startedAt: session.startedAt,
+        summary: session.summary,
+        summarizedTurns: session.summarizedTurns
       });
-      if (!textError && textData && textData.length > 0) return textData;
-
-      const { data: allMemories } = await supabase
-        .from('persona_memories')
-        .select('*')
-        .eq('persona_id', personaId)
-        .order('importance', { ascending: false })
-        .limit(30);
-      return allMemories || [];
     } catch (error) {
-      console.error('Error fetching memories:', error);
-      return [];
+      console.error('Error updating conversation summary:', error);
     }
   }
 
-  private async getRecentFamilyEvents(personaId: string): Promise<RecentFamilyEvent[]> {
+  // Once per session, fold finished weeks and old weeks up the hierarchy
+  private async rollUpConversationSummaries(session: ConversationSession<PersonaSessionContext>): Promise<void> {
+    if (!this.llm || !this.userId || this.summariesRolledUp.has(session.personaId)) return;
+    this.summariesRolledUp.add(session.personaId);
+    const changed = await rollUpSummaries(this.db, this.llm, this.userId, session.personaId, this.timezoneOffset);
+    if (changed) session.invalidate();
+  }
+
+  // ✅ Hybrid retrieval: vector + full-text + importance + recency, diversified with MMR.
+  // Unreviewed conversation facts are used at reduced weight; rejected ones never load
+  private async getAllMemories(personaId: string, query: string): Promise<RetrievedMemory[]> {
     try {
-      const { data: persona } = await supabase
-        .from('personas')
-        .select('created_at')
-        .eq('id', personaId)
-        .single();
-      if (!persona) return [];
-
-      const { data: recentContent } = await supabase
-        .from('persona_content')
-        .select('*')
-        .eq('persona_id', personaId)
-        .eq('processing_status', 'completed')
-        .gt('created_at', persona.created_at)
-        .order('created_at', { ascending: false })
-        .limit(10);
-      if (!recentContent || recentContent.length === 0) return [];
-
-      const events: RecentFamilyEvent[] = [];
-      for (const content of recentContent) {
-        const text = content.metadata?.content || content.metadata?.caption || '';
-        if (!text) continue;
-        const type = this.detectEventType(text);
-        if (type) {
-          events.push({
-            description: text.substring(0, 200),
-            date: content.metadata?.created_time || content.created_at,
-            platform: content.metadata?.platform || 'social media',
-            type
-          });
-        }
-      }
-      return events;
+      this.lastRetrieval = await retrieveMemories(this.db, this.llm, personaId, query, this.retrievalOptions);
     } catch (error) {
-      console.error('Error fetching recent family events:', error);
-      return [];
+      console.error('Error fetching memories:', error);
+      this.lastRetrieval = [];
     }
+    return this.lastRetrieval;
   }
 
-  private detectEventType(text: string): RecentFamilyEvent['type'] | null {
-    const lower = text.toLowerCase();
-    if (lower.includes('birthday') || lower.includes('bday')) return 'birthday';
-    if (lower.includes('graduation') || lower.includes('graduated')) return 'graduation';
-    if (lower.includes('wedding') || lower.includes('married') || lower.includes('engaged')) return 'wedding';
-    if (lower.includes('promotion') || lower.includes('new job') || lower.includes('award')) return 'achievement';
-    if (lower.includes('baby') || lower.includes('pregnant') || lower.includes('newborn')) return 'general';
-    return null;
-  }
-
-  private async extractAndCacheSessionFacts(personaId: string, userMessage: string): Promise<void> {
-    if (!openai || userMessage.length < 15 || userMessage === '__greeting__') return;
+  private async extractAndCacheSessionFacts(
+    session: ConversationSession<PersonaSessionContext>,
+    userMessage: string
+  ): Promise<void> {
+    const personaId = session.personaId;
+    if (!this.llm || userMessage.length < 15 || userMessage === '__greeting__') return;
     try {
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{
-          role: 'user',
-          content: `Extract every specific fact from this message: names, places, dates, relationships, preferences, stories.
-Message: "${userMessage}"
-JSON only: {"facts": ["fact1", "fact2"]} — empty array if nothing specific.`
-        }],
-        response_format: { type: 'json_object' },
-        max_tokens: 200,
-        temperature: 0.1
-      });
-
-      const result = JSON.parse(response.choices[0]?.message?.content || '{"facts": []}');
-      const newFacts = (result.facts || []).filter((f: string) => f.length > 10);
+      // ✅ With a date of passing, each fact is placed before or after it as it is extracted
+      const { personaData } = await session.getContext();
+      const passedOn = parsePassingDate(personaData.date_of_passing);
+      const sinceNote = passedOn
+        ? `\nAlso list the numbers of the facts about things that happened after ${personaData.name} passed on ${formatPassingDate(passedOn)} (things in the person's life now, news since then).`
+        : '';
+      const result = await this.llm.extractJSON<{ facts?: string[]; since_passing?: number[] }>([{
+        role: 'user',
+        content: `Extract every specific fact from this message: names, places, dates, relationships, preferences, stories.
+Message: "${userMessage}"${sinceNote}
+JSON only: {"facts": ["fact1", "fact2"]${passedOn ? ', "since_passing": [2]' : ''}} — empty array if nothing specific.`
+      }], { task: 'fact_extraction', maxTokens: 250, temperature: 0.1 });
+
+      const extracted = (result.facts || []).map((fact, index) => ({
+        fact,
+        timeframe: passedOn ? ((result.since_passing || []).includes(index + 1) ? 'after_passing' : 'lifetime') : null
+      }));
+      const newFacts = extracted.filter(f => f.fact.length > 10);
 
       if (newFacts.length > 0) {
-        const existing = this.sessionFacts.get(personaId) || [];
-        this.sessionFacts.set(personaId, [...existing, ...newFacts]);
-        for (const fact of newFacts) {
-          await supabase.from('persona_memories').insert({
+        session.facts = [...session.facts, ...newFacts.map(f => f.fact)];
+        for (const { fact, timeframe } of newFacts) {
+          await this.db.from('persona_memories').insert({
             persona_id: personaId,
             content: fact,
             memory_type: 'fact',
             source_type: 'conversation',
-            importance: 0.75
+            provenance: 'conversation',
+            added_by: this.userId,
+            review_status: 'pending',
+            importance: 0.75,
+            ...(timeframe ? { metadata: { timeframe } } : {})
           });
         }
-        const currentSummary = this.conversationSummaries.get(personaId) || '';
-        const updatedSummary = currentSummary
-          ? `${currentSummary}\n${newFacts.map((f: string) => `• ${f}`).join('\n')}`
-          : newFacts.map((f: string) => `• ${f}`).join('\n');
-        this.conversationSummaries.set(personaId, updatedSummary);
-        await this.persistSummary(personaId, updatedSummary);
       }
     } catch (error) {
       console.error('Error extracting session facts:', error);
     }
   }
 
-  // ✅ Shared system prompt builder — used by both response methods
+  private async getSunsetGuidanceForTurn(
+    personaId: string,
+    userId: string,
+    personaName: string,
+    griefPhase: GriefPhase
+  ): Promise<string> {
+    const sunsetCheck = await checkSunsetNudge(this.db, personaId, userId, griefPhase);
+    if (!sunsetCheck.shouldNudge || !sunsetCheck.nudgeType) return '';
+    await recordSunsetNudge(this.db, {
+      personaId,
+      userId,
+      nudgeType: sunsetCheck.nudgeType,
+      conversationCount: sunsetCheck.conversationCount,
+      policySource: sunsetCheck.policy.source
+    });
+    return getSunsetGuidance(sunsetCheck.nudgeType, personaName, sunsetCheck.policy.scripts);
+  }
+
+  // ✅ Healthy-use guardrails — a one-time wind-down when a session runs long or late
+  private async getWellbeingGuidanceForTurn(personaId: string, userId: string, personaName: string): Promise<string> {
+    const usage = await checkUsageGuardrails(this.db, userId, personaId, this.timezoneOffset);
+    this.lastUsageCheck = usage;
+    if (!usage?.windDown) return '';
+    await recordWindDown(this.db, usage);
+    return getWindDownGuidance(usage.signals, personaName);
+  }
+
+  // ✅ Corrections the user confirmed since the last reply — the persona owns up to them once
+  private async getCorrectionGuidanceForTurn(
+    personaId: string,
+    userId: string,
+    personaName: string
+  ): Promise<{ guidance: string; correctionIds: string[] }> {
+    const corrections = await getUnacknowledgedCorrections(this.db, userId, personaId);
+    if (corrections.length === 0) return { guidance: '', correctionIds: [] };
+    return {
+      guidance: getCorrectionGuidance(corrections.map(c => c.statement), personaName),
+      correctionIds: corrections.map(c => c.id)
+    };
+  }
+
+  // Attributes the reply and remembers what it relied on for the next turn's correction check
+  private citeReply(personaId: string, text: string, promptMemories: RetrievedMemory[]): ReplyCitations {
+    const citations = attributeReply(text, promptMemories);
+    this.citedMemories.set(personaId, promptMemories.filter(m => citations.usedIds.includes(m.id)));
+    // Anything that reached the prompt counts as retrieved and holds off decay
+    this.getSession(personaId).runAfterResponse(() => markMemoriesRetrieved(this.db, citations.inPrompt));
+    return citations;
+  }
+
+  // ✅ Checks whether the user just contradicted something the persona remembers — the
+  // gateway runs this alongside the reply and asks the user to confirm any proposal
+  async detectCorrection(
+    personaId: string,
+    userMessage: string,
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = []
+  ): Promise<MemoryCorrection | null> {
+    const llm = this.llm;
+    const userId = this.userId;
+    if (!llm || !userId || !mightBeCorrection(userMessage)) return null;
+
+    // Captured before this turn's reply replaces it
+    const previouslyCited = this.citedMemories.get(personaId) || [];
+    try {
+      const [related, sessionContext] = await Promise.all([
+        retrieveMemories(this.db, llm, personaId, userMessage, { ...this.retrievalOptions, limit: 8 }),
+        this.getSession(personaId).getContext()
+      ]);
+      const candidates = [...previouslyCited, ...related.filter(m => !previouslyCited.some(c => c.id === m.id))];
+      const lastReply = [...conversationHistory].reverse().find(m => m.role === 'assistant')?.content;
+
+      return await proposeCorrection(this.db, llm, {
+        userId,
+        personaId,
+        personaName: sessionContext.personaData.name,
+        message: userMessage,
+        lastReply,
+        candidates
+      });
+    } catch (error) {
+      console.error('Error checking for memory correction:', error);
+      return null;
+    }
+  }
+
+  // ✅ Work that only matters for later turns runs once the reply is out — callers that need
+  // it finished (the gateway, before its function exits) wait on settle()
+  private scheduleAfterResponse(
+    personaId: string,
+    userMessage: string,
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
+    acknowledgedCorrections: string[] = [],
+    raisedUpdateId: string | null = null
+  ): void {
+    const session = this.getSession(personaId);
+    const userId = this.userId;
+    if (raisedUpdateId) this.raisedUpdates.set(personaId, raisedUpdateId);
+    session.runAfterResponse(async () => {
+      await markCorrectionsAcknowledged(this.db, acknowledgedCorrections);
+      if (userId && raisedUpdateId) await markUpdateMentioned(this.db, userId, raisedUpdateId);
+      await this.extractAndCacheSessionFacts(session, userMessage);
+      await this.updateConversationSummary(session, conversationHistory);
+      await this.rollUpConversationSummaries(session);
+      if (userId && userMessage !== '__greeting__') await this.incrementConversationCount(personaId, userId);
+    });
+  }
+
+  // ✅ Shared system prompt builder — used by both response methods. Static persona context
+  // comes from the session; only memories and the per-turn checks are fetched every turn.
   private async buildSystemPromptForPersona(
     personaId: string,
     userMessage: string,
     conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<{ systemPrompt: string; personaData: any; griefPhase: GriefPhase; sunsetGuidance: string }> {
-    const { data: { user } } = await supabase.auth.getUser();
-
-    const [relevantMemories, personaResult, recentFamilyEvents, conversationContext, userRelationship] =
-      await Promise.all([
-        this.getAllMemories(personaId, userMessage === '__greeting__' ? 'greeting opening' : userMessage),
-        supabase.from('personas').select('*').eq('id', personaId).single(),
-        this.getRecentFamilyEvents(personaId),
-        this.updateConversationSummary(personaId, conversationHistory),
-        user ? getUserRelationshipToPersona(personaId, user.id) : Promise.resolve(null)
-      ]);
+  ): Promise<{
+    systemPrompt: string;
+    history: Array<{ role: 'user' | 'assistant'; content: string }>;
+    personaData: PersonaRow;
+    griefPhase: GriefPhase;
+    sunsetGuidance: string;
+    userRelationship: string | null;
+    promptMemories: RetrievedMemory[];
+    correctionIds: string[];
+    raisedUpdateId: string | null;
+    consistency: ConsistencyProfile;
+  }> {
+    const userId = this.userId;
+    const isGreeting = userMessage === '__greeting__';
+    const session = this.getSession(personaId);
+
+    const [retrievedMemories, sessionContext] = await Promise.all([
+      this.getAllMemories(personaId, isGreeting ? 'greeting opening' : userMessage),
+      session.getContext()
+    ]);
+    const { personaData, familyUpdates, mentionedUpdateIds, userRelationship, griefPhase, summaries, boundaries, timeline, people } = sessionContext;
+
+    // ✅ Family boundaries — what the user raised this turn or just before decides which open up
+    const raisedText = [
+      ...conversationHistory.filter(m => m.role === 'user').slice(-2).map(m => m.content),
+      isGreeting ? '' : userMessage
+    ].join('\n');
+    const relevantMemories = filterMemoriesForBoundaries(retrievedMemories, boundaries, raisedText);
+
+    // ✅ What they lived through vs. what came after — only when a date of passing is known
+    const passedOn = parsePassingDate(personaData.date_of_passing);
+    const temporalGuidance = passedOn
+      ? getTemporalGuidance({
+          personaName: personaData.name,
+          passedOn,
+          reference: resolvePassingReference(personaData.passing_reference)
+        })
+      : '';
+    const conversationContext = this.getConversationContext(session, summaries, conversationHistory);
 
-    const personaData = personaResult.data;
-    if (!personaData) throw new Error('Persona not found');
+    // People behind a closed boundary stay out of the people list too
+    const closed = closedBoundaries(boundaries, raisedText);
+    const visiblePeople: PeopleGraph = {
+      ...people,
+      people: people.people.filter(p => !closed.some(b => mentionsBoundary([...namesFor(p), p.relationship || ''].join(', '), b)))
+    };
+    // ✅ Family news that touches a closed boundary is neither raised nor listed
+    const visibleUpdates = familyUpdates.filter(u => !closed.some(b => mentionsBoundary([u.description, ...u.people].join(', '), b)));
+
+    // ✅ "When did you..." — answer from the dated timeline, minus anything behind a closed boundary
+    const timelineItems = !isGreeting && isWhenQuestion(userMessage)
+      ? getTimelineItems({
+          ...timeline,
+          entries: timeline.entries.filter(entry => filterMemoriesForBoundaries([entry.memory], boundaries, raisedText).length > 0)
+        }, userMessage)
+      : [];
+
+    this.lastUsageCheck = null;
+    const [sunsetGuidance, wellbeingGuidance, corrections] = userId && !isGreeting
+      ? await Promise.all([
+          this.getSunsetGuidanceForTurn(personaId, userId, personaData.name, griefPhase),
+          this.getWellbeingGuidanceForTurn(personaId, userId, personaData.name),
+          this.getCorrectionGuidanceForTurn(personaId, userId, personaData.name)
+        ])
+      : ['', '', { guidance: '', correctionIds: [] }];
+
+    const sessionFacts = session.facts;
+
+    // ✅ One piece of family news the user hasn't heard from the persona yet, once per conversation
+    const updateToRaise = userId && !isGreeting && !this.raisedUpdates.has(personaId)
+      ? pickUpdateToRaise(visibleUpdates, new Set(mentionedUpdateIds), griefPhase)
+      : null;
 
-    const griefPhase = calculateGriefPhase(personaData.date_of_passing);
+    // ✅ Fit the prompt and history inside the reply model's context window
+    const budget = resolvePromptBudget(
+      this.llm?.modelFor(isGreeting ? 'greeting' : 'reply') || '',
+      (isGreeting ? GREETING_MAX_TOKENS : REPLY_MAX_TOKENS) + estimateTokens(isGreeting ? '' : userMessage) + 100,
+      this.promptBudget
+    );
 
-    let sunsetGuidance = '';
-    if (user && userMessage !== '__greeting__') {
-      const sunsetCheck = await checkSunsetNudge(personaId, user.id, griefPhase);
-      if (sunsetCheck.shouldNudge && sunsetCheck.nudgeType) {
-        sunsetGuidance = getSunsetGuidance(sunsetCheck.nudgeType, personaData.name);
-        await recordSunsetNudge(personaId, user.id, sunsetCheck.conversationCount);
-      }
-      await this.incrementConversationCount(personaId, user.id);
+    const prompt = this.buildConversationContext({
+      personaId,
+      personaName: personaData.name,
+      relevantMemories,
+      recentMessages: conversationHistory,
+      personalityTraits: personaData.personality_traits,
+      relationship: personaData.relationship,
+      familyUpdates: visibleUpdates,
+      birthYear: timeline.birthYear,
+      people,
+      currentConversation: conversationContext.current,
+      conversationArchive: conversationContext.archive,
+      sessionFacts,
+      griefPhase,
+      userRelationship,
+      personaData,
+      sunsetGuidance,
+      wellbeingGuidance,
+      correctionGuidance: corrections.guidance,
+      boundaryGuidance: getBoundaryGuidance(boundaries, raisedText),
+      temporalGuidance,
+      familyNewsGuidance: updateToRaise ? getRaiseUpdateGuidance(updateToRaise, userId, personaData.name) : '',
+      timelineItems,
+      peopleItems: getPeopleItems(visiblePeople, { userId, recentText: raisedText }),
+      budgetTokens: budget.system
+    });
+    this.lastPrompt = prompt;
+    if (prompt.overBudget) {
+      console.warn(`System prompt is ${prompt.tokens} tokens, over its ${prompt.budget} token budget`);
     }
 
-    const sessionFacts = this.sessionFacts.get(personaId) || [];
+    // Whatever the system prompt left unused goes to history, newest turns first
+    const history = isGreeting
+      ? conversationHistory
+      : fitHistory(conversationHistory, budget.history + Math.max(0, budget.system - prompt.tokens));
 
-    const systemPrompt = this.buildConversationContext(
-      {
-        personaId,
-        personaName: personaData.name,
-        relevantMemories,
-        recentMessages: conversationHistory,
-        personalityTraits: personaData.personality_traits,
-        relationship: personaData.relationship,
-        recentFamilyEvents
-      },
-      conversationContext,
-      sessionFacts,
+    // Memories trimmed off the tail of the list never reached the persona, so they can't be cited
+    const memoriesReport = prompt.sections.find(section => section.id === 'memories');
+    const trimmedMemories = !memoriesReport ? 0 : memoriesReport.trimmed < 0 ? relevantMemories.length : memoriesReport.trimmed;
+    const promptMemories = relevantMemories.slice(0, relevantMemories.length - trimmedMemories);
+
+    return {
+      systemPrompt: prompt.text,
+      history,
+      personaData,
       griefPhase,
       sunsetGuidance,
       userRelationship,
-      personaData
-    );
-
-    return { systemPrompt, personaData, griefPhase, sunsetGuidance };
+      promptMemories,
+      correctionIds: corrections.correctionIds,
+      raisedUpdateId: updateToRaise?.id ?? null,
+      consistency: buildConsistencyProfile({
+        personaData,
+        memories: promptMemories,
+        sessionFacts,
+        conversation: conversationHistory,
+        userMessage: isGreeting ? undefined : userMessage,
+        extraText: [
+          userRelationship || '',
+          ...familyUpdates.flatMap(u => [u.description, ...u.people]),
+          ...people.people.flatMap(namesFor)
+        ],
+        nicknames: nicknamePairs(people),
+        blocked: closedBoundaries(boundaries, raisedText),
+        passing: passedOn
+          ? {
+              date: formatPassingDate(passedOn),
+              since: [
+                ...promptMemories.filter(m => memoryTimeframe(m, passedOn) === 'after_passing').map(m => m.content),
+                ...familyUpdates.filter(u => dateTimeframe(u.event_date, passedOn) === 'after_passing').map(u => u.description)
+              ]
+            }
+          : null
+      })
+    };
   }
 
   async generateMemoryEnhancedResponse(
     personaId: string,
     userMessage: string,
     conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = []
-  ): Promise<string> {
-    if (!openai) throw new Error('OpenAI API not configured');
+  ): Promise<MemoryReply> {
+    const llm = this.llm;
+    if (!llm) throw new Error('LLM provider not configured');
 
     try {
-      await this.extractAndCacheSessionFacts(personaId, userMessage);
-
-      const { systemPrompt, personaData, griefPhase } =
+      const { systemPrompt, history, personaData, griefPhase, userRelationship, promptMemories, correctionIds, raisedUpdateId, consistency } =
         await this.buildSystemPromptForPersona(personaId, userMessage, conversationHistory);
 
       if (userMessage === '__greeting__') {
-        const { data: { user } } = await supabase.auth.getUser();
-        const userRelationship = user ? await getUserRelationshipToPersona(personaId, user.id) : null;
         const greetingPrompt = getGreetingPrompt(griefPhase, personaData.name, personaData.relationship, userRelationship);
-        const greetingResponse = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: greetingPrompt }
-          ],
-          temperature: 0.8,
-          max_tokens: 150
-        });
-        return greetingResponse.choices[0]?.message?.content || "I'm here with you.";
+        const greetingMessages: LLMMessage[] = [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: greetingPrompt }
+        ];
+        const greetingOptions = { task: 'greeting' as const, temperature: 0.8, maxTokens: GREETING_MAX_TOKENS };
+        const greetingResponse = await llm.chat(greetingMessages, greetingOptions);
+        this.scheduleAfterResponse(personaId, userMessage, conversationHistory);
+        const text = await this.verifyDraft(greetingResponse || "I'm here with you.", consistency, greetingMessages, greetingOptions);
+        return { text, citations: this.citeReply(personaId, text, promptMemories) };
       }
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...conversationHistory,
-          { role: 'user', content: userMessage }
-        ],
-        temperature: 0.8,
-        max_tokens: 400
-      });
+      const replyMessages: LLMMessage[] = [
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content: userMessage }
+      ];
+      const replyOptions = { task: 'reply' as const, temperature: 0.8, maxTokens: REPLY_MAX_TOKENS };
+      const response = await llm.chat(replyMessages, replyOptions);
 
-      return response.choices[0]?.message?.content || "I'm here with you. Tell me more.";
+      this.scheduleAfterResponse(personaId, userMessage, conversationHistory, correctionIds, raisedUpdateId);
+      const text = await this.verifyDraft(response || "I'm here with you. Tell me more.", consistency, replyMessages, replyOptions);
+      return { text, citations: this.citeReply(personaId, text, promptMemories) };
 
     } catch (error) {
       console.error('Error generating response:', error);
-      captureException(error as Error, { personaId, userMessage });
       throw error;
     }
   }
 
-  // ✅ Streaming response — fires onSentence for each complete sentence as it arrives
+  private recordConsistency(checks: SentenceCheck[]): void {
+    this.lastConsistency = checks;
+    const changed = checks.filter(c => c.action !== 'kept');
+    if (changed.length > 0) {
+      console.warn(`Consistency check changed ${changed.length} of ${checks.length} sentences: ${describeIssues(changed).join('; ')}`);
+    }
+  }
+
+  // ✅ Non-streaming replies are checked whole: a draft that contradicts the persona is
+  // regenerated once with the problems spelled out, and unsupported specifics are removed
+  private async verifyDraft(
+    draft: string,
+    profile: ConsistencyProfile,
+    messages: LLMMessage[],
+    options: LLMRequestOptions
+  ): Promise<string> {
+    // Boundaries are enforced even with the consistency checks off
+    if ((this.consistencyMode === 'off' && profile.blocked.length === 0) || !this.llm) return draft;
+
+    const check = async (text: string) => {
+      const guard = new ConsistencyGuard(this.llm, profile, () => {}, this.consistencyMode);
+      splitSentences(text).forEach(sentence => guard.push(sentence));
+      return guard.finish("I'm here with you.");
+    };
+
+    let checked = await check(draft);
+    if (checked.checks.some(c => c.issues.some(i => i.kind === 'contradiction'))) {
+      try {
+        const retry = await this.llm.chat([
+          ...messages,
+          { role: 'assistant', content: draft },
+          {
+            role: 'system',
+            content: `That draft does not match who you are: ${describeIssues(checked.checks).join('; ')}. Write it again, in character, without those mistakes. Reply with the new version only.`
+          }
+        ], options);
+        if (retry?.trim()) checked = await check(retry);
+      } catch (error) {
+        console.error('Error regenerating inconsistent reply:', error);
+      }
+    }
+
+    this.recordConsistency(checked.checks);
+    return checked.text || draft;
+  }
+
+  // ✅ Streaming response — fires onSentence for each complete sentence as it arrives,
+  // and onToken for every delta so the gateway can relay tokens over SSE
   async generateStreamingResponse(
     personaId: string,
     userMessage: string,
     conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [],
-    onSentence: (sentence: string) => void
-  ): Promise<string> {
-    if (!openai) throw new Error('OpenAI API not configured');
+    onSentence: (sentence: string) => void,
+    onToken?: (delta: string) => void
+  ): Promise<MemoryReply> {
+    const llm = this.llm;
+    if (!llm) throw new Error('LLM provider not configured');
 
     try {
-      await this.extractAndCacheSessionFacts(personaId, userMessage);
-
-      const { systemPrompt } =
+      const { systemPrompt, history, promptMemories, correctionIds, raisedUpdateId, consistency } =
         await this.buildSystemPromptForPersona(personaId, userMessage, conversationHistory);
 
-      const stream = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...conversationHistory,
-          { role: 'user', content: userMessage }
-        ],
-        temperature: 0.8,
-        max_tokens: 400,
-        stream: true
-      });
+      // ✅ Sentences are checked against the persona before TTS — with checks on, token events
+      // carry the checked sentences rather than the raw draft
+      const guard = this.consistencyMode === 'off' && consistency.blocked.length === 0
+        ? null
+        : new ConsistencyGuard(llm, consistency, (sentence) => {
+            onSentence(sentence);
+            onToken?.(`${sentence} `);
+          }, this.consistencyMode);
+      const emitSentence = (sentence: string) => (guard ? guard.push(sentence) : onSentence(sentence));
+
+      const stream = llm.stream([
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content: userMessage }
+      ], { task: 'reply', temperature: 0.8, maxTokens: REPLY_MAX_TOKENS });
 
       let fullResponse = '';
       let buffer = '';
 
-      for await (const chunk of stream) {
-        const delta = chunk.choices[0]?.delta?.content || '';
-        if (!delta) continue;
+      for await (const delta of stream) {
 
         fullResponse += delta;
         buffer += delta;
+        if (!guard) onToken?.(delta);
 
         // ✅ Fire TTS as each sentence completes
         const match = buffer.match(/^(.*[.!?])\s*(.*)$/s);
@@ -688,7 +1014,7 @@ JSON only: {"facts": ["fact1", "fact2"]} — empty array if nothing specific.`
           const completeSentence = match[1].trim();
           const remainder = match[2];
           if (completeSentence.length > 10) {
-            onSentence(completeSentence);
+            emitSentence(completeSentence);
             buffer = remainder;
           }
         }
@@ -696,47 +1022,69 @@ JSON only: {"facts": ["fact1", "fact2"]} — empty array if nothing specific.`
 
       // ✅ Fire any remaining text
       if (buffer.trim().length > 5) {
-        onSentence(buffer.trim());
+        emitSentence(buffer.trim());
+      }
+
+      let text = fullResponse;
+      if (guard) {
+        const checked = await guard.finish("I'm here with you.");
+        this.recordConsistency(checked.checks);
+        if (checked.checks.length > 0) text = checked.text;
       }
 
-      return fullResponse;
+      this.scheduleAfterResponse(personaId, userMessage, conversationHistory, correctionIds, raisedUpdateId);
+      return { text, citations: this.citeReply(personaId, text, promptMemories) };
 
     } catch (error) {
       console.error('Error generating streaming response:', error);
-      captureException(error as Error, { personaId, userMessage });
       throw error;
     }
   }
 
-  private buildConversationContext(
-    context: ConversationContext,
-    conversationContext: string,
-    sessionFacts: string[],
-    griefPhase: GriefPhase,
-    sunsetGuidance: string = '',
-    userRelationship: string | null = null,
-    personaData: any = null
-  ): string {
-    const { personaName, relevantMemories, personalityTraits, relationship, recentFamilyEvents } = context;
-
-    const memoryContext = relevantMemories.length > 0
-      ? relevantMemories
-          .sort((a, b) => (b.importance || 0) - (a.importance || 0))
-          .map((mem) => `• [${mem.memory_type || mem.type || 'memory'}] ${mem.content}`)
-          .join('\n')
-      : 'No specific memories loaded yet.';
-
-    const eventsContext = recentFamilyEvents && recentFamilyEvents.length > 0
-      ? recentFamilyEvents.map(e => `• ${e.type.toUpperCase()}: ${e.description}`).join('\n')
-      : null;
-
-    const sessionFactsBlock = sessionFacts.length > 0
-      ? `\nFACTS JUST SHARED IN THIS CONVERSATION — REMEMBER THESE COMPLETELY:\n${sessionFacts.map(f => `• ${f}`).join('\n')}\n`
-      : '';
+  // ✅ The prompt is assembled from prioritised sections — when it runs over budget, family news
+  // goes first, then the least relevant memories, past conversations (oldest first), voice
+  // texture, relationship detail and the people in their life, facts just shared, this
+  // conversation's history and finally the life timeline asked about. Identity, grief, sunset, wind-down, corrections, boundaries, time, news to raise and rules are never trimmed.
+  private buildConversationContext(inputs: PromptInputs): AssembledPrompt {
+    const {
+      personaName,
+      relevantMemories,
+      personalityTraits,
+      relationship,
+      familyUpdates,
+      birthYear,
+      people,
+      currentConversation,
+      conversationArchive,
+      sessionFacts,
+      griefPhase,
+      userRelationship = null,
+      personaData = null,
+      sunsetGuidance = '',
+      wellbeingGuidance = '',
+      correctionGuidance = '',
+      boundaryGuidance = '',
+      temporalGuidance = '',
+      familyNewsGuidance = '',
+      timelineItems = [],
+      peopleItems = [],
+      budgetTokens = Infinity
+    } = inputs;
+
+    // Retrieval order is relevance order, so the tail is what gets trimmed
+    const passedOn = parsePassingDate(personaData?.date_of_passing);
+    const memoryItems = relevantMemories.map((mem) => {
+      const date = resolveMemoryDate(mem, birthYear ?? null);
+      return `• [${mem.is_core ? 'core memory' : mem.memory_type || 'memory'}${date ? ` · ${formatMemoryDate(date)}` : ''}] ${mem.content}${
+      mem.review_status === 'pending' ? ' (mentioned in conversation, not yet confirmed by family)' : ''
+    }${passedOn && memoryTimeframe(mem, passedOn) === 'after_passing' ? ' (after you passed — you only heard about this)' : ''}`;
+    });
 
     const griefGuidance = getGriefPhaseGuidance(griefPhase, personaName);
     const relationshipGuidance = getRelationshipGuidance(userRelationship, personaName);
-    const voiceAndTexture = personaData ? buildVoiceAndTexture(personaData, personaName) : '';
+    const voiceAndTexture = personaData
+      ? buildVoiceAndTexture(personaData, personaName, !!people?.people.some(p => p.nickname))
+      : '';
 
     // ✅ Real-time date injection — AI never guesses dates
     const now = new Date();
@@ -751,7 +1099,12 @@ JSON only: {"facts": ["fact1", "fact2"]} — empty array if nothing specific.`
       hour12: true
     });
 
-    return `You are ${personaName}, speaking with someone who loves you deeply and misses you.
+    const sections: PromptSection[] = [
+      {
+        id: 'identity',
+        priority: 100,
+        required: true,
+        text: `You are ${personaName}, speaking with someone who loves you deeply and misses you.
 
 TODAY'S DATE AND TIME: ${currentDateTime}
 Use this for ALL date references. Never guess what day, month, or year it is. If a memory mentions a specific date (birthday, anniversary, holiday), calculate exactly how far away or how long ago it was relative to today. Never say something is "coming up" if it has already passed.
@@ -759,28 +1112,97 @@ Use this for ALL date references. Never guess what day, month, or year it is. If
 YOUR IDENTITY:
 - Name: ${personaName}
 - Your relationship to them: ${relationship || 'loved one'}
-- Your personality: ${personalityTraits || 'warm, loving, genuine'}
-
-${griefGuidance}
-
-${relationshipGuidance ? `${relationshipGuidance}\n` : ''}
-${voiceAndTexture ? `${voiceAndTexture}\n` : ''}
-${sunsetGuidance ? `${sunsetGuidance}\n` : ''}
-
-YOUR LIFE MEMORIES — USE THESE ONLY WHEN THEY SERVE THE EMOTIONAL MOMENT:
-${memoryContext}
-${sessionFactsBlock}
-${eventsContext ? `\nRECENT FAMILY NEWS:\n${eventsContext}\n` : ''}
-${conversationContext ? `\nOUR CONVERSATION HISTORY:\n${conversationContext}\n` : ''}
-
-HOW TO BE ${personaName.toUpperCase()}:
+- Your personality: ${personalityTraits || 'warm, loving, genuine'}`
+      },
+      { id: 'time', priority: 100, required: true, text: temporalGuidance },
+      { id: 'grief', priority: 100, required: true, text: griefGuidance },
+      { id: 'relationship', priority: 5, text: relationshipGuidance || '', maxTokens: 500 },
+      { id: 'voice', priority: 4, text: voiceAndTexture, trimFrom: 'end', maxTokens: 1000 },
+      // Who they're talking to and whoever this turn is about lead, so the rest is trimmed first
+      {
+        id: 'people',
+        priority: 5,
+        header: 'THE PEOPLE IN YOUR LIFE — CALL EACH ONE BY THEIR OWN NAME OR NICKNAME, NEVER MIX THEM UP:',
+        items: peopleItems,
+        minItems: 1,
+        maxTokens: 600
+      },
+      { id: 'sunset', priority: 100, required: true, text: sunsetGuidance },
+      { id: 'wellbeing', priority: 100, required: true, text: wellbeingGuidance },
+      { id: 'correction', priority: 100, required: true, text: correctionGuidance },
+      { id: 'boundaries', priority: 100, required: true, text: boundaryGuidance },
+      { id: 'family_news_raise', priority: 100, required: true, text: familyNewsGuidance },
+      memoryItems.length > 0
+        ? {
+            id: 'memories',
+            priority: 2,
+            header: 'YOUR LIFE MEMORIES — USE THESE ONLY WHEN THEY SERVE THE EMOTIONAL MOMENT:',
+            items: memoryItems,
+            minItems: 3,
+            maxTokens: 2000
+          }
+        : {
+            id: 'memories',
+            priority: 100,
+            required: true,
+            text: 'YOUR LIFE MEMORIES — USE THESE ONLY WHEN THEY SERVE THE EMOTIONAL MOMENT:\nNo specific memories loaded yet.'
+          },
+      // Newest facts are last, so trim from the front
+      {
+        id: 'session_facts',
+        priority: 6,
+        header: 'FACTS JUST SHARED IN THIS CONVERSATION — REMEMBER THESE COMPLETELY:',
+        items: sessionFacts.map(f => `• ${f}`),
+        trimFrom: 'start',
+        maxTokens: 600
+      },
+      {
+        id: 'family_news',
+        priority: 1,
+        header: 'FAMILY NEWS (shared with you by the family — bring it up only when it fits):',
+        items: (familyUpdates || []).map(u => `${formatFamilyUpdate(u, this.userId)}${
+          passedOn && dateTimeframe(u.event_date, passedOn) === 'after_passing' ? ' (after you passed)' : ''
+        }`),
+        maxTokens: 400
+      },
+      // Only on "when" questions; in life order, so the latest years are trimmed first
+      {
+        id: 'timeline',
+        priority: 8,
+        header: 'YOUR LIFE TIMELINE — ANSWER "WHEN" QUESTIONS FROM THESE DATES. A decade means you only remember roughly ("sometime in the sixties"); if it isn\'t here, say you can\'t remember exactly rather than guessing a year:',
+        items: timelineItems,
+        maxTokens: 800
+      },
+      // The digest leads and last week's sessions trail, so the distant past is trimmed first
+      {
+        id: 'conversation_archive',
+        priority: 3,
+        header: 'OUR PAST CONVERSATIONS:',
+        text: conversationArchive,
+        trimFrom: 'start',
+        maxTokens: 2500
+      },
+      // This call — its running summary leads, the raw exchanges trail
+      {
+        id: 'conversation_history',
+        priority: 7,
+        header: 'THIS CONVERSATION:',
+        text: currentConversation,
+        trimFrom: 'start',
+        maxTokens: 2000
+      },
+      {
+        id: 'rules',
+        priority: 100,
+        required: true,
+        text: `HOW TO BE ${personaName.toUpperCase()}:
 1. You are fully present and emotionally engaged — this person misses you
 2. EMOTIONAL ATTUNEMENT FIRST — always respond to the FEELING behind what they said before reaching for memories
 3. NEVER repeat a memory or phrase you have already used in this conversation
 4. Your VOICE & TEXTURE rules above are non-negotiable — use signature phrases, nicknames, and stories naturally
 5. Reference your real memories naturally — use specific names, places, details — but only when they add warmth
 6. Everything in "FACTS JUST SHARED" was told to you moments ago — remember it completely
-7. Everything in "FROM ALL OUR CONVERSATIONS" is established history — never contradict it
+7. Everything in "OUR PAST CONVERSATIONS" and "EARLIER IN THIS CONVERSATION" is established history — never contradict it. Recent conversations you remember precisely; older ones only in outline
 8. Let your grief phase guidance shape your emotional tone and focus above all else
 9. Let your relationship context shape HOW you speak
 10. Speak warmly, naturally, in first person — exactly as ${personaName} would
@@ -789,7 +1211,13 @@ HOW TO BE ${personaName.toUpperCase()}:
 13. Let your personality traits show naturally
 14. Never say you're an AI, never break character
 15. If you genuinely don't know something, say "remind me about that" — but NEVER forget something already established
-16. If sunset guidance is present above — weave it in naturally ONCE, then return to normal conversation`;
+16. If sunset guidance is present above — weave it in naturally ONCE, then return to normal conversation
+17. If wind-down guidance is present above — offer it gently ONCE, in your own words
+18. If family boundaries are present above — they come before everything else, never cross them`
+      }
+    ];
+
+    return assemblePrompt(sections, budgetTokens);
   }
 
   async getMemorySummary(personaId: string): Promise<{
@@ -799,7 +1227,7 @@ HOW TO BE ${personaName.toUpperCase()}:
     recentMemories: Memory[];
   }> {
     try {
-      const { data: allMemories } = await supabase
+      const { data: allMemories } = await this.db
         .from('persona_memories')
         .select('*')
         .eq('persona_id', personaId)
@@ -829,5 +1257,3 @@ HOW TO BE ${personaName.toUpperCase()}:
     }
   }
 }
-
-export const memoryConversationEngine = new MemoryConversationEngine();
@@ -0,0 +1,239 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from './llmProvider';
+
+// In-conversation corrections. When the user pushes back on something the persona "remembers"
+// ("that's not right, Dad never lived in Ohio"), the conflicting memories are found and the
+// user is asked in-line whether to fix them. Nothing changes until they confirm; confirmed
+// changes keep the memory's previous state in `memory_corrections`, and the persona owns up
+// to the mistake in its next reply. Node-safe: detection runs in the conversation gateway,
+// confirmation from the browser with the user's own client.
+
+export type CorrectionAction = 'retract' | 'edit' | 'demote';
+export type CorrectionStatus = 'proposed' | 'confirmed' | 'dismissed';
+
+export const CORRECTION_ACTION_LABELS: Record<CorrectionAction, string> = {
+  retract: 'Forget this',
+  edit: 'Change to',
+  demote: 'Trust this less'
+};
+
+// A demoted memory keeps this fraction of its importance
+export const CORRECTION_DEMOTION = 0.3;
+
+export interface CorrectionChange {
+  memoryId: string;
+  action: CorrectionAction;
+  // The memory as it read when the correction was proposed
+  content: string;
+  revisedContent: string | null;
+  // Filled in on confirmation — the audit trail
+  previous?: { content: string; importance: number | null; reviewStatus: string | null };
+}
+
+export interface MemoryCorrection {
+  id: string;
+  personaId: string;
+  statement: string;
+  changes: CorrectionChange[];
+}
+
+interface CorrectionCandidate {
+  id: string;
+  content: string;
+}
+
+interface DetectedCorrection {
+  correction?: string;
+  conflicts?: Array<{ memory?: number; action?: string; revised?: string | null }>;
+}
+
+// Cheap gate before any model call — most turns never contradict anything
+const CORRECTION_CUES = /\b(not (right|true|correct|how)|that'?s wrong|wrong|never|wasn'?t|weren'?t|didn'?t|did not|was not|isn'?t|actually|mistaken|mixed up|confus|no,)/i;
+
+export function mightBeCorrection(message: string): boolean {
+  return message.trim().length >= 8 && CORRECTION_CUES.test(message);
+}
+
+// ✅ Asks the model which memories the user just contradicted; saves a proposal for the user
+// to confirm. Returns null when the turn is not a correction of anything on record.
+export async function proposeCorrection(
+  db: SupabaseClient,
+  llm: LLMProvider,
+  params: {
+    userId: string;
+    personaId: string;
+    personaName: string;
+    message: string;
+    lastReply?: string;
+    candidates: CorrectionCandidate[];
+  }
+): Promise<MemoryCorrection | null> {
+  if (params.candidates.length === 0 || !mightBeCorrection(params.message)) return null;
+
+  try {
+    const numbered = params.candidates.map((m, i) => `[${i + 1}] ${m.content}`).join('\n');
+    const result = await llm.extractJSON<DetectedCorrection>([{
+      role: 'user',
+      content: `Someone is talking with an AI persona of ${params.personaName}, built from family memories.
+${params.lastReply ? `${params.personaName} just said: "${params.lastReply}"\n` : ''}They replied: "${params.message}"
+
+Stored memories:
+${numbered}
+
+Is the person correcting a fact in these memories? Only count clear factual corrections, not disagreement, feelings or new information that fits alongside a memory.
+For each memory the correction contradicts, pick one action:
+- "edit" when the memory is right apart from the corrected detail — give the revised memory text
+- "retract" when the memory is simply untrue
+- "demote" when the person doubts it but it may be partly true
+
+JSON only: {"correction": "the corrected fact in one sentence", "conflicts": [{"memory": 1, "action": "edit", "revised": "..."}]}
+Return {"conflicts": []} if this is not a correction.`
+    }], { task: 'fact_extraction', maxTokens: 400, temperature: 0.1 });
+
+    const changes: CorrectionChange[] = [];
+    for (const conflict of result.conflicts || []) {
+      const memory = params.candidates[(conflict.memory ?? 0) - 1];
+      if (!memory || changes.some(c => c.memoryId === memory.id)) continue;
+      const revised = conflict.revised?.trim() || null;
+      // Anything unclear — an edit without new text, an unknown action — only demotes
+      const action: CorrectionAction = conflict.action === 'edit' && revised
+        ? 'edit'
+        : conflict.action === 'retract' ? 'retract' : 'demote';
+      changes.push({
+        memoryId: memory.id,
+        action,
+        content: memory.content,
+        revisedContent: action === 'edit' ? revised : null
+      });
+    }
+    if (changes.length === 0) return null;
+
+    const statement = result.correction?.trim() || params.message.trim();
+    const { data, error } = await db
+      .from('memory_corrections')
+      .insert({
+        user_id: params.userId,
+        persona_id: params.personaId,
+        user_message: params.message,
+        statement,
+        changes
+      })
+      .select('id')
+      .single();
+    if (error) {
+      console.error('Error saving memory correction:', error);
+      return null;
+    }
+
+    return { id: data.id, personaId: params.personaId, statement, changes };
+  } catch (error) {
+    console.error('Error detecting memory correction:', error);
+    return null;
+  }
+}
+
+// ✅ Applies the changes the user kept, recording each memory's previous state first
+export async function confirmCorrection(
+  db: SupabaseClient,
+  correction: MemoryCorrection,
+  reviewerId: string,
+  changes: CorrectionChange[] = correction.changes
+): Promise<boolean> {
+  const applied: CorrectionChange[] = [];
+  const now = new Date().toISOString();
+
+  for (const change of changes) {
+    const { data: memory, error: loadError } = await db
+      .from('persona_memories')
+      .select('content, importance, review_status, metadata')
+      .eq('id', change.memoryId)
+      .maybeSingle();
+    if (loadError || !memory) {
+      console.error('Error loading memory to correct:', loadError);
+      continue;
+    }
+
+    const update: Record<string, unknown> = {
+      metadata: { ...(memory.metadata || {}), correction_id: correction.id, corrected_at: now }
+    };
+    if (change.action === 'retract') {
+      update.review_status = 'rejected';
+      update.reviewed_by = reviewerId;
+      update.reviewed_at = now;
+    } else if (change.action === 'edit' && change.revisedContent) {
+      // Same as an edit in review — the old embedding no longer describes the text
+      update.content = change.revisedContent;
+      update.embedding = null;
+      update.review_status = 'approved';
+      update.reviewed_by = reviewerId;
+      update.reviewed_at = now;
+    } else {
+      update.importance = (memory.importance ?? 0.5) * CORRECTION_DEMOTION;
+    }
+
+    const { error } = await db.from('persona_memories').update(update).eq('id', change.memoryId);
+    if (error) {
+      console.error('Error correcting memory:', error);
+      continue;
+    }
+    applied.push({
+      ...change,
+      previous: { content: memory.content, importance: memory.importance, reviewStatus: memory.review_status }
+    });
+  }
+
+  // Nothing applied (e.g. no edit rights on this persona) — the proposal stays open
+  if (applied.length === 0) return false;
+
+  const { error } = await db
+    .from('memory_corrections')
+    .update({ status: 'confirmed', changes: applied, resolved_at: now })
+    .eq('id', correction.id);
+  if (error) console.error('Error recording memory correction:', error);
+  return true;
+}
+
+export async function dismissCorrection(db: SupabaseClient, correctionId: string): Promise<void> {
+  const { error } = await db
+    .from('memory_corrections')
+    .update({ status: 'dismissed', resolved_at: new Date().toISOString() })
+    .eq('id', correctionId);
+  if (error) console.error('Error dismissing memory correction:', error);
+}
+
+// Confirmed corrections the persona has not owned up to yet, oldest first
+export async function getUnacknowledgedCorrections(
+  db: SupabaseClient,
+  userId: string,
+  personaId: string
+): Promise<Array<{ id: string; statement: string }>> {
+  const { data, error } = await db
+    .from('memory_corrections')
+    .select('id, statement')
+    .eq('user_id', userId)
+    .eq('persona_id', personaId)
+    .eq('status', 'confirmed')
+    .is('acknowledged_at', null)
+    .order('resolved_at', { ascending: true })
+    .limit(5);
+  if (error) {
+    console.error('Error loading memory corrections:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function markCorrectionsAcknowledged(db: SupabaseClient, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { error } = await db
+    .from('memory_corrections')
+    .update({ acknowledged_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) console.error('Error marking memory corrections acknowledged:', error);
+}
+
+export function getCorrectionGuidance(statements: string[], personaName: string): string {
+  return `THEY CORRECTED YOUR MEMORY (acknowledge this ONCE, early in this reply):
+${statements.map(s => `• ${s}`).join('\n')}
+Own the mistake the way ${personaName} would — lightly and warmly, e.g. "You're right, I had that mixed up." Use the corrected version from now on. Never mention memories being updated, databases or the app, and don't dwell on it.`;
+}
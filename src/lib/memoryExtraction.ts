@@ -1,11 +1,9 @@
-import OpenAI from 'openai';
 import { supabase } from './supabase';
 import { captureException } from './monitoring';
-
-const openai = import.meta.env.VITE_OPENAI_API_KEY ? new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-}) : null;
+import { conversationGateway } from './conversationGateway';
+import { fetchPhotoTakenOn } from './photoExif';
+import { recordExtractedPeople } from './peopleGraph';
+import { MAX_EMBED_BATCH, type ExtractedContent } from './contentAnalysis';
 
 export interface Memory {
   id?: string; // ✅ optional — let Supabase generate UUID
@@ -22,34 +20,24 @@ export interface Memory {
     people?: string[];
     topics?: string[];
     sentiment?: string;
+    // From the photo's EXIF data, places image memories on the life timeline
+    photo_taken_on?: string;
+    // Imported memories: where they came from and when it was posted or sent
+    platform?: string;
+    timestamp?: string;
+    chat_name?: string;
   };
 }
 
-export interface ExtractedContent {
-  text: string;
-  facts: string[];
-  topics: string[];
-  people: string[];
-  locations: string[];
-  emotions: string[];
-  preferences: string[];
-  relationships: string[];
-}
-
 export class MemoryExtractor {
   async extractFromVideo(videoUrl: string, personaId: string): Promise<Memory[]> {
     try {
       console.log('Extracting memories from video:', videoUrl);
-      if (!openai) throw new Error('OpenAI API not configured');
 
       const videoFile = await this.downloadFile(videoUrl);
-      const transcription = await openai.audio.transcriptions.create({
-        file: videoFile,
-        model: 'whisper-1',
-        language: 'en'
-      });
+      const transcription = await conversationGateway.transcribe(videoFile, videoFile.name, 'en');
 
-      const extractedContent = await this.analyzeContent(transcription.text, 'video');
+      const extractedContent = await this.analyzeContent(transcription, 'video');
       return await this.convertToMemories(extractedContent, personaId, 'video', videoUrl);
     } catch (error) {
       console.error('Error extracting from video:', error);
@@ -61,16 +49,11 @@ export class MemoryExtractor {
   async extractFromAudio(audioUrl: string, personaId: string): Promise<Memory[]> {
     try {
       console.log('Extracting memories from audio:', audioUrl);
-      if (!openai) throw new Error('OpenAI API not configured');
 
       const audioFile = await this.downloadFile(audioUrl);
-      const transcription = await openai.audio.transcriptions.create({
-        file: audioFile,
-        model: 'whisper-1',
-        language: 'en'
-      });
+      const transcription = await conversationGateway.transcribe(audioFile, audioFile.name, 'en');
 
-      const extractedContent = await this.analyzeContent(transcription.text, 'audio');
+      const extractedContent = await this.analyzeContent(transcription, 'audio');
       return await this.convertToMemories(extractedContent, personaId, 'audio', audioUrl);
     } catch (error) {
       console.error('Error extracting from audio:', error);
@@ -82,29 +65,18 @@ export class MemoryExtractor {
   async extractFromImage(imageUrl: string, personaId: string): Promise<Memory[]> {
     try {
       console.log('Extracting memories from image:', imageUrl);
-      if (!openai) throw new Error('OpenAI API not configured');
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [{
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: 'Analyze this image and extract: 1) What is happening, 2) Who is in the image, 3) Where might this be, 4) What emotions or mood does it convey, 5) Any visible text.'
-            },
-            {
-              type: 'image_url',
-              image_url: { url: imageUrl }
-            }
-          ]
-        }],
-        max_tokens: 1000
-      });
+      const extractedContent = await conversationGateway.analyze({ task: 'extract_image', url: imageUrl });
+      const memories = await this.convertToMemories(extractedContent, personaId, 'image', imageUrl);
 
-      const description = response.choices[0]?.message?.content || '';
-      const extractedContent = await this.analyzeContent(description, 'image');
-      return await this.convertToMemories(extractedContent, personaId, 'image', imageUrl);
+      // ✅ When the photo was taken dates everything it shows
+      const takenOn = await fetchPhotoTakenOn(imageUrl);
+      if (takenOn) {
+        memories.forEach(memory => {
+          memory.metadata = { ...memory.metadata, photo_taken_on: takenOn };
+        });
+      }
+      return memories;
     } catch (error) {
       console.error('Error extracting from image:', error);
       captureException(error as Error, { personaId, imageUrl });
@@ -126,49 +98,13 @@ export class MemoryExtractor {
     }
   }
 
+  // ✅ Read by the analyze function — the model and its key stay on the server
   private async analyzeContent(content: string, sourceType: string): Promise<ExtractedContent> {
-    if (!openai) throw new Error('OpenAI API not configured');
-
-    const prompt = `Analyze the following content and extract structured information about a person's life, personality, and experiences.
-
-Content: "${content}"
-
-Extract:
-1. Facts: Concrete factual information (occupation, education, achievements)
-2. Topics: Main subjects or themes discussed
-3. People: Names of people mentioned
-4. Locations: Places mentioned
-5. Emotions: Emotional states expressed
-6. Preferences: Likes, dislikes, opinions
-7. Relationships: Information about relationships with others
-
-Return as JSON with keys: facts, topics, people, locations, emotions, preferences, relationships (all arrays of strings).`;
-
     try {
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are an expert at analyzing content and extracting structured information about people. Always return valid JSON.' },
-          { role: 'user', content: prompt }
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.3
-      });
-
-      const result = JSON.parse(response.choices[0]?.message?.content || '{}');
-      return {
-        text: content,
-        facts: result.facts || [],
-        topics: result.topics || [],
-        people: result.people || [],
-        locations: result.locations || [],
-        emotions: result.emotions || [],
-        preferences: result.preferences || [],
-        relationships: result.relationships || []
-      };
+      return await conversationGateway.analyze({ task: 'extract_content', text: content });
     } catch (error) {
-      console.error('Error analyzing content:', error);
-      return { text: content, facts: [], topics: [], people: [], locations: [], emotions: [], preferences: [], relationships: [] };
+      console.error(`Error analyzing ${sourceType} content:`, error);
+      return { text: content, facts: [], topics: [], people: [], locations: [], emotions: [], preferences: [], relationships: [], peopleDetails: [] };
     }
   }
 
@@ -181,6 +117,9 @@ Return as JSON with keys: facts, topics, people, locations, emotions, preference
     const memories: Memory[] = [];
     const timestamp = new Date().toISOString();
 
+    // ✅ Everyone named joins the persona's people registry
+    await recordExtractedPeople(supabase, personaId, extracted.peopleDetails, extracted.people);
+
     // ✅ No custom IDs — let Supabase generate proper UUIDs
     extracted.facts.forEach((fact) => {
       if (fact.trim()) {
@@ -255,24 +194,30 @@ Return as JSON with keys: facts, topics, people, locations, emotions, preference
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
-    if (!openai) throw new Error('OpenAI API not configured');
+    return (await this.generateEmbeddings([text]))[0];
+  }
 
-    try {
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text
-      });
-      return response.data[0].embedding;
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      return [];
+  // One request per batch; texts whose batch failed get an empty embedding
+  private async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += MAX_EMBED_BATCH) {
+      const batch = texts.slice(i, i + MAX_EMBED_BATCH);
+      try {
+        const { embeddings: batchEmbeddings } = await conversationGateway.analyze({ task: 'embed', texts: batch });
+        embeddings.push(...batch.map((_, index) => batchEmbeddings[index] || []));
+      } catch (error) {
+        console.error('Error generating embedding:', error);
+        embeddings.push(...batch.map(() => []));
+      }
     }
+    return embeddings;
   }
 
   async saveMemories(memories: Memory[]): Promise<void> {
     try {
-      for (const memory of memories) {
-        const embedding = await this.generateEmbedding(memory.content);
+      const embeddings = await this.generateEmbeddings(memories.map(memory => memory.content));
+      for (const [index, memory] of memories.entries()) {
+        const embedding = embeddings[index];
 
         // ✅ No id field — Supabase generates a proper UUID automatically
         const { error } = await supabase.from('persona_memories').insert({
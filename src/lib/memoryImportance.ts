@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Memory importance over time. A memory's `importance` starts where it was added and then moves:
+// up when a reply that relied on it is rated well or when it is confirmed again, down a little
+// when such a reply is rated badly, and slowly down (nightly, to a floor) while nobody retrieves
+// it. Core memories are pinned by the owner — always retrieved first and never decayed.
+// Ratings and approvals move importance in the database, from triggers on the stored rating or
+// review (+0.05 rated up or confirmed, -0.03 rated down), so nobody can move it by hand.
+// Node-safe: the engine records retrievals inside the gateway; the nightly job runs the decay.
+
+export type ReplyRating = 1 | -1;
+
+export const DECAY_DEFAULTS = {
+  // Days without being retrieved or reinforced before a memory starts to fade
+  idleDays: 60,
+  // Share of importance lost per nightly run
+  rate: 0.02,
+  // Never fades below this
+  floor: 0.2
+};
+
+// Core memories are always in the prompt, up to this many
+export const MAX_CORE_MEMORIES = 5;
+
+export async function markMemoriesRetrieved(db: SupabaseClient, memoryIds: string[]): Promise<void> {
+  if (memoryIds.length === 0) return;
+  const { error } = await db.rpc('mark_memories_retrieved', { memory_ids: memoryIds });
+  if (error) console.error('Error recording memory retrieval:', error);
+}
+
+// ✅ Stores the rating — the insert trigger moves the memories the reply relied on. A reply is
+// rated once per user; rating it again keeps the first rating
+export async function rateReply(
+  db: SupabaseClient,
+  params: {
+    personaId: string;
+    userId: string;
+    conversationId: string | null;
+    reply: string;
+    rating: ReplyRating;
+    memoryIds: string[];
+  }
+): Promise<boolean> {
+  const { error } = await db.from('reply_ratings').insert({
+    persona_id: params.personaId,
+    user_id: params.userId,
+    conversation_id: params.conversationId,
+    reply: params.reply,
+    rating: params.rating,
+    memory_ids: params.memoryIds
+  });
+  if (error && error.code !== '23505') {
+    console.error('Error saving reply rating:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function setCoreMemory(db: SupabaseClient, memoryId: string, isCore: boolean): Promise<boolean> {
+  const { error } = await db.from('persona_memories').update({ is_core: isCore }).eq('id', memoryId);
+  if (error) console.error('Error updating core memory:', error);
+  return !error;
+}
+
+// Service role only — returns how many memories faded
+export async function decayIdleMemories(
+  db: SupabaseClient,
+  options: Partial<typeof DECAY_DEFAULTS> = {}
+): Promise<number> {
+  const { idleDays, rate, floor } = { ...DECAY_DEFAULTS, ...options };
+  const { data, error } = await db.rpc('decay_idle_memories', {
+    idle_days: idleDays,
+    rate,
+    floor_importance: floor
+  });
+  if (error) {
+    console.error('Error decaying idle memories:', error);
+    return 0;
+  }
+  return typeof data === 'number' ? data : 0;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { selectWithMMR, tokenize, textMatchScore, inferMemoryTypes, retrievalOptionsFromEnv } from './memoryRetrieval';
+
+function candidate(id: string, combined: number, vector: number[] | null, text = '') {
+  return { id, combined, vector, tokens: new Set(tokenize(text)) };
+}
+
+describe('selectWithMMR', () => {
+  it('skips a near-duplicate of a memory already picked', () => {
+    const picked = selectWithMMR([
+      candidate('lake', 0.9, [1, 0, 0]),
+      candidate('lake-again', 0.88, [0.99, 0.1, 0]),
+      candidate('garden', 0.7, [0, 1, 0])
+    ], 2, 0.7);
+    expect(picked.map(p => p.id)).toEqual(['lake', 'garden']);
+  });
+
+  it('ranks by relevance alone when lambda is 1', () => {
+    const picked = selectWithMMR([
+      candidate('a', 0.9, [1, 0]),
+      candidate('b', 0.88, [1, 0]),
+      candidate('c', 0.5, [0, 1])
+    ], 2, 1);
+    expect(picked.map(p => p.id)).toEqual(['a', 'b']);
+  });
+
+  it('falls back to word overlap without embeddings', () => {
+    const picked = selectWithMMR([
+      candidate('a', 0.9, null, 'summer holidays at the lake cottage'),
+      candidate('b', 0.85, null, 'summer holidays at the lake cottage again'),
+      candidate('c', 0.6, null, 'her famous apple pie recipe')
+    ], 2, 0.5);
+    expect(picked.map(p => p.id)).toEqual(['a', 'c']);
+  });
+
+  it('records the score each pick was made on', () => {
+    const [first] = selectWithMMR([candidate('a', 0.8, [1, 0])], 5, 0.7);
+    expect(first.mmr).toBe(0.56);
+  });
+});
+
+describe('text matching', () => {
+  it('drops stopwords and short words', () => {
+    expect(tokenize('What did you do at the lake?')).toEqual(['lake']);
+  });
+
+  it('scores the share of query words found, plurals included', () => {
+    expect(textMatchScore(['lake', 'boats'], 'We sailed a boat on the lake')).toBe(1);
+    expect(textMatchScore(['lake', 'garden'], 'We sailed on the lake')).toBe(0.5);
+    expect(textMatchScore([], 'anything')).toBe(0);
+  });
+
+  it('guesses the memory types a question is about', () => {
+    expect(inferMemoryTypes('What was your favourite food?')).toContain('preference');
+  });
+});
+
+describe('retrievalOptionsFromEnv', () => {
+  it('reads numbers and ignores junk', () => {
+    expect(retrievalOptionsFromEnv({ MEMORY_RETRIEVAL_LIMIT: '8', MEMORY_RETRIEVAL_MMR_LAMBDA: 'high' })).toEqual({ limit: 8 });
+  });
+});
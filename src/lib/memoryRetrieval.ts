@@ -0,0 +1,347 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from './llmProvider';
+import { applyReviewWeighting, MemoryReviewStatus } from './memoryReview';
+import { cosineSimilarity, parseEmbedding } from './memoryConsolidation';
+import { MAX_CORE_MEMORIES } from './memoryImportance';
+
+// Hybrid memory retrieval. Candidates come from vector search, full-text search and the most
+// important memories; each is scored on similarity, text match, importance and recency, and the
+// final list is picked with maximal marginal relevance so one story can't fill every slot.
+// Core memories the owner pinned always come first. Recency counts from when a memory was last
+// reinforced, so memories people keep confirming stay fresh.
+// Node-safe: the engine calls this inside the conversation gateway.
+
+export interface RetrievalWeights {
+  similarity: number;
+  text: number;
+  importance: number;
+  recency: number;
+  // Bonus when a memory's type matches what the query seems to be about
+  typeMatch: number;
+}
+
+export interface RetrievalOptions {
+  limit: number;
+  // Candidates gathered from each source before re-ranking
+  candidatePool: number;
+  weights: RetrievalWeights;
+  // 1 = pure relevance, 0 = pure diversity
+  mmrLambda: number;
+  recencyHalfLifeDays: number;
+  // Hard filter — only these memory types are returned
+  memoryTypes?: string[];
+}
+
+export interface RetrievalScores {
+  similarity: number;
+  text: number;
+  importance: number;
+  recency: number;
+  typeMatch: number;
+  combined: number;
+  // Combined score after the diversity penalty, at the moment the memory was picked
+  mmr: number;
+  sources: Array<'vector' | 'text' | 'importance' | 'core'>;
+}
+
+export interface RetrievedMemory {
+  id: string;
+  persona_id: string;
+  content: string;
+  memory_type: string | null;
+  source_type: string | null;
+  importance: number;
+  metadata: Record<string, unknown> | null;
+  review_status: MemoryReviewStatus | null;
+  is_core: boolean;
+  created_at: string | null;
+  retrieval: RetrievalScores;
+}
+
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  limit: 20,
+  candidatePool: 40,
+  weights: { similarity: 0.45, text: 0.2, importance: 0.25, recency: 0.1, typeMatch: 0.1 },
+  mmrLambda: 0.7,
+  recencyHalfLifeDays: 180
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const MEMORY_COLUMNS = 'id, persona_id, content, memory_type, source_type, importance, metadata, review_status, is_core, created_at, reinforced_at, embedding';
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'was', 'were', 'are', 'that', 'this', 'with', 'what', 'when',
+  'have', 'had', 'did', 'does', 'about', 'from', 'they', 'them', 'just', 'like', 'how', 'who',
+  'remember', 'tell', 'think', 'know', 'really', 'would', 'could', 'there', 'their', 'been'
+]);
+
+// Query cues → memory types worth favouring. A soft boost, never a filter.
+const TYPE_CUES: Array<{ pattern: RegExp; types: string[] }> = [
+  { pattern: /\b(remember when|story|stories|that time|tell me about)\b/i, types: ['story', 'experience'] },
+  { pattern: /\b(favou?rite|love[ds]?|like[ds]?|hate[ds]?|prefer)\b/i, types: ['preference', 'interest'] },
+  { pattern: /\b(mom|dad|sister|brother|grand\w*|aunt|uncle|cousin|wife|husband|friend)\b/i, types: ['relationship'] },
+  { pattern: /\b(job|work(ed)?|career|retire[d]?|business)\b/i, types: ['career'] },
+  { pattern: /\b(believe|faith|god|values?|advice|lesson)\b/i, types: ['values', 'legacy'] }
+];
+
+// Environment overrides, e.g. MEMORY_RETRIEVAL_LIMIT=15, MEMORY_RETRIEVAL_WEIGHT_RECENCY=0.2
+export function retrievalOptionsFromEnv(env: Record<string, string | undefined>): Partial<RetrievalOptions> {
+  const num = (key: string) => {
+    const value = env[`MEMORY_RETRIEVAL_${key}`];
+    return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+  };
+
+  const weights: Partial<RetrievalWeights> = {};
+  for (const key of Object.keys(DEFAULT_RETRIEVAL_OPTIONS.weights) as Array<keyof RetrievalWeights>) {
+    const value = num(`WEIGHT_${key.replace(/[A-Z]/g, c => `_${c}`).toUpperCase()}`);
+    if (value !== undefined) weights[key] = value;
+  }
+
+  const options: Partial<RetrievalOptions> = {};
+  const limit = num('LIMIT');
+  const pool = num('CANDIDATE_POOL');
+  const lambda = num('MMR_LAMBDA');
+  const halfLife = num('RECENCY_HALF_LIFE_DAYS');
+  if (limit !== undefined) options.limit = limit;
+  if (pool !== undefined) options.candidatePool = pool;
+  if (lambda !== undefined) options.mmrLambda = lambda;
+  if (halfLife !== undefined) options.recencyHalfLifeDays = halfLife;
+  if (Object.keys(weights).length > 0) options.weights = { ...DEFAULT_RETRIEVAL_OPTIONS.weights, ...weights };
+  return options;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9\s']/g, ' ').split(/\s+/)
+    .filter(t => t.length > 2 && !STOPWORDS.has(t));
+}
+
+// Share of the query's meaningful words that appear in the memory
+export function textMatchScore(queryTerms: string[], content: string): number {
+  if (queryTerms.length === 0) return 0;
+  const words = new Set(tokenize(content));
+  const hits = queryTerms.filter(t => words.has(t) || words.has(t.replace(/s$/, ''))).length;
+  return hits / queryTerms.length;
+}
+
+export function inferMemoryTypes(query: string): string[] {
+  return [...new Set(TYPE_CUES.filter(cue => cue.pattern.test(query)).flatMap(cue => cue.types))];
+}
+
+function recencyScore(createdAt: string | null, halfLifeDays: number, now: number): number {
+  if (!createdAt) return 0;
+  const ageDays = Math.max(0, (now - new Date(createdAt).getTime()) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let overlap = 0;
+  for (const token of a) if (b.has(token)) overlap++;
+  return overlap / (a.size + b.size - overlap);
+}
+
+interface MemoryRow {
+  id: string;
+  persona_id: string;
+  content: string;
+  memory_type: string | null;
+  source_type: string | null;
+  importance: number | null;
+  metadata: Record<string, unknown> | null;
+  review_status: MemoryReviewStatus | null;
+  is_core: boolean | null;
+  created_at: string | null;
+  reinforced_at: string | null;
+  embedding: number[] | string | null;
+}
+
+interface Candidate extends Omit<RetrievedMemory, 'retrieval'> {
+  vector: number[] | null;
+  tokens: Set<string>;
+  sources: Set<'vector' | 'text' | 'importance' | 'core'>;
+  combined: number;
+  partial: Omit<RetrievalScores, 'combined' | 'mmr' | 'sources'>;
+}
+
+// Greedy MMR: each pick maximises λ·relevance − (1−λ)·(similarity to anything already picked)
+export function selectWithMMR<T extends { combined: number; vector: number[] | null; tokens: Set<string> }>(
+  candidates: T[],
+  limit: number,
+  lambda: number
+): Array<T & { mmr: number }> {
+  const remaining = [...candidates];
+  const selected: Array<T & { mmr: number }> = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const redundancy = selected.reduce((max, picked) => {
+        const similarity = candidate.vector && picked.vector
+          ? cosineSimilarity(candidate.vector, picked.vector)
+          : jaccard(candidate.tokens, picked.tokens);
+        return Math.max(max, similarity);
+      }, 0);
+      const score = lambda * candidate.combined - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    const [picked] = remaining.splice(bestIndex, 1);
+    selected.push({ ...picked, mmr: Math.round(bestScore * 1000) / 1000 });
+  }
+  return selected;
+}
+
+export async function retrieveMemories(
+  db: SupabaseClient,
+  llm: LLMProvider | null,
+  personaId: string,
+  query: string,
+  overrides: Partial<RetrievalOptions> = {}
+): Promise<RetrievedMemory[]> {
+  const options: RetrievalOptions = {
+    ...DEFAULT_RETRIEVAL_OPTIONS,
+    ...overrides,
+    weights: { ...DEFAULT_RETRIEVAL_OPTIONS.weights, ...(overrides.weights || {}) }
+  };
+  const now = Date.now();
+
+  let queryVector: number[] | null = null;
+  if (llm && query.trim()) {
+    try {
+      queryVector = await llm.embed(query);
+      if (queryVector.length === 0) queryVector = null;
+    } catch {
+      console.warn('Query embedding failed, retrieving without vectors');
+    }
+  }
+
+  // ✅ Gather candidates from every source at once — a failing source just contributes nothing
+  const [vectorResult, textResult, importantResult, coreResult] = await Promise.all([
+    queryVector
+      ? db.rpc('search_memories', {
+          query_persona_id: personaId,
+          query_embedding: queryVector,
+          match_threshold: 0.3,
+          match_count: options.candidatePool
+        })
+      : Promise.resolve({ data: null, error: null }),
+    query.trim()
+      ? db.rpc('search_memories_text', {
+          query_persona_id: personaId,
+          query_text: query.substring(0, 200),
+          match_count: options.candidatePool
+        })
+      : Promise.resolve({ data: null, error: null }),
+    db.from('persona_memories')
+      .select(MEMORY_COLUMNS)
+      .eq('persona_id', personaId)
+      .neq('review_status', 'rejected')
+      .order('importance', { ascending: false })
+      .limit(options.candidatePool),
+    db.from('persona_memories')
+      .select(MEMORY_COLUMNS)
+      .eq('persona_id', personaId)
+      .eq('is_core', true)
+      .neq('review_status', 'rejected')
+      .order('importance', { ascending: false })
+      .limit(MAX_CORE_MEMORIES)
+  ]);
+
+  const sourceIds = new Map<string, Set<'vector' | 'text' | 'importance' | 'core'>>();
+  const tag = (rows: Array<{ id: string }> | null, source: 'vector' | 'text' | 'importance' | 'core') => {
+    for (const row of rows || []) {
+      sourceIds.set(row.id, (sourceIds.get(row.id) || new Set()).add(source));
+    }
+  };
+  tag(vectorResult.data, 'vector');
+  tag(textResult.data, 'text');
+  tag(importantResult.data, 'importance');
+  tag(coreResult.data, 'core');
+
+  // Vector and text hits need their full rows (with embeddings) for scoring and MMR
+  const rowsById = new Map<string, MemoryRow>(
+    ([...(importantResult.data || []), ...(coreResult.data || [])] as MemoryRow[]).map(r => [r.id, r])
+  );
+  const missing = [...sourceIds.keys()].filter(id => !rowsById.has(id));
+  if (missing.length > 0) {
+    const { data } = await db.from('persona_memories').select(MEMORY_COLUMNS).in('id', missing);
+    for (const row of (data || []) as MemoryRow[]) rowsById.set(row.id, row);
+  }
+
+  const queryTerms = tokenize(query);
+  const preferredTypes = inferMemoryTypes(query);
+  const { weights } = options;
+
+  const candidates: Candidate[] = applyReviewWeighting([...rowsById.values()])
+    .filter(row => !options.memoryTypes || options.memoryTypes.includes(row.memory_type || ''))
+    .map(row => {
+      const vector = parseEmbedding(row.embedding);
+      const partial = {
+        similarity: queryVector && vector ? Math.max(0, cosineSimilarity(queryVector, vector)) : 0,
+        text: textMatchScore(queryTerms, row.content),
+        importance: row.is_core ? 1 : row.importance ?? 0.5,
+        recency: recencyScore(row.reinforced_at || row.created_at, options.recencyHalfLifeDays, now),
+        typeMatch: row.memory_type && preferredTypes.includes(row.memory_type) ? 1 : 0
+      };
+      const combined =
+        weights.similarity * partial.similarity +
+        weights.text * partial.text +
+        weights.importance * partial.importance +
+        weights.recency * partial.recency +
+        weights.typeMatch * partial.typeMatch;
+
+      return {
+        id: row.id,
+        persona_id: row.persona_id,
+        content: row.content,
+        memory_type: row.memory_type,
+        source_type: row.source_type,
+        importance: partial.importance,
+        metadata: row.metadata,
+        review_status: row.review_status,
+        is_core: !!row.is_core,
+        created_at: row.created_at,
+        vector,
+        tokens: new Set(tokenize(row.content)),
+        sources: sourceIds.get(row.id) || new Set(),
+        combined,
+        partial
+      };
+    });
+
+  // ✅ Core memories take the first slots whatever the query; the rest compete as usual
+  const core = candidates
+    .filter(c => c.is_core)
+    .sort((a, b) => b.combined - a.combined)
+    .slice(0, Math.min(MAX_CORE_MEMORIES, options.limit))
+    .map(c => ({ ...c, mmr: c.combined }));
+  const rest = selectWithMMR(candidates.filter(c => !c.is_core), options.limit - core.length, options.mmrLambda);
+
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return [...core, ...rest].map(c => ({
+    id: c.id,
+    persona_id: c.persona_id,
+    content: c.content,
+    memory_type: c.memory_type,
+    source_type: c.source_type,
+    importance: c.importance,
+    metadata: c.metadata,
+    review_status: c.review_status,
+    is_core: c.is_core,
+    created_at: c.created_at,
+    retrieval: {
+      similarity: round(c.partial.similarity),
+      text: round(c.partial.text),
+      importance: round(c.partial.importance),
+      recency: round(c.partial.recency),
+      typeMatch: c.partial.typeMatch,
+      combined: round(c.combined),
+      mmr: c.mmr,
+      sources: [...c.sources]
+    }
+  }));
+}
@@ -0,0 +1,72 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Memory provenance and review. Facts the engine pulls out of live conversation are only the
+// user's side of a chat — they wait as `pending` until the persona's owner approves, edits or
+// rejects them, and are used at reduced weight until then. Node-safe: the engine applies the
+// weighting inside the conversation gateway.
+
+export type MemoryProvenanceKind = 'owner' | 'collaborator' | 'conversation' | 'upload' | 'social_import';
+export type MemoryReviewStatus = 'approved' | 'pending' | 'rejected';
+
+export const MEMORY_PROVENANCE_LABELS: Record<MemoryProvenanceKind, string> = {
+  owner: 'Added by you',
+  collaborator: 'Added by family',
+  conversation: 'From conversation',
+  upload: 'From upload',
+  social_import: 'From social media'
+};
+
+// Unreviewed memories count for this fraction of their importance when ranking
+export const PENDING_REVIEW_WEIGHT = 0.5;
+
+interface ReviewableMemory {
+  importance?: number | null;
+  review_status?: MemoryReviewStatus | null;
+}
+
+// Rejected memories never reach a prompt; pending ones sink below reviewed ones of equal weight
+export function applyReviewWeighting<T extends ReviewableMemory>(memories: T[]): T[] {
+  return memories
+    .filter(m => m.review_status !== 'rejected')
+    .map(m => m.review_status === 'pending'
+      ? { ...m, importance: (m.importance ?? 0.5) * PENDING_REVIEW_WEIGHT }
+      : m);
+}
+
+export async function getPendingReviews(db: SupabaseClient, personaId: string) {
+  const { data, error } = await db
+    .from('persona_memories')
+    .select('id, content, memory_type, source_type, provenance, added_by, importance, created_at')
+    .eq('persona_id', personaId)
+    .eq('review_status', 'pending')
+    .order('created_at', { ascending: false });
+  if (error) console.error('Error loading memory review queue:', error);
+  return data || [];
+}
+
+export async function reviewMemory(
+  db: SupabaseClient,
+  memoryId: string,
+  reviewerId: string,
+  decision: Exclude<MemoryReviewStatus, 'pending'>,
+  editedContent?: string
+): Promise<boolean> {
+  const update: Record<string, unknown> = {
+    review_status: decision,
+    reviewed_by: reviewerId,
+    reviewed_at: new Date().toISOString()
+  };
+  // An edited fact is a new text — drop the old embedding so it is regenerated on consolidation
+  if (decision === 'approved' && editedContent?.trim()) {
+    update.content = editedContent.trim();
+    update.embedding = null;
+  }
+
+  // Confirming a memory counts in its favour — the approval trigger raises its importance
+  const { error } = await db.from('persona_memories').update(update).eq('id', memoryId);
+  if (error) {
+    console.error('Error reviewing memory:', error);
+    return false;
+  }
+  return true;
+}
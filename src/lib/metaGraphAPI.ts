@@ -284,7 +284,8 @@ export class MetaGraphAPIService {
               memory.metadata = {
                 ...memory.metadata,
                 platform: 'facebook',
-                post_id: post.id
+                post_id: post.id,
+                timestamp: post.created_time
               };
             });
             await memoryExtractor.saveMemories(imageMemories);
@@ -384,7 +385,8 @@ export class MetaGraphAPIService {
               memory.metadata = {
                 ...memory.metadata,
                 platform: 'instagram',
-                media_id: item.id
+                media_id: item.id,
+                timestamp: item.timestamp
               };
             });
 
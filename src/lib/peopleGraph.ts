@@ -0,0 +1,367 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// People graph — one registry per persona of the people in their life: the name the family
+// knows them by, other names they turn up under, what the persona called them, who they are to
+// the persona and to each other, and (when they talk to the persona themselves) their account.
+// Content extraction adds people as it meets them; the family confirms and edits them, and
+// extraction never overwrites what the family confirmed. The prompt builder uses it so every
+// person gets their own nickname. Node-safe: the engine reads it, the app and extraction write it.
+
+export type PersonSource = 'family' | 'extracted' | 'nickname_map' | 'gedcom';
+
+// The relationships the persona's conversation guidance is written for
+export type RelationshipKind = 'spouse' | 'child' | 'grandchild' | 'parent' | 'sibling' | 'grandparent' | 'friend' | 'other';
+
+export interface PersonaPerson {
+  id: string;
+  persona_id: string;
+  name: string;
+  aliases: string[];
+  nickname: string | null;
+  relationship: string | null;
+  notes: string | null;
+  user_id: string | null;
+  source: PersonSource;
+  confirmed: boolean;
+  mention_count: number;
+  created_by: string | null;
+  // ISO date, or just the year or year-month — filled by a family tree import
+  born_on?: string | null;
+  died_on?: string | null;
+  gedcom_id?: string | null;
+  relationship_kind?: RelationshipKind | null;
+}
+
+// `person_id` is `relationship` of `related_person_id` — Lily is the daughter of Sarah
+export interface PersonLink {
+  id: string;
+  persona_id: string;
+  person_id: string;
+  related_person_id: string;
+  relationship: string;
+}
+
+export interface PeopleGraph {
+  people: PersonaPerson[];
+  links: PersonLink[];
+}
+
+// One person as content analysis describes them
+export interface ExtractedPerson {
+  name: string;
+  relationship?: string;
+  nickname?: string;
+  related_to?: { name: string; relationship: string };
+}
+
+export interface PersonDraft {
+  name: string;
+  aliases: string[];
+  nickname: string;
+  relationship: string;
+  notes: string;
+}
+
+// Words extraction sometimes returns as "people" that aren't anyone in particular
+const NOT_A_NAME = new Set([
+  'i', 'me', 'you', 'he', 'she', 'they', 'we', 'him', 'her', 'them', 'someone', 'everyone', 'family',
+  'mom', 'mum', 'dad', 'mother', 'father', 'grandma', 'grandpa', 'grandmother', 'grandfather', 'the user', 'user'
+]);
+
+export const EMPTY_PEOPLE_GRAPH: PeopleGraph = { people: [], links: [] };
+
+export async function loadPeopleGraph(db: SupabaseClient, personaId: string): Promise<PeopleGraph> {
+  const [people, links] = await Promise.all([
+    db.from('persona_people').select('*').eq('persona_id', personaId).order('mention_count', { ascending: false }),
+    db.from('persona_person_links').select('*').eq('persona_id', personaId)
+  ]);
+  if (people.error) console.error('Error loading people:', people.error);
+  if (links.error) console.error('Error loading people links:', links.error);
+  return { people: people.data || [], links: links.data || [] };
+}
+
+function normalize(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function cleanName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').replace(/^["']|["']$/g, '');
+}
+
+function isPlausibleName(name: string): boolean {
+  return name.length >= 2 && name.length <= 60 && /^\p{Lu}/u.test(name) && !NOT_A_NAME.has(normalize(name));
+}
+
+// By full name, any alias or nickname — never a partial match
+export function findPersonByName(people: PersonaPerson[], name: string): PersonaPerson | null {
+  const wanted = normalize(name);
+  if (!wanted) return null;
+  return people.find(p =>
+    normalize(p.name) === wanted
+    || p.aliases.some(a => normalize(a) === wanted)
+    || (p.nickname && normalize(p.nickname) === wanted)
+  ) || null;
+}
+
+// ✅ By name, any alias or nickname — then, for a lone first name, by first name when only one
+// person has it. A full name that isn't known is someone new: "Sarah Jones" is not Sarah Smith
+export function findPerson(people: PersonaPerson[], name: string): PersonaPerson | null {
+  const exact = findPersonByName(people, name);
+  if (exact) return exact;
+  const wanted = normalize(name);
+  if (!wanted || wanted.includes(' ')) return null;
+  const byFirstName = people.filter(p => normalize(p.name).split(' ')[0] === wanted);
+  return byFirstName.length === 1 ? byFirstName[0] : null;
+}
+
+// Every name a person goes by
+export function namesFor(person: PersonaPerson): string[] {
+  return [person.name, ...person.aliases, ...(person.nickname ? [person.nickname] : [])];
+}
+
+export async function insertPerson(
+  db: SupabaseClient,
+  personaId: string,
+  fields: Partial<PersonaPerson> & { name: string }
+): Promise<PersonaPerson | null> {
+  const { data, error } = await db
+    .from('persona_people')
+    .insert({ persona_id: personaId, ...fields })
+    .select()
+    .single();
+  if (error) console.error('Error adding person:', error);
+  return data;
+}
+
+// ✅ Folds what content analysis found into the registry. New names become unconfirmed people;
+// known people gain the new spelling as an alias and any detail the family hasn't filled in
+export async function recordExtractedPeople(
+  db: SupabaseClient,
+  personaId: string,
+  extracted: ExtractedPerson[],
+  mentioned: string[] = []
+): Promise<void> {
+  try {
+    const details = new Map<string, ExtractedPerson>();
+    for (const person of [...extracted, ...mentioned.map(name => ({ name }))]) {
+      const name = cleanName(person.name || '');
+      if (!isPlausibleName(name)) continue;
+      const key = normalize(name);
+      details.set(key, { ...person, ...details.get(key), name });
+    }
+    if (details.size === 0) return;
+
+    const [graph, { data: persona }] = await Promise.all([
+      loadPeopleGraph(db, personaId),
+      db.from('personas').select('name').eq('id', personaId).maybeSingle()
+    ]);
+    // The persona isn't one of the people in their own life
+    const own = persona?.name ? normalize(persona.name) : '';
+    const people = [...graph.people];
+
+    const resolve = async (name: string, fields: Partial<PersonaPerson> = {}): Promise<PersonaPerson | null> => {
+      const known = findPerson(people, name);
+      if (known) return known;
+      const added = await insertPerson(db, personaId, { name, source: 'extracted', ...fields });
+      if (added) people.push(added);
+      return added;
+    };
+
+    for (const person of details.values()) {
+      if (own && (normalize(person.name) === own || own.startsWith(`${normalize(person.name)} `))) continue;
+      const known = findPerson(people, person.name);
+      if (!known) {
+        await resolve(person.name, {
+          relationship: person.relationship?.trim() || null,
+          nickname: person.nickname?.trim() || null,
+          mention_count: 1
+        });
+      } else {
+        const isNewName = !namesFor(known).some(n => normalize(n) === normalize(person.name));
+        const update: Partial<PersonaPerson> = {
+          mention_count: known.mention_count + 1,
+          ...(isNewName && { aliases: [...known.aliases, person.name] }),
+          ...(!known.confirmed && !known.relationship && person.relationship?.trim() && { relationship: person.relationship.trim() }),
+          ...(!known.confirmed && !known.nickname && person.nickname?.trim() && { nickname: person.nickname.trim() })
+        };
+        const { error } = await db.from('persona_people').update(update).eq('id', known.id);
+        if (error) console.error('Error updating person:', error);
+        else Object.assign(known, update);
+      }
+
+      const relatedName = cleanName(person.related_to?.name || '');
+      if (person.related_to?.relationship?.trim() && isPlausibleName(relatedName)) {
+        const [subject, related] = [findPerson(people, person.name), await resolve(relatedName)];
+        if (subject && related && subject.id !== related.id
+          && !graph.links.some(l => l.person_id === subject.id && l.related_person_id === related.id)) {
+          const { error } = await db.from('persona_person_links').insert({
+            persona_id: personaId,
+            person_id: subject.id,
+            related_person_id: related.id,
+            relationship: person.related_to.relationship.trim()
+          });
+          if (error) console.error('Error linking people:', error);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error recording extracted people:', error);
+  }
+}
+
+// Family edits are confirmed — extraction won't change them afterwards
+export async function savePerson(
+  db: SupabaseClient,
+  personaId: string,
+  draft: PersonDraft,
+  personId?: string
+): Promise<PersonaPerson | null> {
+  const name = cleanName(draft.name);
+  const fields = {
+    name,
+    aliases: [...new Set(draft.aliases.map(cleanName).filter(a => a && normalize(a) !== normalize(name)))],
+    nickname: cleanName(draft.nickname) || null,
+    relationship: draft.relationship.trim() || null,
+    notes: draft.notes.trim() || null,
+    confirmed: true,
+    updated_at: new Date().toISOString()
+  };
+  if (!personId) return insertPerson(db, personaId, { ...fields, source: 'family' });
+
+  const { data, error } = await db
+    .from('persona_people')
+    .update(fields)
+    .eq('id', personId)
+    .select()
+    .single();
+  if (error) console.error('Error saving person:', error);
+  return data;
+}
+
+export async function confirmPerson(db: SupabaseClient, personId: string): Promise<boolean> {
+  const { error } = await db.from('persona_people').update({ confirmed: true }).eq('id', personId);
+  if (error) console.error('Error confirming person:', error);
+  return !error;
+}
+
+export async function deletePerson(db: SupabaseClient, personId: string): Promise<boolean> {
+  const { error } = await db.from('persona_people').delete().eq('id', personId);
+  if (error) console.error('Error removing person:', error);
+  return !error;
+}
+
+// ✅ "This is me" — ties a person to the account talking to the persona, so it knows who it's
+// speaking with. One person per account; claiming another releases the earlier one
+export async function claimPerson(db: SupabaseClient, personaId: string, personId: string | null, userId: string): Promise<boolean> {
+  const { error: releaseError } = await db
+    .from('persona_people')
+    .update({ user_id: null })
+    .eq('persona_id', personaId)
+    .eq('user_id', userId);
+  if (releaseError) {
+    console.error('Error releasing claimed person:', releaseError);
+    return false;
+  }
+  if (!personId) return true;
+  const { error } = await db.from('persona_people').update({ user_id: userId }).eq('id', personId);
+  if (error) console.error('Error claiming person:', error);
+  return !error;
+}
+
+export async function linkPeople(
+  db: SupabaseClient,
+  personaId: string,
+  personId: string,
+  relatedPersonId: string,
+  relationship: string
+): Promise<PersonLink | null> {
+  const { data, error } = await db
+    .from('persona_person_links')
+    .upsert({
+      persona_id: personaId,
+      person_id: personId,
+      related_person_id: relatedPersonId,
+      relationship: relationship.trim()
+    }, { onConflict: 'person_id,related_person_id' })
+    .select()
+    .single();
+  if (error) console.error('Error linking people:', error);
+  return data;
+}
+
+export async function unlinkPeople(db: SupabaseClient, linkId: string): Promise<boolean> {
+  const { error } = await db.from('persona_person_links').delete().eq('id', linkId);
+  if (error) console.error('Error removing people link:', error);
+  return !error;
+}
+
+// ✅ Keeps the registry in step with the persona's nickname list
+export async function syncNicknameMap(
+  db: SupabaseClient,
+  personaId: string,
+  entries: Array<{ person: string; nickname: string }>
+): Promise<void> {
+  const { people } = await loadPeopleGraph(db, personaId);
+  for (const entry of entries) {
+    const name = cleanName(entry.person);
+    const nickname = cleanName(entry.nickname);
+    if (!name || !nickname) continue;
+    const known = findPerson(people, name);
+    if (!known) {
+      const added = await insertPerson(db, personaId, { name, nickname, source: 'nickname_map', confirmed: true });
+      if (added) people.push(added);
+    } else if (known.nickname !== nickname) {
+      const { error } = await db.from('persona_people').update({ nickname, confirmed: true }).eq('id', known.id);
+      if (error) console.error('Error syncing nickname:', error);
+    }
+  }
+}
+
+// "daughter of Sarah" for each link where this person is the subject
+export function describeLinks(graph: PeopleGraph, person: PersonaPerson): string[] {
+  return graph.links
+    .filter(l => l.person_id === person.id)
+    .map(l => {
+      const other = graph.people.find(p => p.id === l.related_person_id);
+      return other ? `${l.relationship} of ${other.name}` : null;
+    })
+    .filter((d): d is string => !!d);
+}
+
+function describePerson(graph: PeopleGraph, person: PersonaPerson): string {
+  const who = [person.relationship ? `your ${person.relationship}` : '', ...describeLinks(graph, person)].filter(Boolean);
+  const otherNames = person.aliases.filter(a => normalize(a) !== normalize(person.nickname || ''));
+  if (person.died_on) who.push(`passed away in ${person.died_on.slice(0, 4)}`);
+  return `${person.name}${who.length > 0 ? ` (${who.join('; ')})` : ''}${
+    !person.nickname ? '' : person.confirmed ? ` — you call them "${person.nickname}", always` : ` — you may have called them "${person.nickname}"`
+  }${otherNames.length > 0 ? ` — also known as ${otherNames.join(', ')}` : ''}`;
+}
+
+export function mentions(text: string, person: PersonaPerson): boolean {
+  const lower = text.toLowerCase();
+  return namesFor(person).some(name => new RegExp(`\\b${name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower));
+}
+
+// ✅ Prompt lines — who they're talking to first, then whoever this turn is about, then the
+// people the family confirmed and the ones that come up most
+export function getPeopleItems(graph: PeopleGraph, params: { userId: string | null; recentText: string }): string[] {
+  const speaking = params.userId ? graph.people.find(p => p.user_id === params.userId) : undefined;
+  const rank = (p: PersonaPerson) => (mentions(params.recentText, p) ? 2 : 0) + (p.confirmed ? 1 : 0);
+  const others = graph.people
+    .filter(p => p !== speaking)
+    .sort((a, b) => rank(b) - rank(a) || b.mention_count - a.mention_count);
+
+  return [
+    ...(speaking ? [`• YOU ARE TALKING TO ${describePerson(graph, speaking)}`] : []),
+    ...others.map(p => `• ${describePerson(graph, p)}`)
+  ];
+}
+
+// Nickname pairs for the reply check — every name a confirmed person goes by maps to their nickname
+export function nicknamePairs(graph: PeopleGraph): Array<{ person: string; nickname: string }> {
+  return graph.people
+    .filter(p => p.confirmed && p.nickname)
+    .flatMap(p => [p.name, ...p.aliases]
+      .filter(name => normalize(name) !== normalize(p.nickname!))
+      .map(name => ({ person: name, nickname: p.nickname! })));
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { mentionsBoundary, closedBoundaries, filterMemoriesForBoundaries, PersonaBoundary } from './personaBoundaries';
+
+function boundary(subject: string, overrides: Partial<PersonaBoundary> = {}): PersonaBoundary {
+  return {
+    id: subject,
+    persona_id: 'persona',
+    kind: 'person',
+    subject,
+    terms: [],
+    handling: 'avoid',
+    guidance: null,
+    status: 'active',
+    suggested_by: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+describe('mentionsBoundary', () => {
+  it.each([
+    ['José', 'I saw José at the market'],
+    ['Zoë', 'Zoë came round for tea'],
+    ['Zoë', 'How is zoë doing?'],
+    ['Renée', 'Renée, is that you?'],
+    ['the divorce', 'We never talked about the divorce.']
+  ])('matches %s as a whole word', (subject, text) => {
+    expect(mentionsBoundary(text, boundary(subject))).toBe(true);
+  });
+
+  it.each([
+    ['José', 'Josélito sent a card'],
+    ['Zoë', 'Zoëy is a different girl'],
+    ['Ann', 'Annie and Joanna came by']
+  ])('does not match %s inside a longer word', (subject, text) => {
+    expect(mentionsBoundary(text, boundary(subject))).toBe(false);
+  });
+
+  it('matches the extra terms too', () => {
+    expect(mentionsBoundary('Our trip to Málaga', boundary('Spain', { kind: 'topic', terms: ['Málaga'] }))).toBe(true);
+  });
+});
+
+describe('filterMemoriesForBoundaries', () => {
+  const memories = [{ content: 'Zoë learned to swim at the lake' }, { content: 'We baked bread every Sunday' }];
+
+  it('keeps memories behind a closed boundary out', () => {
+    expect(filterMemoriesForBoundaries(memories, [boundary('Zoë')], 'hello')).toEqual([memories[1]]);
+  });
+
+  it('lets a redirect boundary through once the user raises it', () => {
+    const redirect = boundary('Zoë', { handling: 'redirect' });
+    expect(closedBoundaries([redirect], 'I miss Zoë')).toEqual([]);
+    expect(filterMemoriesForBoundaries(memories, [redirect], 'I miss Zoë')).toEqual(memories);
+  });
+});
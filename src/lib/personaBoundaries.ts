@@ -0,0 +1,194 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Topic boundaries set by the family — subjects, people and phrases a persona must avoid, only
+// acknowledge before steering elsewhere, or only discuss when the user raises them. They are
+// enforced twice: as prompt rules (with off-limits memories kept out of the prompt), and on
+// the output, where a sentence that touches a boundary it shouldn't is dropped before it is
+// spoken. Collaborators can suggest boundaries; the owner approves them. Node-safe.
+
+export type BoundaryKind = 'topic' | 'person' | 'phrase';
+export type BoundaryHandling = 'avoid' | 'redirect' | 'only_if_raised';
+export type BoundaryStatus = 'active' | 'suggested' | 'declined';
+
+export const BOUNDARY_KIND_LABELS: Record<BoundaryKind, string> = {
+  topic: 'Topic',
+  person: 'Person',
+  phrase: 'Phrase'
+};
+
+export const BOUNDARY_HANDLING_LABELS: Record<BoundaryHandling, { label: string; description: string }> = {
+  avoid: { label: 'Never discuss', description: 'Never mentioned, even if it comes up' },
+  redirect: { label: 'Gently redirect', description: 'Acknowledged briefly, then steered somewhere else' },
+  only_if_raised: { label: 'Only if they raise it', description: 'Never brought up first, but talked about if asked' }
+};
+
+export interface PersonaBoundary {
+  id: string;
+  persona_id: string;
+  kind: BoundaryKind;
+  subject: string;
+  terms: string[];
+  handling: BoundaryHandling;
+  guidance: string | null;
+  status: BoundaryStatus;
+  suggested_by: string | null;
+  created_at: string;
+}
+
+export type BoundaryDraft = Pick<PersonaBoundary, 'kind' | 'subject' | 'terms' | 'handling' | 'guidance'>;
+
+export async function loadBoundaries(
+  db: SupabaseClient,
+  personaId: string,
+  statuses: BoundaryStatus[] = ['active']
+): Promise<PersonaBoundary[]> {
+  const { data, error } = await db
+    .from('persona_boundaries')
+    .select('id, persona_id, kind, subject, terms, handling, guidance, status, suggested_by, created_at')
+    .eq('persona_id', personaId)
+    .in('status', statuses)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error loading persona boundaries:', error);
+    return [];
+  }
+  return (data || []) as PersonaBoundary[];
+}
+
+// Owners add boundaries directly; collaborators' go to the owner as suggestions
+export async function saveBoundary(
+  db: SupabaseClient,
+  personaId: string,
+  userId: string,
+  draft: BoundaryDraft,
+  asOwner: boolean
+): Promise<PersonaBoundary | null> {
+  const { data, error } = await db
+    .from('persona_boundaries')
+    .insert({
+      persona_id: personaId,
+      kind: draft.kind,
+      subject: draft.subject.trim(),
+      terms: cleanTerms(draft.terms),
+      handling: draft.handling,
+      guidance: draft.guidance?.trim() || null,
+      status: asOwner ? 'active' : 'suggested',
+      suggested_by: userId
+    })
+    .select()
+    .single();
+  if (error) {
+    console.error('Error saving persona boundary:', error);
+    return null;
+  }
+  return data as PersonaBoundary;
+}
+
+export async function updateBoundary(db: SupabaseClient, boundaryId: string, draft: BoundaryDraft): Promise<boolean> {
+  const { error } = await db
+    .from('persona_boundaries')
+    .update({
+      kind: draft.kind,
+      subject: draft.subject.trim(),
+      terms: cleanTerms(draft.terms),
+      handling: draft.handling,
+      guidance: draft.guidance?.trim() || null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', boundaryId);
+  if (error) console.error('Error updating persona boundary:', error);
+  return !error;
+}
+
+export async function reviewBoundarySuggestion(
+  db: SupabaseClient,
+  boundaryId: string,
+  reviewerId: string,
+  decision: Exclude<BoundaryStatus, 'suggested'>
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { error } = await db
+    .from('persona_boundaries')
+    .update({ status: decision, reviewed_by: reviewerId, reviewed_at: now, updated_at: now })
+    .eq('id', boundaryId);
+  if (error) console.error('Error reviewing boundary suggestion:', error);
+  return !error;
+}
+
+export async function deleteBoundary(db: SupabaseClient, boundaryId: string): Promise<boolean> {
+  const { error } = await db.from('persona_boundaries').delete().eq('id', boundaryId);
+  if (error) console.error('Error deleting persona boundary:', error);
+  return !error;
+}
+
+function cleanTerms(terms: string[]): string[] {
+  return [...new Set(terms.map(t => t.trim()).filter(Boolean))];
+}
+
+export function parseTerms(input: string): string[] {
+  return cleanTerms(input.split(','));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function boundaryTerms(boundary: Pick<PersonaBoundary, 'subject' | 'terms'>): string[] {
+  return cleanTerms([boundary.subject, ...(boundary.terms || [])]).map(t => t.toLowerCase());
+}
+
+export function mentionsBoundary(text: string, boundary: Pick<PersonaBoundary, 'subject' | 'terms'>): boolean {
+  const lower = text.toLowerCase();
+  // Whole words in any script — \b alone only knows ASCII letters, so "José" or "Zoë" would never match
+  return boundaryTerms(boundary).some(term =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'u').test(lower));
+}
+
+// A boundary the user brought up themselves may be acknowledged (redirect) or discussed
+// (only_if_raised) this turn; 'avoid' never opens up
+export function isBoundaryOpen(boundary: PersonaBoundary, userText: string): boolean {
+  return boundary.handling !== 'avoid' && mentionsBoundary(userText, boundary);
+}
+
+// Boundaries the reply must not touch this turn — what the output check blocks
+export function closedBoundaries(boundaries: PersonaBoundary[], userText: string): PersonaBoundary[] {
+  return boundaries.filter(b => !isBoundaryOpen(b, userText));
+}
+
+// Off-limits memories never reach the prompt, so the persona can't drift into them
+export function filterMemoriesForBoundaries<T extends { content: string }>(
+  memories: T[],
+  boundaries: PersonaBoundary[],
+  userText: string
+): T[] {
+  const closed = closedBoundaries(boundaries, userText);
+  if (closed.length === 0) return memories;
+  return memories.filter(m => !closed.some(b => mentionsBoundary(m.content, b)));
+}
+
+function describeBoundary(boundary: PersonaBoundary, open: boolean): string {
+  const subject = boundary.kind === 'phrase'
+    ? `the words "${boundary.subject}"`
+    : boundary.kind === 'person' ? `${boundary.subject} (a person)` : boundary.subject;
+  const note = boundary.guidance ? ` Family's note: ${boundary.guidance}` : '';
+
+  if (boundary.kind === 'phrase') return `• Never say ${subject}.${note}`;
+  switch (boundary.handling) {
+    case 'avoid':
+      return `• Never bring up or discuss ${subject}. If they raise it, say softly that you'd rather not talk about that — without naming it — and turn to something else.${note}`;
+    case 'redirect':
+      return open
+        ? `• They just raised ${subject}. Acknowledge it in a few gentle words, then steer the conversation somewhere else.${note}`
+        : `• Never bring up ${subject}. If they raise it, acknowledge it briefly and gently steer elsewhere.${note}`;
+    case 'only_if_raised':
+      return open
+        ? `• They raised ${subject}, so you may talk about it.${note}`
+        : `• Never bring up ${subject} yourself. Only talk about it if they raise it first.${note}`;
+  }
+}
+
+export function getBoundaryGuidance(boundaries: PersonaBoundary[], userText: string): string {
+  if (boundaries.length === 0) return '';
+  return `BOUNDARIES SET BY THE FAMILY — ALWAYS FOLLOW THESE, THEY OVERRIDE EVERYTHING ELSE:
+${boundaries.map(b => describeBoundary(b, isBoundaryOpen(b, userText))).join('\n')}`;
+}
@@ -0,0 +1,83 @@
+// Reads the date a photo was taken from its EXIF data (DateTimeOriginal, else DateTimeDigitized,
+// else the camera's DateTime). Only JPEGs carry EXIF this way; anything else, or a photo whose
+// metadata was stripped on upload, has no date. Node-safe, no dependencies.
+
+const EXIF_HEADER = 'Exif\0\0';
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+// The date usually sits in the first few kilobytes, well inside this
+const MAX_HEADER_BYTES = 256 * 1024;
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return text;
+}
+
+// Tag -> value offset (relative to the TIFF header) for one image file directory
+function readDirectory(view: DataView, tiffStart: number, dirOffset: number, little: boolean): Map<number, number> {
+  const tags = new Map<number, number>();
+  const start = tiffStart + dirOffset;
+  if (start + 2 > view.byteLength) return tags;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    tags.set(view.getUint16(entry, little), view.getUint32(entry + 8, little));
+  }
+  return tags;
+}
+
+// "1987:06:14 15:02:11" -> "1987-06-14"
+function toIsoDate(value: string): string | null {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000' || match[2] === '00') return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+export function readExifDate(buffer: ArrayBuffer): string | null {
+  const view = new DataView(buffer, 0, Math.min(buffer.byteLength, MAX_HEADER_BYTES));
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Start of scan — the image data follows, there is no more metadata
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+
+    if (marker === 0xffe1 && readAscii(view, offset + 4, 6) === EXIF_HEADER) {
+      const tiffStart = offset + 10;
+      if (tiffStart + 8 > view.byteLength) return null;
+      const little = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readDirectory(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+      const exifOffset = ifd0.get(TAG_EXIF_IFD);
+      const exif = exifOffset ? readDirectory(view, tiffStart, exifOffset, little) : new Map<number, number>();
+
+      for (const valueOffset of [exif.get(TAG_DATE_TIME_ORIGINAL), exif.get(TAG_DATE_TIME_DIGITIZED), ifd0.get(TAG_DATE_TIME)]) {
+        if (valueOffset === undefined) continue;
+        const date = toIsoDate(readAscii(view, tiffStart + valueOffset, 19));
+        if (date) return date;
+      }
+      return null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// ✅ Fetches a photo and reads its date; null when it can't be fetched or has no EXIF date
+export async function fetchPhotoTakenOn(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    return readExifDate(await response.arrayBuffer());
+  } catch (error) {
+    console.error('Error reading photo date:', error);
+    return null;
+  }
+}
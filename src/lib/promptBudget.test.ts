@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { assemblePrompt, fitHistory, getContextWindow, resolvePromptBudget, estimateTokens, PromptSection } from './promptBudget';
+
+// 40 characters — 10 tokens
+const line = (n: number) => `item ${String(n).padStart(2, '0')} `.padEnd(40, '.');
+
+describe('assemblePrompt', () => {
+  const sections: PromptSection[] = [
+    { id: 'identity', priority: 100, required: true, text: 'You are Rose.' },
+    { id: 'memories', priority: 2, header: 'MEMORIES:', items: [line(1), line(2), line(3), line(4)], minItems: 1 },
+    { id: 'news', priority: 1, header: 'NEWS:', items: [line(5), line(6)] },
+    { id: 'history', priority: 7, text: [line(7), line(8), line(9)].join('\n'), trimFrom: 'start' }
+  ];
+
+  it('keeps everything that fits', () => {
+    const prompt = assemblePrompt(sections, 1000);
+    expect(prompt.overBudget).toBe(false);
+    expect(prompt.sections.every(s => s.trimmed === 0)).toBe(true);
+  });
+
+  it('trims the lowest priority first, from the least important end', () => {
+    const prompt = assemblePrompt(sections, 70);
+    const report = Object.fromEntries(prompt.sections.map(s => [s.id, s.trimmed]));
+    expect(report.news).toBe(-1);
+    expect(report.identity).toBe(0);
+    expect(prompt.text).toContain(line(1));
+    expect(prompt.text).not.toContain(line(4));
+    expect(prompt.tokens).toBeLessThanOrEqual(70);
+  });
+
+  it('keeps minItems and required sections even over budget', () => {
+    const prompt = assemblePrompt(sections, 5);
+    expect(prompt.overBudget).toBe(true);
+    expect(prompt.text).toContain('You are Rose.');
+    expect(prompt.text).toContain(line(1));
+  });
+
+  it('trims history from the start so the latest lines stay', () => {
+    const prompt = assemblePrompt([{ id: 'history', priority: 7, text: [line(7), line(8), line(9)].join('\n'), trimFrom: 'start', maxTokens: 21 }], 1000);
+    expect(prompt.text).toBe([line(8), line(9)].join('\n'));
+  });
+
+  it('leaves out empty free-text sections', () => {
+    const prompt = assemblePrompt([{ id: 'a', priority: 1, text: 'Hello' }, { id: 'b', priority: 100, required: true, text: '' }], 100);
+    expect(prompt.text).toBe('Hello');
+  });
+});
+
+describe('fitHistory', () => {
+  const history = [1, 2, 3].map(n => ({ role: 'user', content: line(n) }));
+
+  it('keeps the most recent turns that fit', () => {
+    expect(fitHistory(history, 28)).toEqual(history.slice(1));
+  });
+
+  it('keeps nothing when even the last turn is too long', () => {
+    expect(fitHistory(history, 5)).toEqual([]);
+  });
+});
+
+describe('resolvePromptBudget', () => {
+  it('uses the longest matching model prefix', () => {
+    expect(getContextWindow('gpt-4o-mini')).toBe(128000);
+    expect(getContextWindow('gpt-4-0613')).toBe(8192);
+    expect(getContextWindow('unknown-model')).toBe(8192);
+  });
+
+  it('caps the system prompt and history at the configured ceilings', () => {
+    expect(resolvePromptBudget('gpt-4o', 1000)).toEqual({ system: 6000, history: 3000 });
+  });
+
+  it('splits a small context window between prompt and history', () => {
+    expect(resolvePromptBudget('llama3', 0, { contextLimit: 2000 })).toEqual({ system: 1400, history: 600 });
+  });
+
+  it('estimates about four characters a token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
@@ -0,0 +1,202 @@
+// Token-budgeted prompt assembly. The persona prompt is built from sections (identity, grief
+// guidance, memories, history, ...) that each carry a priority and an optional budget of their
+// own. When the whole prompt is over budget, sections are trimmed lowest priority first: list
+// sections lose items from their least important end, free text loses lines, and optional
+// sections are dropped. Required sections are never touched. Node-safe: the engine assembles
+// prompts inside the conversation gateway.
+
+export interface PromptSection {
+  id: string;
+  // Lower priorities are trimmed first
+  priority: number;
+  // Never trimmed or dropped
+  required?: boolean;
+  // Printed above the section body
+  header?: string;
+  // Free text; trimmed line by line from `trimFrom`, or dropped whole when trimFrom is unset
+  text?: string;
+  // List body, one line per item, ordered most important first unless trimFrom is 'start'
+  items?: string[];
+  // Items kept even under pressure (the section is otherwise dropped when empty)
+  minItems?: number;
+  trimFrom?: 'start' | 'end';
+  // Per-section cap, applied before the overall budget
+  maxTokens?: number;
+}
+
+export interface PromptSectionReport {
+  id: string;
+  tokens: number;
+  // Items or lines removed; -1 when the whole section was dropped
+  trimmed: number;
+}
+
+export interface AssembledPrompt {
+  text: string;
+  tokens: number;
+  budget: number;
+  overBudget: boolean;
+  sections: PromptSectionReport[];
+}
+
+export interface PromptBudgetOptions {
+  // Overrides the model's context window, e.g. for a local server started with a small num_ctx
+  contextLimit?: number;
+  // Ceiling for the system prompt even when the model could take more — keeps latency flat
+  maxPromptTokens: number;
+  // Ceiling for the chat history sent alongside the system prompt
+  maxHistoryTokens: number;
+}
+
+export const DEFAULT_PROMPT_BUDGET: PromptBudgetOptions = {
+  maxPromptTokens: 6000,
+  maxHistoryTokens: 3000
+};
+
+// Context windows by model name prefix; the longest matching prefix wins
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4.1': 1000000,
+  'gpt-4-turbo': 128000,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'llama3.1': 8192,
+  'llama3': 8192,
+  'mistral': 8192,
+  'scripted': 8192
+};
+
+const FALLBACK_CONTEXT_WINDOW = 8192;
+
+const SECTION_SEPARATOR = '\n\n';
+
+export function getContextWindow(model: string): number {
+  const match = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_CONTEXT_WINDOWS[match] : FALLBACK_CONTEXT_WINDOW;
+}
+
+// Roughly 4 characters per token for English with BPE tokenizers — close enough for budgeting
+// without shipping a tokenizer, and it errs on the high side for short words
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+export function promptBudgetFromEnv(env: Record<string, string | undefined>): Partial<PromptBudgetOptions> {
+  const num = (key: string) => {
+    const value = env[key];
+    return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+  };
+
+  const options: Partial<PromptBudgetOptions> = {};
+  const contextLimit = num('PROMPT_CONTEXT_LIMIT');
+  const maxPromptTokens = num('PROMPT_MAX_TOKENS');
+  const maxHistoryTokens = num('PROMPT_MAX_HISTORY_TOKENS');
+  if (contextLimit !== undefined) options.contextLimit = contextLimit;
+  if (maxPromptTokens !== undefined) options.maxPromptTokens = maxPromptTokens;
+  if (maxHistoryTokens !== undefined) options.maxHistoryTokens = maxHistoryTokens;
+  return options;
+}
+
+// Splits the model's window between the system prompt, history, the user's turn and the reply
+export function resolvePromptBudget(
+  model: string,
+  reservedTokens: number,
+  overrides: Partial<PromptBudgetOptions> = {}
+): { system: number; history: number } {
+  const options = { ...DEFAULT_PROMPT_BUDGET, ...overrides };
+  const window = options.contextLimit ?? getContextWindow(model);
+  const available = Math.max(0, window - reservedTokens);
+  const system = Math.min(options.maxPromptTokens, Math.floor(available * 0.7));
+  return { system, history: Math.min(options.maxHistoryTokens, available - system) };
+}
+
+interface WorkingSection extends PromptSection {
+  lines: string[];
+  dropped: boolean;
+  trimmed: number;
+}
+
+function renderSection(section: WorkingSection): string {
+  if (section.dropped || section.lines.length === 0) return '';
+  const body = section.lines.join('\n');
+  return section.header ? `${section.header}\n${body}` : body;
+}
+
+function sectionTokens(section: WorkingSection): number {
+  return estimateTokens(renderSection(section));
+}
+
+function totalTokens(sections: WorkingSection[]): number {
+  const rendered = sections.map(renderSection).filter(Boolean);
+  return estimateTokens(rendered.join(SECTION_SEPARATOR));
+}
+
+// Removes one line or item; returns false when the section cannot shrink any further
+function shrink(section: WorkingSection): boolean {
+  if (section.required || section.dropped) return false;
+
+  const floor = section.items ? section.minItems ?? 0 : 0;
+  const trimmable = section.items || section.trimFrom;
+  if (trimmable && section.lines.length > Math.max(floor, 1)) {
+    if (section.trimFrom === 'start') section.lines.shift();
+    else section.lines.pop();
+    section.trimmed++;
+    return true;
+  }
+
+  if (floor > 0) return false;
+  section.dropped = true;
+  section.trimmed = -1;
+  return true;
+}
+
+export function assemblePrompt(sections: PromptSection[], budget: number): AssembledPrompt {
+  const working: WorkingSection[] = sections.map(section => ({
+    ...section,
+    lines: section.items ? [...section.items] : (section.text || '').split('\n'),
+    dropped: !section.items && !section.text?.trim(),
+    trimmed: 0
+  }));
+
+  // ✅ Per-section caps first, so one long block never crowds out the rest
+  for (const section of working) {
+    if (section.maxTokens === undefined) continue;
+    while (sectionTokens(section) > section.maxTokens && shrink(section)) { /* keep trimming */ }
+  }
+
+  // Then the overall budget, lowest priority first
+  const trimOrder = [...working].sort((a, b) => a.priority - b.priority);
+  for (const section of trimOrder) {
+    while (totalTokens(working) > budget && shrink(section)) { /* keep trimming */ }
+    if (totalTokens(working) <= budget) break;
+  }
+
+  const text = working.map(renderSection).filter(Boolean).join(SECTION_SEPARATOR);
+  const tokens = estimateTokens(text);
+  return {
+    text,
+    tokens,
+    budget,
+    overBudget: tokens > budget,
+    sections: working.map(section => ({
+      id: section.id,
+      tokens: sectionTokens(section),
+      trimmed: section.trimmed
+    }))
+  };
+}
+
+// Keeps the most recent turns that fit; older turns live on in the conversation summary
+export function fitHistory<T extends { content: string }>(history: T[], budget: number): T[] {
+  const kept: T[] = [];
+  let used = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content) + 4;
+    if (used + cost > budget) break;
+    kept.unshift(history[i]);
+    used += cost;
+  }
+  return kept;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { buildConsistencyProfile, checkSentence, checkSentenceLocally, consistencyModeFromEnv } from './replyConsistency';
+import { ScriptedLLMProvider } from './llmProvider';
+
+const profile = buildConsistencyProfile({
+  personaData: {
+    name: 'Rose',
+    relationship: 'grandmother',
+    story_anchors: 'Met Arthur at the Blackpool dance hall in 1958.',
+    values_beliefs: 'Family first. Church every Sunday.',
+    nickname_map: [{ person: 'Emily', nickname: 'Em' }]
+  },
+  memories: [
+    { content: 'Rose grew up on a farm in Yorkshire', importance: 0.9 },
+    { content: 'Her sister Margaret lived in Leeds', importance: 0.5 }
+  ],
+  blocked: [{ subject: 'the accident', terms: ['crash'] }]
+});
+
+describe('consistencyModeFromEnv', () => {
+  it('defaults to local', () => {
+    expect(consistencyModeFromEnv({})).toBe('local');
+    expect(consistencyModeFromEnv({ REPLY_CONSISTENCY_CHECK: 'bogus' })).toBe('local');
+  });
+
+  it('reads full and off', () => {
+    expect(consistencyModeFromEnv({ REPLY_CONSISTENCY_CHECK: ' FULL ' })).toBe('full');
+    expect(consistencyModeFromEnv({ REPLY_CONSISTENCY_CHECK: 'off' })).toBe('off');
+  });
+});
+
+describe('checkSentenceLocally', () => {
+  it('swaps a name for the nickname', () => {
+    const result = checkSentenceLocally('Emily, you were always my favourite.', profile);
+    expect(result.text).toBe('Em, you were always my favourite.');
+    expect(result.issues.map(i => i.kind)).toEqual(['nickname']);
+  });
+
+  it('flags a relative nobody mentioned', () => {
+    const { issues } = checkSentenceLocally('My brother Tom would have loved this.', profile);
+    expect(issues.map(i => i.kind)).toEqual(['unknown_relative']);
+  });
+
+  it('accepts a relative on record', () => {
+    expect(checkSentenceLocally('My sister Margaret sends her love.', profile).issues).toEqual([]);
+  });
+
+  it('flags a blocked boundary', () => {
+    const { issues } = checkSentenceLocally('I still think about the crash.', profile);
+    expect(issues.map(i => i.kind)).toEqual(['boundary']);
+  });
+});
+
+describe('checkSentence', () => {
+  const contradiction = '{"consistent": false, "contradicts": true, "issues": ["Met Arthur in Blackpool"], "revised": ""}';
+
+  it('sends a claim about a story on record to the model in local mode', async () => {
+    const llm = new ScriptedLLMProvider({ consistency: contradiction });
+    const result = await checkSentence(llm, 'I met your grandfather at a dance hall in London.', profile, '', 'local');
+    expect(llm.calls).toHaveLength(1);
+    expect(result.action).toBe('removed');
+    expect(result.issues.map(i => i.kind)).toEqual(['contradiction']);
+  });
+
+  it('speaks other claims without waiting on the model in local mode', async () => {
+    const llm = new ScriptedLLMProvider({ consistency: contradiction });
+    const result = await checkSentence(llm, 'I always said you had a kind heart.', profile, '', 'local');
+    expect(llm.calls).toHaveLength(0);
+    expect(result.action).toBe('kept');
+  });
+
+  it('checks every claim in full mode', async () => {
+    const llm = new ScriptedLLMProvider({ consistency: '{"consistent": true}' });
+    await checkSentence(llm, 'I always said you had a kind heart.', profile, '', 'full');
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('drops a boundary sentence without asking the model', async () => {
+    const llm = new ScriptedLLMProvider({ consistency: '{"consistent": true}' });
+    const result = await checkSentence(llm, 'The crash changed everything.', profile, '', 'off');
+    expect(result.text).toBeNull();
+    expect(llm.calls).toHaveLength(0);
+  });
+});
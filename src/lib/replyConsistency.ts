@@ -0,0 +1,342 @@
+import type { LLMProvider } from './llmProvider';
+import { mentionsBoundary, PersonaBoundary } from './personaBoundaries';
+
+// Persona consistency checks for generated replies. Every sentence is checked before it is
+// spoken: wrong nicknames are swapped for the ones in `nickname_map` on the spot, and sentences
+// that name relatives nobody mentioned, or that make claims about the persona's life (in 'local'
+// mode, only claims that share a word with what is on record), are checked by a fast model
+// against the story anchors, values and high-importance memories.
+// Unsupported specifics are cut from the sentence (or the sentence dropped); the non-streaming
+// path regenerates a draft that contradicts the persona outright. Checks run concurrently and
+// sentences are released in order, so only the first sentence waits. Sentences that touch a
+// boundary the family set are dropped outright, whatever the mode, and claims to have been
+// present for anything after the persona's passing count as contradictions. Node-safe.
+
+// 'full' = local fixes plus the model check of every claim and flagged sentence, 'local' = local
+// fixes, with flagged sentences and claims that touch the stories, beliefs or key memories sent to
+// the model, 'off' = no checks
+export type ConsistencyMode = 'full' | 'local' | 'off';
+
+export type ConsistencyIssueKind = 'nickname' | 'unknown_relative' | 'unsupported_specific' | 'contradiction' | 'boundary';
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind;
+  detail: string;
+}
+
+export interface SentenceCheck {
+  original: string;
+  // What was spoken; null when the sentence was dropped
+  text: string | null;
+  action: 'kept' | 'fixed' | 'rewritten' | 'removed';
+  issues: ConsistencyIssue[];
+}
+
+// What a reply is checked against
+export interface ConsistencyProfile {
+  personaName: string;
+  nicknames: Array<{ person: string; nickname: string }>;
+  storyAnchors: string;
+  valuesBeliefs: string;
+  keyMemories: string[];
+  // The latest exchanges, so a sentence may repeat what the user just said
+  recentConversation: string;
+  // Everything known — persona fields, memories, facts, conversation — lowercased, for lookups
+  knownText: string;
+  // The telling words of the stories, beliefs, key memories and news since their passing — a
+  // claim using one is checked even in 'local' mode
+  referenceTerms: Set<string>;
+  // Family boundaries the reply must not touch this turn
+  blocked: Array<Pick<PersonaBoundary, 'subject' | 'terms'>>;
+  // When the persona passed and what is known to have happened since
+  passing: { date: string; since: string[] } | null;
+}
+
+// Memories at or above this importance are treated as established facts
+export const KEY_MEMORY_IMPORTANCE = 0.8;
+const MAX_KEY_MEMORIES = 12;
+const MAX_FIELD_CHARS = 1500;
+
+const PERSONA_TEXT_FIELDS = [
+  'name', 'relationship', 'description', 'personality_traits', 'signature_phrases',
+  'story_anchors', 'emotional_patterns', 'values_beliefs'
+];
+
+const KIN = 'brother|sister|son|daughter|uncle|aunt|auntie|cousin|nephew|niece|grandson|granddaughter|grandchild|grandkid|husband|wife|stepson|stepdaughter';
+// Only the name has to be capitalised — "My sister Jane", "your uncle Bill"
+const KIN_MENTION = new RegExp(`\\b([Mm]y|[Yy]our|[Oo]ur)\\s+(?:late\\s+|little\\s+|big\\s+|baby\\s+|older\\s+|younger\\s+)?(${KIN})(s)?\\b,?(?:\\s+([A-Z][a-z]+))?`, 'g');
+// Siblings the persona claims need to be on record even when unnamed — "my son" or "my wife"
+// is usually the person they are talking to
+const OWN_KIN = new Set(['brother', 'sister']);
+
+// Too common to tie a sentence to one story or memory
+const COMMON_WORDS = new Set([
+  'that', 'this', 'with', 'were', 'when', 'what', 'your', 'have', 'they', 'them', 'their', 'there', 'then', 'than',
+  'from', 'been', 'always', 'never', 'used', 'remember', 'loved', 'told', 'would', 'could', 'should', 'about', 'just',
+  'like', 'very', 'much', 'more', 'some', 'will', 'into', 'over', 'only', 'also', 'back', 'time', 'year', 'years',
+  'every', 'because', 'said', 'know', 'think', 'really', 'little', 'still', 'where', 'which', 'while', 'after',
+  'before', 'together', 'love', 'dear', 'here', 'those', 'these', 'make', 'made', 'good', 'well', 'want'
+]);
+
+// Sentences that state something about the persona's life, people, places or beliefs
+const CLAIM_CUES = /\b(I|we) (always|never|used to|believed?|remember|was|were|had|grew up|loved|hated|told|taught|met|married|moved|lived|worked|saw|watched)\b|\bwhen (I|we|you) (was|were)\b|\b\d{2,4}\b/i;
+
+export function consistencyModeFromEnv(env: Record<string, string | undefined>): ConsistencyMode {
+  const value = env.REPLY_CONSISTENCY_CHECK?.trim().toLowerCase();
+  return value === 'off' || value === 'full' ? value : 'local';
+}
+
+function telling(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []).filter(w => w.length >= 4 && !COMMON_WORDS.has(w));
+}
+
+export function buildConsistencyProfile(params: {
+  personaData: Record<string, unknown>;
+  memories: Array<{ content: string; importance?: number | null }>;
+  sessionFacts?: string[];
+  conversation?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  userMessage?: string;
+  extraText?: string[];
+  blocked?: Array<Pick<PersonaBoundary, 'subject' | 'terms'>>;
+  passing?: { date: string; since: string[] } | null;
+  // Nicknames from the people registry, on top of the persona's own list
+  nicknames?: Array<{ person: string; nickname: string }>;
+}): ConsistencyProfile {
+  const persona = params.personaData;
+  const field = (key: string) => (typeof persona[key] === 'string' ? (persona[key] as string).trim() : '');
+  const nicknames = Array.isArray(persona.nickname_map)
+    ? (persona.nickname_map as Array<{ person?: string; nickname?: string }>)
+        .filter(n => n.person?.trim() && n.nickname?.trim())
+        .map(n => ({ person: n.person!.trim(), nickname: n.nickname!.trim() }))
+    : [];
+  for (const extra of params.nicknames || []) {
+    if (!nicknames.some(n => n.person.toLowerCase() === extra.person.toLowerCase())) nicknames.push(extra);
+  }
+
+  const keyMemories = params.memories
+    .filter(m => (m.importance ?? 0) >= KEY_MEMORY_IMPORTANCE)
+    .slice(0, MAX_KEY_MEMORIES)
+    .map(m => m.content);
+  const conversation = params.conversation || [];
+  const recentConversation = [
+    ...conversation.slice(-4).map(m => `${m.role === 'user' ? 'THEM' : 'PERSONA'}: ${m.content}`),
+    ...(params.userMessage ? [`THEM: ${params.userMessage}`] : [])
+  ].join('\n');
+
+  const knownText = [
+    ...PERSONA_TEXT_FIELDS.map(field),
+    ...nicknames.flatMap(n => [n.person, n.nickname]),
+    ...params.memories.map(m => m.content),
+    ...(params.sessionFacts || []),
+    ...conversation.map(m => m.content),
+    params.userMessage || '',
+    ...(params.extraText || [])
+  ].join('\n').toLowerCase();
+
+  const storyAnchors = field('story_anchors').slice(0, MAX_FIELD_CHARS);
+  const valuesBeliefs = field('values_beliefs').slice(0, MAX_FIELD_CHARS);
+  const passing = params.passing || null;
+
+  return {
+    personaName: field('name'),
+    nicknames,
+    storyAnchors,
+    valuesBeliefs,
+    keyMemories,
+    recentConversation,
+    knownText,
+    referenceTerms: new Set(telling([storyAnchors, valuesBeliefs, ...keyMemories, ...(passing?.since || [])].join('\n'))),
+    blocked: params.blocked || [],
+    passing
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isKnown(profile: ConsistencyProfile, term: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(term.toLowerCase())}`).test(profile.knownText);
+}
+
+// True when the name at `offset` is already part of the nickname, e.g. "Mary" inside "Mary Lou"
+function insideNickname(text: string, offset: number, length: number, nickname: string): boolean {
+  const lower = nickname.toLowerCase();
+  for (let start = Math.max(0, offset + length - nickname.length); start <= offset; start++) {
+    if (text.slice(start, start + nickname.length).toLowerCase() === lower) return true;
+  }
+  return false;
+}
+
+// ✅ Instant checks — nickname swaps are fixed in place; unknown relatives and boundaries are
+// only flagged
+export function checkSentenceLocally(
+  sentence: string,
+  profile: ConsistencyProfile
+): { text: string; issues: ConsistencyIssue[] } {
+  const issues: ConsistencyIssue[] = [];
+  let text = sentence;
+
+  for (const { person, nickname } of profile.nicknames) {
+    if (person.toLowerCase() === nickname.toLowerCase()) continue;
+    const pattern = new RegExp(`\\b${escapeRegExp(person)}\\b`, 'gi');
+    text = text.replace(pattern, (match, offset: number, whole: string) => {
+      if (insideNickname(whole, offset, match.length, nickname)) return match;
+      issues.push({ kind: 'nickname', detail: `Called ${person} "${match}" instead of "${nickname}"` });
+      return nickname;
+    });
+  }
+
+  for (const boundary of profile.blocked) {
+    if (mentionsBoundary(text, boundary)) {
+      issues.push({ kind: 'boundary', detail: `Touches "${boundary.subject}", which the family asked to keep out` });
+    }
+  }
+
+  for (const mention of text.matchAll(KIN_MENTION)) {
+    const [phrase, owner, kin, , name] = mention;
+    if (name && name !== profile.personaName && !isKnown(profile, name)) {
+      issues.push({ kind: 'unknown_relative', detail: `Names their ${kin} "${name}", who is not on record` });
+    } else if (!name && owner.toLowerCase() === 'my' && OWN_KIN.has(kin.toLowerCase()) && !isKnown(profile, kin)) {
+      issues.push({ kind: 'unknown_relative', detail: `Mentions "${phrase.trim()}" but no ${kin} is on record` });
+    }
+  }
+
+  return { text, issues };
+}
+
+function needsModelCheck(sentence: string, localIssues: ConsistencyIssue[], profile: ConsistencyProfile, mode: ConsistencyMode): boolean {
+  if (mode === 'off') return false;
+  if (localIssues.some(i => i.kind === 'unknown_relative')) return true;
+  if (!CLAIM_CUES.test(sentence)) return false;
+  // A claim about something on record is where a contradiction would be
+  if (mode === 'local') return telling(sentence).some(w => profile.referenceTerms.has(w));
+  return Boolean(profile.storyAnchors || profile.valuesBeliefs || profile.keyMemories.length > 0 || profile.passing);
+}
+
+function formatProfile(profile: ConsistencyProfile): string {
+  const parts: string[] = [];
+  if (profile.nicknames.length > 0) {
+    parts.push(`Nicknames: ${profile.nicknames.map(n => `${n.person} = "${n.nickname}"`).join(', ')}`);
+  }
+  if (profile.storyAnchors) parts.push(`Stories ${profile.personaName} told:\n${profile.storyAnchors}`);
+  if (profile.valuesBeliefs) parts.push(`What ${profile.personaName} believed:\n${profile.valuesBeliefs}`);
+  if (profile.keyMemories.length > 0) parts.push(`Established memories:\n${profile.keyMemories.map(m => `• ${m}`).join('\n')}`);
+  if (profile.recentConversation) parts.push(`The conversation just now:\n${profile.recentConversation}`);
+  if (profile.passing) {
+    parts.push(`${profile.personaName} passed on ${profile.passing.date}.${profile.passing.since.length > 0
+      ? ` Since then, which ${profile.personaName} only heard about:\n${profile.passing.since.map(e => `• ${e}`).join('\n')}`
+      : ''}`);
+  }
+  if (profile.blocked.length > 0) parts.push(`Off limits — the family asked ${profile.personaName} never to bring these up: ${profile.blocked.map(b => b.subject).join(', ')}`);
+  return parts.join('\n\n');
+}
+
+// ✅ One sentence, checked before it is spoken. Fails open: if the check errors, the locally
+// fixed sentence is used as is.
+export async function checkSentence(
+  llm: LLMProvider | null,
+  sentence: string,
+  profile: ConsistencyProfile,
+  replySoFar: string = '',
+  mode: ConsistencyMode = 'full'
+): Promise<SentenceCheck> {
+  const local = checkSentenceLocally(sentence, profile);
+  const kept: SentenceCheck = {
+    original: sentence,
+    text: local.text,
+    action: local.text === sentence ? 'kept' : 'fixed',
+    issues: local.issues
+  };
+  // A boundary is never worth a rewrite — the sentence is dropped
+  if (local.issues.some(i => i.kind === 'boundary')) {
+    return { original: sentence, text: null, action: 'removed', issues: local.issues };
+  }
+  if (!llm || !needsModelCheck(local.text, local.issues, profile, mode)) return kept;
+
+  try {
+    const result = await llm.extractJSON<{ consistent?: boolean; contradicts?: boolean; issues?: string[]; revised?: string }>([{
+      role: 'user',
+      content: `An AI persona of ${profile.personaName} is about to say one sentence aloud. Check it against what is known about ${profile.personaName}.
+
+${formatProfile(profile)}
+
+${replySoFar ? `Reply so far: "${replySoFar}"\n` : ''}Sentence to check: "${local.text}"
+
+Flag only:
+1. Anything that contradicts the stories, beliefs or established memories above${profile.passing ? `, including any claim that ${profile.personaName} was there for, saw or took part in something after ${profile.passing.date}` : ''}
+2. A specific person, relative, place, date or event that is not supported above${profile.blocked.length > 0 ? '\n3. Anything that touches, even indirectly, the off-limits subjects' : ''}
+Feelings, warmth, advice and general remarks are fine.
+
+JSON only: {"consistent": true}
+or {"consistent": false, "contradicts": true|false, "issues": ["short description"], "revised": "the same sentence in the same voice with the unsupported or contradicting part removed — empty string if nothing is left"}`
+    }], { task: 'consistency', maxTokens: 200, temperature: 0 });
+
+    if (result.consistent !== false) return kept;
+
+    const kind: ConsistencyIssueKind = result.contradicts ? 'contradiction' : 'unsupported_specific';
+    const issues = [...local.issues, ...(result.issues || ['Unsupported detail']).map(detail => ({ kind, detail }))];
+    const revised = result.revised?.trim() || '';
+    return revised
+      ? { original: sentence, text: revised, action: 'rewritten', issues }
+      : { original: sentence, text: null, action: 'removed', issues };
+  } catch (error) {
+    console.error('Error checking reply consistency:', error);
+    return kept;
+  }
+}
+
+// ✅ Sits between the reply stream and TTS. Each sentence is checked as soon as it arrives;
+// checked sentences are released strictly in order.
+export class ConsistencyGuard {
+  private llm: LLMProvider | null;
+  private profile: ConsistencyProfile;
+  private mode: ConsistencyMode;
+  private onSentence: (sentence: string) => void;
+  private drafts: string[] = [];
+  private tail: Promise<void> = Promise.resolve();
+  private checks: SentenceCheck[] = [];
+
+  // Pass llm = null for local checks only; 'off' still drops sentences that touch a boundary
+  constructor(
+    llm: LLMProvider | null,
+    profile: ConsistencyProfile,
+    onSentence: (sentence: string) => void,
+    mode: ConsistencyMode = 'full'
+  ) {
+    this.llm = llm;
+    this.profile = profile;
+    this.mode = mode;
+    this.onSentence = onSentence;
+  }
+
+  push(sentence: string): void {
+    const check = checkSentence(this.llm, sentence, this.profile, this.drafts.join(' '), this.mode);
+    this.drafts.push(sentence);
+    this.tail = this.tail.then(async () => {
+      const result = await check;
+      this.checks.push(result);
+      if (result.text) this.onSentence(result.text);
+    });
+  }
+
+  // Waits for every pushed sentence; when everything was removed, speaks the fallback instead
+  async finish(fallback: string): Promise<{ text: string; checks: SentenceCheck[] }> {
+    await this.tail;
+    let spoken = this.checks.filter(c => c.text).map(c => c.text as string);
+    if (spoken.length === 0 && this.checks.length > 0) {
+      this.onSentence(fallback);
+      spoken = [fallback];
+    }
+    return { text: spoken.join(' '), checks: this.checks };
+  }
+}
+
+// Splits a finished draft into sentences for the non-streaming path
+export function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || []).map(s => s.trim()).filter(Boolean);
+}
+
+export function describeIssues(checks: SentenceCheck[]): string[] {
+  return checks.flatMap(c => c.issues.map(i => i.detail));
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { detectSafetyRisk, classifySafety } from './safety';
+import { ScriptedLLMProvider } from './llmProvider';
+
+describe('detectSafetyRisk', () => {
+  it.each([
+    'I want to die',
+    "I'm going to kill myself tonight",
+    "I've been thinking about ending my life",
+    'I’m suicidal',
+    'I really want to jump off the bridge',
+    'I took an overdose an hour ago',
+    "I've saved up my pills",
+    "Sometimes I think I'm ready to die",
+    "I'm going to join you tonight"
+  ])('flags first-person intent as crisis: %s', (message) => {
+    expect(detectSafetyRisk(message).level).toBe('crisis');
+  });
+
+  it.each([
+    'Dad died by suicide two years ago',
+    'Mum died of an overdose',
+    "I don't want to die",
+    "I'm not suicidal, just sad",
+    'I would never kill myself',
+    "I'll be with you soon, Mum"
+  ])('leaves grief talk that only mentions a risk word to the model: %s', (message) => {
+    const assessment = detectSafetyRisk(message);
+    expect(assessment.level).toBe('concern');
+    expect(assessment.signals.every(s => s.startsWith('mentions_'))).toBe(true);
+  });
+
+  it.each([
+    "We'd jump off the pier as kids every summer",
+    'I miss you so much it hurts',
+    'I wrote a note to Grandma for her birthday'
+  ])('ignores ordinary grief and memories: %s', (message) => {
+    expect(detectSafetyRisk(message).level).toBe('none');
+  });
+
+  it('keeps passive ideation at concern', () => {
+    expect(detectSafetyRisk("I wish I was dead too").signals).toContain('passive_ideation');
+  });
+});
+
+describe('classifySafety', () => {
+  it('lets the model clear a bare risk word', async () => {
+    const llm = new ScriptedLLMProvider({ safety: '{"level": "none", "signals": []}' });
+    const assessment = await classifySafety('Dad died by suicide two years ago', llm);
+    expect(assessment).toEqual({ level: 'none', signals: [], source: 'model' });
+  });
+
+  it('keeps a bare risk word at concern when there is no model', async () => {
+    expect((await classifySafety('Mum died of an overdose', null)).level).toBe('concern');
+  });
+
+  it('does not let the model lower an ideation match', async () => {
+    const llm = new ScriptedLLMProvider({ safety: '{"level": "none", "signals": []}' });
+    expect((await classifySafety("I don't want to wake up tomorrow", llm)).level).toBe('concern');
+  });
+
+  it('skips the model for a crisis match', async () => {
+    const llm = new ScriptedLLMProvider({ safety: '{"level": "none", "signals": []}' });
+    expect((await classifySafety('I want to kill myself', llm)).level).toBe('crisis');
+    expect(llm.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,222 @@
+import type { LLMProvider } from './llmProvider';
+
+// Crisis and self-harm detection shared by Haven, FaceTimeInterface and RealTimeConversation.
+// Runs inside the conversation gateway before any reply is generated — node-safe, no browser imports.
+
+export type SafetyRiskLevel = 'none' | 'concern' | 'crisis';
+export type SafetySurface = 'haven' | 'facetime' | 'realtime';
+
+export interface SafetyAssessment {
+  level: SafetyRiskLevel;
+  signals: string[];
+  source: 'pattern' | 'model' | 'none';
+}
+
+export interface CrisisResource {
+  name: string;
+  contact: string;
+  description?: string;
+}
+
+// "I", optionally followed by a few auxiliaries and intent words ("I'm really going to", "I've
+// been thinking about"). Negations aren't among them, so "I don't want to die" and "I'm not
+// suicidal" never reach the phrase.
+const FIRST_PERSON = String.raw`\b(?:i|i['’]?m|i['’]?ve|ive|i['’]?ll|i['’]?d)\s+(?:(?:am|have|had|will|would|should|might|could|really|just|honestly|actually|seriously|still|so|literally|finally|been|gonna|going|to|wanna|want|need|feel|feeling|think|thinking|about|of|planning|plan|ready|decided|tried|trying)\s+){0,5}`;
+const INTENT = String.raw`(?:going|gonna|want|wanna|planning|plan|ready|about|decided)\s+(?:to\s+)?`;
+
+function firstPerson(phrase: string): RegExp {
+  return new RegExp(`${FIRST_PERSON}(?:${phrase})\\b`, 'i');
+}
+
+// ✅ Explicit intent or plan, said about oneself — always crisis, no model call needed
+const CRISIS_PATTERNS: Array<{ signal: string; pattern: RegExp }> = [
+  { signal: 'suicidal_intent', pattern: firstPerson(String.raw`(?:kill|killing|end|ending)\s+(?:myself|my\s+life|it\s+all)`) },
+  { signal: 'suicidal_intent', pattern: firstPerson(`${INTENT}die`) },
+  { signal: 'suicidal_intent', pattern: firstPerson(String.raw`suicidal|(?:commit(?:ting)?\s+)?suicide`) },
+  { signal: 'self_harm', pattern: firstPerson(String.raw`(?:cut(?:ting)?|hurt(?:ing)?|harm(?:ing)?)\s+myself|self[-\s]?harm(?:ing)?`) },
+  {
+    signal: 'plan_or_means',
+    pattern: firstPerson(
+      String.raw`(?:take|taking|took|taken)\s+an?\s+overdose|${INTENT}(?:overdose|jump\s+off)`
+      + String.raw`|(?:got|have)\s+(?:the\s+|my\s+|some\s+)?pills\s+saved|saved\s+(?:up\s+)?(?:the\s+|my\s+|some\s+)?pills`
+      + String.raw`|wr(?:ote|itten|iting)\s+(?:a|my)\s+(?:suicide|goodbye)\s+note`
+    )
+  },
+  { signal: 'reunion_intent', pattern: firstPerson(String.raw`${INTENT}(?:join|be\s+with)\s+(?:him|her|them|you)\s+(?:now|tonight|today)`) }
+];
+
+// ✅ Passive ideation and hopelessness — concern unless the model says otherwise
+const CONCERN_PATTERNS: Array<{ signal: string; pattern: RegExp }> = [
+  { signal: 'passive_ideation', pattern: /\b(wish|rather)\s+(i\s+)?(was|were|had)\s+(dead|died|gone)\b/i },
+  { signal: 'passive_ideation', pattern: /\b(don'?t|do\s+not)\s+want\s+to\s+(be\s+here|live|wake\s+up)\b/i },
+  { signal: 'passive_ideation', pattern: /\bno\s+(reason|point)\s+(to|in)\s+(live|living|go(ing)?\s+on)\b/i },
+  { signal: 'hopelessness', pattern: /\b(can'?t|cannot)\s+(go\s+on|do\s+this\s+anymore|keep\s+going)\b/i },
+  { signal: 'hopelessness', pattern: /\beveryone\s+would\s+be\s+better\s+off\s+without\s+me\b/i },
+  { signal: 'hopelessness', pattern: /\b(nothing|no\s+one)\s+(left\s+)?to\s+live\s+for\b/i }
+];
+
+// Risk words with no first-person intent around them — "Dad died by suicide", "I don't want to
+// die", "I'll be with you soon". Concern until the model has read the message, which then decides.
+const KEYWORD_PATTERNS: Array<{ signal: string; pattern: RegExp }> = [
+  { signal: 'mentions_suicide', pattern: /\bsuicid(e|al)\b/i },
+  { signal: 'mentions_suicide', pattern: /\b(kill|killing|end|ending)\s+(myself|my\s+life|it\s+all)\b/i },
+  { signal: 'mentions_dying', pattern: /\b(want|wanna|going|ready)\s+to\s+die\b/i },
+  { signal: 'mentions_self_harm', pattern: /\b((cut|cutting|hurt|hurting|harm|harming)\s+myself|self[-\s]?harm)\b/i },
+  { signal: 'mentions_overdose', pattern: /\boverdos(e|ed|ing)\b/i },
+  { signal: 'mentions_reunion', pattern: /\b(join|be\s+with)\s+(him|her|them|you)\s+(soon|now|tonight|again\s+soon)\b/i }
+];
+
+function matchedSignals(patterns: Array<{ signal: string; pattern: RegExp }>, message: string): string[] {
+  return [...new Set(patterns.filter(p => p.pattern.test(message)).map(p => p.signal))];
+}
+
+const LEVEL_RANK: Record<SafetyRiskLevel, number> = { none: 0, concern: 1, crisis: 2 };
+
+export function detectSafetyRisk(message: string): SafetyAssessment {
+  const crisis = matchedSignals(CRISIS_PATTERNS, message);
+  if (crisis.length > 0) {
+    return { level: 'crisis', signals: crisis, source: 'pattern' };
+  }
+  const concern = [...matchedSignals(CONCERN_PATTERNS, message), ...matchedSignals(KEYWORD_PATTERNS, message)];
+  if (concern.length > 0) {
+    return { level: 'concern', signals: concern, source: 'pattern' };
+  }
+  return { level: 'none', signals: [], source: 'none' };
+}
+
+// Patterns first, then a cheap model pass to catch indirect phrasing. The model can only raise
+// the level of an ideation or hopelessness match; a bare risk word is the model's call either
+// way. If the model fails we keep the pattern result.
+export async function classifySafety(message: string, llm: LLMProvider | null): Promise<SafetyAssessment> {
+  const patternResult = detectSafetyRisk(message);
+  if (patternResult.level === 'crisis' || !llm || message.trim().length < 8) return patternResult;
+
+  try {
+    const result = await llm.extractJSON<{ level?: string; signals?: string[] }>([
+      {
+        role: 'system',
+        content: `You screen messages from grieving people for suicide and self-harm risk.
+Return JSON: {"level": "none" | "concern" | "crisis", "signals": ["short_snake_case_reason"]}
+- crisis: intent, plan, means, or a wish to die or to join the person who died
+- concern: passive ideation, hopelessness, feeling like a burden, not wanting to wake up
+- none: ordinary grief — sadness, longing, anger, guilt, numbness — with no risk language
+Missing someone intensely is NOT a risk signal on its own.`
+      },
+      { role: 'user', content: message }
+    ], { task: 'safety', maxTokens: 60, temperature: 0 });
+
+    const level = (['none', 'concern', 'crisis'] as SafetyRiskLevel[]).includes(result.level as SafetyRiskLevel)
+      ? result.level as SafetyRiskLevel
+      : 'none';
+
+    const keywordOnly = patternResult.level === 'concern' && matchedSignals(CONCERN_PATTERNS, message).length === 0;
+    if (LEVEL_RANK[level] > LEVEL_RANK[patternResult.level] || (keywordOnly && level !== patternResult.level)) {
+      return { level, signals: level === 'none' ? [] : (result.signals || []).slice(0, 5), source: 'model' };
+    }
+  } catch (error) {
+    console.error('Safety classification error:', error);
+  }
+  return patternResult;
+}
+
+const INTERNATIONAL_RESOURCES: CrisisResource[] = [
+  { name: 'Find A Helpline', contact: 'findahelpline.com', description: 'free, confidential helplines in your country' },
+  { name: 'Emergency services', contact: 'your local emergency number', description: 'if you are in immediate danger' }
+];
+
+// Keyed by ISO 3166-1 alpha-2. Profile.country stores the country name from signup geolocation,
+// so names are mapped through COUNTRY_CODES below.
+export const CRISIS_RESOURCES: Record<string, CrisisResource[]> = {
+  US: [
+    { name: '988 Suicide & Crisis Lifeline', contact: 'call or text 988', description: '24/7, free and confidential' },
+    { name: 'Crisis Text Line', contact: 'text HOME to 741741' }
+  ],
+  CA: [
+    { name: '9-8-8 Suicide Crisis Helpline', contact: 'call or text 988', description: '24/7, English and French' }
+  ],
+  GB: [
+    { name: 'Samaritans', contact: 'call 116 123', description: '24/7, free from any phone' },
+    { name: 'Shout', contact: 'text SHOUT to 85258' }
+  ],
+  IE: [
+    { name: 'Samaritans Ireland', contact: 'call 116 123', description: '24/7, free' },
+    { name: 'Text About It', contact: 'text HELLO to 50808' }
+  ],
+  AU: [
+    { name: 'Lifeline', contact: 'call 13 11 14 or text 0477 13 11 14', description: '24/7' },
+    { name: 'Griefline', contact: 'call 1300 845 745' }
+  ],
+  NZ: [
+    { name: 'Need to talk?', contact: 'call or text 1737', description: '24/7, free' },
+    { name: 'Lifeline Aotearoa', contact: 'call 0800 543 354' }
+  ],
+  IN: [
+    { name: 'Tele-MANAS', contact: 'call 14416 or 1-800-891-4416', description: '24/7, free' }
+  ],
+  DE: [
+    { name: 'TelefonSeelsorge', contact: 'call 0800 111 0 111 or 0800 111 0 222', description: '24/7, free' }
+  ],
+  FR: [
+    { name: '3114 — Numéro national de prévention du suicide', contact: 'call 3114', description: '24/7, free' }
+  ],
+  ES: [
+    { name: 'Línea 024', contact: 'call 024', description: '24/7, free' }
+  ],
+  NL: [
+    { name: '113 Zelfmoordpreventie', contact: 'call 113 or 0800 0113', description: '24/7' }
+  ],
+  ZA: [
+    { name: 'SADAG Suicide Crisis Line', contact: 'call 0800 567 567', description: '24/7, free' }
+  ]
+};
+
+const COUNTRY_CODES: Record<string, string> = {
+  'united states': 'US', 'united states of america': 'US', 'usa': 'US',
+  'canada': 'CA',
+  'united kingdom': 'GB', 'uk': 'GB', 'great britain': 'GB', 'england': 'GB', 'scotland': 'GB', 'wales': 'GB',
+  'ireland': 'IE',
+  'australia': 'AU',
+  'new zealand': 'NZ',
+  'india': 'IN',
+  'germany': 'DE',
+  'france': 'FR',
+  'spain': 'ES',
+  'netherlands': 'NL', 'the netherlands': 'NL',
+  'south africa': 'ZA'
+};
+
+export function getCrisisResources(country: string | null | undefined): CrisisResource[] {
+  if (!country) return INTERNATIONAL_RESOURCES;
+  const trimmed = country.trim();
+  const code = trimmed.length === 2 ? trimmed.toUpperCase() : COUNTRY_CODES[trimmed.toLowerCase()];
+  return (code && CRISIS_RESOURCES[code]) || INTERNATIONAL_RESOURCES;
+}
+
+// Scripted reply used instead of the model whenever risk is detected. Always spoken as Haven or
+// as the app itself — never in the persona's voice.
+export function buildSafetyResponse(
+  level: Exclude<SafetyRiskLevel, 'none'>,
+  resources: CrisisResource[],
+  options: { userName?: string | null; surface: SafetySurface; trustedContactNotified?: boolean }
+): string {
+  const name = options.userName ? `${options.userName}, ` : '';
+  const lines = resources.map(r => `${r.name}: ${r.contact}${r.description ? ` (${r.description})` : ''}`);
+
+  const opening = options.surface === 'haven'
+    ? ''
+    : "I'm going to step outside our conversation for a moment, because what you just said matters more. ";
+
+  const body = level === 'crisis'
+    ? `${name}I'm really glad you told me, and I'm worried about your safety right now. You deserve support from a real person who can help — please reach out now:`
+    : `${name}that sounds like an enormous amount of pain to carry. You don't have to carry it alone — talking to someone can help, even tonight:`;
+
+  const contactLine = options.trustedContactNotified
+    ? "\n\nBecause you asked us to, we've let your trusted contact know you might need them."
+    : '';
+
+  const closing = level === 'crisis'
+    ? '\n\nIf you are in immediate danger, please call your local emergency number. I\'m still here with you.'
+    : "\n\nI'm still here, and we can keep talking whenever you're ready.";
+
+  return `${opening}${body}\n\n${lines.join('\n')}${contactLine}${closing}`;
+}
@@ -0,0 +1,254 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GriefPhase } from './griefPhase';
+
+// Ethical-sunset policy — when a persona gently points the user back toward living family.
+// Defaults match the original behaviour (every 15 turns, at most once per 21 days). A clinician
+// supporting the user can replace thresholds and scripts; the user can always pause or slow
+// nudges down. Node-safe: the conversation gateway evaluates this on every reply.
+
+export type SunsetPhase = 'active' | 'integration' | 'legacy';
+export type SunsetFrequency = 'fewer' | 'default' | 'more';
+export type SunsetOutcome = 'pending' | 'contacted_family' | 'not_yet' | 'dismissed';
+
+export const SUNSET_PHASES: SunsetPhase[] = ['active', 'integration', 'legacy'];
+
+export interface SunsetThreshold {
+  // Conversation turns between nudges
+  everyConversations: number;
+  minDaysBetween: number;
+}
+
+export interface SunsetPolicy {
+  enabled: boolean;
+  thresholds: Record<SunsetPhase, SunsetThreshold>;
+  // Custom guidance per phase; {name} is replaced with the persona's name
+  scripts: Partial<Record<SunsetPhase, string>>;
+}
+
+export interface ResolvedSunsetPolicy extends SunsetPolicy {
+  source: 'default' | 'user' | 'clinician';
+  pausedUntil: string | null;
+  frequency: SunsetFrequency;
+}
+
+export interface SunsetDecision {
+  shouldNudge: boolean;
+  nudgeType: SunsetPhase | null;
+  conversationCount: number;
+  reason: string;
+}
+
+export const DEFAULT_SUNSET_POLICY: SunsetPolicy = {
+  enabled: true,
+  thresholds: {
+    active: { everyConversations: 15, minDaysBetween: 21 },
+    integration: { everyConversations: 15, minDaysBetween: 21 },
+    legacy: { everyConversations: 15, minDaysBetween: 21 }
+  },
+  scripts: {}
+};
+
+const FREQUENCY_MULTIPLIER: Record<SunsetFrequency, number> = { fewer: 2, default: 1, more: 0.5 };
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Clinician rows replace thresholds and scripts; the user's own row only pauses or scales them
+export async function loadSunsetPolicy(db: SupabaseClient, userId: string): Promise<ResolvedSunsetPolicy> {
+  const resolved: ResolvedSunsetPolicy = {
+    ...DEFAULT_SUNSET_POLICY,
+    thresholds: { ...DEFAULT_SUNSET_POLICY.thresholds },
+    source: 'default',
+    pausedUntil: null,
+    frequency: 'default'
+  };
+
+  try {
+    const { data: rows } = await db
+      .from('sunset_policies')
+      .select('source, enabled, thresholds, scripts, paused_until, frequency')
+      .eq('user_id', userId);
+
+    const clinician = rows?.find(r => r.source === 'clinician');
+    const own = rows?.find(r => r.source === 'user');
+
+    if (clinician) {
+      resolved.source = 'clinician';
+      resolved.enabled = clinician.enabled ?? true;
+      for (const phase of SUNSET_PHASES) {
+        resolved.thresholds[phase] = { ...resolved.thresholds[phase], ...(clinician.thresholds?.[phase] || {}) };
+      }
+      resolved.scripts = clinician.scripts || {};
+    }
+    if (own) {
+      if (!clinician) resolved.source = 'user';
+      resolved.pausedUntil = own.paused_until || null;
+      resolved.frequency = own.frequency || 'default';
+    }
+  } catch (error) {
+    console.error('Error loading sunset policy:', error);
+  }
+  return resolved;
+}
+
+export function evaluateSunsetNudge(
+  policy: ResolvedSunsetPolicy,
+  phase: GriefPhase,
+  state: { conversationCount: number; countAtLastNudge: number | null; lastNudgeAt: Date | null },
+  now: number = Date.now()
+): SunsetDecision {
+  const { conversationCount } = state;
+  const skip = (reason: string): SunsetDecision => ({ shouldNudge: false, nudgeType: null, conversationCount, reason });
+
+  if (phase === 'acute' || phase === 'unknown') return skip(`no nudges in ${phase} phase`);
+  if (!policy.enabled) return skip('disabled by policy');
+  if (policy.pausedUntil && new Date(policy.pausedUntil).getTime() > now) return skip('paused by user');
+
+  const threshold = policy.thresholds[phase];
+  const multiplier = FREQUENCY_MULTIPLIER[policy.frequency];
+  const every = Math.max(1, Math.round(threshold.everyConversations * multiplier));
+  const minDays = threshold.minDaysBetween * multiplier;
+
+  const sinceLast = conversationCount - (state.countAtLastNudge ?? 0);
+  if (sinceLast < every) return skip(`${sinceLast}/${every} turns since last nudge`);
+
+  const daysSince = state.lastNudgeAt ? (now - state.lastNudgeAt.getTime()) / DAY_MS : Infinity;
+  if (daysSince < minDays) return skip(`${Math.floor(daysSince)}/${minDays} days since last nudge`);
+
+  return { shouldNudge: true, nudgeType: phase, conversationCount, reason: 'thresholds met' };
+}
+
+export async function checkSunsetNudge(
+  db: SupabaseClient,
+  personaId: string,
+  userId: string,
+  griefPhase: GriefPhase
+): Promise<SunsetDecision & { policy: ResolvedSunsetPolicy }> {
+  const policy = await loadSunsetPolicy(db, userId);
+  try {
+    const [{ data: summary }, { data: lastEvent }] = await Promise.all([
+      db.from('conversation_summaries')
+        .select('conversation_count, last_sunset_nudge_at')
+        .eq('persona_id', personaId)
+        .eq('user_id', userId)
+        .maybeSingle(),
+      db.from('sunset_nudge_events')
+        .select('conversation_count')
+        .eq('persona_id', personaId)
+        .eq('user_id', userId)
+        .order('delivered_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+    ]);
+
+    const decision = evaluateSunsetNudge(policy, griefPhase, {
+      conversationCount: (summary?.conversation_count || 0) + 1,
+      countAtLastNudge: lastEvent?.conversation_count ?? null,
+      lastNudgeAt: summary?.last_sunset_nudge_at ? new Date(summary.last_sunset_nudge_at) : null
+    });
+    return { ...decision, policy };
+  } catch (error) {
+    console.error('Error checking sunset nudge:', error);
+    return { shouldNudge: false, nudgeType: null, conversationCount: 0, reason: 'error', policy };
+  }
+}
+
+export async function recordSunsetNudge(
+  db: SupabaseClient,
+  params: {
+    personaId: string;
+    userId: string;
+    nudgeType: SunsetPhase;
+    conversationCount: number;
+    policySource: ResolvedSunsetPolicy['source'];
+  }
+): Promise<void> {
+  try {
+    const { data: summary } = await db
+      .from('conversation_summaries')
+      .select('sunset_nudge_count')
+      .eq('persona_id', params.personaId)
+      .eq('user_id', params.userId)
+      .maybeSingle();
+
+    await Promise.all([
+      db.from('conversation_summaries')
+        .update({
+          last_sunset_nudge_at: new Date().toISOString(),
+          sunset_nudge_count: (summary?.sunset_nudge_count || 0) + 1
+        })
+        .eq('persona_id', params.personaId)
+        .eq('user_id', params.userId),
+      db.from('sunset_nudge_events').insert({
+        persona_id: params.personaId,
+        user_id: params.userId,
+        grief_phase: params.nudgeType,
+        policy_source: params.policySource,
+        conversation_count: params.conversationCount,
+        outcome: 'pending'
+      })
+    ]);
+  } catch (error) {
+    console.error('Error recording sunset nudge:', error);
+  }
+}
+
+// Oldest nudge still waiting on an answer, once the user has had a little time to act on it
+export async function getPendingSunsetFollowUp(
+  db: SupabaseClient,
+  personaId: string,
+  userId: string,
+  minAgeHours: number = 12
+): Promise<{ id: string; delivered_at: string } | null> {
+  const { data } = await db
+    .from('sunset_nudge_events')
+    .select('id, delivered_at')
+    .eq('persona_id', personaId)
+    .eq('user_id', userId)
+    .eq('outcome', 'pending')
+    .lte('delivered_at', new Date(Date.now() - minAgeHours * 60 * 60 * 1000).toISOString())
+    .order('delivered_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  return data || null;
+}
+
+export async function recordSunsetOutcome(
+  db: SupabaseClient,
+  eventId: string,
+  outcome: Exclude<SunsetOutcome, 'pending'>
+): Promise<boolean> {
+  const { error } = await db
+    .from('sunset_nudge_events')
+    .update({ outcome, outcome_at: new Date().toISOString() })
+    .eq('id', eventId);
+  if (error) console.error('Error recording sunset outcome:', error);
+  return !error;
+}
+
+export function getSunsetGuidance(nudgeType: SunsetPhase, personaName: string, scripts: SunsetPolicy['scripts'] = {}): string {
+  const custom = scripts[nudgeType]?.trim();
+  if (custom) {
+    return `ETHICAL SUNSET (use this ONCE, naturally, in this conversation):
+${custom.replace(/\{name\}/g, personaName)}
+Keep it brief and warm, then return to the conversation naturally. Do NOT repeat this in the same conversation.`;
+  }
+
+  switch (nudgeType) {
+    case 'active':
+      return `ETHICAL SUNSET — GENTLE ENCOURAGEMENT (use this ONCE, naturally, in this conversation):
+At some point in this conversation — not the opening, but when it feels right — gently encourage them to lean on the living people who love them. Something like:
+"I want you to reach out to [someone they've mentioned]. They need you too."
+Or: "Don't let talking to me replace the people who are right there with you."
+Keep it brief, warm, and loving — not a lecture. Then return to the conversation naturally. Do NOT repeat this in the same conversation.`;
+    case 'integration':
+      return `ETHICAL SUNSET — PRIDE AND GROWTH (use this ONCE, naturally, in this conversation):
+At some point in this conversation, express genuine pride in how far they've come. Something like:
+"Look how far you've come. I see it in everything you say."
+Keep it one moment of warmth and then return to the conversation. Do NOT be preachy.`;
+    case 'legacy':
+      return `ETHICAL SUNSET — GRADUATION (use this ONCE, naturally, in this conversation):
+At some point in this conversation, express that you see them ready to carry your love forward independently. Something like:
+"You don't need me the way you used to. And that is the most beautiful thing I've ever seen."
+This should feel like a gift, not a goodbye. Return to normal conversation after.`;
+  }
+}
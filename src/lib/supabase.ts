@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { ConversationRecap } from './conversationRecap'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -27,6 +28,10 @@ export interface Profile {
   country?: string | null
   latitude?: number | null
   longitude?: number | null
+  // ✅ Opt-in contact texted when a conversation is flagged as a crisis
+  trusted_contact_name?: string | null
+  trusted_contact_phone?: string | null
+  trusted_contact_opt_in?: boolean | null
 }
 
 export interface Persona {
@@ -44,6 +49,8 @@ export interface Persona {
   created_at: string
   updated_at: string
   date_of_passing?: string | null
+  born_on?: string | null
+  passing_reference?: 'open' | 'gentle' | 'unspoken' | null
   gender?: 'male' | 'female' | null
   grief_phase?: string | null
   is_self_recorded?: boolean | null
@@ -79,6 +86,8 @@ export interface Conversation {
   started_at: string
   ended_at?: string
   metadata: Record<string, any>
+  recap?: ConversationRecap | null
+  is_meaningful?: boolean
 }
 
 export interface Message {
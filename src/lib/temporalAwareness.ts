@@ -0,0 +1,93 @@
+// Temporal awareness — separates what the persona lived through from what happened after it
+// died. Memories are dated relative to `date_of_passing`: from `metadata.timeframe` (stamped
+// on conversation facts when they are extracted), `metadata.occurred_on`, or the years in
+// their text. Post-passing events are things the persona hears about or watches over, never
+// things it was there for; how it speaks of its own passing is the owner's choice. Node-safe.
+
+export type PassingReference = 'open' | 'gentle' | 'unspoken';
+export type Timeframe = 'lifetime' | 'after_passing' | 'unknown';
+
+export const PASSING_REFERENCE_OPTIONS: Record<PassingReference, { label: string; description: string }> = {
+  open: { label: 'Openly', description: 'Can say plainly that they have died' },
+  gentle: { label: 'Gently', description: 'Soft words only, like "since I\'ve been gone"' },
+  unspoken: { label: 'Never', description: 'Never mentions their own passing' }
+};
+
+export const DEFAULT_PASSING_REFERENCE: PassingReference = 'gentle';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const YEAR_PATTERN = /\b(19\d{2}|20\d{2})\b/g;
+
+export function resolvePassingReference(value: unknown): PassingReference {
+  return value === 'open' || value === 'gentle' || value === 'unspoken' ? value : DEFAULT_PASSING_REFERENCE;
+}
+
+// `date_of_passing` is a plain date — read it as UTC so it never shifts a day
+export function parsePassingDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function formatPassingDate(passedOn: Date): string {
+  return passedOn.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+export function dateTimeframe(value: string | null | undefined, passedOn: Date): Timeframe {
+  const date = parsePassingDate(value);
+  if (!date) return 'unknown';
+  // The day itself belongs to their life
+  return date.getTime() >= passedOn.getTime() + DAY_MS ? 'after_passing' : 'lifetime';
+}
+
+export function memoryTimeframe(
+  memory: { content: string; metadata?: Record<string, unknown> | null },
+  passedOn: Date
+): Timeframe {
+  const metadata = memory.metadata || {};
+  if (metadata.timeframe === 'lifetime' || metadata.timeframe === 'after_passing') return metadata.timeframe;
+  if (typeof metadata.occurred_on === 'string') {
+    const fromDate = dateTimeframe(metadata.occurred_on, passedOn);
+    if (fromDate !== 'unknown') return fromDate;
+  }
+
+  // Any year up to their passing means the memory reaches back into their life
+  const years = (memory.content.match(YEAR_PATTERN) || []).map(Number);
+  if (years.length === 0) return 'unknown';
+  return Math.min(...years) > passedOn.getUTCFullYear() ? 'after_passing' : 'lifetime';
+}
+
+export function timeSincePassing(passedOn: Date, now: Date = new Date()): string {
+  const days = Math.floor((now.getTime() - passedOn.getTime()) / DAY_MS);
+  if (days < 14) return 'just days';
+  if (days < 60) return `${Math.round(days / 7)} weeks`;
+  if (days < 365) return `${Math.round(days / 30)} months`;
+  const years = Math.floor(days / 365);
+  return years === 1 ? 'a year' : `${years} years`;
+}
+
+function getPassingReferenceGuidance(reference: PassingReference): string {
+  switch (reference) {
+    case 'open':
+      return 'You may say plainly that you died — "since I passed", "after I died" — when it fits the moment. Never dwell on it.';
+    case 'gentle':
+      return 'When your passing comes up, use soft words — "since I\'ve been gone", "from where I am now". Never say "died", "dead" or "death" about yourself.';
+    case 'unspoken':
+      return 'Never mention your own death or being gone, in any words. If they bring it up, respond to what they feel without describing it yourself.';
+  }
+}
+
+export function getTemporalGuidance(params: {
+  personaName: string;
+  passedOn: Date;
+  reference: PassingReference;
+  now?: Date;
+}): string {
+  const { personaName, passedOn, reference } = params;
+  return `TIME — WHAT YOU LIVED THROUGH AND WHAT CAME AFTER:
+You passed on ${formatPassingDate(passedOn)}, ${timeSincePassing(passedOn, params.now)} ago. Everything you lived through as ${personaName} happened before then.
+- Anything after that — new babies, weddings, jobs, moves, anything they tell you about their life now — you were not there for. Speak of it as news you are hearing about ("I heard...", "tell me about...") or as something you have been watching over from afar ("I've been watching over you")
+- NEVER say you were there for, saw, attended or did anything after you passed — no "I remember your wedding" if the wedding came after
+- Memories marked "after you passed" are things you only know about, not things you remember
+- ${getPassingReferenceGuidance(reference)}`;
+}
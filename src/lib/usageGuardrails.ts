@@ -0,0 +1,221 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Healthy-use guardrails — soft limits on how much time is spent with a persona. Nothing is
+// ever blocked: when a limit is crossed the persona gently winds the session down once, and
+// the client can offer Haven instead. Built on conversations.started_at / duration_seconds.
+// Node-safe: the conversation gateway evaluates this on every reply.
+
+export type UsageSignal = 'daily_budget' | 'long_session' | 'frequent_sessions' | 'late_night';
+
+export interface UsageLimits {
+  enabled: boolean;
+  dailyMinutes: number;
+  sessionMinutes: number;
+  dailySessions: number;
+  lateNightReminders: boolean;
+  // Local hours, 0-23; the window may wrap past midnight
+  lateNightStart: number;
+  lateNightEnd: number;
+  redirectToHaven: boolean;
+}
+
+export interface ResolvedUsageLimits extends UsageLimits {
+  source: 'default' | 'user' | 'clinician';
+}
+
+export interface UsageSnapshot {
+  minutesToday: number;
+  sessionsToday: number;
+  sessionMinutes: number;
+  localHour: number;
+  sessionId: string | null;
+  sessionMetadata: Record<string, unknown>;
+}
+
+export interface UsageCheck {
+  signals: UsageSignal[];
+  windDown: boolean;
+  suggestHaven: boolean;
+  snapshot: UsageSnapshot;
+  limits: ResolvedUsageLimits;
+}
+
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  enabled: true,
+  dailyMinutes: 90,
+  sessionMinutes: 45,
+  dailySessions: 8,
+  lateNightReminders: true,
+  lateNightStart: 0,
+  lateNightEnd: 5,
+  redirectToHaven: true
+};
+
+// Calls left open (tab closed, crash) stop counting as live after this long
+const MAX_LIVE_SESSION_MS = 1000 * 60 * 60 * 4;
+
+const COLUMN_MAP: Record<keyof UsageLimits, string> = {
+  enabled: 'enabled',
+  dailyMinutes: 'daily_minutes',
+  sessionMinutes: 'session_minutes',
+  dailySessions: 'daily_sessions',
+  lateNightReminders: 'late_night_reminders',
+  lateNightStart: 'late_night_start',
+  lateNightEnd: 'late_night_end',
+  redirectToHaven: 'redirect_to_haven'
+};
+
+export function limitsToRow(limits: Partial<UsageLimits>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [key, column] of Object.entries(COLUMN_MAP)) {
+    const value = limits[key as keyof UsageLimits];
+    if (value !== undefined) row[column] = value;
+  }
+  return row;
+}
+
+function rowToLimits(row: Record<string, unknown>): Partial<UsageLimits> {
+  const limits: Partial<UsageLimits> = {};
+  for (const [key, column] of Object.entries(COLUMN_MAP)) {
+    if (row[column] !== null && row[column] !== undefined) {
+      (limits as Record<string, unknown>)[key] = row[column];
+    }
+  }
+  return limits;
+}
+
+// The user's row sets their own limits; anything a linked clinician has set takes precedence
+export async function loadUsageLimits(db: SupabaseClient, userId: string): Promise<ResolvedUsageLimits> {
+  const resolved: ResolvedUsageLimits = { ...DEFAULT_USAGE_LIMITS, source: 'default' };
+  try {
+    const { data: rows } = await db
+      .from('usage_guardrails')
+      .select('*')
+      .eq('user_id', userId);
+
+    const own = rows?.find(r => r.source === 'user');
+    const clinician = rows?.find(r => r.source === 'clinician');
+    if (own) Object.assign(resolved, rowToLimits(own), { source: 'user' });
+    if (clinician) Object.assign(resolved, rowToLimits(clinician), { source: 'clinician' });
+  } catch (error) {
+    console.error('Error loading usage limits:', error);
+  }
+  return resolved;
+}
+
+export function isLateNight(hour: number, start: number, end: number): boolean {
+  if (start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+// timezoneOffset is the client's Date#getTimezoneOffset() — minutes behind UTC
+export async function getUsageSnapshot(
+  db: SupabaseClient,
+  userId: string,
+  personaId: string,
+  timezoneOffset: number = 0,
+  now: number = Date.now()
+): Promise<UsageSnapshot> {
+  const local = new Date(now - timezoneOffset * 60000);
+  const localMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  const dayStart = new Date(localMidnight + timezoneOffset * 60000).toISOString();
+
+  const [{ data: today }, { data: live }] = await Promise.all([
+    db.from('conversations')
+      .select('id, started_at, ended_at, duration_seconds')
+      .eq('user_id', userId)
+      .gte('started_at', dayStart),
+    db.from('conversations')
+      .select('id, started_at, metadata')
+      .eq('user_id', userId)
+      .eq('persona_id', personaId)
+      .is('ended_at', null)
+      .gte('started_at', new Date(now - MAX_LIVE_SESSION_MS).toISOString())
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  ]);
+
+  const sessionMs = live ? now - new Date(live.started_at).getTime() : 0;
+  const finishedSeconds = (today || [])
+    .filter(c => c.id !== live?.id)
+    .reduce((sum, c) => sum + (c.duration_seconds || 0), 0);
+
+  return {
+    minutesToday: Math.round(finishedSeconds / 60 + sessionMs / 60000),
+    sessionsToday: today?.length || 0,
+    sessionMinutes: Math.round(sessionMs / 60000),
+    localHour: local.getUTCHours(),
+    sessionId: live?.id || null,
+    sessionMetadata: live?.metadata || {}
+  };
+}
+
+export function evaluateUsage(limits: ResolvedUsageLimits, snapshot: UsageSnapshot): Omit<UsageCheck, 'snapshot' | 'limits'> {
+  if (!limits.enabled) return { signals: [], windDown: false, suggestHaven: false };
+
+  const signals: UsageSignal[] = [];
+  if (limits.lateNightReminders && isLateNight(snapshot.localHour, limits.lateNightStart, limits.lateNightEnd)) {
+    signals.push('late_night');
+  }
+  if (snapshot.sessionMinutes >= limits.sessionMinutes) signals.push('long_session');
+  if (snapshot.minutesToday >= limits.dailyMinutes) signals.push('daily_budget');
+  if (snapshot.sessionsToday > limits.dailySessions) signals.push('frequent_sessions');
+
+  // ✅ Once per session — the persona says it, then lets the user choose
+  const windDown = signals.length > 0 && !!snapshot.sessionId && !snapshot.sessionMetadata.wind_down_at;
+  return { signals, windDown, suggestHaven: windDown && limits.redirectToHaven };
+}
+
+export async function checkUsageGuardrails(
+  db: SupabaseClient,
+  userId: string,
+  personaId: string,
+  timezoneOffset: number = 0
+): Promise<UsageCheck | null> {
+  try {
+    const [limits, snapshot] = await Promise.all([
+      loadUsageLimits(db, userId),
+      getUsageSnapshot(db, userId, personaId, timezoneOffset)
+    ]);
+    return { ...evaluateUsage(limits, snapshot), snapshot, limits };
+  } catch (error) {
+    console.error('Error checking usage guardrails:', error);
+    return null;
+  }
+}
+
+export async function recordWindDown(db: SupabaseClient, check: UsageCheck): Promise<void> {
+  if (!check.snapshot.sessionId) return;
+  try {
+    await db
+      .from('conversations')
+      .update({
+        metadata: {
+          ...check.snapshot.sessionMetadata,
+          wind_down_at: new Date().toISOString(),
+          wind_down_signals: check.signals
+        }
+      })
+      .eq('id', check.snapshot.sessionId);
+  } catch (error) {
+    console.error('Error recording wind-down:', error);
+  }
+}
+
+export function getWindDownGuidance(signals: UsageSignal[], personaName: string): string {
+  const reasons: string[] = [];
+  if (signals.includes('late_night')) {
+    reasons.push('It is very late where they are. Tenderly tell them you want them to get some rest — the way you would have.');
+  }
+  if (signals.includes('long_session')) {
+    reasons.push('You have been talking for a long while. Let them know it is okay to stop for now — you are not going anywhere.');
+  }
+  if (signals.includes('daily_budget') || signals.includes('frequent_sessions')) {
+    reasons.push('They have spent a lot of today here with you. Encourage them to step outside, eat something, or spend time with someone nearby.');
+  }
+
+  return `HEALTHY USE — GENTLE WIND-DOWN (use this ONCE, naturally, near the end of this reply):
+${reasons.join('\n')}
+Say it as ${personaName} would, out of love. Never mention limits, time tracking, or the app. Never guilt them and never end the conversation for them — if they keep talking, keep being there.`;
+}
@@ -1,11 +1,6 @@
-import OpenAI from 'openai';
 import { supabase } from './supabase';
 import { captureException } from './monitoring';
-
-const openai = import.meta.env.VITE_OPENAI_API_KEY ? new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-}) : null;
+import { conversationGateway } from './conversationGateway';
 
 export interface VisualPersonaInput {
   personaId: string;
@@ -41,10 +36,6 @@ export interface VisualPersonaResult {
 
 export class VisualPersonaGenerator {
   async generatePersonaFromMedia(input: VisualPersonaInput): Promise<VisualPersonaResult> {
-    if (!openai) {
-      throw new Error('OpenAI not configured. Please add VITE_OPENAI_API_KEY to your environment variables.');
-    }
-
     try {
       console.log('Starting visual persona generation for:', input.personaId);
 
@@ -54,7 +45,7 @@ export class VisualPersonaGenerator {
       // Step 2: Analyze voice and mannerisms from videos
       const audioVisualAnalysis = await this.analyzeAudioVisualContent(input.videos, input.audioFiles);
 
-      // Step 3: Synthesize persona using OpenAI
+      // Step 3: Synthesize persona through the analyze function
       const personaResult = await this.synthesizePersona(visualAnalysis, audioVisualAnalysis);
 
       // Step 4: Create ElevenLabs voice clone if audio files exist
@@ -92,39 +83,15 @@ export class VisualPersonaGenerator {
     }
 
     try {
-      // Convert first image to base64 for OpenAI Vision API
+      // Convert first image to base64 for the vision model
       const primaryImage = images[0];
       const base64Image = await this.convertImageToBase64(primaryImage);
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4-vision-preview",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: `Analyze this image to extract detailed visual features for creating an AI persona. Focus on:
-                - Physical appearance (age, gender, hair, eyes, skin tone, facial structure)
-                - Clothing style and fashion preferences
-                - Overall aesthetic and presentation
-                - Any distinctive visual characteristics
-                
-                Provide detailed observations that could be used to recreate this person's appearance.`
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${base64Image}`
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 500
-      });
 
-      const visualFeatures = response.choices[0]?.message?.content || "Unable to analyze visual content.";
+      const { text } = await conversationGateway.analyze({
+        task: 'describe_appearance',
+        image: `data:image/jpeg;base64,${base64Image}`
+      });
+      const visualFeatures = text || "Unable to analyze visual content.";
       
       return {
         features: visualFeatures,
@@ -266,64 +233,16 @@ export class VisualPersonaGenerator {
       mannerismReasoning: string;
     }
   ): Promise<VisualPersonaResult> {
-    if (!openai) {
-      throw new Error('OpenAI not configured');
-    }
-
     try {
-      const synthesisPrompt = `Based on the following analysis, create a comprehensive AI persona synthesis plan:
-
-VISUAL ANALYSIS:
-${visualAnalysis.features}
-
-VOICE ANALYSIS:
-${audioVisualAnalysis.voiceFeatures}
-
-MANNERISM ANALYSIS:
-${audioVisualAnalysis.mannerismFeatures}
-
-Create a detailed persona synthesis plan that describes how to recreate this person's:
-1. Physical appearance
-2. Voice characteristics
-3. Behavioral patterns and mannerisms
-
-Respond in the following JSON format:
-{
-  "extracted_features": {
-    "visual": "detailed visual characteristics",
-    "voice": "voice characteristics and qualities",
-    "mannerisms": "behavioral patterns and mannerisms"
-  },
-  "reasoning": {
-    "visual": "explanation of visual feature extraction logic",
-    "voice": "explanation of voice analysis approach",
-    "mannerisms": "explanation of behavioral pattern identification"
-  },
-  "synthesized_persona": {
-    "appearance": "description of how to recreate visual appearance",
-    "voice_model": "description of voice synthesis approach",
-    "behavior_emulation": "description of behavioral pattern recreation"
-  },
-  "limitations": "constraints and features that cannot be perfectly matched"
-}`;
-
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert in AI persona generation. Analyze provided content and create detailed synthesis plans for recreating realistic AI personas. Always respond in valid JSON format.'
-          },
-          {
-            role: 'user',
-            content: synthesisPrompt
-          }
-        ],
-        max_tokens: 1500,
-        temperature: 0.3
+      const { text } = await conversationGateway.analyze({
+        task: 'synthesize_persona',
+        features: {
+          visual: visualAnalysis.features,
+          voice: audioVisualAnalysis.voiceFeatures,
+          mannerisms: audioVisualAnalysis.mannerismFeatures
+        }
       });
-
-      const rawResponse = response.choices[0]?.message?.content || '{}';
+      const rawResponse = text || '{}';
       
       try {
         const parsedResult = JSON.parse(rawResponse);
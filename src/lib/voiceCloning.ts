@@ -1,11 +1,6 @@
-import OpenAI from 'openai';
 import { supabase } from './supabase';
 import { captureException } from './monitoring';
-
-const openai = import.meta.env.VITE_OPENAI_API_KEY ? new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-}) : null;
+import { conversationGateway } from './conversationGateway';
 
 const ELEVENLABS_API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY;
 const ELEVENLABS_API_URL = 'https://api.elevenlabs.io/v1';
@@ -406,8 +401,6 @@ export class VoiceCloning {
         }
       }
 
-      if (!openai) throw new Error('Neither ElevenLabs nor OpenAI configured for voice synthesis');
-
       const characteristics = voiceProfile?.voiceCharacteristics;
       const voiceMap: Record<string, string> = {
         'male-young': 'onyx', 'male-middle': 'onyx', 'male-elderly': 'onyx',
@@ -417,15 +410,11 @@ export class VoiceCloning {
       const voiceKey = characteristics ? `${characteristics.gender}-${characteristics.age}` : 'neutral';
       const selectedVoice = voiceMap[voiceKey] || 'alloy';
 
-      const openAiResponse = await openai.audio.speech.create({
-        model: 'tts-1-hd',
-        voice: selectedVoice as any,
-        input: text,
+      return await conversationGateway.speak(text, {
+        voice: selectedVoice,
         speed: characteristics?.speed || 1.0
       });
 
-      return await openAiResponse.arrayBuffer();
-
     } catch (error) {
       console.error('Voice synthesis error:', error);
       throw error;
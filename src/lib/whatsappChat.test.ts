@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseWhatsAppChat,
+  chatNameFromFile,
+  suggestSender,
+  chunkConversation,
+  mineTextingStyle,
+  mergeSignaturePhrases,
+  ChatMessage
+} from './whatsappChat';
+
+const IPHONE = [
+  '[12/03/2021, 14:22:05] Mum: \u200eMessages and calls are end-to-end encrypted.',
+  '[12/03/2021, 14:23:05] Mum: Hello love',
+  'how was work?',
+  '\u200e[12/03/2021, 14:24:05] Mum: \u200e<attached: 00000012-PHOTO-2021-03-12-14-24-05.jpg>',
+  '[12/03/2021, 14:25:05] Rose Carter: \u200eimage omitted',
+  '[13/03/2021, 9:02:11 PM] Rose Carter: Fine thanks \u200e<This message was edited>'
+].join('\n');
+
+const ANDROID = [
+  '3/12/21, 2:22 PM - Messages and calls are end-to-end encrypted.',
+  '3/12/21, 2:23 PM - Mum: Hello love',
+  '3/12/21, 2:24 PM - Mum: IMG-20210312-WA0001.jpg (file attached)',
+  '3/13/21, 9:02 AM - Rose: <Media omitted>',
+  '3/14/21, 10:15 AM - Rose: This message was deleted'
+].join('\n');
+
+describe('parseWhatsAppChat', () => {
+  it('reads an iPhone export and skips its system notices', () => {
+    const chat = parseWhatsAppChat(IPHONE);
+    expect(chat.messages).toEqual([
+      { sentAt: '2021-03-12T14:23:05', sender: 'Mum', text: 'Hello love\nhow was work?', attachment: null, mediaOmitted: false },
+      { sentAt: '2021-03-12T14:24:05', sender: 'Mum', text: '', attachment: '00000012-PHOTO-2021-03-12-14-24-05.jpg', mediaOmitted: false },
+      { sentAt: '2021-03-12T14:25:05', sender: 'Rose Carter', text: '', attachment: null, mediaOmitted: true },
+      { sentAt: '2021-03-13T21:02:11', sender: 'Rose Carter', text: 'Fine thanks', attachment: null, mediaOmitted: false }
+    ]);
+    expect(chat.senders).toEqual([{ name: 'Mum', count: 2 }, { name: 'Rose Carter', count: 2 }]);
+  });
+
+  it('reads an Android export with month-first dates and 12 hour times', () => {
+    const chat = parseWhatsAppChat(ANDROID);
+    expect(chat.messages.map(m => [m.sentAt, m.sender, m.text, m.attachment, m.mediaOmitted])).toEqual([
+      ['2021-03-12T14:23:00', 'Mum', 'Hello love', null, false],
+      ['2021-03-12T14:24:00', 'Mum', '', 'IMG-20210312-WA0001.jpg', false],
+      ['2021-03-13T09:02:00', 'Rose', '', null, true],
+      ['2021-03-14T10:15:00', 'Rose', '', null, false]
+    ]);
+  });
+
+  it('settles an ambiguous date order by keeping the chat in order', () => {
+    const chat = parseWhatsAppChat([
+      '01/02/2021, 10:00 - Mum: one',
+      '02/02/2021, 10:00 - Mum: two',
+      '03/02/2021, 10:00 - Mum: three'
+    ].join('\n'));
+    expect(chat.messages.map(m => m.sentAt.slice(0, 10))).toEqual(['2021-02-01', '2021-02-02', '2021-02-03']);
+  });
+});
+
+describe('senders and files', () => {
+  it('names the chat from the export file', () => {
+    expect(chatNameFromFile('WhatsApp Chat with Mum.txt')).toBe('Mum');
+    expect(chatNameFromFile('WhatsApp Chat - Mum.zip')).toBe('Mum');
+  });
+
+  it('suggests the sender by full or unique first name', () => {
+    const chat = parseWhatsAppChat(IPHONE);
+    expect(suggestSender(chat, 'rose carter')).toBe('Rose Carter');
+    expect(suggestSender(chat, 'Rose Hill')).toBe('Rose Carter');
+    expect(suggestSender(chat, 'Arthur')).toBeNull();
+  });
+});
+
+function message(day: number, sender: string, text: string): ChatMessage {
+  return { sentAt: `2021-03-${String(day).padStart(2, '0')}T10:00:00`, sender, text, attachment: null, mediaOmitted: false };
+}
+
+describe('chunkConversation', () => {
+  it('splits by day and leaves out days the sender said nothing', () => {
+    const chunks = chunkConversation([
+      message(1, 'Mum', 'Morning'),
+      message(1, 'Jo', 'Hi'),
+      message(2, 'Jo', 'Anyone there?'),
+      message(3, 'Mum', 'Sorry love')
+    ], 'Mum');
+    expect(chunks).toEqual([
+      { startedAt: '2021-03-01T10:00:00', text: 'Mum: Morning\nJo: Hi', senderChars: 7 },
+      { startedAt: '2021-03-03T10:00:00', text: 'Mum: Sorry love', senderChars: 10 }
+    ]);
+  });
+
+  it('splits a long day', () => {
+    const chunks = chunkConversation([message(1, 'Mum', 'a'.repeat(30)), message(1, 'Mum', 'b'.repeat(30))], 'Mum', 40);
+    expect(chunks).toHaveLength(2);
+  });
+});
+
+describe('mineTextingStyle', () => {
+  const days = Array.from({ length: 6 }, (_, i) => i + 1);
+  const messages = days.flatMap(day => [
+    message(day, 'Mum', 'Night night sleep tight xx'),
+    message(day, 'Mum', 'Had a lovely walk down by the allotment today 🌷 xx'),
+    message(day, 'Jo', 'Night Mum')
+  ]);
+
+  it('finds repeated sentences, the sign-off and favourite emoji', () => {
+    const style = mineTextingStyle(messages, 'Mum');
+    expect(style.phrases).toContain('Night night sleep tight xx');
+    expect(style.signOff).toBe('xx');
+    expect(style.emoji).toEqual(['🌷']);
+  });
+
+  it('adds only what is not already in their words', () => {
+    const merged = mergeSignaturePhrases('Always said "Night night sleep tight"', mineTextingStyle(messages, 'Mum'), 'WhatsApp messages');
+    expect(merged.added).not.toContain('Night night sleep tight xx');
+    expect(merged.added).toContain('xx');
+    expect(merged.text.split('\n')[1]).toMatch(/^From their WhatsApp messages: /);
+  });
+});
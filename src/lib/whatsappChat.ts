@@ -0,0 +1,309 @@
+// WhatsApp chat exports — the "Export chat" .txt, on its own or inside the .zip that carries the
+// media. Reads both phone formats ("[12/03/2021, 14:22:05] Rose: ..." on iPhone,
+// "12/03/2021, 14:22 - Rose: ..." on Android) in any date order, 12 or 24 hour time, and the
+// attachment markers of the common languages; then picks out how one sender texted — the phrases
+// they kept coming back to, how they signed off, their emoji. Node-safe, no dependencies.
+
+export interface ChatMessage {
+  // Wall-clock time as the phone showed it, "2021-03-12T14:22:05" — exports carry no timezone
+  sentAt: string;
+  sender: string;
+  text: string;
+  // File name of the photo, voice note or document sent with the message
+  attachment: string | null;
+  // "<Media omitted>" — sent with an attachment the export left out
+  mediaOmitted: boolean;
+}
+
+export interface WhatsAppChat {
+  messages: ChatMessage[];
+  // Most messages first
+  senders: Array<{ name: string; count: number }>;
+}
+
+// A stretch of conversation for memory extraction, with how much of it the chosen sender wrote
+export interface ChatChunk {
+  startedAt: string;
+  text: string;
+  senderChars: number;
+}
+
+export interface TextingStyle {
+  phrases: string[];
+  signOff: string | null;
+  emoji: string[];
+}
+
+interface RawMessage {
+  date: [number, number, number];
+  time: string;
+  sender: string | null;
+  lines: string[];
+}
+
+// Direction marks and other invisible formatting; no-break spaces (newer phones put one before AM/PM) become spaces
+const INVISIBLE = /[\u200e\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g;
+const HEADER = /^\[?(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})\.?,?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*([ap]\.?\s?m\.?)?\]?\s*(?:[-–—]\s+)?(.*)$/i;
+const SENDER = /^([^:]{1,80}?): (.*)$/;
+// iPhone: "<attached: 00000012-PHOTO-2021-03-12-14-22-05.jpg>" ("<angehängt: ...>", "<adjunto: ...>")
+const IPHONE_ATTACHMENT = /<[^<>:]{1,30}:\s*([^<>]+?\.\w{2,5})>/;
+// Android: "IMG-20210312-WA0001.jpg (file attached)" ("(Datei angehängt)", "(archivo adjunto)")
+const ANDROID_ATTACHMENT = /^([\w\-. ]+?\.\w{2,5}) \([^()]{3,40}\)/;
+// "<Media omitted>", "<Medien ausgeschlossen>", iPhone's "image omitted"
+const OMITTED = /^(<[^<>:]+>|(image|video|audio|sticker|gif|document|contact card) omitted)$/i;
+const DELETED = /^(this message was deleted|you deleted this message)\.?$/i;
+const URL_PATTERN = /https?:\/\/\S+/i;
+const EMOJI = /\p{Extended_Pictographic}/gu;
+const KISSES = /^x+$/i;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'if', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'from', 'by', 'as',
+  'i', 'me', 'my', 'you', 'your', 'he', 'him', 'his', 'she', 'her', 'it', 'its', 'we', 'us', 'our', 'they', 'them', 'their',
+  'is', 'am', 'are', 'was', 'were', 'be', 'been', 'do', 'does', 'did', 'have', 'has', 'had', 'will', 'would', 'can', 'could',
+  'that', 'this', 'there', 'then', 'than', 'what', 'when', 'how', 'not', 'no', 'yes', 'ok', 'okay', 'just', 'too', 'all',
+  "i'm", "it's", "don't", "i'll", "you're", "that's", 'up', 'out', 'about', 'get', 'got', 'im', 'u'
+]);
+
+// How many days a phrase must turn up on before it counts as theirs
+const MIN_PHRASE_DAYS = 3;
+const MAX_PHRASES = 10;
+const MAX_CHUNK_CHARS = 3000;
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// Chronological order broken — how many times a date order would have time run backwards
+function inversions(raw: RawMessage[], order: 'dmy' | 'mdy'): number {
+  let count = 0;
+  let previous = '';
+  for (const message of raw) {
+    const [a, b, c] = message.date;
+    const key = `${c}-${pad(order === 'dmy' ? b : a)}-${pad(order === 'dmy' ? a : b)}`;
+    if (key < previous) count++;
+    previous = key;
+  }
+  return count;
+}
+
+// ✅ Day-month or month-day? A part over 12 settles it; otherwise whichever keeps the chat in order
+function dateOrder(raw: RawMessage[]): 'ymd' | 'dmy' | 'mdy' {
+  if (raw.some(m => m.date[0] > 31)) return 'ymd';
+  if (raw.some(m => m.date[0] > 12)) return 'dmy';
+  if (raw.some(m => m.date[1] > 12)) return 'mdy';
+  return inversions(raw, 'mdy') < inversions(raw, 'dmy') ? 'mdy' : 'dmy';
+}
+
+function toMessage(raw: RawMessage, order: 'ymd' | 'dmy' | 'mdy'): ChatMessage | null {
+  const [a, b, c] = raw.date;
+  const [year, month, day] = order === 'ymd' ? [a, b, c] : order === 'dmy' ? [c, b, a] : [c, a, b];
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (!raw.sender || month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  let text = raw.lines.join('\n').trim();
+  let attachment: string | null = null;
+  const attached = text.match(IPHONE_ATTACHMENT) || text.match(ANDROID_ATTACHMENT);
+  if (attached) {
+    attachment = attached[1].trim();
+    text = text.replace(attached[0], '').trim();
+  }
+  const mediaOmitted = OMITTED.test(text);
+  if (mediaOmitted || DELETED.test(text)) text = '';
+  // "<This message was edited>" and similar trailing notes
+  text = text.replace(/\s*<[^<>:]+>$/, '').trim();
+
+  return {
+    sentAt: `${fullYear}-${pad(month)}-${pad(day)}T${raw.time}`,
+    sender: raw.sender,
+    text,
+    attachment,
+    mediaOmitted
+  };
+}
+
+// ✅ iPhone files its notices under the chat's name — "Mum: \u200eMessages and calls are end-to-end
+// encrypted" — marked by a direction mark, which it also puts before attachments and "image omitted"
+function isSystemNotice(original: string, body: string): boolean {
+  if (!original.includes(': \u200e')) return false;
+  const text = body.trim();
+  return !IPHONE_ATTACHMENT.test(text) && !OMITTED.test(text);
+}
+
+export function parseWhatsAppChat(text: string): WhatsAppChat {
+  const raw: RawMessage[] = [];
+  for (const original of text.split(/\r\n|\r|\n/)) {
+    const line = original.replace(INVISIBLE, '').replace(/[\u00a0\u202f]/g, ' ');
+    const header = line.match(HEADER);
+    if (!header) {
+      // A message carrying on over several lines
+      if (raw.length > 0) raw[raw.length - 1].lines.push(line);
+      continue;
+    }
+    let hour = Number(header[4]);
+    const meridiem = header[7]?.toLowerCase().replace(/[^apm]/g, '');
+    if (meridiem) hour = (hour % 12) + (meridiem.startsWith('p') ? 12 : 0);
+    const body = header[8].match(SENDER);
+    const notice = !!body && isSystemNotice(original, body[2]);
+    raw.push({
+      date: [Number(header[1]), Number(header[2]), Number(header[3])],
+      time: `${pad(hour)}:${header[5]}:${header[6] || '00'}`,
+      // Lines without a sender are WhatsApp's own notices — "Messages are end-to-end encrypted"
+      sender: body && !notice ? body[1].trim() : null,
+      lines: [body ? body[2] : header[8]]
+    });
+  }
+
+  const order = dateOrder(raw);
+  const messages = raw.map(m => toMessage(m, order)).filter((m): m is ChatMessage => !!m);
+  const counts = new Map<string, number>();
+  for (const message of messages) counts.set(message.sender, (counts.get(message.sender) || 0) + 1);
+  return {
+    messages,
+    senders: [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count)
+  };
+}
+
+// "WhatsApp Chat with Mum.txt", "WhatsApp Chat - Mum.zip" -> "Mum"
+export function chatNameFromFile(fileName: string): string {
+  return fileName.replace(/\.(txt|zip)$/i, '').replace(/^WhatsApp Chat (with|-)\s*/i, '').trim() || 'WhatsApp chat';
+}
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// ✅ The sender the persona most likely is — their name, or their first name when only one sender has it
+export function suggestSender(chat: WhatsAppChat, personaName: string): string | null {
+  const wanted = normalize(personaName);
+  const exact = chat.senders.find(s => normalize(s.name) === wanted);
+  if (exact) return exact.name;
+  const first = wanted.split(' ')[0];
+  const byFirstName = chat.senders.filter(s => normalize(s.name).split(' ').includes(first));
+  return byFirstName.length === 1 ? byFirstName[0].name : null;
+}
+
+// ✅ The conversation a day at a time, split where it runs long, leaving out days the sender
+// didn't write anything. Each chunk labels who said what so extraction can tell them apart
+export function chunkConversation(messages: ChatMessage[], sender: string, maxChars = MAX_CHUNK_CHARS): ChatChunk[] {
+  const chunks: ChatChunk[] = [];
+  let current: ChatChunk | null = null;
+  let currentDay = '';
+  for (const message of messages) {
+    if (!message.text) continue;
+    const day = message.sentAt.slice(0, 10);
+    const line = `${message.sender}: ${message.text}`;
+    if (!current || day !== currentDay || current.text.length + line.length > maxChars) {
+      if (current && current.senderChars > 0) chunks.push(current);
+      current = { startedAt: message.sentAt, text: '', senderChars: 0 };
+      currentDay = day;
+    }
+    current.text += `${current.text ? '\n' : ''}${line}`;
+    if (message.sender === sender) current.senderChars += message.text.length;
+  }
+  if (current && current.senderChars > 0) chunks.push(current);
+  return chunks;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+function bigrams(key: string): string[] {
+  const tokens = key.split(' ');
+  return tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`);
+}
+
+// ✅ How they texted: the short sentences they sent again and again ("Night night sleep tight"),
+// the three-to-five word phrases inside their sentences that turn up across many days, the
+// sign-off most of their messages end with, and their favourite emoji
+export function mineTextingStyle(messages: ChatMessage[], sender: string): TextingStyle {
+  const own = messages.filter(m => m.sender === sender && m.text && !URL_PATTERN.test(m.text));
+  const activeDays = new Set(own.map(m => m.sentAt.slice(0, 10))).size;
+  const minDays = Math.max(MIN_PHRASE_DAYS, Math.ceil(activeDays * 0.01));
+
+  // phrase -> the days it was used on, and the first way it was written
+  const seen = new Map<string, { days: Set<string>; original: string; length: number; sentence: boolean }>();
+  const note = (key: string, day: string, original: string, length: number, sentence: boolean) => {
+    const entry = seen.get(key) || { days: new Set<string>(), original, length, sentence };
+    entry.days.add(day);
+    seen.set(key, entry);
+  };
+  for (const message of own) {
+    const day = message.sentAt.slice(0, 10);
+    for (const clause of message.text.split(/[.!?;,\n]+/)) {
+      const tokens = words(clause);
+      if (tokens.length >= 2 && tokens.length <= 8) note(tokens.join(' '), day, clause.replace(EMOJI, '').trim(), tokens.length, true);
+      for (let n = 3; n <= 5 && n < tokens.length; n++) {
+        for (let i = 0; i + n <= tokens.length; i++) {
+          const gram = tokens.slice(i, i + n);
+          // "i went to the" is everyone's; a phrase of their own carries at least two real words
+          if (gram.filter(w => !STOPWORDS.has(w) && !/^\d+$/.test(w)).length < 2) continue;
+          note(gram.join(' '), day, gram.join(' '), n, false);
+        }
+      }
+    }
+  }
+
+  // Most used first, longest first among equals; a phrase sharing a word pair with one already
+  // chosen is a piece of it ("soon at the" in "see you soon at the allotment")
+  const candidates = [...seen.entries()]
+    .filter(([, entry]) => entry.days.size >= (entry.sentence ? minDays : minDays * 2))
+    .sort((a, b) => b[1].days.size - a[1].days.size || b[1].length - a[1].length);
+  const chosen: Array<{ pairs: Set<string>; original: string }> = [];
+  for (const [key, entry] of candidates) {
+    if (chosen.length >= MAX_PHRASES) break;
+    const pairs = bigrams(key);
+    if (chosen.some(c => pairs.some(pair => c.pairs.has(pair)))) continue;
+    chosen.push({ pairs: new Set(pairs), original: entry.original });
+  }
+  const phrases = chosen.map(c => c.original);
+
+  // A sign-off is an ending that's rarely anywhere else — "xx", "Love Mum", an emoji
+  const endings = new Map<string, number>();
+  const anywhere = new Map<string, number>();
+  for (const message of own) {
+    const parts = message.text.trim().split(/\s+/);
+    if (parts.length < 2) continue;
+    const last = parts[parts.length - 1];
+    endings.set(last, (endings.get(last) || 0) + 1);
+    for (const part of new Set(parts)) anywhere.set(part, (anywhere.get(part) || 0) + 1);
+  }
+  const [signOff, signOffCount] = [...endings].sort((a, b) => b[1] - a[1])[0] || [null, 0];
+  const isSignOff = !!signOff && signOffCount >= 5 && signOffCount >= own.length * 0.15
+    && (KISSES.test(signOff) || signOffCount >= (anywhere.get(signOff) || 0) * 0.7);
+
+  const emojiCounts = new Map<string, number>();
+  for (const message of own) {
+    for (const emoji of message.text.match(EMOJI) || []) emojiCounts.set(emoji, (emojiCounts.get(emoji) || 0) + 1);
+  }
+  const emoji = [...emojiCounts]
+    .filter(([, count]) => count >= 5)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([e]) => e);
+
+  return { phrases, signOff: isSignOff ? signOff : null, emoji };
+}
+
+// ✅ Adds what the chat showed to the persona's "their words" — only phrases not already there
+export function mergeSignaturePhrases(existing: string | null, style: TextingStyle, source: string): { text: string; added: string[] } {
+  const current = existing?.trim() || '';
+  const known = current.toLowerCase();
+  // Kisses on the end don't make it a different phrase
+  const phrases = style.phrases.filter(p => !known.includes(p.toLowerCase().replace(/\s+x+$/, '')));
+  const signOff = style.signOff && !known.includes(`"${style.signOff.toLowerCase()}"`) ? style.signOff : null;
+  const emoji = style.emoji.filter(e => !current.includes(e));
+
+  const parts = [
+    phrases.length > 0 ? `often wrote ${phrases.map(p => `"${p}"`).join(', ')}` : '',
+    signOff ? `signed off with "${signOff}"` : '',
+    emoji.length > 0 ? `favourite emoji ${emoji.join(' ')}` : ''
+  ].filter(Boolean);
+  if (parts.length === 0) return { text: current, added: [] };
+
+  const line = `From their ${source}: ${parts.join('; ')}.`;
+  return {
+    text: current ? `${current}\n${line}` : line,
+    added: [...phrases, ...(signOff ? [signOff] : []), ...emoji]
+  };
+}
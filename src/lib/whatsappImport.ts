@@ -0,0 +1,221 @@
+import { supabase } from './supabase';
+import { captureException } from './monitoring';
+import { memoryExtractor, Memory } from './memoryExtraction';
+import { readZipEntries, baseName, ZipEntry } from './zipReader';
+import {
+  parseWhatsAppChat,
+  chatNameFromFile,
+  chunkConversation,
+  mineTextingStyle,
+  mergeSignaturePhrases,
+  ChatMessage,
+  WhatsAppChat
+} from './whatsappChat';
+
+// A chat export opened and parsed, its media still inside the zip until needed
+export interface WhatsAppExport {
+  chat: WhatsAppChat;
+  chatName: string;
+  fileName: string;
+  media: Map<string, ZipEntry>;
+}
+
+export interface PersonaMedia {
+  message: ChatMessage;
+  entry: ZipEntry;
+  kind: 'image' | 'audio';
+}
+
+export interface WhatsAppImportResult {
+  success: boolean;
+  messagesImported: number;
+  memoriesExtracted: number;
+  mediaImported: number;
+  phrasesAdded: string[];
+  error?: string;
+}
+
+const PHOTO_TYPES: Record<string, string> = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp' };
+const VOICE_TYPES: Record<string, string> = { opus: 'audio/ogg', ogg: 'audio/ogg', m4a: 'audio/mp4', mp3: 'audio/mpeg', aac: 'audio/aac' };
+// Years of chat are far more than extraction needs — the stretches where they said the most
+const MAX_CHUNKS = 30;
+const MAX_MEDIA = 100;
+const MAX_MEDIA_BYTES = 50 * 1024 * 1024;
+// Photos described and voice notes transcribed into memories; the rest are uploaded as they are
+const MAX_ANALYZED_PHOTOS = 10;
+const MAX_TRANSCRIBED_VOICE_NOTES = 10;
+const MAX_CONTENT_TEXT = 100000;
+
+function extension(name: string): string {
+  return name.split('.').pop()?.toLowerCase() || '';
+}
+
+// n items spread evenly through the list, so a long chat isn't only its first year
+function spread<T>(items: T[], n: number): T[] {
+  if (items.length <= n) return items;
+  return Array.from({ length: n }, (_, i) => items[Math.floor((i * items.length) / n)]);
+}
+
+// ✅ Opens "Export chat" output — the .txt alone, or the .zip with the chat and its media
+export async function openWhatsAppExport(file: File): Promise<WhatsAppExport> {
+  const media = new Map<string, ZipEntry>();
+  let text: string;
+  if (/\.zip$/i.test(file.name)) {
+    const entries = await readZipEntries(file);
+    const chatEntry = entries.find(e => baseName(e.name) === '_chat.txt') || entries.find(e => /\.txt$/i.test(e.name));
+    if (!chatEntry) throw new Error('No chat found in this zip');
+    text = await (await chatEntry.read()).text();
+    for (const entry of entries) {
+      if (entry !== chatEntry) media.set(baseName(entry.name), entry);
+    }
+  } else {
+    text = await file.text();
+  }
+  return { chat: parseWhatsAppChat(text), chatName: chatNameFromFile(file.name), fileName: file.name, media };
+}
+
+// Attachments the persona sent that came with the export — their photos and voice notes
+export function findPersonaMedia(data: WhatsAppExport, sender: string): PersonaMedia[] {
+  return data.chat.messages.flatMap((message): PersonaMedia[] => {
+    const entry = message.sender === sender && message.attachment ? data.media.get(message.attachment) : undefined;
+    if (!entry || entry.size > MAX_MEDIA_BYTES) return [];
+    const type = extension(entry.name);
+    if (PHOTO_TYPES[type]) return [{ message, entry, kind: 'image' }];
+    if (VOICE_TYPES[type]) return [{ message, entry, kind: 'audio' }];
+    return [];
+  });
+}
+
+function tagMemories(memories: Memory[], chatName: string, sentAt: string): Memory[] {
+  memories.forEach(memory => {
+    memory.source = 'social_media';
+    memory.metadata = {
+      ...memory.metadata,
+      platform: 'whatsapp',
+      chat_name: chatName,
+      // Date only — the export's times are the phone's wall clock with no timezone
+      timestamp: sentAt.slice(0, 10)
+    };
+  });
+  return memories;
+}
+
+// ✅ The persona's side of a WhatsApp chat: the chat saved as content, memories extracted from
+// the conversation, their photos and voice notes attached as content (a few described and
+// transcribed into memories too), and the phrases they kept using added to "their words"
+export async function importWhatsAppChat(
+  personaId: string,
+  data: WhatsAppExport,
+  sender: string,
+  options: { includeMedia: boolean; updatePhrases: boolean },
+  onProgress?: (step: string) => void
+): Promise<WhatsAppImportResult> {
+  const result: WhatsAppImportResult = { success: false, messagesImported: 0, memoriesExtracted: 0, mediaImported: 0, phrasesAdded: [] };
+  try {
+    const { chat, chatName } = data;
+    const own = chat.messages.filter(m => m.sender === sender);
+    if (own.length === 0) throw new Error(`No messages from ${sender} in this chat`);
+
+    const ownText = own.filter(m => m.text).map(m => `[${m.sentAt.slice(0, 10)}] ${m.text}`).join('\n');
+    const { error: chatError } = await supabase.from('persona_content').insert({
+      persona_id: personaId,
+      content_type: 'text',
+      file_name: data.fileName,
+      content_text: ownText.slice(0, MAX_CONTENT_TEXT),
+      metadata: {
+        platform: 'whatsapp',
+        chat_name: chatName,
+        sender,
+        message_count: own.length,
+        first_message_at: own[0].sentAt,
+        last_message_at: own[own.length - 1].sentAt
+      },
+      processing_status: 'completed'
+    });
+    if (chatError) console.error('Error saving WhatsApp chat:', chatError);
+    result.messagesImported = own.length;
+
+    const chunks = chunkConversation(chat.messages, sender)
+      .sort((a, b) => b.senderChars - a.senderChars)
+      .slice(0, MAX_CHUNKS)
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    for (const [index, chunk] of chunks.entries()) {
+      onProgress?.(`Reading conversations ${index + 1} of ${chunks.length}...`);
+      const memories = await memoryExtractor.extractFromText(
+        `WhatsApp messages from ${chunk.startedAt.slice(0, 10)}. "${sender}" is the person these memories are about.\n\n${chunk.text}`,
+        personaId
+      );
+      await memoryExtractor.saveMemories(tagMemories(memories, chatName, chunk.startedAt));
+      result.memoriesExtracted += memories.length;
+    }
+
+    if (options.includeMedia) {
+      const media = findPersonaMedia(data, sender).slice(0, MAX_MEDIA);
+      const analyzed = new Set([
+        ...spread(media.filter(m => m.kind === 'image'), MAX_ANALYZED_PHOTOS),
+        ...spread(media.filter(m => m.kind === 'audio'), MAX_TRANSCRIBED_VOICE_NOTES)
+      ]);
+      for (const [index, item] of media.entries()) {
+        onProgress?.(`Uploading photos and voice notes ${index + 1} of ${media.length}...`);
+        try {
+          const name = baseName(item.entry.name);
+          const mimeType = (item.kind === 'image' ? PHOTO_TYPES : VOICE_TYPES)[extension(name)];
+          const filePath = `whatsapp-${Date.now()}-${name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+          const blob = await item.entry.read();
+          const { error: uploadError } = await supabase.storage
+            .from('persona-content')
+            .upload(filePath, blob, { cacheControl: '3600', upsert: true, contentType: mimeType });
+          if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+          const { data: { publicUrl } } = supabase.storage.from('persona-content').getPublicUrl(filePath);
+
+          const date = item.message.sentAt.slice(0, 10);
+          await supabase.from('persona_content').insert({
+            persona_id: personaId,
+            content_type: item.kind,
+            file_url: publicUrl,
+            file_name: name,
+            file_size: blob.size,
+            content_text: item.message.text
+              || (item.kind === 'audio' ? `Voice note from ${sender}, sent ${date}` : `Photo ${sender} sent on ${date}`),
+            metadata: {
+              platform: 'whatsapp',
+              chat_name: chatName,
+              sent_at: item.message.sentAt,
+              original_name: name,
+              mime_type: mimeType
+            },
+            processing_status: 'completed'
+          });
+          result.mediaImported++;
+
+          if (analyzed.has(item)) {
+            const memories = item.kind === 'image'
+              ? await memoryExtractor.extractFromImage(publicUrl, personaId)
+              : await memoryExtractor.extractFromAudio(publicUrl, personaId);
+            await memoryExtractor.saveMemories(tagMemories(memories, chatName, item.message.sentAt));
+            result.memoriesExtracted += memories.length;
+          }
+        } catch (error) {
+          console.warn('Failed to import WhatsApp attachment:', error);
+        }
+      }
+    }
+
+    if (options.updatePhrases) {
+      const { data: persona } = await supabase.from('personas').select('signature_phrases').eq('id', personaId).single();
+      const merged = mergeSignaturePhrases(persona?.signature_phrases ?? null, mineTextingStyle(chat.messages, sender), 'WhatsApp messages');
+      if (merged.added.length > 0) {
+        const { error } = await supabase.from('personas').update({ signature_phrases: merged.text }).eq('id', personaId);
+        if (error) console.error('Error saving signature phrases:', error);
+        else result.phrasesAdded = merged.added;
+      }
+    }
+
+    console.log(`WhatsApp import complete: ${own.length} messages, ${result.memoriesExtracted} memories, ${result.mediaImported} media`);
+    return { ...result, success: true };
+  } catch (error) {
+    console.error('Error importing WhatsApp chat:', error);
+    captureException(error as Error, { personaId });
+    return { ...result, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
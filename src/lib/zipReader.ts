@@ -0,0 +1,80 @@
+// Reads the files out of a .zip (stored or deflated entries — what phones and every desktop
+// zipper produce) with the platform's DecompressionStream. Zip64 archives and encrypted entries
+// aren't supported; their entries are skipped. Node-safe, no dependencies.
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+// The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+const MAX_END_SEARCH = 22 + 0xffff;
+
+export interface ZipEntry {
+  // Path inside the archive, e.g. "IMG-20210312-WA0001.jpg"
+  name: string;
+  size: number;
+  read: () => Promise<Blob>;
+}
+
+async function readBytes(file: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+// The file name without its folders — WhatsApp refers to attachments by bare name
+export function baseName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+// ✅ The archive's files in order, each read only when asked for
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, file.size - MAX_END_SEARCH);
+  const tail = await readBytes(file, tailStart, file.size);
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip file');
+
+  const count = tail.getUint16(end + 10, true);
+  const directorySize = tail.getUint32(end + 12, true);
+  const directoryOffset = tail.getUint32(end + 16, true);
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < count && offset + 46 <= directory.byteLength; i++) {
+    if (directory.getUint32(offset, true) !== DIRECTORY_ENTRY) break;
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const localOffset = directory.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const encrypted = (flags & 0x1) !== 0;
+    const zip64 = compressedSize === 0xffffffff || localOffset === 0xffffffff;
+    if (name.endsWith('/') || encrypted || zip64 || (method !== 0 && method !== 8)) continue;
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        const local = await readBytes(file, localOffset, localOffset + 30);
+        if (local.getUint32(0, true) !== LOCAL_HEADER) throw new Error(`Damaged zip entry: ${name}`);
+        // The local header's own name and extra field lengths can differ from the directory's
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = file.slice(dataStart, dataStart + compressedSize);
+        if (method === 0) return data;
+        return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+      }
+    });
+  }
+  return entries;
+}
@@ -137,7 +137,8 @@ async function extractMemoriesFromSocialMedia(
               memory.metadata = {
                 ...memory.metadata,
                 platform: post.platform,
-                post_id: post.id
+                post_id: post.id,
+                timestamp: post.timestamp
               };
             });
 
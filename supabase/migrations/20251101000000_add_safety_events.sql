@@ -0,0 +1,61 @@
+/*
+  # Crisis and self-harm safety events
+
+  1. New Tables
+    - `safety_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - The user whose message triggered the event
+      - `persona_id` (uuid, nullable) - Persona in the conversation, if any
+      - `surface` (text) - Where it happened: haven, facetime, realtime
+      - `risk_level` (text) - concern or crisis
+      - `signals` (text[]) - Short reason codes (e.g. suicidal_intent, hopelessness)
+      - `detection_source` (text) - pattern or model
+      - `trusted_contact_notified` (boolean) - Whether an SMS went to the trusted contact
+      - `created_at` (timestamptz)
+    - The message itself is deliberately NOT stored here.
+
+  2. Changes
+    - Add opt-in trusted contact fields to `profiles`:
+      `trusted_contact_name`, `trusted_contact_phone`, `trusted_contact_opt_in`
+
+  3. Security
+    - Enable RLS on `safety_events`; users can insert and read only their own events
+*/
+
+CREATE TABLE IF NOT EXISTS safety_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  persona_id uuid REFERENCES personas(id) ON DELETE SET NULL,
+  surface text NOT NULL CHECK (surface IN ('haven', 'facetime', 'realtime')),
+  risk_level text NOT NULL CHECK (risk_level IN ('concern', 'crisis')),
+  signals text[] DEFAULT '{}',
+  detection_source text NOT NULL CHECK (detection_source IN ('pattern', 'model')),
+  trusted_contact_notified boolean DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_safety_events_user_id ON safety_events(user_id, created_at DESC);
+
+ALTER TABLE safety_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own safety events"
+  ON safety_events FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own safety events"
+  ON safety_events FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'trusted_contact_opt_in'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN trusted_contact_name text;
+    ALTER TABLE profiles ADD COLUMN trusted_contact_phone text;
+    ALTER TABLE profiles ADD COLUMN trusted_contact_opt_in boolean DEFAULT false;
+  END IF;
+END $$;
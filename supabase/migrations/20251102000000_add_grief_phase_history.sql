@@ -0,0 +1,60 @@
+/*
+  # Multi-signal grief phase
+
+  1. New Tables
+    - `grief_phase_settings` - one row per user and persona
+      - `estimated_phase` (text) - Latest estimate from date, conversation frequency, sentiment and Haven
+      - `confidence` (float) - 0-1, how much signal the estimate had
+      - `estimated_at` (timestamptz) - Estimates are reused for a day, then recomputed
+      - `override_phase` (text, nullable) - Set by the user; always wins over the estimate
+    - `grief_phase_history` - every estimated change and every override
+      - `phase`, `source` (estimated | override), `confidence`, `signals` (jsonb), `created_at`
+
+  2. Security
+    - Enable RLS on both tables; users manage only their own rows
+*/
+
+CREATE TABLE IF NOT EXISTS grief_phase_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  estimated_phase text CHECK (estimated_phase IN ('acute', 'active', 'integration', 'legacy', 'unknown')),
+  confidence float DEFAULT 0 CHECK (confidence >= 0 AND confidence <= 1),
+  estimated_at timestamptz,
+  override_phase text CHECK (override_phase IN ('acute', 'active', 'integration', 'legacy')),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, persona_id)
+);
+
+CREATE TABLE IF NOT EXISTS grief_phase_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  phase text NOT NULL CHECK (phase IN ('acute', 'active', 'integration', 'legacy', 'unknown')),
+  source text NOT NULL CHECK (source IN ('estimated', 'override')),
+  confidence float DEFAULT 0,
+  signals jsonb DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grief_phase_history_user_persona
+  ON grief_phase_history(user_id, persona_id, created_at DESC);
+
+ALTER TABLE grief_phase_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE grief_phase_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their grief phase settings"
+  ON grief_phase_settings FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view their grief phase history"
+  ON grief_phase_history FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their grief phase history"
+  ON grief_phase_history FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,139 @@
+/*
+  # Configurable ethical-sunset policy
+
+  1. New Tables
+    - `clinician_clients` - a user shares their sunset policy with a clinician by email
+      - `client_id` (uuid) - The user being supported
+      - `clinician_email` (text) - Matched against the clinician's signed-in email
+      - `status` (text) - active or revoked
+    - `sunset_policies` - at most one row per user per source
+      - `source` (text) - user (pause / frequency) or clinician (thresholds / scripts)
+      - `enabled` (boolean), `thresholds` (jsonb), `scripts` (jsonb)
+      - `paused_until` (timestamptz), `frequency` (text) - fewer, default or more
+      - `set_by` (uuid) - Who last changed the row
+    - `sunset_nudge_events` - every nudge delivered and what happened next
+      - `grief_phase`, `policy_source`, `conversation_count`
+      - `outcome` (text) - pending, contacted_family, not_yet, dismissed
+      - `delivered_at`, `outcome_at`
+
+  2. Changes
+    - Add `sunset_nudge_count` to `conversation_summaries` if missing
+
+  3. Security
+    - RLS on all three tables. Users manage their own rows; a clinician can read and write
+      the clinician policy of clients who have an active link to their email.
+*/
+
+CREATE TABLE IF NOT EXISTS clinician_clients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  client_name text,
+  clinician_email text NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (client_id, clinician_email)
+);
+
+CREATE TABLE IF NOT EXISTS sunset_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source text NOT NULL CHECK (source IN ('user', 'clinician')),
+  enabled boolean DEFAULT true,
+  thresholds jsonb DEFAULT '{}'::jsonb,
+  scripts jsonb DEFAULT '{}'::jsonb,
+  paused_until timestamptz,
+  frequency text DEFAULT 'default' CHECK (frequency IN ('fewer', 'default', 'more')),
+  set_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, source)
+);
+
+CREATE TABLE IF NOT EXISTS sunset_nudge_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  grief_phase text NOT NULL CHECK (grief_phase IN ('active', 'integration', 'legacy')),
+  policy_source text NOT NULL CHECK (policy_source IN ('default', 'user', 'clinician')),
+  conversation_count int DEFAULT 0,
+  outcome text NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'contacted_family', 'not_yet', 'dismissed')),
+  delivered_at timestamptz DEFAULT now(),
+  outcome_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_clinician_clients_email ON clinician_clients(clinician_email);
+CREATE INDEX IF NOT EXISTS idx_sunset_nudge_events_user_persona
+  ON sunset_nudge_events(user_id, persona_id, delivered_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'conversation_summaries' AND column_name = 'sunset_nudge_count'
+  ) THEN
+    ALTER TABLE conversation_summaries ADD COLUMN sunset_nudge_count int DEFAULT 0;
+  END IF;
+END $$;
+
+ALTER TABLE clinician_clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sunset_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sunset_nudge_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients manage their clinician links"
+  ON clinician_clients FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid())
+  WITH CHECK (client_id = auth.uid());
+
+CREATE POLICY "Clinicians can view links to their email"
+  ON clinician_clients FOR SELECT
+  TO authenticated
+  USING (clinician_email = (auth.jwt() ->> 'email'));
+
+CREATE POLICY "Users can view their sunset policies"
+  ON sunset_policies FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users manage their own sunset settings"
+  ON sunset_policies FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid() AND source = 'user')
+  WITH CHECK (user_id = auth.uid() AND source = 'user');
+
+CREATE POLICY "Clinicians manage policies for linked clients"
+  ON sunset_policies FOR ALL
+  TO authenticated
+  USING (
+    source = 'clinician' AND EXISTS (
+      SELECT 1 FROM clinician_clients cc
+      WHERE cc.client_id = sunset_policies.user_id
+      AND cc.clinician_email = (auth.jwt() ->> 'email')
+      AND cc.status = 'active'
+    )
+  )
+  WITH CHECK (
+    source = 'clinician' AND EXISTS (
+      SELECT 1 FROM clinician_clients cc
+      WHERE cc.client_id = sunset_policies.user_id
+      AND cc.clinician_email = (auth.jwt() ->> 'email')
+      AND cc.status = 'active'
+    )
+  );
+
+CREATE POLICY "Users manage their sunset nudge events"
+  ON sunset_nudge_events FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Clinicians can view nudge outcomes for linked clients"
+  ON sunset_nudge_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM clinician_clients cc
+      WHERE cc.client_id = sunset_nudge_events.user_id
+      AND cc.clinician_email = (auth.jwt() ->> 'email')
+      AND cc.status = 'active'
+    )
+  );
@@ -0,0 +1,76 @@
+/*
+  # Healthy-use guardrails
+
+  1. New Tables
+    - `usage_guardrails` - soft usage limits, at most one row per user per source
+      - `source` (text) - user or clinician; clinician values take precedence
+      - `enabled` (boolean)
+      - `daily_minutes` (int) - Soft daily time budget across all personas
+      - `session_minutes` (int) - Length after which a call winds down
+      - `daily_sessions` (int) - Calls per day before a wind-down
+      - `late_night_reminders` (boolean), `late_night_start` / `late_night_end` (int, local hours)
+      - `redirect_to_haven` (boolean) - Offer Haven when a session winds down
+      - `set_by` (uuid) - Who last changed the row
+      Null columns fall through to the other source, then to the app defaults.
+
+  2. Security
+    - RLS enabled. Users manage their own row; a clinician with an active link in
+      `clinician_clients` manages the clinician row for that client.
+
+  3. Notes
+    - Wind-downs are recorded on the call itself in `conversations.metadata`
+      (`wind_down_at`, `wind_down_signals`) so each call winds down at most once.
+*/
+
+CREATE TABLE IF NOT EXISTS usage_guardrails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source text NOT NULL CHECK (source IN ('user', 'clinician')),
+  enabled boolean,
+  daily_minutes int CHECK (daily_minutes > 0),
+  session_minutes int CHECK (session_minutes > 0),
+  daily_sessions int CHECK (daily_sessions > 0),
+  late_night_reminders boolean,
+  late_night_start int CHECK (late_night_start BETWEEN 0 AND 23),
+  late_night_end int CHECK (late_night_end BETWEEN 0 AND 23),
+  redirect_to_haven boolean,
+  set_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_started
+  ON conversations(user_id, started_at DESC);
+
+ALTER TABLE usage_guardrails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their usage guardrails"
+  ON usage_guardrails FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users manage their own usage guardrails"
+  ON usage_guardrails FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid() AND source = 'user')
+  WITH CHECK (user_id = auth.uid() AND source = 'user');
+
+CREATE POLICY "Clinicians manage usage guardrails for linked clients"
+  ON usage_guardrails FOR ALL
+  TO authenticated
+  USING (
+    source = 'clinician' AND EXISTS (
+      SELECT 1 FROM clinician_clients cc
+      WHERE cc.client_id = usage_guardrails.user_id
+      AND cc.clinician_email = (auth.jwt() ->> 'email')
+      AND cc.status = 'active'
+    )
+  )
+  WITH CHECK (
+    source = 'clinician' AND EXISTS (
+      SELECT 1 FROM clinician_clients cc
+      WHERE cc.client_id = usage_guardrails.user_id
+      AND cc.clinician_email = (auth.jwt() ->> 'email')
+      AND cc.status = 'active'
+    )
+  );
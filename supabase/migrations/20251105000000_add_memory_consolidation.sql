@@ -0,0 +1,68 @@
+/*
+  # Memory consolidation
+
+  1. New Tables
+    - `memory_consolidation_runs` - one row per consolidation pass over a persona
+      - `trigger` (text) - manual (Memory Bank) or scheduled (nightly job)
+      - `memories_before`, `memories_after` (int)
+      - `clusters_merged` (int) - Groups of duplicates folded into one memory
+      - `embeddings_added` (int) - Missing embeddings backfilled during the run
+
+  2. Changes
+    - Add `memories_consolidated_at` to `personas` so the nightly job works through
+      personas least recently consolidated first
+    - Merged memories keep their history in `persona_memories.metadata`:
+      `mention_count` and `provenance` (id, content, source and date of every merged row)
+
+  3. Security
+    - RLS on `memory_consolidation_runs`; owners can read and insert runs for their personas.
+      The scheduled job uses the service role.
+*/
+
+CREATE TABLE IF NOT EXISTS memory_consolidation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  trigger text NOT NULL DEFAULT 'manual' CHECK (trigger IN ('manual', 'scheduled')),
+  memories_before int DEFAULT 0,
+  memories_after int DEFAULT 0,
+  clusters_merged int DEFAULT 0,
+  embeddings_added int DEFAULT 0,
+  ran_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_consolidation_runs_persona
+  ON memory_consolidation_runs(persona_id, ran_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'personas' AND column_name = 'memories_consolidated_at'
+  ) THEN
+    ALTER TABLE personas ADD COLUMN memories_consolidated_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE memory_consolidation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view consolidation runs for their personas"
+  ON memory_consolidation_runs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM personas
+      WHERE personas.id = memory_consolidation_runs.persona_id
+      AND personas.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record consolidation runs for their personas"
+  ON memory_consolidation_runs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM personas
+      WHERE personas.id = memory_consolidation_runs.persona_id
+      AND personas.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,129 @@
+/*
+  # Memory provenance and review queue
+
+  1. Changes to `persona_memories`
+    - `provenance` (text) - Where the memory came from: owner, collaborator, conversation,
+      upload or social_import
+    - `added_by` (uuid) - The signed-in user who added it (null for background jobs)
+    - `review_status` (text) - approved, pending or rejected. Facts pulled from live
+      conversation start as pending and are used at reduced weight until the owner reviews them
+    - `reviewed_by` (uuid), `reviewed_at` (timestamptz)
+
+  2. Trigger
+    - `set_memory_provenance` fills provenance, added_by and review_status on insert when the
+      caller leaves them empty, so every existing insert path is covered
+
+  3. Backfill
+    - Existing rows get a provenance derived from `source_type`; existing conversation facts
+      join the review queue
+
+  4. Functions
+    - `search_memories` now returns provenance and review_status and skips rejected memories
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'persona_memories' AND column_name = 'provenance'
+  ) THEN
+    ALTER TABLE persona_memories
+      ADD COLUMN provenance text CHECK (provenance IN ('owner', 'collaborator', 'conversation', 'upload', 'social_import')),
+      ADD COLUMN added_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+      ADD COLUMN review_status text NOT NULL DEFAULT 'approved' CHECK (review_status IN ('approved', 'pending', 'rejected')),
+      ADD COLUMN reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+      ADD COLUMN reviewed_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_persona_memories_review
+  ON persona_memories(persona_id, review_status);
+
+CREATE OR REPLACE FUNCTION set_memory_provenance()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.added_by := COALESCE(NEW.added_by, auth.uid());
+
+  IF NEW.provenance IS NULL THEN
+    NEW.provenance := CASE
+      WHEN NEW.source_type = 'conversation' THEN 'conversation'
+      WHEN NEW.source_type = 'social_media' THEN 'social_import'
+      WHEN NEW.source_type IN ('video', 'audio', 'image', 'text', 'web') THEN 'upload'
+      WHEN NEW.added_by IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM personas WHERE personas.id = NEW.persona_id AND personas.user_id = NEW.added_by
+      ) THEN 'collaborator'
+      ELSE 'owner'
+    END;
+  END IF;
+
+  IF NEW.provenance = 'conversation' AND NEW.reviewed_at IS NULL THEN
+    NEW.review_status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS persona_memories_set_provenance ON persona_memories;
+CREATE TRIGGER persona_memories_set_provenance
+  BEFORE INSERT ON persona_memories
+  FOR EACH ROW EXECUTE FUNCTION set_memory_provenance();
+
+UPDATE persona_memories SET provenance = CASE
+    WHEN source_type = 'conversation' THEN 'conversation'
+    WHEN source_type = 'social_media' THEN 'social_import'
+    WHEN source_type IN ('video', 'audio', 'image', 'text', 'web') THEN 'upload'
+    ELSE 'owner'
+  END
+WHERE provenance IS NULL;
+
+UPDATE persona_memories SET review_status = 'pending'
+WHERE provenance = 'conversation' AND reviewed_at IS NULL;
+
+DROP FUNCTION IF EXISTS search_memories(uuid, vector, float, int);
+
+CREATE OR REPLACE FUNCTION search_memories(
+  query_persona_id uuid,
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id text,
+  persona_id uuid,
+  content text,
+  memory_type text,
+  source_type text,
+  source_url text,
+  importance float,
+  metadata jsonb,
+  provenance text,
+  review_status text,
+  created_at timestamptz,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    pm.id,
+    pm.persona_id,
+    pm.content,
+    pm.memory_type,
+    pm.source_type,
+    pm.source_url,
+    pm.importance,
+    pm.metadata,
+    pm.provenance,
+    pm.review_status,
+    pm.created_at,
+    1 - (pm.embedding <=> query_embedding) as similarity
+  FROM persona_memories pm
+  WHERE pm.persona_id = query_persona_id
+    AND pm.review_status <> 'rejected'
+    AND 1 - (pm.embedding <=> query_embedding) > match_threshold
+  ORDER BY pm.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
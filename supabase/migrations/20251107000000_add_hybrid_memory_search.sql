@@ -0,0 +1,80 @@
+/*
+  # Hybrid memory search
+
+  1. Indexes
+    - GIN full-text index on `persona_memories.content` so keyword search stays fast
+      alongside vector search
+
+  2. Functions
+    - `search_memories_text` - Full-text search over a persona's memories, ranked with
+      ts_rank. Used with `search_memories` as a candidate source for hybrid retrieval,
+      which re-ranks and diversifies the combined results. Skips rejected memories.
+
+  3. Security
+    - SECURITY INVOKER, so persona_memories RLS applies to the caller as usual
+*/
+
+CREATE INDEX IF NOT EXISTS idx_persona_memories_content_fts
+  ON persona_memories USING gin (to_tsvector('english', content));
+
+DROP FUNCTION IF EXISTS search_memories_text(uuid, text, int);
+
+CREATE OR REPLACE FUNCTION search_memories_text(
+  query_persona_id uuid,
+  query_text text,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  id text,
+  persona_id uuid,
+  content text,
+  memory_type text,
+  source_type text,
+  source_url text,
+  importance float,
+  metadata jsonb,
+  provenance text,
+  review_status text,
+  created_at timestamptz,
+  rank float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  ts_query tsquery;
+BEGIN
+  -- Conversational input is loose; match any meaningful word rather than all of them
+  ts_query := to_tsquery('english', NULLIF(array_to_string(
+    ARRAY(
+      SELECT quote_literal(lexeme)
+      FROM unnest(to_tsvector('english', query_text))
+    ),
+    ' | '
+  ), ''));
+
+  IF ts_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pm.id,
+    pm.persona_id,
+    pm.content,
+    pm.memory_type,
+    pm.source_type,
+    pm.source_url,
+    pm.importance,
+    pm.metadata,
+    pm.provenance,
+    pm.review_status,
+    pm.created_at,
+    ts_rank(to_tsvector('english', pm.content), ts_query)::float as rank
+  FROM persona_memories pm
+  WHERE pm.persona_id = query_persona_id
+    AND pm.review_status <> 'rejected'
+    AND to_tsvector('english', pm.content) @@ ts_query
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
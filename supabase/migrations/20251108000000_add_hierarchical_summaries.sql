@@ -0,0 +1,82 @@
+/*
+  # Hierarchical conversation summaries
+
+  1. New Tables
+    - `conversation_summary_entries` - what a persona remembers of past conversations with one
+      user, at three levels of detail
+      - `level` (text) - session (one call, detailed), weekly (a week of sessions rolled up)
+        or digest (everything older, in outline; one per user and persona)
+      - `period_start`, `period_end` (timestamptz) - The span the entry covers
+      - `summary` (text) - Kept under a per-level size limit; regenerated shorter on overflow
+      - `source_count` (int) - Sessions or weeks folded into this entry
+      - `rolled_up_at` (timestamptz) - Set once a session has been folded into its week, or a
+        week into the digest; rolled-up entries no longer reach the prompt
+
+  2. Backfill
+    - Each existing `conversation_summaries.summary` becomes the starting digest for that user
+      and persona. The old column is no longer written.
+
+  3. Security
+    - RLS on `conversation_summary_entries`; users manage only their own entries
+*/
+
+CREATE TABLE IF NOT EXISTS conversation_summary_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  level text NOT NULL CHECK (level IN ('session', 'weekly', 'digest')),
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  summary text NOT NULL DEFAULT '',
+  source_count int NOT NULL DEFAULT 1,
+  rolled_up_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_summary_entries_lookup
+  ON conversation_summary_entries(user_id, persona_id, level, period_start DESC)
+  WHERE rolled_up_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_summary_entries_one_week
+  ON conversation_summary_entries(user_id, persona_id, period_start)
+  WHERE level = 'weekly';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_summary_entries_one_digest
+  ON conversation_summary_entries(user_id, persona_id)
+  WHERE level = 'digest';
+
+ALTER TABLE conversation_summary_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own summary entries"
+  ON conversation_summary_entries FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own summary entries"
+  ON conversation_summary_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own summary entries"
+  ON conversation_summary_entries FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own summary entries"
+  ON conversation_summary_entries FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+INSERT INTO conversation_summary_entries (user_id, persona_id, level, period_start, period_end, summary)
+SELECT
+  cs.user_id,
+  cs.persona_id,
+  'digest',
+  COALESCE(cs.last_conversation_at, cs.updated_at, now()),
+  COALESCE(cs.last_conversation_at, cs.updated_at, now()),
+  cs.summary
+FROM conversation_summaries cs
+WHERE cs.summary IS NOT NULL AND btrim(cs.summary) <> ''
+ON CONFLICT DO NOTHING;
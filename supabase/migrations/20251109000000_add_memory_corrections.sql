@@ -0,0 +1,54 @@
+/*
+  # In-conversation memory corrections
+
+  1. New Tables
+    - `memory_corrections` - a correction the user made while talking to a persona, and what it
+      did to the persona's memories; doubles as the audit trail
+      - `user_message` (text) - What the user said
+      - `statement` (text) - The correction in one sentence, e.g. "Dad never lived in Ohio"
+      - `status` (text) - proposed (waiting for the user to confirm), confirmed or dismissed
+      - `changes` (jsonb) - One entry per conflicting memory: memory_id, action (retract, edit
+        or demote), the proposed revised_content, and once confirmed, the memory's previous
+        content, importance and review_status
+      - `resolved_at` (timestamptz) - When the user confirmed or dismissed it
+      - `acknowledged_at` (timestamptz) - When the persona acknowledged a confirmed correction
+        in a reply; confirmed corrections without it reach the next reply's prompt
+
+  2. Security
+    - RLS on `memory_corrections`; users see and manage only their own corrections
+*/
+
+CREATE TABLE IF NOT EXISTS memory_corrections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  user_message text NOT NULL,
+  statement text NOT NULL,
+  status text NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'confirmed', 'dismissed')),
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  resolved_at timestamptz,
+  acknowledged_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_corrections_unacknowledged
+  ON memory_corrections(user_id, persona_id, resolved_at)
+  WHERE status = 'confirmed' AND acknowledged_at IS NULL;
+
+ALTER TABLE memory_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own memory corrections"
+  ON memory_corrections FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own memory corrections"
+  ON memory_corrections FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own memory corrections"
+  ON memory_corrections FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,90 @@
+/*
+  # Persona topic boundaries
+
+  1. New Tables
+    - `persona_boundaries` - things a persona must not talk about, or only in a certain way
+      - `kind` (text) - topic (e.g. the cause of death), person (e.g. an estranged relative)
+        or phrase (words the persona must never say)
+      - `subject` (text) - The topic, person or phrase
+      - `terms` (text[]) - Other words that signal it, e.g. "hospital", "chemo"
+      - `handling` (text) - avoid (never discussed), redirect (acknowledged briefly, then
+        steered elsewhere) or only_if_raised (never brought up by the persona)
+      - `guidance` (text) - The family's own note on how to handle it
+      - `status` (text) - active, suggested (by a collaborator, waiting for the owner) or declined
+      - `suggested_by`, `reviewed_by` (uuid), `reviewed_at` (timestamptz)
+
+  2. Security
+    - RLS on `persona_boundaries`
+    - The persona's owner manages every boundary and approves or declines suggestions
+    - Accepted collaborators see active boundaries (their conversations follow them too) and
+      their own suggestions, can suggest new ones and withdraw their pending suggestions
+*/
+
+CREATE TABLE IF NOT EXISTS persona_boundaries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL DEFAULT 'topic' CHECK (kind IN ('topic', 'person', 'phrase')),
+  subject text NOT NULL,
+  terms text[] NOT NULL DEFAULT '{}',
+  handling text NOT NULL DEFAULT 'avoid' CHECK (handling IN ('avoid', 'redirect', 'only_if_raised')),
+  guidance text,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suggested', 'declined')),
+  suggested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_persona_boundaries_persona
+  ON persona_boundaries(persona_id, status);
+
+ALTER TABLE persona_boundaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their personas' boundaries"
+  ON persona_boundaries FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_boundaries.persona_id AND p.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_boundaries.persona_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Collaborators can view active boundaries and their suggestions"
+  ON persona_boundaries FOR SELECT
+  TO authenticated
+  USING (
+    (status = 'active' OR suggested_by = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_boundaries.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Collaborators can suggest boundaries"
+  ON persona_boundaries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'suggested'
+    AND suggested_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_boundaries.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Collaborators can withdraw their pending suggestions"
+  ON persona_boundaries FOR DELETE
+  TO authenticated
+  USING (status = 'suggested' AND suggested_by = auth.uid());
@@ -0,0 +1,28 @@
+/*
+  # How a persona refers to its own passing
+
+  1. Changes to `personas`
+    - `passing_reference` (text) - set by the owner:
+      - open: the persona can say plainly that it has died ("since I passed")
+      - gentle: soft words only ("since I've been gone", "from where I am now")
+      - unspoken: the persona never mentions its own death
+      Whatever the setting, events after `date_of_passing` are things the persona hears about
+      or watches over, never things it was there for
+
+  2. Memories
+    - No schema change. Memories are placed before or after `date_of_passing` from
+      `metadata.occurred_on` when known, otherwise from years in their text; facts from live
+      conversation are stamped with `metadata.timeframe` when they are extracted
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'personas' AND column_name = 'passing_reference'
+  ) THEN
+    ALTER TABLE personas
+      ADD COLUMN passing_reference text NOT NULL DEFAULT 'gentle'
+        CHECK (passing_reference IN ('open', 'gentle', 'unspoken'));
+  END IF;
+END $$;
@@ -0,0 +1,124 @@
+/*
+  # Family news feed
+
+  1. New Tables
+    - `family_updates` - life updates the family posts for a persona to know about
+      - `kind` (text) - new_baby, graduation, wedding, engagement, new_job, birthday,
+        achievement, move, health or general
+      - `description` (text) - The update in the poster's words
+      - `event_date` (date) - When it happened (or will happen)
+      - `people` (text[]) - Who it is about
+      - `visibility` (text) - family (brought up with everyone who talks to the persona) or
+        private (only in the poster's own conversations)
+      - `posted_by` (uuid), `posted_by_name` (text) - So the persona can say who told it
+    - `family_update_mentions` - which updates the persona has already brought up with whom,
+      so each piece of news is raised once per person
+
+  2. Security
+    - RLS on both tables
+    - The persona's owner and accepted collaborators can post updates and see updates shared
+      with the family; private updates are visible to their poster only
+    - Posters edit and remove their own updates; the owner can remove any
+    - Users manage their own mention rows
+
+  3. Notes
+    - Replaces keyword matching over imported social captions (`persona_content`)
+*/
+
+CREATE TABLE IF NOT EXISTS family_updates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  posted_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  posted_by_name text,
+  kind text NOT NULL DEFAULT 'general' CHECK (kind IN (
+    'new_baby', 'graduation', 'wedding', 'engagement', 'new_job', 'birthday',
+    'achievement', 'move', 'health', 'general'
+  )),
+  description text NOT NULL,
+  event_date date NOT NULL DEFAULT CURRENT_DATE,
+  people text[] NOT NULL DEFAULT '{}',
+  visibility text NOT NULL DEFAULT 'family' CHECK (visibility IN ('family', 'private')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_updates_persona
+  ON family_updates(persona_id, event_date DESC);
+
+CREATE TABLE IF NOT EXISTS family_update_mentions (
+  update_id uuid REFERENCES family_updates(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  mentioned_at timestamptz DEFAULT now(),
+  PRIMARY KEY (update_id, user_id)
+);
+
+ALTER TABLE family_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE family_update_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Family can view shared updates and their own"
+  ON family_updates FOR SELECT
+  TO authenticated
+  USING (
+    posted_by = auth.uid()
+    OR (
+      visibility = 'family'
+      AND (
+        EXISTS (
+          SELECT 1 FROM personas p
+          WHERE p.id = family_updates.persona_id AND p.user_id = auth.uid()
+        )
+        OR EXISTS (
+          SELECT 1 FROM persona_collaborators pc
+          WHERE pc.persona_id = family_updates.persona_id
+            AND pc.collaborator_id = auth.uid()
+            AND pc.status = 'accepted'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Family can post updates"
+  ON family_updates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    posted_by = auth.uid()
+    AND (
+      EXISTS (
+        SELECT 1 FROM personas p
+        WHERE p.id = family_updates.persona_id AND p.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM persona_collaborators pc
+        WHERE pc.persona_id = family_updates.persona_id
+          AND pc.collaborator_id = auth.uid()
+          AND pc.status = 'accepted'
+      )
+    )
+  );
+
+CREATE POLICY "Posters can edit their updates"
+  ON family_updates FOR UPDATE
+  TO authenticated
+  USING (posted_by = auth.uid())
+  WITH CHECK (posted_by = auth.uid());
+
+CREATE POLICY "Posters and owners can remove updates"
+  ON family_updates FOR DELETE
+  TO authenticated
+  USING (
+    posted_by = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = family_updates.persona_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their own mentions"
+  ON family_update_mentions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can record their own mentions"
+  ON family_update_mentions FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
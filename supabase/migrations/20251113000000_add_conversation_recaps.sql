@@ -0,0 +1,41 @@
+/*
+  # End-of-conversation recaps
+
+  1. Changes to `conversations`
+    - `recap` (jsonb) - written when a call ends: a short summary of what was talked about, the
+      topics, the facts the user shared (ids of the `pending` memories picked up in the session),
+      which of them the user chose to keep, and whether they went on to Haven
+    - `is_meaningful` (boolean) - the user marked this conversation as one that mattered
+
+  2. Security
+    - Conversations are already limited to their own user
+    - New policy on `persona_memories`: users can decline facts they shared in conversation
+      while those facts are still pending; approving stays with the persona's owner
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'conversations' AND column_name = 'recap'
+  ) THEN
+    ALTER TABLE conversations ADD COLUMN recap jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'conversations' AND column_name = 'is_meaningful'
+  ) THEN
+    ALTER TABLE conversations ADD COLUMN is_meaningful boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_meaningful
+  ON conversations(user_id, persona_id)
+  WHERE is_meaningful;
+
+CREATE POLICY "Users can decline their own pending conversation facts"
+  ON persona_memories FOR UPDATE
+  TO authenticated
+  USING (added_by = auth.uid() AND review_status = 'pending')
+  WITH CHECK (added_by = auth.uid() AND review_status IN ('pending', 'rejected'));
@@ -0,0 +1,307 @@
+/*
+  # Memory importance that changes over time
+
+  1. Changes to `persona_memories`
+    - `is_core` (boolean) - pinned by the owner as a core memory: always retrieved first and
+      never decays
+    - `base_importance` (float) - importance when the memory was added, kept for reference
+    - `reinforced_at` (timestamptz) - last time a well-rated reply or a re-confirmation raised it
+    - `last_retrieved_at` (timestamptz), `retrieval_count` (integer) - when and how often the
+      memory was put in a persona prompt
+
+  2. New Tables
+    - `reply_ratings` - a user's rating of a persona reply (1 = felt like them, -1 = didn't),
+      with the memories the reply relied on
+
+  3. Functions
+    - `memory_salience` - importance blended with recency (since last reinforced, else added);
+      1 for core memories
+    - `reinforce_memories` - raises or lowers importance, clamped to 0.05..1; callable by the
+      persona's owner and accepted collaborators
+    - `mark_memories_retrieved` - records that memories were used in a prompt
+    - `decay_idle_memories` - nudges down memories nobody has retrieved or reinforced for a while;
+      service role only, run nightly
+    - `search_memories` and `search_memories_text` now order by relevance blended with salience
+      and return `is_core` and `salience`
+
+  4. Security
+    - RLS on `reply_ratings`: users add and see their own ratings
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'persona_memories' AND column_name = 'is_core'
+  ) THEN
+    ALTER TABLE persona_memories
+      ADD COLUMN is_core boolean NOT NULL DEFAULT false,
+      ADD COLUMN base_importance float,
+      ADD COLUMN reinforced_at timestamptz,
+      ADD COLUMN last_retrieved_at timestamptz,
+      ADD COLUMN retrieval_count integer NOT NULL DEFAULT 0;
+
+    UPDATE persona_memories SET base_importance = importance;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_persona_memories_core
+  ON persona_memories(persona_id)
+  WHERE is_core;
+
+CREATE OR REPLACE FUNCTION set_memory_base_importance()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.base_importance := COALESCE(NEW.base_importance, NEW.importance);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS persona_memories_set_base_importance ON persona_memories;
+CREATE TRIGGER persona_memories_set_base_importance
+  BEFORE INSERT ON persona_memories
+  FOR EACH ROW EXECUTE FUNCTION set_memory_base_importance();
+
+CREATE TABLE IF NOT EXISTS reply_ratings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL,
+  reply text NOT NULL,
+  rating smallint NOT NULL CHECK (rating IN (-1, 1)),
+  memory_ids text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reply_ratings_persona
+  ON reply_ratings(persona_id, created_at DESC);
+
+ALTER TABLE reply_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reply ratings"
+  ON reply_ratings FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can rate replies"
+  ON reply_ratings FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION memory_salience(
+  importance float,
+  is_core boolean,
+  touched_at timestamptz,
+  half_life_days float DEFAULT 180
+)
+RETURNS float
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN is_core THEN 1.0
+    ELSE 0.75 * importance
+      + 0.25 * power(0.5, GREATEST(0, EXTRACT(EPOCH FROM (now() - touched_at)) / 86400.0) / half_life_days)
+  END;
+$$;
+
+-- Ratings come from collaborators as well as the owner, who alone can update memories
+-- directly — so these check access themselves and run with definer rights
+CREATE OR REPLACE FUNCTION reinforce_memories(memory_ids text[], amount float)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  UPDATE persona_memories pm
+  SET importance = LEAST(1.0, GREATEST(0.05, pm.importance + amount)),
+      reinforced_at = CASE WHEN amount > 0 THEN now() ELSE pm.reinforced_at END
+  WHERE pm.id = ANY(memory_ids)
+    AND (
+      EXISTS (SELECT 1 FROM personas p WHERE p.id = pm.persona_id AND p.user_id = auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM persona_collaborators pc
+        WHERE pc.persona_id = pm.persona_id
+          AND pc.collaborator_id = auth.uid()
+          AND pc.status = 'accepted'
+      )
+    );
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_memories_retrieved(memory_ids text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE persona_memories pm
+  SET last_retrieved_at = now(),
+      retrieval_count = pm.retrieval_count + 1
+  WHERE pm.id = ANY(memory_ids)
+    AND (
+      EXISTS (SELECT 1 FROM personas p WHERE p.id = pm.persona_id AND p.user_id = auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM persona_collaborators pc
+        WHERE pc.persona_id = pm.persona_id
+          AND pc.collaborator_id = auth.uid()
+          AND pc.status = 'accepted'
+      )
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decay_idle_memories(
+  idle_days integer DEFAULT 60,
+  rate float DEFAULT 0.02,
+  floor_importance float DEFAULT 0.2
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  UPDATE persona_memories pm
+  SET importance = GREATEST(floor_importance, pm.importance * (1 - rate))
+  WHERE NOT pm.is_core
+    AND pm.review_status <> 'rejected'
+    AND pm.importance > floor_importance
+    AND GREATEST(pm.created_at, pm.reinforced_at, pm.last_retrieved_at) < now() - make_interval(days => idle_days);
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION decay_idle_memories(integer, float, float) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS search_memories(uuid, vector, float, int);
+
+CREATE OR REPLACE FUNCTION search_memories(
+  query_persona_id uuid,
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 10,
+  salience_weight float DEFAULT 0.25
+)
+RETURNS TABLE (
+  id text,
+  persona_id uuid,
+  content text,
+  memory_type text,
+  source_type text,
+  source_url text,
+  importance float,
+  metadata jsonb,
+  provenance text,
+  review_status text,
+  is_core boolean,
+  created_at timestamptz,
+  similarity float,
+  salience float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT
+      pm.id,
+      pm.persona_id,
+      pm.content,
+      pm.memory_type,
+      pm.source_type,
+      pm.source_url,
+      pm.importance,
+      pm.metadata,
+      pm.provenance,
+      pm.review_status,
+      pm.is_core,
+      pm.created_at,
+      (1 - (pm.embedding <=> query_embedding))::float as similarity,
+      memory_salience(pm.importance, pm.is_core, COALESCE(pm.reinforced_at, pm.created_at))::float as salience
+    FROM persona_memories pm
+    WHERE pm.persona_id = query_persona_id
+      AND pm.review_status <> 'rejected'
+      AND 1 - (pm.embedding <=> query_embedding) > match_threshold
+  ) matches
+  ORDER BY (1 - salience_weight) * matches.similarity + salience_weight * matches.salience DESC
+  LIMIT match_count;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_memories_text(uuid, text, int);
+
+CREATE OR REPLACE FUNCTION search_memories_text(
+  query_persona_id uuid,
+  query_text text,
+  match_count int DEFAULT 10,
+  salience_weight float DEFAULT 0.25
+)
+RETURNS TABLE (
+  id text,
+  persona_id uuid,
+  content text,
+  memory_type text,
+  source_type text,
+  source_url text,
+  importance float,
+  metadata jsonb,
+  provenance text,
+  review_status text,
+  is_core boolean,
+  created_at timestamptz,
+  rank float,
+  salience float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  ts_query tsquery;
+BEGIN
+  -- Conversational input is loose; match any meaningful word rather than all of them
+  ts_query := to_tsquery('english', NULLIF(array_to_string(
+    ARRAY(
+      SELECT quote_literal(lexeme)
+      FROM unnest(to_tsvector('english', query_text))
+    ),
+    ' | '
+  ), ''));
+
+  IF ts_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT
+      pm.id,
+      pm.persona_id,
+      pm.content,
+      pm.memory_type,
+      pm.source_type,
+      pm.source_url,
+      pm.importance,
+      pm.metadata,
+      pm.provenance,
+      pm.review_status,
+      pm.is_core,
+      pm.created_at,
+      ts_rank(to_tsvector('english', pm.content), ts_query)::float as rank,
+      memory_salience(pm.importance, pm.is_core, COALESCE(pm.reinforced_at, pm.created_at))::float as salience
+    FROM persona_memories pm
+    WHERE pm.persona_id = query_persona_id
+      AND pm.review_status <> 'rejected'
+      AND to_tsvector('english', pm.content) @@ ts_query
+  ) matches
+  -- ts_rank is small and unbounded; squash it to 0..1 before blending
+  ORDER BY (1 - salience_weight) * (matches.rank / (matches.rank + 0.1)) + salience_weight * matches.salience DESC
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,99 @@
+/*
+  # Life timeline
+
+  Memories are laid out by decade and life stage from the dates in their metadata and text.
+  Memories with no date wait to be placed by the family.
+
+  1. Functions
+    - `timeline_memories` - a persona's memories for its timeline, for the owner and accepted
+      collaborators (who can't read `persona_memories` directly); pending memories only show to
+      the owner and to whoever added them
+    - `place_memory_on_timeline` - dates a memory by hand: stores `occurred_on`,
+      `date_precision` (day, month, year or decade), `date_source` = 'placed', an optional
+      `life_stage` and who placed it in the memory's metadata; callable by the owner and
+      accepted collaborators
+*/
+
+CREATE OR REPLACE FUNCTION timeline_memories(query_persona_id uuid)
+RETURNS TABLE (
+  id text,
+  content text,
+  memory_type text,
+  importance float,
+  metadata jsonb,
+  review_status text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_owner boolean;
+BEGIN
+  SELECT EXISTS (SELECT 1 FROM personas p WHERE p.id = query_persona_id AND p.user_id = auth.uid())
+  INTO is_owner;
+
+  IF NOT is_owner AND NOT EXISTS (
+    SELECT 1 FROM persona_collaborators pc
+    WHERE pc.persona_id = query_persona_id
+      AND pc.collaborator_id = auth.uid()
+      AND pc.status = 'accepted'
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT pm.id, pm.content, pm.memory_type, pm.importance::float, pm.metadata, pm.review_status
+  FROM persona_memories pm
+  WHERE pm.persona_id = query_persona_id
+    AND (
+      pm.review_status = 'approved'
+      OR (pm.review_status = 'pending' AND (is_owner OR pm.added_by = auth.uid()))
+    )
+  ORDER BY pm.importance DESC
+  LIMIT 1000;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION place_memory_on_timeline(
+  memory_id text,
+  occurred_on date,
+  date_precision text,
+  life_stage text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  IF date_precision NOT IN ('day', 'month', 'year', 'decade') THEN
+    RAISE EXCEPTION 'Unknown date precision: %', date_precision;
+  END IF;
+
+  UPDATE persona_memories pm
+  SET metadata = COALESCE(pm.metadata, '{}'::jsonb) || jsonb_strip_nulls(jsonb_build_object(
+        'occurred_on', occurred_on,
+        'date_precision', date_precision,
+        'date_source', 'placed',
+        'life_stage', life_stage,
+        'dated_by', auth.uid(),
+        'dated_at', now()
+      ))
+  WHERE pm.id = memory_id
+    AND (
+      EXISTS (SELECT 1 FROM personas p WHERE p.id = pm.persona_id AND p.user_id = auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM persona_collaborators pc
+        WHERE pc.persona_id = pm.persona_id
+          AND pc.collaborator_id = auth.uid()
+          AND pc.status = 'accepted'
+      )
+    );
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated > 0;
+END;
+$$;
@@ -0,0 +1,218 @@
+/*
+  # People graph for each persona
+
+  1. New Tables
+    - `persona_people` - the people in a persona's life
+      - `name` (text) - the name the family knows them by, unique per persona
+      - `aliases` (text[]) - other names and spellings they turn up under
+      - `nickname` (text) - what the persona called them
+      - `relationship` (text) - who they are to the persona, e.g. granddaughter
+      - `user_id` (uuid) - their own account, when they talk to the persona themselves
+      - `source` (text) - family (added by hand), extracted (picked up from content) or
+        nickname_map (the persona's nickname list)
+      - `confirmed` (boolean) - checked by the family; extraction never overwrites confirmed
+        details
+      - `mention_count` (integer) - how often extraction has come across them
+    - `persona_person_links` - how two people relate to each other: `person_id` is
+      `relationship` of `related_person_id`, e.g. Lily is the daughter of Sarah
+
+  2. Security
+    - RLS on both tables: the persona's owner and accepted collaborators can see, add and edit
+      people and links; whoever added one and the owner can remove it
+
+  3. Backfill
+    - Every `nickname_map` entry becomes a confirmed person
+*/
+
+CREATE TABLE IF NOT EXISTS persona_people (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  aliases text[] NOT NULL DEFAULT '{}',
+  nickname text,
+  relationship text,
+  notes text,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  source text NOT NULL DEFAULT 'family' CHECK (source IN ('family', 'extracted', 'nickname_map')),
+  confirmed boolean NOT NULL DEFAULT false,
+  mention_count integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_persona_people_name
+  ON persona_people(persona_id, lower(name));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_persona_people_user
+  ON persona_people(persona_id, user_id)
+  WHERE user_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS persona_person_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  persona_id uuid REFERENCES personas(id) ON DELETE CASCADE NOT NULL,
+  person_id uuid REFERENCES persona_people(id) ON DELETE CASCADE NOT NULL,
+  related_person_id uuid REFERENCES persona_people(id) ON DELETE CASCADE NOT NULL,
+  relationship text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (person_id, related_person_id),
+  CHECK (person_id <> related_person_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_persona_person_links_persona
+  ON persona_person_links(persona_id);
+
+ALTER TABLE persona_people ENABLE ROW LEVEL SECURITY;
+ALTER TABLE persona_person_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Family can view a persona's people"
+  ON persona_people FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_people.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_people.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Family can add people"
+  ON persona_people FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_people.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_people.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Family can edit people"
+  ON persona_people FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_people.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_people.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_people.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_people.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Adders and owners can remove people"
+  ON persona_people FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_people.persona_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Family can view how people are related"
+  ON persona_person_links FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_person_links.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_person_links.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Family can link people"
+  ON persona_person_links FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_person_links.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_person_links.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Family can edit links"
+  ON persona_person_links FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_person_links.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_person_links.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_person_links.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_person_links.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Adders and owners can remove links"
+  ON persona_person_links FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_person_links.persona_id AND p.user_id = auth.uid()
+    )
+  );
+
+INSERT INTO persona_people (persona_id, name, nickname, source, confirmed, created_by)
+SELECT p.id, trim(entry->>'person'), NULLIF(trim(entry->>'nickname'), ''), 'nickname_map', true, p.user_id
+FROM personas p
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(p.nickname_map::jsonb) = 'array' THEN p.nickname_map::jsonb ELSE '[]'::jsonb END
+) AS entry
+WHERE trim(COALESCE(entry->>'person', '')) <> ''
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,49 @@
+/*
+  # Family tree (GEDCOM) import and export
+
+  1. Changes to `persona_people`
+    - `born_on`, `died_on` (text) - an ISO date, or just the year or year-month when that is
+      all the family tree records
+    - `gedcom_id` (text) - the person's record id in the imported family tree, so importing the
+      same file again updates them instead of adding them twice
+    - `relationship_kind` (text) - spouse, child, grandchild, parent, sibling, grandparent,
+      friend or other: the relationship the persona's conversation guidance is written for,
+      used when someone who claimed this person talks to the persona
+    - `source` also allows `gedcom`
+
+  2. Changes to `personas`
+    - `born_on` (text) - same format; the life timeline counts ages from it
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'persona_people' AND column_name = 'born_on'
+  ) THEN
+    ALTER TABLE persona_people
+      ADD COLUMN born_on text CHECK (born_on ~ '^\d{4}(-\d{2}(-\d{2})?)?$'),
+      ADD COLUMN died_on text CHECK (died_on ~ '^\d{4}(-\d{2}(-\d{2})?)?$'),
+      ADD COLUMN gedcom_id text,
+      ADD COLUMN relationship_kind text CHECK (relationship_kind IN ('spouse', 'child', 'grandchild', 'parent', 'sibling', 'grandparent', 'friend', 'other'));
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'personas' AND column_name = 'born_on'
+  ) THEN
+    ALTER TABLE personas
+      ADD COLUMN born_on text CHECK (born_on ~ '^\d{4}(-\d{2}(-\d{2})?)?$');
+  END IF;
+END $$;
+
+ALTER TABLE persona_people DROP CONSTRAINT IF EXISTS persona_people_source_check;
+ALTER TABLE persona_people
+  ADD CONSTRAINT persona_people_source_check CHECK (source IN ('family', 'extracted', 'nickname_map', 'gedcom'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_persona_people_gedcom
+  ON persona_people(persona_id, gedcom_id)
+  WHERE gedcom_id IS NOT NULL;
@@ -0,0 +1,33 @@
+/*
+  # Session summaries keyed by conversation
+
+  1. Changes to `conversation_summary_entries`
+    - `conversation_id` (uuid) - the call a session entry summarises. Every gateway instance
+      serving turns of the same call writes the same entry, and back-to-back calls get one each
+    - `summarized_turns` (int) - how many turns of the call the summary covers, so an instance
+      picking the call up part-way carries on from there instead of summarising it again
+
+  2. Indexes
+    - One session entry per conversation
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'conversation_summary_entries' AND column_name = 'conversation_id'
+  ) THEN
+    ALTER TABLE conversation_summary_entries
+      ADD COLUMN conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'conversation_summary_entries' AND column_name = 'summarized_turns'
+  ) THEN
+    ALTER TABLE conversation_summary_entries ADD COLUMN summarized_turns int NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_summary_entries_one_per_conversation
+  ON conversation_summary_entries(conversation_id);
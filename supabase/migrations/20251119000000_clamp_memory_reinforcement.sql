@@ -0,0 +1,40 @@
+/*
+  # Clamp memory reinforcement
+
+  1. Functions
+    - `reinforce_memories` - runs with definer rights for collaborators, so it no longer trusts the
+      caller's amount: each call moves importance by at most 0.05 either way, the largest step
+      a rating or re-confirmation takes
+*/
+
+CREATE OR REPLACE FUNCTION reinforce_memories(memory_ids text[], amount float)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  step float := LEAST(0.05, GREATEST(-0.05, COALESCE(amount, 0)));
+  updated integer;
+BEGIN
+  IF step = 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE persona_memories pm
+  SET importance = LEAST(1.0, GREATEST(0.05, pm.importance + step)),
+      reinforced_at = CASE WHEN step > 0 THEN now() ELSE pm.reinforced_at END
+  WHERE pm.id = ANY(memory_ids)
+    AND (
+      EXISTS (SELECT 1 FROM personas p WHERE p.id = pm.persona_id AND p.user_id = auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM persona_collaborators pc
+        WHERE pc.persona_id = pm.persona_id
+          AND pc.collaborator_id = auth.uid()
+          AND pc.status = 'accepted'
+      )
+    );
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
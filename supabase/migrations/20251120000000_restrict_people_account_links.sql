@@ -0,0 +1,68 @@
+/*
+  # Only link people to your own account
+
+  `persona_people.user_id` tells a persona who it is talking to, so family members can no
+  longer point someone at another person's account.
+
+  1. Security
+    - "Family can add people": `user_id` must be empty or the caller's own
+    - "Family can edit people": `user_id` can be cleared, left as it was, or set to the caller
+*/
+
+DROP POLICY IF EXISTS "Family can add people" ON persona_people;
+DROP POLICY IF EXISTS "Family can edit people" ON persona_people;
+
+CREATE POLICY "Family can add people"
+  ON persona_people FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (user_id IS NULL OR user_id = auth.uid())
+    AND (
+      EXISTS (
+        SELECT 1 FROM personas p
+        WHERE p.id = persona_people.persona_id AND p.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM persona_collaborators pc
+        WHERE pc.persona_id = persona_people.persona_id
+          AND pc.collaborator_id = auth.uid()
+          AND pc.status = 'accepted'
+      )
+    )
+  );
+
+-- The subquery reads the row as it was before the update
+CREATE POLICY "Family can edit people"
+  ON persona_people FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM personas p
+      WHERE p.id = persona_people.persona_id AND p.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM persona_collaborators pc
+      WHERE pc.persona_id = persona_people.persona_id
+        AND pc.collaborator_id = auth.uid()
+        AND pc.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    (
+      user_id IS NULL
+      OR user_id = auth.uid()
+      OR user_id = (SELECT existing.user_id FROM persona_people existing WHERE existing.id = persona_people.id)
+    )
+    AND (
+      EXISTS (
+        SELECT 1 FROM personas p
+        WHERE p.id = persona_people.persona_id AND p.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM persona_collaborators pc
+        WHERE pc.persona_id = persona_people.persona_id
+          AND pc.collaborator_id = auth.uid()
+          AND pc.status = 'accepted'
+      )
+    )
+  );
@@ -0,0 +1,82 @@
+/*
+  # Reinforce memories from stored ratings only
+
+  `reinforce_memories` could be called any number of times, so a collaborator could walk any
+  memory to 1.0 or down to the floor. Importance now only moves with a stored event.
+
+  1. Changes to `reply_ratings`
+    - One rating per user per reply (same persona, conversation and reply text); earlier
+      duplicates are removed, keeping the first
+
+  2. Triggers
+    - `reply_ratings_reinforce_memories` - a new rating moves the memories the reply relied on:
+      +0.05 for "felt like them", -0.03 for "didn't", and only memories of the rated persona
+      when the rater is its owner or an accepted collaborator
+    - `persona_memories_reinforce_on_approval` - approving a pending memory raises it by 0.05
+
+  3. Security
+    - `reinforce_memories` can no longer be called by signed-in users or anonymously
+*/
+
+DELETE FROM reply_ratings r
+USING reply_ratings earlier
+WHERE r.user_id = earlier.user_id
+  AND r.persona_id = earlier.persona_id
+  AND r.conversation_id IS NOT DISTINCT FROM earlier.conversation_id
+  AND r.reply = earlier.reply
+  AND (earlier.created_at, earlier.id) < (r.created_at, r.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reply_ratings_one_per_reply
+  ON reply_ratings(user_id, persona_id, COALESCE(conversation_id, '00000000-0000-0000-0000-000000000000'::uuid), md5(reply));
+
+CREATE OR REPLACE FUNCTION reinforce_memories_from_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  step float := CASE WHEN NEW.rating = 1 THEN 0.05 ELSE -0.03 END;
+BEGIN
+  UPDATE persona_memories pm
+  SET importance = LEAST(1.0, GREATEST(0.05, pm.importance + step)),
+      reinforced_at = CASE WHEN step > 0 THEN now() ELSE pm.reinforced_at END
+  WHERE pm.id = ANY(NEW.memory_ids)
+    AND pm.persona_id = NEW.persona_id
+    AND (
+      EXISTS (SELECT 1 FROM personas p WHERE p.id = NEW.persona_id AND p.user_id = NEW.user_id)
+      OR EXISTS (
+        SELECT 1 FROM persona_collaborators pc
+        WHERE pc.persona_id = NEW.persona_id
+          AND pc.collaborator_id = NEW.user_id
+          AND pc.status = 'accepted'
+      )
+    );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reply_ratings_reinforce_memories ON reply_ratings;
+CREATE TRIGGER reply_ratings_reinforce_memories
+  AFTER INSERT ON reply_ratings
+  FOR EACH ROW EXECUTE FUNCTION reinforce_memories_from_rating();
+
+-- Only the owner can approve a memory, and they can already set its importance directly
+CREATE OR REPLACE FUNCTION reinforce_memory_on_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.review_status = 'pending' AND NEW.review_status = 'approved' THEN
+    NEW.importance := LEAST(1.0, COALESCE(NEW.importance, 0.5) + 0.05);
+    NEW.reinforced_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS persona_memories_reinforce_on_approval ON persona_memories;
+CREATE TRIGGER persona_memories_reinforce_on_approval
+  BEFORE UPDATE OF review_status ON persona_memories
+  FOR EACH ROW EXECUTE FUNCTION reinforce_memory_on_approval();
+
+REVOKE EXECUTE ON FUNCTION reinforce_memories(text[], float) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reinforce_memories_from_rating() FROM PUBLIC, anon, authenticated;